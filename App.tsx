@@ -1,58 +1,65 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { 
-  BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, 
-  LineChart, Line, PieChart, Pie, Cell, ScatterChart, Scatter, Legend
-} from 'recharts';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { 
   LayoutDashboard, Database, FileText, Settings, Upload, Send, 
   ChevronRight, Download, Moon, Sun, Table as TableIcon, MessageSquare,
   Sparkles, DownloadCloud, FileSpreadsheet, Trash2, Github, XCircle, 
-  FileJson, FileCode, ImageIcon, FileType, Check
+  FileJson, FileCode, ImageIcon, FileType, Check, BarChart3, History, Pin, Square, Wand2, Eye, ShieldCheck, NotebookPen, Filter, X, Layers
 } from 'lucide-react';
-import { jsPDF } from 'jspdf';
 import html2canvas from 'html2canvas';
-import { analyzeData } from './services/geminiService';
-import { Dataset, Message, AIResponse, AppTheme, DataRow } from './types';
-
-// --- Utility: Robust CSV Parser ---
-const parseCSV = (text: string): { headers: string[], rows: DataRow[] } => {
-  const lines = text.split(/\r?\n/).filter(l => l.trim() !== '');
-  if (lines.length === 0) return { headers: [], rows: [] };
-
-  const parseLine = (line: string) => {
-    const result = [];
-    let startValue = 0;
-    let inQuotes = false;
-    for (let i = 0; i < line.length; i++) {
-      if (line[i] === '"') inQuotes = !inQuotes;
-      if (line[i] === ',' && !inQuotes) {
-        result.push(line.substring(startValue, i).replace(/^"|"$/g, '').trim());
-        startValue = i + 1;
-      }
-    }
-    result.push(line.substring(startValue).replace(/^"|"$/g, '').trim());
-    return result;
-  };
-
-  const headers = parseLine(lines[0]);
-  const rows = lines.slice(1).map(line => {
-    const values = parseLine(line);
-    const obj: DataRow = {};
-    headers.forEach((header, i) => {
-      const val = values[i];
-      // Try to parse numbers, otherwise keep as string
-      if (val !== undefined && val !== '' && !isNaN(Number(val.replace(/,/g, '')))) {
-        obj[header] = Number(val.replace(/,/g, ''));
-      } else {
-        obj[header] = val;
-      }
-    });
-    return obj;
-  });
+import { analyzeData, buildAnalysisPayload } from './services/geminiService';
+import { readImportFile, SUPPORTED_EXTENSIONS } from './services/importers';
+import { profileDataset } from './services/profiler';
+import { activeFilters, applyTableView, createTableView, describeColumnFilter, toCSV, visibleColumns } from './services/tableView';
+import { canDrill, drillFilters, scopeDataset, toggleDrill } from './services/drillDown';
+import { addVersion, detachLatestVersion, findVersionTarget, listVersions, versionDataset } from './services/versions';
+import { describeDiff, diffDatasets } from './services/datasetDiff';
+import { describeRelationships, joinDatasets, uniqueDatasetName } from './services/joins';
+import { latestLeaf, siblingsOf, threadTo } from './services/conversation';
+import { createSessionId, estimateStorage, loadPreferences, loadSession, savePreferences, saveSession } from './services/storage';
+import { DEFAULT_PROVIDER_SETTINGS, getProvider, isAbortError } from './services/providers';
+import { describeAnalysisError, ResponseValidationError } from './services/responseValidator';
+import { resolvePlanDataset } from './services/queryEngine';
+import { activeChart, buildChartVersion, ChartEdit } from './services/chartEditor';
+import { generateAutoInsights } from './services/autoInsights';
+import { describeSample, ingestFile, IngestProgress as IngestStatus, IngestRequest } from './services/ingest';
+import { applyTransforms, TransformError } from './services/transforms';
+import { columnPolicy, DEFAULT_PRIVACY } from './services/privacy';
+import { estimateTokens } from './services/contextBuilder';
+import { buildNotebook, buildSqlScript, NotebookEntry } from './services/codeExport';
+import { reportItems } from './services/report';
+import ChartView from './components/ChartView';
+import QueryPlanView from './components/QueryPlanView';
+import ChartEditor from './components/ChartEditor';
+import AutoInsightCards from './components/AutoInsightCards';
+import ImportPreview from './components/ImportPreview';
+import IngestProgress from './components/IngestProgress';
+import TransformPanel from './components/TransformPanel';
+import VersionPanel from './components/VersionPanel';
+import TransformProposal from './components/TransformProposal';
+import PayloadPreview from './components/PayloadPreview';
+import ToolResultsPreview from './components/ToolResultsPreview';
+import ReportBuilder from './components/ReportBuilder';
+import ReasoningTrace from './components/ReasoningTrace';
+import StatTestBlock from './components/StatTestBlock';
+import ProfilePanel from './components/ProfilePanel';
+import DataGrid from './components/DataGrid';
+import WorkspacePanel from './components/WorkspacePanel';
+import JoinBuilder from './components/JoinBuilder';
+import SessionList from './components/SessionList';
+import DashboardGrid from './components/DashboardGrid';
+import SettingsPanel from './components/SettingsPanel';
+import AnalysisErrorCard from './components/AnalysisErrorCard';
+import UserMessage from './components/UserMessage';
+import { AIResponse, ChartSelection, Dataset, Message, WorkspaceContext, AppTheme, ImportSource, TableViewState, JoinDefinition, Session, PinnedInsight, ProviderSettings, PrivacySettings, ColumnPolicy, ToolTraceStep } from './types';
+
+const DEFAULT_SESSION_NAME = 'Untitled analysis';
+const AUTOSAVE_DELAY_MS = 800;
 
-  return { headers, rows };
-};
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 * 1024 ? `${(bytes / 1024 ** 3).toFixed(1)} GB`
+    : bytes >= 1024 * 1024 ? `${(bytes / 1024 ** 2).toFixed(1)} MB`
+    : `${Math.max(1, Math.round(bytes / 1024))} KB`;
 
 // --- Components ---
 
@@ -70,65 +77,83 @@ const SidebarItem: React.FC<{ icon: React.ReactNode; label: string; active?: boo
   </button>
 );
 
-const ChartView: React.FC<{ response: AIResponse; chartRef: React.RefObject<HTMLDivElement> }> = ({ response, chartRef }) => {
-  const { chartType, chartData, xAxisLabel, yAxisLabel } = response;
-  const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#06b6d4'];
-
-  if (chartType === 'none' || !chartData || chartData.length === 0) return null;
-
-  return (
-    <div ref={chartRef} className="h-80 w-full mt-6 bg-slate-50/50 dark:bg-slate-800/30 rounded-2xl p-6 border border-slate-100 dark:border-slate-800 shadow-inner chart-container overflow-hidden">
-      <ResponsiveContainer width="100%" height="100%">
-        {chartType === 'bar' ? (
-          <BarChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 40 }}>
-            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
-            <XAxis dataKey="name" fontSize={11} tick={{ fill: '#64748b' }} angle={-25} textAnchor="end" label={{ value: xAxisLabel, position: 'insideBottom', offset: -25, fontSize: 12 }} />
-            <YAxis fontSize={11} tick={{ fill: '#64748b' }} label={{ value: yAxisLabel, angle: -90, position: 'insideLeft', offset: 10, fontSize: 12 }} />
-            <Tooltip contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgba(0,0,0,0.1)' }} />
-            <Bar dataKey="value" fill="#3b82f6" radius={[6, 6, 0, 0]} />
-          </BarChart>
-        ) : chartType === 'line' ? (
-          <LineChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
-            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
-            <XAxis dataKey="name" fontSize={11} tick={{ fill: '#64748b' }} />
-            <YAxis fontSize={11} tick={{ fill: '#64748b' }} />
-            <Tooltip contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgba(0,0,0,0.1)' }} />
-            <Line type="monotone" dataKey="value" stroke="#3b82f6" strokeWidth={3} dot={{ r: 5, fill: '#3b82f6' }} activeDot={{ r: 7 }} />
-          </LineChart>
-        ) : chartType === 'pie' ? (
-          <PieChart>
-            <Pie data={chartData} cx="50%" cy="50%" innerRadius={70} outerRadius={90} paddingAngle={8} dataKey="value" nameKey="name" animationDuration={1000}>
-              {chartData.map((_, index) => (
-                <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-              ))}
-            </Pie>
-            <Tooltip />
-            <Legend verticalAlign="bottom" height={36} />
-          </PieChart>
-        ) : (
-          <ScatterChart margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
-            <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
-            <XAxis dataKey="x" name={xAxisLabel} fontSize={11} type="number" label={{ value: xAxisLabel, position: 'insideBottom', offset: -10 }} />
-            <YAxis dataKey="y" name={yAxisLabel} fontSize={11} type="number" label={{ value: yAxisLabel, angle: -90, position: 'insideLeft' }} />
-            <Tooltip cursor={{ strokeDasharray: '3 3' }} />
-            <Scatter name="Data" data={chartData} fill="#3b82f6" />
-          </ScatterChart>
-        )}
-      </ResponsiveContainer>
-    </div>
-  );
-};
-
 export default function App() {
   const [theme, setTheme] = useState<AppTheme>(AppTheme.LIGHT);
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'dataset' | 'chat'>('dashboard');
-  const [dataset, setDataset] = useState<Dataset | null>(null);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(DEFAULT_PROVIDER_SETTINGS);
+  const [privacy, setPrivacy] = useState<PrivacySettings>(DEFAULT_PRIVACY);
+  const [reportSelection, setReportSelection] = useState<string[] | null>(null); // Open Report Builder's initial picks
+  const [payloadPreview, setPayloadPreview] = useState<{ query: string; parentId: string | null; confirm: boolean } | null>(null);
+  const [toolResultsPreview, setToolResultsPreview] = useState<{ steps: ToolTraceStep[]; resolve: (send: boolean) => void } | null>(null);
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'dataset' | 'profile' | 'chat' | 'sessions' | 'settings'>('dashboard');
+  const [sessionId, setSessionId] = useState<string>(createSessionId);
+  const [sessionName, setSessionName] = useState('');
+  const [sessionCreatedAt, setSessionCreatedAt] = useState(() => new Date());
+  const [hydrated, setHydrated] = useState(false);
+  const [sessionsVersion, setSessionsVersion] = useState(0);
+  const [storageUsage, setStorageUsage] = useState<{ usage: number; quota: number } | null>(null);
+  const [datasets, setDatasets] = useState<Dataset[]>([]);
+  const [activeDatasetId, setActiveDatasetId] = useState<string | null>(null);
+  const [contextDatasetIds, setContextDatasetIds] = useState<string[]>([]);
+  const [joinBuilderOpen, setJoinBuilderOpen] = useState(false);
+  const [pendingImport, setPendingImport] = useState<ImportSource | null>(null);
+  const [ingest, setIngest] = useState<{ fileName: string; progress: IngestStatus } | null>(null);
+  const [tableView, setTableView] = useState<TableViewState | null>(null);
+  const [transformOpen, setTransformOpen] = useState(false);
+  const [versionsOpen, setVersionsOpen] = useState(false);
+  // Two versions of a dataset whose differences are described to the model, set from the Versions panel.
+  const [comparison, setComparison] = useState<{ datasetId: string; from: number; to: number } | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
+  const [leafId, setLeafId] = useState<string | null>(null);
+  const [streamed, setStreamed] = useState<{ summary?: string; insight?: string; trace?: ToolTraceStep[] } | null>(null);
+  const [pins, setPins] = useState<PinnedInsight[]>([]);
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
   const [downloading, setDownloading] = useState<string | null>(null);
   const chatEndRef = useRef<HTMLDivElement>(null);
-  
+  const chatInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const ingestAbortRef = useRef<AbortController | null>(null);
+  // Datasets already written for the current session; unchanged datasets are not rewritten on autosave.
+  const savedDatasets = useRef(new WeakSet<Dataset>());
+
+  const dataset = datasets.find(d => d.id === activeDatasetId) ?? null;
+  const thread = useMemo(() => threadTo(messages, leafId), [messages, leafId]);
+  const profile = useMemo(() => (dataset ? profileDataset(dataset) : []), [dataset]);
+  const autoInsights = useMemo(() => (dataset ? generateAutoInsights(dataset, profile) : []), [dataset, profile]);
+  const columnPolicies = useMemo(
+    () => (dataset ? Object.fromEntries(profile.map(p => [p.column, columnPolicy(dataset, p, p.column)])) : {}),
+    [dataset, profile]
+  );
+  const profileTypes = useMemo(() => Object.fromEntries(profile.map(p => [p.column, p.type])), [profile]);
+  const viewColumns = useMemo(() => (dataset && tableView ? visibleColumns(dataset, tableView) : []), [dataset, tableView]);
+  // Layout-only changes (column widths, order) must not re-filter every row.
+  const viewRows = useMemo(
+    () => (dataset && tableView ? applyTableView(dataset, tableView, profileTypes) : []),
+    [dataset, tableView?.search, tableView?.filters, tableView?.sort, tableView?.hiddenColumns, profileTypes]
+  );
+  const viewFilters = useMemo(() => (dataset && tableView ? activeFilters(dataset, tableView.filters) : []), [dataset, tableView?.filters]);
+  // While Data Table filters are active, chat questions are asked about the records they select.
+  const chatDataset = useMemo(() => (dataset && tableView ? scopeDataset(dataset, tableView.filters) : dataset), [dataset, tableView?.filters]);
+  const chatProfile = useMemo(() => (chatDataset && chatDataset !== dataset ? profileDataset(chatDataset) : profile), [chatDataset, dataset, profile]);
+  // Earlier versions can be queried by name, e.g. "sales.csv (version 1)", alongside the loaded datasets.
+  const planDatasets = useMemo(
+    () => [...datasets, ...datasets.flatMap(d => (d.versions ?? []).map((_, i) => versionDataset(d, i + 1)))],
+    [datasets]
+  );
+  const comparedVersions = useMemo(() => {
+    if (!dataset || comparison?.datasetId !== dataset.id) return null;
+    const count = listVersions(dataset).length;
+    if (comparison.from > count || comparison.to > count) return null;
+    const from = versionDataset(dataset, comparison.from);
+    const to = versionDataset(dataset, comparison.to);
+    return { from, to, changes: describeDiff(diffDatasets(from, to), to, privacy) };
+  }, [dataset, comparison, privacy]);
+
+  // Transforms that add, rename or drop columns replace the columns array, so the view starts over.
+  useEffect(() => {
+    setTableView(dataset ? createTableView(dataset) : null);
+  }, [dataset?.id, dataset?.columns]);
+
   // Refs for chart elements to enable PNG/PDF export
   const chartRefs = useRef<{ [key: string]: React.RefObject<HTMLDivElement> }>({});
 
@@ -142,7 +167,93 @@ export default function App() {
 
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages, loading]);
+  }, [thread, loading, streamed]);
+
+  // --- Persistence ---
+
+  const applySession = (session: Session, sessionDatasets: Dataset[]) => {
+    savedDatasets.current = new WeakSet(sessionDatasets);
+    chartRefs.current = {};
+    setSessionId(session.id);
+    setSessionName(session.name);
+    setSessionCreatedAt(session.createdAt);
+    setDatasets(sessionDatasets);
+    setActiveDatasetId(session.activeDatasetId ?? sessionDatasets[0]?.id ?? null);
+    setContextDatasetIds(session.contextDatasetIds);
+    setMessages(session.messages);
+    setLeafId(session.activeLeafId ?? session.messages[session.messages.length - 1]?.id ?? null);
+    setPins(session.pins ?? []);
+    setComparison(null);
+  };
+
+  const startNewSession = () => {
+    applySession({
+      id: createSessionId(), name: '', createdAt: new Date(), updatedAt: new Date(),
+      datasetIds: [], datasetNames: [], activeDatasetId: null, contextDatasetIds: [], messages: [], pins: []
+    }, []);
+    setActiveTab('dashboard');
+  };
+
+  const openSession = async (id: string) => {
+    try {
+      const loaded = await loadSession(id);
+      if (!loaded) return;
+      applySession(loaded.session, loaded.datasets);
+      setActiveTab(loaded.datasets.length > 0 ? 'chat' : 'dashboard');
+    } catch (err) {
+      console.error("Could not open session", err);
+    }
+  };
+
+  useEffect(() => {
+    loadPreferences()
+      .then(async prefs => {
+        setTheme(prefs.theme);
+        setProviderSettings(prefs.provider);
+        setPrivacy(prefs.privacy ?? DEFAULT_PRIVACY);
+        const loaded = prefs.lastSessionId ? await loadSession(prefs.lastSessionId) : null;
+        if (loaded) applySession(loaded.session, loaded.datasets);
+      })
+      .catch(err => console.error("Could not restore the previous session", err))
+      .finally(() => setHydrated(true));
+  }, []);
+
+  useEffect(() => {
+    if (!hydrated) return;
+    savePreferences({ theme, lastSessionId: sessionId, provider: providerSettings, privacy }).catch(err => console.error("Could not save preferences", err));
+  }, [hydrated, theme, sessionId, providerSettings, privacy]);
+
+  useEffect(() => {
+    if (!hydrated || (datasets.length === 0 && messages.length === 0)) return;
+    const timer = setTimeout(() => {
+      const session: Session = {
+        id: sessionId,
+        name: sessionName || datasets[0]?.name || DEFAULT_SESSION_NAME,
+        createdAt: sessionCreatedAt,
+        updatedAt: new Date(),
+        datasetIds: datasets.map(d => d.id),
+        datasetNames: datasets.map(d => d.name),
+        activeDatasetId,
+        contextDatasetIds,
+        messages,
+        activeLeafId: leafId,
+        pins
+      };
+      const changed = datasets.filter(d => !savedDatasets.current.has(d));
+      saveSession(session, changed)
+        .then(() => {
+          changed.forEach(d => savedDatasets.current.add(d));
+          return estimateStorage();
+        })
+        .then(setStorageUsage)
+        .catch(err => console.error("Autosave failed", err));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [hydrated, sessionId, sessionName, datasets, activeDatasetId, contextDatasetIds, messages, leafId, pins]);
+
+  useEffect(() => {
+    estimateStorage().then(setStorageUsage).catch(() => setStorageUsage(null));
+  }, []);
 
   const toggleTheme = () => setTheme(prev => prev === AppTheme.LIGHT ? AppTheme.DARK : AppTheme.LIGHT);
 
@@ -150,63 +261,301 @@ export default function App() {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      try {
-        const text = event.target?.result as string;
-        const { headers, rows } = parseCSV(text);
-        if (headers.length === 0) throw new Error("Could not detect columns.");
-        setDataset({ id: Math.random().toString(36).substr(2, 9), name: file.name, columns: headers, data: rows });
-        setActiveTab('dataset');
-      } catch (err) {
-        alert("Invalid CSV format. Please ensure it's a valid CSV with a header row.");
+    e.target.value = '';
+    readImportFile(file)
+      .then(setPendingImport)
+      .catch((err: Error) => alert(`Could not import ${file.name}: ${err.message}`));
+  };
+
+  const addDataset = (added: Dataset) => {
+    setDatasets(prev => [...prev, { ...added, name: uniqueDatasetName(added.name, prev) }]);
+    setActiveDatasetId(added.id);
+    setActiveTab('dataset');
+  };
+
+  const handleImportConfirm = (imported: Dataset) => {
+    setPendingImport(null);
+    const upload: Dataset = { ...imported, upload: { fileName: imported.name, uploadedAt: new Date() } };
+    // A file with the same schema as a loaded upload becomes its new version; the diff opens right away.
+    const previous = findVersionTarget(upload, datasets);
+    if (previous) {
+      const versioned = addVersion(previous, upload);
+      updateDataset(versioned);
+      setActiveDatasetId(previous.id);
+      setVersionsOpen(true);
+      setActiveTab('dataset');
+      if (versioned.skippedSteps) {
+        setTransformOpen(true);
+        alert(`Some transform steps no longer apply to ${upload.name} and were skipped. They are kept in the Transform panel for review:\n${versioned.skippedSteps.map(s => s.error).join('\n')}`);
       }
-    };
-    reader.readAsText(file);
+      return;
+    }
+    addDataset(upload);
+    // New uploads open on the chat, where the first-look insight cards are shown.
+    setActiveTab('chat');
+  };
+
+  const detachVersion = () => {
+    if (!dataset?.versions?.length) return;
+    const { restored, detached } = detachLatestVersion(dataset);
+    updateDataset(restored);
+    addDataset(detached);
+    setVersionsOpen(false);
+  };
+
+  const explainVersions = (from: number, to: number) => {
+    if (!dataset) return;
+    setComparison({ datasetId: dataset.id, from, to });
+    setInput(`What changed between version ${from} and version ${to} of ${dataset.name}, and why might it have changed?`);
+    setActiveTab('chat');
   };
 
-  const handleSendMessage = async (textOverride?: string) => {
+  const handleImportStream = async (request: IngestRequest) => {
+    const fileName = request.file.name;
+    const controller = new AbortController();
+    ingestAbortRef.current = controller;
+    setPendingImport(null);
+    setIngest({ fileName, progress: { phase: 'reading', bytesRead: 0, totalBytes: request.file.size, rows: 0 } });
+    try {
+      const imported = await ingestFile(request, progress => setIngest({ fileName, progress }), controller.signal);
+      handleImportConfirm(imported);
+    } catch (err: any) {
+      if (!isAbortError(err)) alert(`Could not import ${fileName}: ${err.message}`);
+    } finally {
+      ingestAbortRef.current = null;
+      setIngest(null);
+    }
+  };
+
+  const digDeeper = (question: string) => {
+    setInput(question);
+    chatInputRef.current?.focus();
+  };
+
+  const handleCreateJoin = (join: JoinDefinition) => {
+    const left = datasets.find(d => d.id === join.leftId);
+    const right = datasets.find(d => d.id === join.rightId);
+    if (!left || !right) return;
+    try {
+      addDataset(joinDatasets(left, right, join));
+      setJoinBuilderOpen(false);
+    } catch (err: any) {
+      alert(err.message);
+    }
+  };
+
+  const removeDataset = (id: string) => {
+    const remaining = datasets.filter(d => d.id !== id);
+    setDatasets(remaining);
+    setContextDatasetIds(prev => prev.filter(c => c !== id));
+    if (id === activeDatasetId) {
+      setActiveDatasetId(remaining[0]?.id ?? null);
+      if (remaining.length === 0) {
+        setActiveTab('dashboard');
+        clearChat();
+      }
+    }
+  };
+
+  const toggleContextDataset = (id: string) =>
+    setContextDatasetIds(prev => (prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id]));
+
+  // Provider, model and endpoint, as shown wherever data is about to be sent.
+  const providerDestination = `${getProvider(providerSettings.provider).label} · ${providerSettings.model}${providerSettings.baseUrl ? ` · ${providerSettings.baseUrl}` : ''}`;
+
+  const historyTo = (parentId: string | null) => threadTo(messages, parentId).map(m => ({ role: m.role, content: m.content }));
+
+  const workspaceContext = (active: Dataset): WorkspaceContext => ({
+    datasets: [
+      ...datasets.filter(d => d.id !== active.id && contextDatasetIds.includes(d.id)),
+      ...(comparedVersions ? [comparedVersions.from, comparedVersions.to].filter(v => v.id !== active.id) : [])
+    ],
+    relationships: describeRelationships(datasets),
+    ...(comparedVersions ? { comparison: { from: comparedVersions.from.name, to: comparedVersions.to.name, changes: comparedVersions.changes } } : {})
+  });
+
+  // Prompt size for the next question, without the question itself so typing stays cheap.
+  const contextStats = useMemo(
+    () => (chatDataset && activeTab === 'chat'
+      ? buildAnalysisPayload('', chatDataset, chatProfile, historyTo(leafId), workspaceContext(chatDataset), privacy, providerSettings.contextBudget).stats
+      : null),
+    [chatDataset, chatProfile, messages, leafId, datasets, contextDatasetIds, comparedVersions, privacy, providerSettings.contextBudget, activeTab]
+  );
+
+  // Clicking a chart element filters the Data Table to the records behind it; from chat it also opens them.
+  const drillInto = (response: AIResponse, selection: ChartSelection, open: boolean) => {
+    if (!tableView) return;
+    const filters = drillFilters(response, selection, profileTypes);
+    if (!filters) return;
+    setTableView({ ...tableView, filters: toggleDrill(tableView.filters, filters) });
+    if (open) setActiveTab('dataset');
+  };
+
+  const removeViewFilter = (column?: string) => {
+    if (!tableView) return;
+    setTableView({ ...tableView, filters: column ? Object.fromEntries(Object.entries(tableView.filters).filter(([c]) => c !== column)) : {} });
+  };
+
+  // Asks a question as a reply to parentId. Defaults to continuing the branch on screen.
+  // With "preview every request" on, the payload is shown first and sent once confirmed.
+  const handleSendMessage = async (textOverride?: string, parentId: string | null = leafId, previewed = false) => {
     const query = textOverride || input;
-    if (!query.trim() || !dataset || loading) return;
+    if (!query.trim() || !chatDataset || loading) return;
+    if (privacy.previewBeforeSend && !previewed) {
+      setPayloadPreview({ query, parentId, confirm: true });
+      return;
+    }
 
-    const userMsg: Message = { id: Date.now().toString(), role: 'user', content: query, timestamp: new Date() };
+    const userMsg: Message = {
+      id: Date.now().toString(),
+      role: 'user',
+      content: query,
+      parentId,
+      timestamp: new Date(),
+      ...(chatDataset.scope ? { scope: viewFilters.map(([column, filter]) => describeColumnFilter(column, filter)) } : {})
+    };
     setMessages(prev => [...prev, userMsg]);
+    setLeafId(userMsg.id);
     setInput('');
     setLoading(true);
+    setStreamed(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
-      const history = messages.map(m => ({ role: m.role, content: m.content }));
-      const response = await analyzeData(query, dataset, history);
+      const response = await analyzeData(query, chatDataset, chatProfile, historyTo(parentId), workspaceContext(chatDataset), providerSettings, {
+        signal: controller.signal,
+        onPartial: partial => setStreamed(prev => ({ ...prev, ...partial })),
+        onTrace: trace => setStreamed(prev => ({ ...prev, trace })),
+        // Tool results leave the browser too, so they get the same confirmation as the payload.
+        confirmToolResults: privacy.previewBeforeSend ? steps => new Promise(resolve => setToolResultsPreview({ steps, resolve })) : undefined,
+        privacy
+      });
       
       const assistantMsg: Message = { 
         id: (Date.now() + 1).toString(), 
         role: 'assistant', 
         content: response.insight, 
         response, 
+        parentId: userMsg.id,
         timestamp: new Date() 
       };
       
       setMessages(prev => [...prev, assistantMsg]);
+      setLeafId(assistantMsg.id);
     } catch (error: any) {
-      const errorMsg: Message = { id: (Date.now() + 1).toString(), role: 'assistant', content: error.message, timestamp: new Date() };
+      const partial = error instanceof ResponseValidationError ? error.partial : undefined;
+      const errorMsg: Message = {
+        id: (Date.now() + 1).toString(),
+        role: 'assistant',
+        content: partial?.insight ?? error.message,
+        response: partial,
+        error: describeAnalysisError(error),
+        parentId: userMsg.id,
+        timestamp: new Date()
+      };
       setMessages(prev => [...prev, errorMsg]);
+      setLeafId(errorMsg.id);
     } finally {
+      abortRef.current = null;
+      setStreamed(null);
       setLoading(false);
     }
   };
 
+  const stopGeneration = () => abortRef.current?.abort();
+
+  // Asks a past question again, optionally reworded, as a new branch beside the original.
+  const resendMessage = (userMessage: Message, content = userMessage.content) => {
+    handleSendMessage(content, userMessage.parentId ?? null);
+  };
+
+  // Re-asks the question that produced a failed answer.
+  const retryMessage = (message: Message) => {
+    const question = messages.find(m => m.id === message.parentId);
+    if (question) resendMessage(question);
+  };
+
+  const switchBranch = (message: Message, offset: number) => {
+    const siblings = siblingsOf(messages, message);
+    const target = siblings[siblings.indexOf(message) + offset];
+    if (target) setLeafId(latestLeaf(messages, target.id));
+  };
+
+  const saveChartVersion = (message: Message, edit: ChartEdit) => {
+    const current = activeChart(message);
+    if (!current || !dataset) return;
+    const target = edit.queryPlan ? resolvePlanDataset(edit.queryPlan, dataset, planDatasets) : dataset;
+    const version = buildChartVersion(current.response, edit, target);
+    setMessages(prev => prev.map(m => m.id === message.id
+      ? { ...m, chartVersions: [...(m.chartVersions ?? []), version], activeChartVersionId: version.id }
+      : m));
+  };
+
+  const updateDataset = (updated: Dataset) => {
+    setDatasets(prev => prev.map(d => (d.id === updated.id ? updated : d)));
+  };
+
+  const setColumnPolicy = (column: string, policy: ColumnPolicy) => {
+    if (dataset) updateDataset({ ...dataset, columnPolicies: { ...dataset.columnPolicies, [column]: policy } });
+  };
+
+  const applyMessageTransforms = (message: Message) => {
+    if (!dataset || !message.response?.transforms) return;
+    try {
+      updateDataset(applyTransforms(dataset, message.response.transforms));
+      setMessages(prev => prev.map(m => m.id === message.id ? { ...m, transformsApplied: true } : m));
+    } catch (err) {
+      if (!(err instanceof TransformError)) throw err;
+      alert(`Could not apply the transform: ${err.message}`);
+    }
+  };
+
+  const selectChartVersion = (message: Message, versionId: string | undefined) => {
+    setMessages(prev => prev.map(m => m.id === message.id ? { ...m, activeChartVersionId: versionId } : m));
+  };
+
+  const planColumnsFor = (message: Message): string[] => {
+    const plan = activeChart(message)?.response.queryPlan;
+    if (!dataset) return [];
+    try {
+      return plan ? resolvePlanDataset(plan, dataset, planDatasets).columns : dataset.columns;
+    } catch {
+      return dataset.columns;
+    }
+  };
+
+  const pinMessage = (message: Message) => {
+    const chart = activeChart(message);
+    if (!chart || !dataset) return;
+    const question = messages.find(m => m.id === message.parentId)?.content ?? '';
+    setPins(prev => [...prev, {
+      id: `pin-${message.id}`,
+      title: chart.response.summary,
+      note: '',
+      question,
+      response: chart.response,
+      style: chart.style,
+      datasetName: chart.response.queryPlan?.dataset ?? dataset.name,
+      width: 1,
+      height: 'md',
+      pinnedAt: new Date()
+    }]);
+  };
+
   const clearChat = () => {
+    abortRef.current?.abort();
     setMessages([]);
+    setLeafId(null);
     chartRefs.current = {};
   };
 
   // --- Export Functions ---
 
+  // Exports the Data Table's current view: visible columns in display order, filtered and sorted rows.
   const downloadCSV = () => {
-    if (!dataset) return;
-    const headers = dataset.columns.join(',');
-    const rows = dataset.data.map(row => dataset.columns.map(col => `"${row[col] ?? ''}"`).join(','));
-    const content = [headers, ...rows].join('\n');
+    if (!dataset || !tableView) return;
+    const content = toCSV(viewColumns, viewRows);
     const blob = new Blob([content], { type: 'text/csv' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -216,8 +565,9 @@ export default function App() {
   };
 
   const downloadJSON = (message: Message) => {
-    if (!message.response) return;
-    const content = JSON.stringify(message.response, null, 2);
+    const chart = activeChart(message);
+    if (!chart) return;
+    const content = JSON.stringify(chart.response, null, 2);
     const blob = new Blob([content], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -227,7 +577,9 @@ export default function App() {
   };
 
   const downloadTXT = (message: Message) => {
-    const content = `InsightAI Analysis Report\n\nQuery: ${message.content}\n\nSummary: ${message.response?.summary}\n\nInsights:\n${message.content}\n\nTimestamp: ${message.timestamp.toLocaleString()}`;
+    const response = activeChart(message)?.response ?? message.response;
+    const query = messages.find(m => m.id === message.parentId)?.content ?? '';
+    const content = `InsightAI Analysis Report\n\nQuery: ${query}\n\nSummary: ${response?.summary}\n\nInsights:\n${response?.insight}\n\nTimestamp: ${message.timestamp.toLocaleString()}`;
     const blob = new Blob([content], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -236,6 +588,53 @@ export default function App() {
     a.click();
   };
 
+  const saveText = (content: string, type: string, fileName: string) => {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+  };
+
+  // The question a message answers and the dataset its plan ran against, for code exports.
+  const notebookEntry = (message: Message): NotebookEntry | null => {
+    const chart = activeChart(message);
+    if (!chart) return null;
+    return { question: messages.find(m => m.id === message.parentId)?.content ?? '', response: chart.response };
+  };
+
+  const exportDatasetFor = (entry: NotebookEntry) => {
+    if (!dataset || !entry.response.queryPlan) return dataset;
+    try {
+      return resolvePlanDataset(entry.response.queryPlan, dataset, planDatasets);
+    } catch {
+      return dataset;
+    }
+  };
+
+  const downloadNotebook = (message: Message) => {
+    const entry = notebookEntry(message);
+    const target = entry && exportDatasetFor(entry);
+    if (!entry || !target) return;
+    saveText(buildNotebook([entry], target), 'application/x-ipynb+json', `InsightAI_Analysis_${message.id}.ipynb`);
+  };
+
+  const downloadSQL = (message: Message) => {
+    const entry = notebookEntry(message);
+    const target = entry && exportDatasetFor(entry);
+    if (!entry || !target) return;
+    saveText(buildSqlScript(entry, target), 'application/sql', `InsightAI_Analysis_${message.id}.sql`);
+  };
+
+  // Every answered question in the current branch as one notebook, in order.
+  const downloadConversationNotebook = () => {
+    if (!dataset) return;
+    const entries = thread.map(notebookEntry).filter((e): e is NotebookEntry => e !== null);
+    if (entries.length === 0) return;
+    saveText(buildNotebook(entries, dataset), 'application/x-ipynb+json', `InsightAI_${dataset.name.split('.')[0]}_conversation.ipynb`);
+  };
+
   const downloadPNG = async (messageId: string) => {
     const ref = chartRefs.current[messageId];
     if (!ref || !ref.current) return;
@@ -258,54 +657,6 @@ export default function App() {
     }
   };
 
-  const downloadPDF = async (message: Message) => {
-    if (!message.response) return;
-    setDownloading(message.id);
-    
-    try {
-      const doc = new jsPDF();
-      
-      // Header
-      doc.setFontSize(22);
-      doc.setTextColor(59, 130, 246); // Blue-600
-      doc.text('InsightAI Report', 20, 30);
-      
-      doc.setFontSize(10);
-      doc.setTextColor(100, 116, 139); // Slate-500
-      doc.text(`Generated on ${new Date().toLocaleString()}`, 20, 38);
-      
-      // Summary
-      doc.setFontSize(14);
-      doc.setTextColor(15, 23, 42); // Slate-900
-      doc.text('Executive Summary', 20, 50);
-      
-      doc.setFontSize(11);
-      doc.setFont('helvetica', 'bold');
-      doc.text(message.response.summary, 20, 58, { maxWidth: 170 });
-      
-      // Details
-      doc.setFont('helvetica', 'normal');
-      doc.text(message.response.insight, 20, 70, { maxWidth: 170 });
-      
-      // Chart (if exists)
-      const ref = chartRefs.current[message.id];
-      if (ref && ref.current && message.response.chartType !== 'none') {
-        const canvas = await html2canvas(ref.current, { scale: 1.5 });
-        const imgData = canvas.toDataURL('image/png');
-        // Add chart image to PDF
-        doc.addPage();
-        doc.text('Visualization', 20, 20);
-        doc.addImage(imgData, 'PNG', 20, 30, 170, 100);
-      }
-      
-      doc.save(`InsightAI_Full_Report_${message.id}.pdf`);
-    } catch (e) {
-      console.error("PDF generation failed", e);
-    } finally {
-      setDownloading(null);
-    }
-  };
-
   return (
     <div className="flex min-h-screen bg-slate-50 dark:bg-slate-950 text-slate-900 dark:text-slate-100 transition-colors duration-500">
       
@@ -321,8 +672,22 @@ export default function App() {
         <nav className="flex-1 space-y-2">
           <SidebarItem icon={<LayoutDashboard size={20} />} label="Dashboard" active={activeTab === 'dashboard'} onClick={() => setActiveTab('dashboard')} />
           <SidebarItem icon={<Database size={20} />} label="Data Table" active={activeTab === 'dataset'} onClick={() => setActiveTab('dataset')} />
+          <SidebarItem icon={<BarChart3 size={20} />} label="Column Profile" active={activeTab === 'profile'} onClick={() => setActiveTab('profile')} />
           <SidebarItem icon={<MessageSquare size={20} />} label="AI Chat" active={activeTab === 'chat'} onClick={() => setActiveTab('chat')} />
-          <SidebarItem icon={<Settings size={20} />} label="Settings" />
+          <SidebarItem icon={<History size={20} />} label="Sessions" active={activeTab === 'sessions'} onClick={() => { setSessionsVersion(v => v + 1); setActiveTab('sessions'); }} />
+          <SidebarItem icon={<Settings size={20} />} label="Settings" active={activeTab === 'settings'} onClick={() => setActiveTab('settings')} />
+
+          <WorkspacePanel
+            datasets={datasets}
+            activeId={activeDatasetId}
+            contextIds={contextDatasetIds}
+            acceptedFiles={SUPPORTED_EXTENSIONS.join(',')}
+            onSelect={setActiveDatasetId}
+            onToggleContext={toggleContextDataset}
+            onRemove={removeDataset}
+            onUpload={handleFileUpload}
+            onJoin={() => setJoinBuilderOpen(true)}
+          />
         </nav>
 
         <div className="mt-auto pt-6 border-t border-slate-100 dark:border-slate-800">
@@ -330,10 +695,13 @@ export default function App() {
           <div className="bg-slate-50 dark:bg-slate-800/50 p-4 rounded-xl">
              <div className="flex justify-between text-xs mb-2">
                <span className="font-semibold">Local Storage</span>
-               <span className="text-slate-500">2.4 MB</span>
+               <span className="text-slate-500">{storageUsage ? formatBytes(storageUsage.usage) : 'Unavailable'}</span>
              </div>
              <div className="w-full h-1.5 bg-slate-200 dark:bg-slate-700 rounded-full overflow-hidden">
-               <div className="w-1/4 h-full bg-blue-500"></div>
+               <div
+                 className="h-full bg-blue-500"
+                 style={{ width: `${storageUsage && storageUsage.quota ? Math.max(1, (storageUsage.usage / storageUsage.quota) * 100) : 0}%` }}
+               ></div>
              </div>
           </div>
         </div>
@@ -348,6 +716,23 @@ export default function App() {
             <span className="font-bold text-slate-900 dark:text-white truncate max-w-[250px]">
               {dataset ? dataset.name : 'Ready for Analysis'}
             </span>
+            {dataset && chatDataset && viewFilters.length > 0 && (
+              <div className="flex items-center gap-2 ml-3 min-w-0 overflow-x-auto">
+                <Filter size={14} className="text-blue-500 shrink-0" />
+                {viewFilters.map(([column, filter]) => (
+                  <span key={column} className="flex items-center gap-1 shrink-0 pl-2.5 pr-1 py-1 rounded-full bg-blue-50 dark:bg-blue-900/30 text-[11px] font-bold text-blue-700 dark:text-blue-300">
+                    <span className="truncate max-w-[12rem]">{describeColumnFilter(column, filter)}</span>
+                    <button onClick={() => removeViewFilter(column)} title="Remove filter" className="p-0.5 rounded-full hover:bg-blue-100 dark:hover:bg-blue-800"><X size={12} /></button>
+                  </span>
+                ))}
+                <button onClick={() => setActiveTab('dataset')} title="Open the matching rows" className="shrink-0 text-[11px] font-bold text-slate-400 hover:text-blue-600">
+                  {chatDataset.data.length.toLocaleString()} of {dataset.data.length.toLocaleString()} rows
+                </button>
+                {viewFilters.length > 1 && (
+                  <button onClick={() => removeViewFilter()} className="shrink-0 text-[11px] font-bold text-slate-400 hover:text-red-500">Clear all</button>
+                )}
+              </div>
+            )}
           </div>
 
           <div className="flex items-center gap-4">
@@ -382,16 +767,18 @@ export default function App() {
 
               {!dataset ? (
                 <div className="bg-white dark:bg-slate-900 border-2 border-dashed border-slate-200 dark:border-slate-800 rounded-[2.5rem] p-20 text-center hover:border-blue-500 dark:hover:border-blue-600 transition-all group relative cursor-pointer">
-                  <input type="file" accept=".csv" onChange={handleFileUpload} className="absolute inset-0 opacity-0 cursor-pointer" />
+                  <input type="file" accept={SUPPORTED_EXTENSIONS.join(',')} onChange={handleFileUpload} className="absolute inset-0 opacity-0 cursor-pointer" />
                   <div className="w-24 h-24 bg-blue-50 dark:bg-blue-900/20 rounded-3xl flex items-center justify-center mx-auto mb-8 group-hover:scale-110 transition-transform duration-500 shadow-inner">
                     <Upload className="text-blue-600 w-10 h-10" />
                   </div>
                   <h3 className="text-2xl font-bold mb-3">Begin your project</h3>
-                  <p className="text-slate-500 mb-10 text-lg">Drop a CSV file or click to browse</p>
+                  <p className="text-slate-500 mb-10 text-lg">Drop a CSV, Excel or JSON file or click to browse</p>
                   <div className="inline-flex items-center gap-4 text-xs font-bold text-slate-400 bg-slate-50 dark:bg-slate-800 px-6 py-2.5 rounded-full uppercase tracking-widest">
-                    <span>Supports CSV</span>
+                    <span>CSV &amp; TSV</span>
                     <span className="w-1 h-1 bg-slate-300 rounded-full"></span>
-                    <span>Excel Ready</span>
+                    <span>Excel</span>
+                    <span className="w-1 h-1 bg-slate-300 rounded-full"></span>
+                    <span>JSON &amp; NDJSON</span>
                   </div>
                 </div>
               ) : (
@@ -412,6 +799,16 @@ export default function App() {
                    </div>
                 </div>
               )}
+
+              <DashboardGrid
+                pins={pins}
+                datasets={datasets}
+                activeDataset={dataset}
+                onChange={setPins}
+                onBuildReport={() => setReportSelection(pins.map(p => p.id))}
+                filters={tableView?.filters}
+                onSelect={(response, selection) => drillInto(response, selection, false)}
+              />
             </div>
           )}
 
@@ -423,53 +820,81 @@ export default function App() {
                    <h2 className="text-3xl font-bold font-outfit mb-2">{dataset.name}</h2>
                    <p className="text-slate-500 font-medium">
                      <span className="bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300 px-3 py-1 rounded-full text-xs mr-2">{dataset.columns.length} Columns</span>
-                     {dataset.data.length.toLocaleString()} total rows
+                     {viewRows.length === dataset.data.length
+                       ? `${dataset.data.length.toLocaleString()} total rows`
+                       : `${viewRows.length.toLocaleString()} of ${dataset.data.length.toLocaleString()} rows`}
+                     {dataset.sample && (
+                       <span className="ml-2 bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300 px-3 py-1 rounded-full text-xs">{describeSample(dataset)}</span>
+                     )}
                    </p>
                  </div>
                  <div className="flex gap-3">
+                   <button onClick={() => setTransformOpen(open => !open)} className={`flex items-center gap-2 px-5 py-3 border rounded-xl font-bold text-sm shadow-sm transition-all ${transformOpen ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-800 hover:bg-slate-50'}`}>
+                     <Wand2 size={18} /> Transform{dataset.recipe?.length ? ` (${dataset.recipe.length})` : ''}
+                   </button>
+                   {!!dataset.versions?.length && (
+                     <button onClick={() => setVersionsOpen(open => !open)} className={`flex items-center gap-2 px-5 py-3 border rounded-xl font-bold text-sm shadow-sm transition-all ${versionsOpen ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white dark:bg-slate-900 border-slate-200 dark:border-slate-800 hover:bg-slate-50'}`}>
+                       <Layers size={18} /> Versions ({dataset.versions.length + 1})
+                     </button>
+                   )}
                    <button onClick={downloadCSV} className="flex items-center gap-2 px-5 py-3 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl font-bold text-sm shadow-sm hover:bg-slate-50 transition-all">
-                     <Download size={18} /> Download
+                     <Download size={18} /> Download View
                    </button>
-                   <button onClick={() => {setDataset(null); setActiveTab('dashboard'); clearChat();}} className="p-3 text-red-500 bg-red-50 dark:bg-red-900/10 rounded-xl hover:bg-red-100 transition-all">
+                   <button onClick={() => removeDataset(dataset.id)} className="p-3 text-red-500 bg-red-50 dark:bg-red-900/10 rounded-xl hover:bg-red-100 transition-all">
                      <Trash2 size={24} />
                    </button>
                  </div>
                </div>
                
-               <div className="bg-white dark:bg-slate-900 rounded-3xl border border-slate-200 dark:border-slate-800 shadow-xl overflow-hidden">
-                 <div className="overflow-auto max-h-[65vh]">
-                   <table className="w-full text-left border-collapse">
-                     <thead className="sticky top-0 bg-slate-50 dark:bg-slate-800/90 backdrop-blur-md z-10">
-                       <tr>
-                         {dataset.columns.map(c => (
-                           <th key={c} className="px-6 py-5 text-[11px] font-bold text-slate-500 uppercase tracking-widest border-b border-slate-200 dark:border-slate-700 whitespace-nowrap">
-                             {c}
-                           </th>
-                         ))}
-                       </tr>
-                     </thead>
-                     <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
-                       {dataset.data.slice(0, 200).map((r, i) => (
-                         <tr key={i} className="hover:bg-blue-50/30 dark:hover:bg-blue-900/10 transition-colors">
-                           {dataset.columns.map(c => (
-                             <td key={c} className="px-6 py-4 text-sm font-medium text-slate-700 dark:text-slate-300">
-                               {r[c]?.toString() || '-'}
-                             </td>
-                           ))}
-                         </tr>
-                       ))}
-                     </tbody>
-                   </table>
-                   {dataset.data.length > 200 && (
-                     <div className="p-8 text-center text-slate-400 font-medium bg-slate-50/50">
-                        Showing first 200 of {dataset.data.length.toLocaleString()} rows.
-                     </div>
-                   )}
-                 </div>
-               </div>
+               {transformOpen && (
+                 <TransformPanel dataset={dataset} datasets={datasets} onChange={updateDataset} onClose={() => setTransformOpen(false)} />
+               )}
+
+               {versionsOpen && !!dataset.versions?.length && (
+                 <VersionPanel dataset={dataset} onExplain={explainVersions} onDetach={detachVersion} onClose={() => setVersionsOpen(false)} />
+               )}
+
+               {tableView && (
+                 <DataGrid
+                   key={dataset.id}
+                   dataset={dataset}
+                   rows={viewRows}
+                   columns={viewColumns}
+                   profile={profile}
+                   view={tableView}
+                   onViewChange={setTableView}
+                 />
+               )}
             </div>
           )}
 
+          {/* PROFILE VIEW */}
+          {activeTab === 'profile' && dataset && (
+            <ProfilePanel
+              profiles={profile}
+              totalRows={dataset.sample?.totalRows ?? dataset.data.length}
+              policies={columnPolicies}
+              onPolicyChange={setColumnPolicy}
+            />
+          )}
+
+          {/* SESSIONS VIEW */}
+          {activeTab === 'sessions' && (
+            <SessionList
+              currentSessionId={sessionId}
+              refreshKey={sessionsVersion}
+              onOpen={openSession}
+              onNew={startNewSession}
+              onRenamed={(id, name) => { if (id === sessionId) setSessionName(name); }}
+              onDeleted={id => { if (id === sessionId) startNewSession(); }}
+            />
+          )}
+
+          {/* SETTINGS VIEW */}
+          {activeTab === 'settings' && (
+            <SettingsPanel settings={providerSettings} onChange={setProviderSettings} privacy={privacy} onPrivacyChange={setPrivacy} />
+          )}
+
           {/* CHAT VIEW */}
           {activeTab === 'chat' && (
             <div className="max-w-4xl mx-auto flex flex-col min-h-full pb-32">
@@ -488,13 +913,33 @@ export default function App() {
                      <div className="flex items-center gap-3">
                         <div className="w-2.5 h-2.5 bg-green-500 rounded-full animate-pulse"></div>
                         <span className="text-sm font-bold text-slate-600 uppercase tracking-tighter">Analyzing: {dataset.name}</span>
+                        {dataset.sample && (
+                          <span className="text-[10px] font-bold text-amber-700 dark:text-amber-300 bg-amber-100 dark:bg-amber-900/40 px-2.5 py-1 rounded-full">
+                            {describeSample(dataset)}
+                          </span>
+                        )}
+                        <button onClick={() => setActiveTab('settings')} className="text-[10px] font-bold text-slate-400 bg-slate-100 dark:bg-slate-800 px-2.5 py-1 rounded-full hover:text-blue-600">
+                          {getProvider(providerSettings.provider).label} · {providerSettings.model}
+                        </button>
+                     </div>
+                     <div className="flex items-center gap-5">
+                        {thread.some(m => m.response) && (
+                          <button onClick={() => setReportSelection(reportItems(thread, messages, [], dataset.name).map(i => i.id))} className="text-xs font-bold text-slate-400 hover:text-blue-600 flex items-center gap-2 transition-colors">
+                            <FileText size={16} /> Build Report
+                          </button>
+                        )}
+                        {thread.some(m => m.response) && (
+                          <button onClick={downloadConversationNotebook} className="text-xs font-bold text-slate-400 hover:text-blue-600 flex items-center gap-2 transition-colors">
+                            <NotebookPen size={16} /> Export Notebook
+                          </button>
+                        )}
+                        <button onClick={clearChat} className="text-xs font-bold text-slate-400 hover:text-red-500 flex items-center gap-2 transition-colors">
+                          <XCircle size={16} /> Reset Context
+                        </button>
                      </div>
-                     <button onClick={clearChat} className="text-xs font-bold text-slate-400 hover:text-red-500 flex items-center gap-2 transition-colors">
-                        <XCircle size={16} /> Reset Context
-                     </button>
                   </div>
 
-                  {messages.length === 0 && (
+                  {thread.length === 0 && (
                     <div className="py-20 text-center animate-in fade-in zoom-in duration-1000">
                       <div className="w-20 h-20 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-3xl flex items-center justify-center mx-auto mb-8 shadow-2xl rotate-3">
                         <Sparkles className="text-white w-10 h-10" />
@@ -522,7 +967,9 @@ export default function App() {
                     </div>
                   )}
 
-                  {messages.map(m => (
+                  {thread.length === 0 && <AutoInsightCards insights={autoInsights} onDigDeeper={digDeeper} />}
+
+                  {thread.map(m => (
                     <div key={m.id} className={`flex ${m.role === 'user' ? 'justify-end' : 'justify-start'} animate-in slide-in-from-bottom-5 duration-500`}>
                       <div className={`w-full max-w-[95%] p-8 rounded-3xl shadow-sm ${
                         m.role === 'user' 
@@ -537,13 +984,22 @@ export default function App() {
                             {/* DOWNLOAD OPTIONS MENU */}
                             {m.response && (
                               <div className="flex items-center gap-2">
+                                {m.response.chartType !== 'none' && m.response.chartData.length > 0 && (
+                                  <button
+                                    onClick={() => pinMessage(m)}
+                                    disabled={pins.some(p => p.id === `pin-${m.id}`)}
+                                    className="flex items-center gap-2 px-3 py-1.5 bg-slate-50 dark:bg-slate-800 rounded-lg text-[10px] font-bold text-slate-500 hover:bg-blue-50 hover:text-blue-600 disabled:text-blue-600 disabled:bg-blue-50 dark:disabled:bg-blue-900/30 transition-all uppercase tracking-tighter"
+                                  >
+                                    <Pin size={14} /> {pins.some(p => p.id === `pin-${m.id}`) ? 'Pinned' : 'Pin'}
+                                  </button>
+                                )}
                                 <div className="group relative">
                                   <button className="flex items-center gap-2 px-3 py-1.5 bg-slate-50 dark:bg-slate-800 rounded-lg text-[10px] font-bold text-slate-500 hover:bg-blue-50 hover:text-blue-600 transition-all uppercase tracking-tighter">
                                     <Download size={14} /> Export Report
                                   </button>
                                   <div className="absolute right-0 top-full mt-2 w-56 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl shadow-2xl opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all z-50 p-2 space-y-1">
-                                    <button onClick={() => downloadPDF(m)} className="w-full flex items-center gap-3 px-3 py-2.5 text-xs font-semibold hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-all text-slate-600 dark:text-slate-300">
-                                      <FileType size={16} className="text-red-500" /> Full PDF Report
+                                    <button onClick={() => setReportSelection([`chat-${m.id}`])} className="w-full flex items-center gap-3 px-3 py-2.5 text-xs font-semibold hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-all text-slate-600 dark:text-slate-300">
+                                      <FileType size={16} className="text-red-500" /> PDF or Word Report
                                     </button>
                                     {m.response.chartType !== 'none' && (
                                       <button onClick={() => downloadPNG(m.id)} className="w-full flex items-center gap-3 px-3 py-2.5 text-xs font-semibold hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-all text-slate-600 dark:text-slate-300">
@@ -559,6 +1015,12 @@ export default function App() {
                                     <button onClick={() => downloadTXT(m)} className="w-full flex items-center gap-3 px-3 py-2.5 text-xs font-semibold hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-all text-slate-600 dark:text-slate-300">
                                       <FileCode size={16} className="text-slate-500" /> Summary Text
                                     </button>
+                                    <button onClick={() => downloadNotebook(m)} className="w-full flex items-center gap-3 px-3 py-2.5 text-xs font-semibold hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-all text-slate-600 dark:text-slate-300">
+                                      <NotebookPen size={16} className="text-orange-500" /> Python Notebook
+                                    </button>
+                                    <button onClick={() => downloadSQL(m)} className="w-full flex items-center gap-3 px-3 py-2.5 text-xs font-semibold hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-all text-slate-600 dark:text-slate-300">
+                                      <Database size={16} className="text-indigo-500" /> SQL Query
+                                    </button>
                                   </div>
                                 </div>
                               </div>
@@ -566,10 +1028,24 @@ export default function App() {
                           </div>
                         )}
                         
-                        <p className={`text-base leading-relaxed whitespace-pre-wrap ${m.role === 'user' ? 'font-semibold' : 'text-slate-700 dark:text-slate-200'}`}>
-                          {m.content}
-                        </p>
-                        
+                        {m.role === 'user' ? (
+                          <UserMessage
+                            message={m}
+                            branchIndex={siblingsOf(messages, m).indexOf(m)}
+                            branchCount={siblingsOf(messages, m).length}
+                            busy={loading}
+                            onResend={content => resendMessage(m, content)}
+                            onSwitchBranch={offset => switchBranch(m, offset)}
+                          />
+                        ) : m.error && !m.response ? (
+                          <AnalysisErrorCard error={m.error} onRetry={() => retryMessage(m)} />
+                        ) : (
+                          <p className="text-base leading-relaxed whitespace-pre-wrap text-slate-700 dark:text-slate-200">
+                            {m.content}
+                          </p>
+                        )}
+                        {m.response?.statResult && <StatTestBlock result={m.response.statResult} />}
+
                         {m.response && (
                           <div className="mt-8 animate-in fade-in duration-700 delay-200">
                             <h4 className="text-lg font-bold mb-3 font-outfit text-slate-900 dark:text-white">{m.response.summary}</h4>
@@ -579,8 +1055,36 @@ export default function App() {
                               if (!chartRefs.current[m.id]) {
                                 chartRefs.current[m.id] = React.createRef<HTMLDivElement>();
                               }
-                              return <ChartView response={m.response} chartRef={chartRefs.current[m.id]} />;
+                              const chart = activeChart(m)!;
+                              return (
+                                <>
+                                  {m.response.chartType !== 'none' && (
+                                    <ChartEditor
+                                      message={m}
+                                      columns={planColumnsFor(m)}
+                                      onSave={edit => saveChartVersion(m, edit)}
+                                      onSelectVersion={id => selectChartVersion(m, id)}
+                                    />
+                                  )}
+                                  <ChartView
+                                    response={chart.response}
+                                    style={chart.style}
+                                    chartRef={chartRefs.current[m.id]}
+                                    onSelect={dataset && canDrill(chart.response, dataset) ? selection => drillInto(chart.response, selection, true) : undefined}
+                                  />
+                                </>
+                              );
                             })()}
+
+                            {m.error && <AnalysisErrorCard error={m.error} onRetry={() => retryMessage(m)} />}
+
+                            {m.response.transforms && (
+                              <TransformProposal steps={m.response.transforms} applied={m.transformsApplied} onApply={() => applyMessageTransforms(m)} />
+                            )}
+
+                            <QueryPlanView response={activeChart(m)!.response} />
+
+                            {m.response.trace && <ReasoningTrace trace={m.response.trace} />}
                             
                             {m.response.suggestion && (
                               <div className="mt-10 flex flex-col gap-3">
@@ -600,7 +1104,22 @@ export default function App() {
                     </div>
                   ))}
 
-                  {loading && (
+                  {loading && streamed?.insight !== undefined && (
+                    <div className="flex justify-start">
+                      <div className="w-full max-w-[95%] p-8 rounded-3xl shadow-sm bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-800 mr-10">
+                        <div className="text-[10px] font-black text-blue-600 dark:text-blue-400 uppercase tracking-[0.3em] flex items-center gap-2 mb-6">
+                          <Sparkles size={14} className="animate-pulse" /> Writing...
+                        </div>
+                        <p className="text-base leading-relaxed whitespace-pre-wrap text-slate-700 dark:text-slate-200">
+                          {streamed.insight}<span className="inline-block w-2 h-4 ml-0.5 bg-blue-500 animate-pulse align-middle"></span>
+                        </p>
+                        {streamed.summary && <h4 className="mt-8 text-lg font-bold font-outfit text-slate-900 dark:text-white">{streamed.summary}</h4>}
+                        {streamed.trace && <ReasoningTrace trace={streamed.trace} />}
+                      </div>
+                    </div>
+                  )}
+
+                  {loading && streamed?.insight === undefined && (
                     <div className="flex justify-start">
                        <div className="bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-800 p-8 rounded-3xl w-full max-w-lg shadow-sm">
                           <div className="flex items-center gap-4 mb-6">
@@ -613,6 +1132,7 @@ export default function App() {
                              <div className="h-3 bg-slate-100 dark:bg-slate-800 rounded-full w-3/4 animate-pulse"></div>
                           </div>
                           <div className="mt-8 h-40 bg-slate-50 dark:bg-slate-800/50 rounded-2xl animate-pulse"></div>
+                          {streamed?.trace && <ReasoningTrace trace={streamed.trace} live />}
                        </div>
                     </div>
                   )}
@@ -634,6 +1154,7 @@ export default function App() {
                   <div className="relative group">
                     <div className="absolute -inset-1 bg-gradient-to-r from-blue-600 to-indigo-600 rounded-[2.5rem] blur opacity-20 group-hover:opacity-40 group-focus-within:opacity-50 transition duration-1000"></div>
                     <input 
+                      ref={chatInputRef}
                       type="text" 
                       value={input} 
                       onChange={e => setInput(e.target.value)} 
@@ -641,19 +1162,43 @@ export default function App() {
                       placeholder="Ask a question about your data..." 
                       className="relative w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-[2rem] py-6 px-8 pr-20 text-lg shadow-2xl outline-none focus:ring-2 focus:ring-blue-500 transition-all font-medium"
                     />
-                    <button 
-                      onClick={() => handleSendMessage()} 
-                      disabled={!input.trim() || loading} 
-                      className="absolute right-4 top-1/2 -translate-y-1/2 w-14 h-14 bg-blue-600 text-white rounded-2xl flex items-center justify-center shadow-xl hover:bg-blue-700 disabled:opacity-30 disabled:grayscale transition-all active:scale-90"
-                    >
-                      {loading ? (
-                        <div className="w-6 h-6 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
-                      ) : (
+                    {loading ? (
+                      <button 
+                        onClick={stopGeneration} 
+                        title="Stop generating"
+                        className="absolute right-4 top-1/2 -translate-y-1/2 w-14 h-14 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-2xl flex items-center justify-center shadow-xl hover:bg-red-600 dark:hover:bg-red-500 transition-all active:scale-90"
+                      >
+                        <Square size={20} fill="currentColor" />
+                      </button>
+                    ) : (
+                      <button 
+                        onClick={() => handleSendMessage()} 
+                        disabled={!input.trim()} 
+                        className="absolute right-4 top-1/2 -translate-y-1/2 w-14 h-14 bg-blue-600 text-white rounded-2xl flex items-center justify-center shadow-xl hover:bg-blue-700 disabled:opacity-30 disabled:grayscale transition-all active:scale-90"
+                      >
                         <Send size={24} />
-                      )}
-                    </button>
+                      </button>
+                    )}
                   </div>
                   <div className="mt-4 flex justify-center gap-6 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                    <button onClick={() => setPayloadPreview({ query: input, parentId: leafId, confirm: false })} className="flex items-center gap-2 uppercase tracking-widest hover:text-blue-600 transition-colors">
+                      <Eye size={12} className="text-blue-500" /> Preview Payload
+                    </button>
+                    {contextStats && (
+                      <span
+                        title={`${contextStats.sampleRows} sample rows (${contextStats.sampling}), ${contextStats.aggregates} aggregates, ${contextStats.keptTurns} recent turns, ${contextStats.summarizedTurns} summarized`}
+                        className={contextStats.estimatedTokens + estimateTokens(input) > contextStats.budget ? 'text-red-500' : ''}
+                      >
+                        ≈{((contextStats.estimatedTokens + estimateTokens(input)) / 1000).toFixed(1)}k / {(contextStats.budget / 1000).toFixed(0)}k tokens
+                      </span>
+                    )}
+                    {privacy.schemaOnly && <span className="flex items-center gap-2"><ShieldCheck size={12} className="text-emerald-500" /> Schema Only</span>}
+                    {comparedVersions && comparison && (
+                      <span className="flex items-center gap-2 text-blue-600">
+                        <Layers size={12} /> Comparing v{comparison.from} → v{comparison.to}
+                        <button onClick={() => setComparison(null)} title="Stop describing the version changes to the model" className="hover:text-red-500"><X size={12} /></button>
+                      </span>
+                    )}
                     <span className="flex items-center gap-2"><Check size={12} className="text-green-500" /> Export as PDF</span>
                     <span className="flex items-center gap-2"><Check size={12} className="text-green-500" /> PNG Graphics</span>
                     <span className="flex items-center gap-2"><Check size={12} className="text-green-500" /> Smart Suggestions</span>
@@ -664,6 +1209,56 @@ export default function App() {
           )}
         </div>
       </main>
+
+      {joinBuilderOpen && (
+        <JoinBuilder datasets={datasets} onCreate={handleCreateJoin} onCancel={() => setJoinBuilderOpen(false)} />
+      )}
+
+      {pendingImport && (
+        <ImportPreview source={pendingImport} onConfirm={handleImportConfirm} onStream={handleImportStream} onCancel={() => setPendingImport(null)} />
+      )}
+
+      {ingest && (
+        <IngestProgress fileName={ingest.fileName} progress={ingest.progress} onCancel={() => ingestAbortRef.current?.abort()} />
+      )}
+
+      {payloadPreview && chatDataset && (
+        <PayloadPreview
+          payload={buildAnalysisPayload(payloadPreview.query, chatDataset, chatProfile, historyTo(payloadPreview.parentId), workspaceContext(chatDataset), privacy, providerSettings.contextBudget)}
+          destination={providerDestination}
+          toolsEnabled={!!getProvider(providerSettings.provider).callTools && providerSettings.useTools !== false}
+          onSend={payloadPreview.confirm ? () => {
+            setPayloadPreview(null);
+            handleSendMessage(payloadPreview.query, payloadPreview.parentId, true);
+          } : undefined}
+          onClose={() => setPayloadPreview(null)}
+        />
+      )}
+
+      {toolResultsPreview && (
+        <ToolResultsPreview
+          steps={toolResultsPreview.steps}
+          destination={providerDestination}
+          onSend={() => {
+            setToolResultsPreview(null);
+            toolResultsPreview.resolve(true);
+          }}
+          onSkip={() => {
+            setToolResultsPreview(null);
+            toolResultsPreview.resolve(false);
+          }}
+        />
+      )}
+
+      {reportSelection && (
+        <ReportBuilder
+          items={reportItems(thread, messages, pins, dataset?.name ?? '')}
+          dataset={dataset}
+          profile={profile}
+          initialSelection={reportSelection}
+          onClose={() => setReportSelection(null)}
+        />
+      )}
     </div>
   );
 }
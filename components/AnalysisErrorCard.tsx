@@ -0,0 +1,30 @@
+import React from 'react';
+import { TriangleAlert, RotateCcw } from 'lucide-react';
+import { AnalysisError } from '../types';
+
+// Shown in place of a chart when the model's answer could not be used, listing exactly what failed.
+const AnalysisErrorCard: React.FC<{ error: AnalysisError; onRetry: () => void }> = ({ error, onRetry }) => (
+  <div className="mt-6 p-5 rounded-2xl bg-amber-50 dark:bg-amber-900/10 border border-amber-200 dark:border-amber-900/40">
+    <div className="flex items-start gap-3">
+      <TriangleAlert size={18} className="text-amber-600 shrink-0 mt-0.5" />
+      <div className="flex-1 min-w-0">
+        <h5 className="text-sm font-bold text-amber-800 dark:text-amber-300">{error.title}</h5>
+        <p className="text-sm text-amber-700 dark:text-amber-400/80 mt-1">{error.message}</p>
+        {error.issues && error.issues.length > 0 && (
+          <ul className="mt-3 space-y-1">
+            {error.issues.map((issue, i) => (
+              <li key={i} className="text-xs text-amber-800/80 dark:text-amber-300/70">
+                <code className="font-mono font-bold">{issue.path}</code> · {issue.message}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      <button onClick={onRetry} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-tighter text-amber-700 bg-white dark:bg-slate-900 border border-amber-200 dark:border-amber-900/40 hover:bg-amber-100 transition-all shrink-0">
+        <RotateCcw size={12} /> Retry
+      </button>
+    </div>
+  </div>
+);
+
+export default AnalysisErrorCard;
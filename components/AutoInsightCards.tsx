@@ -0,0 +1,54 @@
+import React, { useRef } from 'react';
+import { ArrowUpRight, Lightbulb } from 'lucide-react';
+import { AutoInsight, AutoInsightKind } from '../types';
+import ChartView from './ChartView';
+
+const KIND_LABELS: Record<AutoInsightKind, string> = {
+  correlation: 'Correlation',
+  outliers: 'Outliers',
+  trend: 'Trend',
+  skew: 'Distribution',
+  imbalance: 'Imbalance'
+};
+
+const AutoInsightCard: React.FC<{ insight: AutoInsight; onDigDeeper: (question: string) => void }> = ({ insight, onDigDeeper }) => {
+  const chartRef = useRef<HTMLDivElement>(null);
+  return (
+    <div className="p-5 bg-white dark:bg-slate-900 border border-slate-100 dark:border-slate-800 rounded-2xl shadow-sm flex flex-col">
+      <span className="text-[10px] font-black text-blue-600 dark:text-blue-400 uppercase tracking-widest">{KIND_LABELS[insight.kind]}</span>
+      <h4 className="font-bold mt-1.5">{insight.title}</h4>
+      <p className="text-xs text-slate-500 mt-1 leading-relaxed">{insight.detail}</p>
+      <div className="-mx-2">
+        <ChartView response={insight.response} chartRef={chartRef} heightClass="h-48" />
+      </div>
+      <button
+        onClick={() => onDigDeeper(insight.question)}
+        className="mt-auto self-start flex items-center gap-1.5 text-xs font-bold text-blue-600 hover:text-blue-700 transition-colors"
+      >
+        Dig deeper <ArrowUpRight size={14} />
+      </button>
+    </div>
+  );
+};
+
+// Findings from the automatic first look at a new dataset, strongest first.
+const AutoInsightCards: React.FC<{
+  insights: AutoInsight[];
+  onDigDeeper: (question: string) => void;
+}> = ({ insights, onDigDeeper }) => {
+  if (insights.length === 0) return null;
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-4 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+        <Lightbulb size={14} /> First Look · {insights.length} findings
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {insights.map(insight => (
+          <AutoInsightCard key={insight.id} insight={insight} onDigDeeper={onDigDeeper} />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AutoInsightCards;
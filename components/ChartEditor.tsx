@@ -0,0 +1,301 @@
+import React, { useState } from 'react';
+import { History, Save, SlidersHorizontal, X } from 'lucide-react';
+import { Aggregation, AnomalyMethod, ChartType, DateUnit, ForecastMethod, Message, QueryPlan } from '../types';
+import { ChartEdit, DEFAULT_CHART_COLORS, activeChart, colorSlots, editFromChart } from '../services/chartEditor';
+import { CHART_TYPES } from '../services/responseValidator';
+
+const AGGREGATIONS: Aggregation[] = ['sum', 'mean', 'count', 'min', 'max', 'median'];
+const EDITABLE_TYPES = CHART_TYPES.filter(t => t !== 'none');
+const INTERVALS: DateUnit[] = ['day', 'week', 'month', 'quarter', 'year'];
+const FORECAST_METHODS: { value: ForecastMethod; label: string }[] = [
+  { value: 'auto', label: 'Automatic' },
+  { value: 'movingAverage', label: 'Moving average' },
+  { value: 'exponentialSmoothing', label: 'Exponential smoothing' },
+  { value: 'seasonal', label: 'Seasonal decomposition' }
+];
+const ANOMALY_METHODS: { value: AnomalyMethod; label: string }[] = [
+  { value: 'zscore', label: 'Z-score' },
+  { value: 'iqr', label: 'IQR' }
+];
+
+const inputClass = 'w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-xs font-medium outline-none focus:ring-2 focus:ring-blue-500';
+const labelClass = 'text-[10px] font-black text-slate-400 uppercase tracking-widest';
+
+const ColumnSelect: React.FC<{
+  label: string;
+  value?: string;
+  columns: string[];
+  optional?: boolean;
+  onChange: (value: string | undefined) => void;
+}> = ({ label, value, columns, optional, onChange }) => (
+  <label className="block space-y-1.5">
+    <span className={labelClass}>{label}</span>
+    <select value={value ?? ''} onChange={e => onChange(e.target.value || undefined)} className={inputClass}>
+      {(optional || !value) && <option value="">{optional ? 'None' : 'Choose a column'}</option>}
+      {columns.map(c => <option key={c} value={c}>{c}</option>)}
+    </select>
+  </label>
+);
+
+// Version switcher plus an editor that re-runs the chart's plan locally and saves the result as a new version.
+const ChartEditor: React.FC<{
+  message: Message;
+  columns: string[];
+  onSave: (edit: ChartEdit) => void; // Throws when the edited chart can't be drawn
+  onSelectVersion: (versionId: string | undefined) => void;
+}> = ({ message, columns, onSave, onSelectVersion }) => {
+  const [edit, setEdit] = useState<ChartEdit | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const current = activeChart(message);
+  if (!current) return null;
+
+  const versions = message.chartVersions ?? [];
+  const plan = edit?.queryPlan;
+  const updatePlan = (patch: Partial<QueryPlan>) => edit && plan && setEdit({ ...edit, queryPlan: { ...plan, ...patch } });
+  const colors = colorSlots(current.response);
+
+  const open = () => {
+    setEdit(editFromChart(current.response, current.style));
+    setError(null);
+  };
+
+  const save = () => {
+    if (!edit) return;
+    try {
+      onSave(edit);
+      setEdit(null);
+    } catch (err: any) {
+      setError(err.message || 'This chart could not be drawn.');
+    }
+  };
+
+  const planFields = () => {
+    if (!edit || !plan) {
+      return <p className="text-xs text-slate-400 col-span-full">This chart has no query plan, so only labels, colors and legend can be changed.</p>;
+    }
+    switch (edit.chartType) {
+      case 'scatter':
+        return (
+          <>
+            <ColumnSelect label="X column" value={plan.xColumn} columns={columns} onChange={xColumn => updatePlan({ xColumn })} />
+            <ColumnSelect label="Y column" value={plan.yColumn} columns={columns} onChange={yColumn => updatePlan({ yColumn })} />
+          </>
+        );
+      case 'histogram':
+        return (
+          <>
+            <ColumnSelect label="Column" value={plan.valueColumn} columns={columns} onChange={valueColumn => updatePlan({ valueColumn })} />
+            <label className="block space-y-1.5">
+              <span className={labelClass}>Bins</span>
+              <input type="number" min={1} value={plan.bins ?? ''} placeholder="auto" onChange={e => updatePlan({ bins: Number(e.target.value) || undefined })} className={inputClass} />
+            </label>
+          </>
+        );
+      case 'boxPlot':
+        return (
+          <>
+            <ColumnSelect label="Column" value={plan.valueColumn} columns={columns} onChange={valueColumn => updatePlan({ valueColumn })} />
+            <ColumnSelect label="Group by" value={plan.groupBy} columns={columns} optional onChange={groupBy => updatePlan({ groupBy })} />
+          </>
+        );
+      case 'forecast':
+        return (
+          <>
+            <ColumnSelect label="Date column" value={plan.groupBy} columns={columns} onChange={groupBy => updatePlan({ groupBy })} />
+            <ColumnSelect label="Y value" value={plan.valueColumn} columns={columns} optional onChange={valueColumn => updatePlan({ valueColumn })} />
+            {aggregationField()}
+            <label className="block space-y-1.5">
+              <span className={labelClass}>Interval</span>
+              <select value={plan.interval ?? ''} onChange={e => updatePlan({ interval: (e.target.value || undefined) as DateUnit | undefined })} className={inputClass}>
+                <option value="">Automatic</option>
+                {INTERVALS.map(u => <option key={u} value={u}>{u}</option>)}
+              </select>
+            </label>
+            <label className="block space-y-1.5">
+              <span className={labelClass}>Periods Ahead</span>
+              <input type="number" min={0} value={plan.horizon ?? ''} placeholder="auto" onChange={e => updatePlan({ horizon: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)) })} className={inputClass} />
+            </label>
+            <label className="block space-y-1.5">
+              <span className={labelClass}>Method</span>
+              <select value={plan.forecastMethod ?? 'auto'} onChange={e => updatePlan({ forecastMethod: e.target.value as ForecastMethod })} className={inputClass}>
+                {FORECAST_METHODS.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+              </select>
+            </label>
+            <label className="block space-y-1.5">
+              <span className={labelClass}>Anomalies</span>
+              <select value={plan.anomalyMethod ?? 'zscore'} onChange={e => updatePlan({ anomalyMethod: e.target.value as AnomalyMethod })} className={inputClass}>
+                {ANOMALY_METHODS.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+              </select>
+            </label>
+          </>
+        );
+      case 'combo':
+        return (
+          <>
+            <ColumnSelect label="X axis" value={plan.groupBy} columns={columns} onChange={groupBy => updatePlan({ groupBy })} />
+            <ColumnSelect label="Bars" value={plan.valueColumns?.[0]} columns={columns} onChange={v => updatePlan({ valueColumns: [v ?? '', plan.valueColumns?.[1] ?? ''] })} />
+            <ColumnSelect label="Line" value={plan.valueColumns?.[1]} columns={columns} onChange={v => updatePlan({ valueColumns: [plan.valueColumns?.[0] ?? '', v ?? ''] })} />
+            {aggregationField()}
+          </>
+        );
+      default:
+        return (
+          <>
+            <ColumnSelect label="X axis" value={plan.groupBy} columns={columns} optional={edit.chartType === 'heatmap'} onChange={groupBy => updatePlan({ groupBy })} />
+            <ColumnSelect label="Y value" value={plan.valueColumn} columns={columns} optional onChange={valueColumn => updatePlan({ valueColumn, valueColumns: undefined })} />
+            {aggregationField()}
+            {edit.chartType !== 'pie' && (
+              <ColumnSelect label="Series" value={plan.seriesBy} columns={columns} optional onChange={seriesBy => updatePlan({ seriesBy })} />
+            )}
+          </>
+        );
+    }
+  };
+
+  const aggregationField = () => plan && (
+    <label className="block space-y-1.5">
+      <span className={labelClass}>Aggregation</span>
+      <select value={plan.aggregation} onChange={e => updatePlan({ aggregation: e.target.value as Aggregation })} className={inputClass}>
+        {AGGREGATIONS.map(a => <option key={a} value={a}>{a}</option>)}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="mb-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {versions.length > 0 && (
+          <>
+            <span className={`${labelClass} flex items-center gap-1.5 mr-1`}><History size={12} /> Version</span>
+            {[undefined, ...versions.map(v => v.id)].map((id, i) => (
+              <button
+                key={id ?? 'original'}
+                onClick={() => onSelectVersion(id)}
+                className={`px-2.5 py-1 rounded-lg text-[10px] font-bold uppercase tracking-tighter transition-all ${
+                  message.activeChartVersionId === id
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-slate-50 dark:bg-slate-800 text-slate-500 hover:bg-blue-50 hover:text-blue-600'
+                }`}
+              >
+                {id ? `v${i + 1}` : 'Original'}
+              </button>
+            ))}
+          </>
+        )}
+        <button
+          onClick={() => (edit ? setEdit(null) : open())}
+          className="ml-auto flex items-center gap-2 px-3 py-1.5 bg-slate-50 dark:bg-slate-800 rounded-lg text-[10px] font-bold text-slate-500 hover:bg-blue-50 hover:text-blue-600 transition-all uppercase tracking-tighter"
+        >
+          {edit ? <><X size={14} /> Close Editor</> : <><SlidersHorizontal size={14} /> Edit Chart</>}
+        </button>
+      </div>
+
+      {edit && (
+        <div className="mt-3 p-5 rounded-2xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 space-y-5 animate-in fade-in duration-300">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <label className="block space-y-1.5">
+              <span className={labelClass}>Chart type</span>
+              <select value={edit.chartType} onChange={e => setEdit({ ...edit, chartType: e.target.value as ChartType })} className={inputClass}>
+                {EDITABLE_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+              </select>
+            </label>
+            {planFields()}
+          </div>
+
+          {plan && edit.chartType !== 'scatter' && edit.chartType !== 'histogram' && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <label className="block space-y-1.5">
+                <span className={labelClass}>Sort by</span>
+                <select
+                  value={plan.sort?.by ?? ''}
+                  onChange={e => updatePlan({ sort: e.target.value ? { by: e.target.value as 'name' | 'value', direction: plan.sort?.direction ?? 'desc' } : undefined })}
+                  className={inputClass}
+                >
+                  <option value="">Default</option>
+                  <option value="name">Name</option>
+                  <option value="value">Value</option>
+                </select>
+              </label>
+              <label className="block space-y-1.5">
+                <span className={labelClass}>Direction</span>
+                <select
+                  value={plan.sort?.direction ?? 'desc'}
+                  disabled={!plan.sort}
+                  onChange={e => plan.sort && updatePlan({ sort: { ...plan.sort, direction: e.target.value as 'asc' | 'desc' } })}
+                  className={inputClass}
+                >
+                  <option value="desc">Descending</option>
+                  <option value="asc">Ascending</option>
+                </select>
+              </label>
+              <label className="block space-y-1.5">
+                <span className={labelClass}>Top N</span>
+                <input type="number" min={1} value={plan.limit ?? ''} placeholder="All" onChange={e => updatePlan({ limit: Number(e.target.value) || undefined })} className={inputClass} />
+              </label>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <label className="block space-y-1.5">
+              <span className={labelClass}>X axis label</span>
+              <input value={edit.xAxisLabel ?? ''} onChange={e => setEdit({ ...edit, xAxisLabel: e.target.value })} className={inputClass} />
+            </label>
+            <label className="block space-y-1.5">
+              <span className={labelClass}>Y axis label</span>
+              <input value={edit.yAxisLabel ?? ''} onChange={e => setEdit({ ...edit, yAxisLabel: e.target.value })} className={inputClass} />
+            </label>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4">
+            {colors.map((name, i) => (
+              <label key={`${name}-${i}`} className="flex items-center gap-2 text-xs text-slate-500">
+                <input
+                  type="color"
+                  value={edit.style.colors?.[i] || DEFAULT_CHART_COLORS[i % DEFAULT_CHART_COLORS.length]}
+                  onChange={e => {
+                    const next = colors.map((_, j) => edit.style.colors?.[j] || DEFAULT_CHART_COLORS[j % DEFAULT_CHART_COLORS.length]);
+                    next[i] = e.target.value;
+                    setEdit({ ...edit, style: { ...edit.style, colors: next } });
+                  }}
+                  className="w-7 h-7 rounded cursor-pointer bg-transparent"
+                />
+                <span className="max-w-[8rem] truncate">{name}</span>
+              </label>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-6 text-xs font-semibold text-slate-600 dark:text-slate-300">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={edit.style.showLegend ?? (colors.length > 1)}
+                onChange={e => setEdit({ ...edit, style: { ...edit.style, showLegend: e.target.checked } })}
+                className="accent-blue-600"
+              />
+              Show legend
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={!!edit.style.showDataLabels}
+                onChange={e => setEdit({ ...edit, style: { ...edit.style, showDataLabels: e.target.checked } })}
+                className="accent-blue-600"
+              />
+              Show data labels
+            </label>
+            <button
+              onClick={save}
+              className="ml-auto flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-xl text-xs font-bold transition-all"
+            >
+              <Save size={14} /> Save as New Version
+            </button>
+          </div>
+
+          {error && <p className="text-xs font-semibold text-red-500">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChartEditor;
@@ -0,0 +1,333 @@
+import React from 'react';
+import {
+  BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer,
+  LineChart, Line, PieChart, Pie, Cell, ScatterChart, Scatter, Legend,
+  AreaChart, Area, ComposedChart, LabelList
+} from 'recharts';
+import { AIResponse, ChartSelection, ChartSeries, ChartStyle } from '../types';
+import { DEFAULT_CHART_COLORS as COLORS } from '../services/chartEditor';
+const TOOLTIP_STYLE = { borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgba(0,0,0,0.1)' };
+const AXIS_TICK = { fill: '#64748b' };
+
+// Single-series charts store their measure under "value"; describe it as a series so one code path draws both.
+const seriesOf = (response: AIResponse): ChartSeries[] =>
+  response.series?.length ? response.series : [{ key: 'value', label: response.yAxisLabel || 'value' }];
+
+/**
+ * Box and whiskers drawn over a floating [min, max] bar: the bar's pixel extent gives the scale
+ * for placing the quartiles.
+ */
+const BoxShape = (props: any) => {
+  const { x, y, width, height, payload, fill } = props;
+  if (!payload || height === undefined) return null;
+  const top = Math.min(y, y + height);
+  const span = Math.abs(height);
+  const range = payload.max - payload.min;
+  const toPixel = (v: number) => (range === 0 ? top + span / 2 : top + (span * (payload.max - v)) / range);
+  const cx = x + width / 2;
+  const boxWidth = Math.max(8, width * 0.6);
+  const q3 = toPixel(payload.q3);
+  const q1 = toPixel(payload.q1);
+  return (
+    <g stroke={fill} strokeWidth={2}>
+      <line x1={cx} x2={cx} y1={toPixel(payload.max)} y2={q3} />
+      <line x1={cx} x2={cx} y1={q1} y2={toPixel(payload.min)} />
+      <line x1={cx - boxWidth / 4} x2={cx + boxWidth / 4} y1={toPixel(payload.max)} y2={toPixel(payload.max)} />
+      <line x1={cx - boxWidth / 4} x2={cx + boxWidth / 4} y1={toPixel(payload.min)} y2={toPixel(payload.min)} />
+      <rect x={cx - boxWidth / 2} y={q3} width={boxWidth} height={Math.max(1, q1 - q3)} fill={fill} fillOpacity={0.15} rx={3} />
+      <line x1={cx - boxWidth / 2} x2={cx + boxWidth / 2} y1={toPixel(payload.median)} y2={toPixel(payload.median)} strokeWidth={3} />
+    </g>
+  );
+};
+
+const BoxTooltip = ({ active, payload }: any) => {
+  if (!active || !payload?.length) return null;
+  const b = payload[0].payload;
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg px-4 py-3 text-xs space-y-0.5">
+      <div className="font-bold mb-1">{b.name}</div>
+      <div>Max (whisker): {b.max}</div>
+      <div>Q3: {b.q3}</div>
+      <div>Median: {b.median}</div>
+      <div>Q1: {b.q1}</div>
+      <div>Min (whisker): {b.min}</div>
+      <div className="text-slate-400">{b.count} values{b.outliers?.length ? ` · ${b.outliers.length} outliers` : ''}</div>
+    </div>
+  );
+};
+
+const ANOMALY_COLOR = '#ef4444';
+
+// Forecast charts draw dots only on anomalous periods.
+const AnomalyDot = (props: any) => {
+  const { cx, cy, payload } = props;
+  if (!payload?.anomaly || cx === undefined || cy === undefined) return null;
+  return <circle cx={cx} cy={cy} r={6} fill={ANOMALY_COLOR} stroke="#fff" strokeWidth={2} />;
+};
+
+const formatForecastTooltip = (value: any) => (Array.isArray(value) ? `${value[0]} – ${value[1]}` : value);
+
+// Diverging blue/red scale for correlations (-1..1); sequential blue for other values.
+const heatColor = (value: number | null, lo: number, hi: number, diverging: boolean) => {
+  if (value === null) return 'transparent';
+  if (diverging) {
+    const t = Math.max(-1, Math.min(1, value));
+    return t >= 0 ? `rgba(59, 130, 246, ${0.1 + 0.85 * t})` : `rgba(239, 68, 68, ${0.1 + 0.85 * -t})`;
+  }
+  const t = hi === lo ? 1 : (value - lo) / (hi - lo);
+  return `rgba(59, 130, 246, ${0.08 + 0.87 * t})`;
+};
+
+/** Recharts has no heatmap, so cells are laid out as a CSS grid (html2canvas captures it for exports). */
+const Heatmap: React.FC<{ data: { x: string; y: string; value: number | null }[]; onSelect?: (index: number) => void }> = ({ data, onSelect }) => {
+  const xs = Array.from(new Set(data.map(c => c.x)));
+  const ys = Array.from(new Set(data.map(c => c.y)));
+  const values = data.map(c => c.value).filter((v): v is number => v !== null);
+  const lo = Math.min(...values);
+  const hi = Math.max(...values);
+  // Symmetric row and column labels mean a correlation matrix.
+  const diverging = xs.length === ys.length && xs.every(x => ys.includes(x)) && lo >= -1 && hi <= 1;
+  const lookup = new Map<string, number>(data.map((c, i) => [`${c.x}\u0000${c.y}`, i]));
+
+  return (
+    <div className="h-full w-full overflow-auto">
+      <div className="grid gap-0.5 text-[10px]" style={{ gridTemplateColumns: `minmax(5rem, auto) repeat(${xs.length}, minmax(2.5rem, 1fr))` }}>
+        <div />
+        {xs.map(x => <div key={x} className="font-bold text-slate-500 truncate text-center px-1" title={x}>{x}</div>)}
+        {ys.map(y => (
+          <React.Fragment key={y}>
+            <div className="font-bold text-slate-500 truncate pr-2 flex items-center" title={y}>{y}</div>
+            {xs.map(x => {
+              const index = lookup.get(`${x}\u0000${y}`);
+              const value = index === undefined ? null : data[index].value;
+              return (
+                <div
+                  key={x}
+                  onClick={onSelect && index !== undefined ? () => onSelect(index) : undefined}
+                  title={`${y} × ${x}: ${value ?? '—'}`}
+                  className="aspect-square min-h-[2rem] rounded flex items-center justify-center font-semibold text-slate-800 dark:text-slate-100"
+                  style={{ background: heatColor(value, lo, hi, diverging) }}
+                >
+                  {value === null ? '' : Math.abs(value) < 10 ? value.toFixed(2) : Math.round(value).toLocaleString()}
+                </div>
+              );
+            })}
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const ChartView: React.FC<{
+  response: AIResponse;
+  chartRef: React.RefObject<HTMLDivElement>;
+  heightClass?: string;
+  style?: ChartStyle;
+  onSelect?: (selection: ChartSelection) => void; // Clicking a bar, slice, point, cell or period
+}> = ({ response, chartRef, heightClass = 'h-80', style, onSelect }) => {
+  const { chartType, chartData, xAxisLabel, yAxisLabel } = response;
+
+  if (chartType === 'none' || !chartData || chartData.length === 0) return null;
+
+  const series = seriesOf(response);
+  const multi = series.length > 1;
+  const xAxis = (
+    <XAxis dataKey="name" fontSize={11} tick={AXIS_TICK} angle={-25} textAnchor="end" label={{ value: xAxisLabel, position: 'insideBottom', offset: -25, fontSize: 12 }} />
+  );
+  const yAxis = (
+    <YAxis fontSize={11} tick={AXIS_TICK} label={{ value: yAxisLabel, angle: -90, position: 'insideLeft', offset: 10, fontSize: 12 }} />
+  );
+  const colorAt = (i: number) => style?.colors?.[i] || COLORS[i % COLORS.length];
+  const showLegend = style?.showLegend ?? (multi || chartType === 'pie' || chartType === 'forecast');
+  const labels = !!style?.showDataLabels;
+  const legend = showLegend ? <Legend verticalAlign="top" height={28} wrapperStyle={{ fontSize: 11 }} /> : null;
+  const dataLabels = (key: string, position: 'top' | 'center' = 'top') =>
+    labels ? <LabelList dataKey={key} position={position} fontSize={10} fill="#475569" /> : null;
+  const margin = { top: 20, right: 30, left: 20, bottom: 40 };
+  const predicted = chartType === 'forecast' && chartData.some(p => p.forecast !== null && p.actual === null);
+  // Elements report their own index; line-like charts report the category under the cursor.
+  const select = onSelect && ((index: number, seriesKey?: string) => onSelect({ index, seriesKey }));
+  const selectActive = onSelect && ((state: any) => {
+    const index = state?.activeTooltipIndex == null ? NaN : Number(state.activeTooltipIndex);
+    if (Number.isInteger(index)) onSelect({ index });
+  });
+
+  const renderChart = () => {
+    switch (chartType) {
+      case 'bar':
+      case 'stackedBar':
+      case 'groupedBar':
+        return (
+          <BarChart data={chartData} margin={margin}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+            {xAxis}
+            {yAxis}
+            <Tooltip contentStyle={TOOLTIP_STYLE} />
+            {legend}
+            {series.map((s, i) => (
+              <Bar
+                key={s.key}
+                dataKey={s.key}
+                name={s.label}
+                fill={colorAt(i)}
+                stackId={chartType === 'stackedBar' ? 'stack' : undefined}
+                radius={chartType === 'stackedBar' && i < series.length - 1 ? undefined : [6, 6, 0, 0]}
+                onClick={select && ((_: any, index: number) => select(index, s.key))}
+              >
+                {dataLabels(s.key, chartType === 'stackedBar' ? 'center' : 'top')}
+              </Bar>
+            ))}
+          </BarChart>
+        );
+      case 'line':
+        return (
+          <LineChart data={chartData} margin={{ ...margin, bottom: 20 }} onClick={selectActive}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+            <XAxis dataKey="name" fontSize={11} tick={AXIS_TICK} />
+            <YAxis fontSize={11} tick={AXIS_TICK} />
+            <Tooltip contentStyle={TOOLTIP_STYLE} />
+            {legend}
+            {series.map((s, i) => (
+              <Line
+                key={s.key}
+                type="monotone"
+                dataKey={s.key}
+                name={s.label}
+                stroke={colorAt(i)}
+                strokeWidth={3}
+                dot={multi ? false : { r: 5, fill: colorAt(0) }}
+                activeDot={{ r: 7 }}
+                connectNulls
+              >
+                {dataLabels(s.key)}
+              </Line>
+            ))}
+          </LineChart>
+        );
+      case 'area':
+        return (
+          <AreaChart data={chartData} margin={{ ...margin, bottom: 20 }} onClick={selectActive}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+            <XAxis dataKey="name" fontSize={11} tick={AXIS_TICK} />
+            <YAxis fontSize={11} tick={AXIS_TICK} />
+            <Tooltip contentStyle={TOOLTIP_STYLE} />
+            {legend}
+            {series.map((s, i) => (
+              <Area
+                key={s.key}
+                type="monotone"
+                dataKey={s.key}
+                name={s.label}
+                stackId="area"
+                stroke={colorAt(i)}
+                fill={colorAt(i)}
+                fillOpacity={0.25}
+                strokeWidth={2}
+              >
+                {dataLabels(s.key)}
+              </Area>
+            ))}
+          </AreaChart>
+        );
+      case 'combo':
+        return (
+          <ComposedChart data={chartData} margin={margin} onClick={selectActive}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+            {xAxis}
+            <YAxis yAxisId="left" fontSize={11} tick={AXIS_TICK} stroke={colorAt(0)} />
+            <YAxis yAxisId="right" orientation="right" fontSize={11} tick={AXIS_TICK} stroke={colorAt(1)} />
+            <Tooltip contentStyle={TOOLTIP_STYLE} />
+            {legend}
+            {series.map((s, i) => s.axis === 'right' ? (
+              <Line key={s.key} yAxisId="right" type="monotone" dataKey={s.key} name={s.label} stroke={colorAt(i)} strokeWidth={3} connectNulls>
+                {dataLabels(s.key)}
+              </Line>
+            ) : (
+              <Bar key={s.key} yAxisId="left" dataKey={s.key} name={s.label} fill={colorAt(i)} radius={[6, 6, 0, 0]}>
+                {dataLabels(s.key)}
+              </Bar>
+            ))}
+          </ComposedChart>
+        );
+      case 'forecast':
+        return (
+          <ComposedChart data={chartData.map(p => ({ ...p, band: p.lower === null ? null : [p.lower, p.upper] }))} margin={margin} onClick={selectActive}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+            {xAxis}
+            {yAxis}
+            <Tooltip contentStyle={TOOLTIP_STYLE} formatter={formatForecastTooltip} />
+            {legend}
+            {predicted && <Area dataKey="band" name="95% range" stroke="none" fill={colorAt(1)} fillOpacity={0.15} isAnimationActive={false} />}
+            <Line dataKey="fitted" name="Fitted" stroke="#94a3b8" strokeWidth={1} strokeDasharray="2 3" dot={false} connectNulls />
+            <Line dataKey="actual" name={yAxisLabel || 'Actual'} stroke={colorAt(0)} strokeWidth={2} dot={<AnomalyDot />} activeDot={{ r: 5 }}>
+              {dataLabels('actual')}
+            </Line>
+            {predicted && (
+              <Line dataKey="forecast" name="Forecast" stroke={colorAt(1)} strokeWidth={2} strokeDasharray="6 4" dot={false}>
+                {dataLabels('forecast')}
+              </Line>
+            )}
+          </ComposedChart>
+        );
+      case 'histogram':
+        return (
+          <BarChart data={chartData} margin={margin} barCategoryGap={1} onClick={selectActive}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+            {xAxis}
+            {yAxis}
+            <Tooltip contentStyle={TOOLTIP_STYLE} />
+            <Bar dataKey="value" name="Count" fill={colorAt(0)}>
+              {dataLabels('value')}
+            </Bar>
+          </BarChart>
+        );
+      case 'boxPlot':
+        return (
+          <BarChart data={chartData.map(b => ({ ...b, range: [b.min, b.max] }))} margin={margin} onClick={selectActive}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+            {xAxis}
+            {yAxis}
+            <Tooltip content={<BoxTooltip />} cursor={{ fill: 'rgba(148, 163, 184, 0.1)' }} />
+            <Bar dataKey="range" fill={colorAt(0)} shape={<BoxShape />} isAnimationActive={false} />
+          </BarChart>
+        );
+      case 'pie':
+        return (
+          <PieChart>
+            <Pie data={chartData} cx="50%" cy="50%" innerRadius={70} outerRadius={90} paddingAngle={8} dataKey="value" nameKey="name" animationDuration={1000} label={labels} onClick={select && ((_: any, index: number) => select(index))}>
+              {chartData.map((_, index) => (
+                <Cell key={`cell-${index}`} fill={colorAt(index)} />
+              ))}
+            </Pie>
+            <Tooltip />
+            {showLegend && <Legend verticalAlign="bottom" height={36} />}
+          </PieChart>
+        );
+      default:
+        return (
+          <ScatterChart margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+            <XAxis dataKey="x" name={xAxisLabel} fontSize={11} type="number" label={{ value: xAxisLabel, position: 'insideBottom', offset: -10 }} />
+            <YAxis dataKey="y" name={yAxisLabel} fontSize={11} type="number" label={{ value: yAxisLabel, angle: -90, position: 'insideLeft' }} />
+            <Tooltip cursor={{ strokeDasharray: '3 3' }} />
+            <Scatter name="Data" data={chartData} fill={colorAt(0)} onClick={select && ((_: any, index: number) => select(index))} />
+          </ScatterChart>
+        );
+    }
+  };
+
+  return (
+    <div ref={chartRef} className={`${heightClass} w-full mt-6 bg-slate-50/50 dark:bg-slate-800/30 rounded-2xl p-6 border border-slate-100 dark:border-slate-800 shadow-inner chart-container overflow-hidden ${onSelect ? 'cursor-pointer' : ''}`}>
+      {chartType === 'heatmap' ? (
+        <Heatmap data={chartData} onSelect={select} />
+      ) : (
+        <ResponsiveContainer width="100%" height="100%">
+          {renderChart()}
+        </ResponsiveContainer>
+      )}
+    </div>
+  );
+};
+
+export default ChartView;
@@ -0,0 +1,183 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ArrowLeft, ArrowRight, FileText, FileType, Filter, GripVertical, Maximize2, Minimize2, PinOff, RefreshCw, StretchVertical } from 'lucide-react';
+import { AIResponse, ChartSelection, Dataset, PinnedInsight } from '../types';
+import { exportDashboardPdf, findPinDataset, refreshPin } from '../services/dashboard';
+import { canDrill, ColumnFilters, crossFilterPlan } from '../services/drillDown';
+import { executeQueryPlan, QueryPlanError } from '../services/queryEngine';
+import ChartView from './ChartView';
+
+const HEIGHTS: Record<PinnedInsight['height'], string> = { sm: 'h-56', md: 'h-80', lg: 'h-[28rem]' };
+const NEXT_HEIGHT: Record<PinnedInsight['height'], PinnedInsight['height']> = { sm: 'md', md: 'lg', lg: 'sm' };
+
+const iconButton = 'p-1.5 rounded-lg text-slate-400 hover:text-blue-600 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-20 transition-all';
+
+// Pinned chat answers laid out in a two-column grid. Tiles can be resized, reordered, annotated and refreshed.
+const DashboardGrid: React.FC<{
+  pins: PinnedInsight[];
+  datasets: Dataset[];
+  activeDataset: Dataset | null;
+  onChange: (pins: PinnedInsight[]) => void;
+  onBuildReport?: () => void;
+  filters?: ColumnFilters; // Data Table filters of the active dataset; tiles over it are cross-filtered
+  onSelect?: (response: AIResponse, selection: ChartSelection) => void;
+}> = ({ pins, datasets, activeDataset, onChange, onBuildReport, filters, onSelect }) => {
+  const chartRefs = useRef<Record<string, React.RefObject<HTMLDivElement>>>({});
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  // Tiles over the active dataset re-run their plans on the filtered records; the stored pin is untouched.
+  const crossFiltered = useMemo(() => {
+    const shown: Record<string, AIResponse> = {};
+    if (!activeDataset || !filters) return shown;
+    pins.forEach(pin => {
+      const plan = pin.response.queryPlan;
+      if (!plan || findPinDataset(pin, datasets, activeDataset) !== activeDataset) return;
+      const narrowed = crossFilterPlan(plan, pin.response.chartType, activeDataset, filters);
+      if (!narrowed) return;
+      try {
+        const { chartData, series, stats } = executeQueryPlan(narrowed, activeDataset, pin.response.chartType);
+        shown[pin.id] = { ...pin.response, chartData, series, queryStats: stats };
+      } catch (err) {
+        if (!(err instanceof QueryPlanError)) throw err;
+      }
+    });
+    return shown;
+  }, [pins, datasets, activeDataset, filters]);
+
+  const refFor = (id: string) => {
+    if (!chartRefs.current[id]) chartRefs.current[id] = React.createRef<HTMLDivElement>();
+    return chartRefs.current[id];
+  };
+
+  const update = (id: string, patch: Partial<PinnedInsight>) =>
+    onChange(pins.map(p => (p.id === id ? { ...p, ...patch } : p)));
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= pins.length) return;
+    const next = [...pins];
+    const [pin] = next.splice(from, 1);
+    next.splice(to, 0, pin);
+    onChange(next);
+  };
+
+  const refresh = (targets: PinnedInsight[]) => {
+    const nextErrors = { ...errors };
+    const refreshed = pins.map(pin => {
+      if (!targets.includes(pin)) return pin;
+      const dataset = findPinDataset(pin, datasets, activeDataset);
+      if (!dataset) {
+        nextErrors[pin.id] = 'No loaded dataset has the columns this chart needs.';
+        return pin;
+      }
+      try {
+        delete nextErrors[pin.id];
+        return refreshPin(pin, dataset);
+      } catch (err: any) {
+        nextErrors[pin.id] = err.message;
+        return pin;
+      }
+    });
+    setErrors(nextErrors);
+    onChange(refreshed);
+  };
+
+  const exportPdf = async () => {
+    setExporting(true);
+    try {
+      const elements = Object.fromEntries(pins.map(p => [p.id, chartRefs.current[p.id]?.current ?? null]));
+      await exportDashboardPdf(pins, elements, `InsightAI_Dashboard_${new Date().toISOString().slice(0, 10)}.pdf`);
+    } catch (e) {
+      console.error("Dashboard PDF generation failed", e);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  if (pins.length === 0) return null;
+
+  return (
+    <div className="mt-16">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h3 className="text-2xl font-bold font-outfit">Pinned Insights</h3>
+          <p className="text-sm text-slate-500">{pins.length} charts · drag to rearrange</p>
+        </div>
+        <div className="flex gap-3">
+          <button onClick={() => refresh(pins)} className="flex items-center gap-2 px-4 py-2.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl font-bold text-sm shadow-sm hover:bg-slate-50 transition-all">
+            <RefreshCw size={16} /> Refresh All
+          </button>
+          {onBuildReport && (
+            <button onClick={onBuildReport} className="flex items-center gap-2 px-4 py-2.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl font-bold text-sm shadow-sm hover:bg-slate-50 transition-all">
+              <FileText size={16} /> Build Report
+            </button>
+          )}
+          <button onClick={exportPdf} disabled={exporting} className="flex items-center gap-2 px-4 py-2.5 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-xl font-bold text-sm shadow-md disabled:opacity-50 transition-all">
+            <FileType size={16} /> {exporting ? 'Exporting...' : 'Export PDF'}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {pins.map((pin, index) => (
+          <div
+            key={pin.id}
+            draggable
+            onDragStart={() => setDragId(pin.id)}
+            onDragOver={e => e.preventDefault()}
+            onDrop={() => {
+              if (dragId) move(pins.findIndex(p => p.id === dragId), index);
+              setDragId(null);
+            }}
+            className={`p-6 bg-white dark:bg-slate-900 rounded-[2rem] border border-slate-100 dark:border-slate-800 shadow-sm ${pin.width === 2 ? 'md:col-span-2' : ''} ${dragId === pin.id ? 'opacity-40' : ''}`}
+          >
+            <div className="flex items-start gap-2">
+              <GripVertical size={16} className="text-slate-300 cursor-grab mt-1.5 shrink-0" />
+              <input
+                value={pin.title}
+                onChange={e => update(pin.id, { title: e.target.value })}
+                className="flex-1 min-w-0 bg-transparent text-lg font-bold font-outfit outline-none focus:ring-2 focus:ring-blue-500 rounded-lg px-1"
+              />
+              <div className="flex items-center shrink-0">
+                <button onClick={() => move(index, index - 1)} disabled={index === 0} title="Move earlier" className={iconButton}><ArrowLeft size={15} /></button>
+                <button onClick={() => move(index, index + 1)} disabled={index === pins.length - 1} title="Move later" className={iconButton}><ArrowRight size={15} /></button>
+                <button onClick={() => update(pin.id, { width: pin.width === 1 ? 2 : 1 })} title={pin.width === 1 ? 'Full width' : 'Half width'} className={iconButton}>
+                  {pin.width === 1 ? <Maximize2 size={15} /> : <Minimize2 size={15} />}
+                </button>
+                <button onClick={() => update(pin.id, { height: NEXT_HEIGHT[pin.height] })} title="Change height" className={iconButton}><StretchVertical size={15} /></button>
+                <button onClick={() => refresh([pin])} disabled={!pin.response.queryPlan} title="Recompute on the latest data" className={iconButton}><RefreshCw size={15} /></button>
+                <button onClick={() => onChange(pins.filter(p => p.id !== pin.id))} title="Unpin" className={`${iconButton} hover:text-red-500`}><PinOff size={15} /></button>
+              </div>
+            </div>
+            <p className="text-[11px] text-slate-400 font-medium mt-1 ml-6 flex items-center gap-1">
+              {pin.datasetName} · {pin.refreshedAt ? `refreshed ${pin.refreshedAt.toLocaleString()}` : `pinned ${pin.pinnedAt.toLocaleString()}`}
+              {crossFiltered[pin.id] && <span className="flex items-center gap-1 text-blue-500"> · <Filter size={11} /> cross-filtered</span>}
+            </p>
+
+            <ChartView
+              response={crossFiltered[pin.id] ?? pin.response}
+              style={pin.style}
+              chartRef={refFor(pin.id)}
+              heightClass={HEIGHTS[pin.height]}
+              onSelect={onSelect && activeDataset && canDrill(pin.response, activeDataset) && findPinDataset(pin, datasets, activeDataset) === activeDataset
+                ? selection => onSelect(crossFiltered[pin.id] ?? pin.response, selection)
+                : undefined}
+            />
+
+            {errors[pin.id] && <p className="mt-3 text-xs font-medium text-red-500">{errors[pin.id]}</p>}
+
+            <textarea
+              value={pin.note}
+              onChange={e => update(pin.id, { note: e.target.value })}
+              placeholder="Add a note..."
+              rows={2}
+              className="mt-4 w-full bg-slate-50 dark:bg-slate-800/50 border border-slate-100 dark:border-slate-800 rounded-xl px-4 py-3 text-sm outline-none focus:ring-2 focus:ring-blue-500 resize-y"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DashboardGrid;
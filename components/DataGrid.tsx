@@ -0,0 +1,326 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, ChevronDown, ChevronUp, Columns3, Eye, EyeOff, Filter, GripVertical, Search, X } from 'lucide-react';
+import { ColumnFilter, ColumnProfile, Dataset, DataRow, TableViewState } from '../types';
+import { DEFAULT_COLUMN_WIDTH, isFilterActive } from '../services/tableView';
+
+const ROW_HEIGHT = 44;
+const OVERSCAN = 10;
+// Browsers cap element heights (Chrome at about 16.7M px), so past this the spacer stops growing
+// and the scroll position maps proportionally onto the rows.
+const MAX_SCROLL_HEIGHT = 10_000_000;
+const MIN_COLUMN_WIDTH = 80;
+const MAX_CATEGORY_OPTIONS = 200;
+
+const inputClass = 'w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-1.5 text-sm font-medium outline-none focus:ring-2 focus:ring-blue-500';
+
+const FilterEditor: React.FC<{
+  dataset: Dataset;
+  column: string;
+  profile?: ColumnProfile;
+  filter?: ColumnFilter;
+  onChange: (filter: ColumnFilter | undefined) => void;
+  onClose: () => void;
+}> = ({ dataset, column, profile, filter, onChange, onClose }) => {
+  const type = profile?.type;
+  const [optionSearch, setOptionSearch] = useState('');
+
+  // Distinct values ordered by frequency; only computed for category filters.
+  const options = useMemo(() => {
+    if (type === 'integer' || type === 'decimal' || type === 'date') return [];
+    const counts = new Map<string, number>();
+    dataset.data.forEach(r => {
+      const key = r[column] === null || r[column] === undefined ? '' : String(r[column]);
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    });
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  }, [dataset, column, type]);
+
+  let body: React.ReactNode;
+  if (type === 'integer' || type === 'decimal') {
+    const range = filter?.kind === 'range' ? filter : { kind: 'range' as const };
+    const parse = (v: string) => (v === '' ? undefined : Number(v));
+    body = (
+      <div className="flex gap-2">
+        <input type="number" placeholder={`Min (${profile?.min ?? ''})`} defaultValue={range.min ?? ''} onChange={e => onChange({ ...range, min: parse(e.target.value) })} className={inputClass} />
+        <input type="number" placeholder={`Max (${profile?.max ?? ''})`} defaultValue={range.max ?? ''} onChange={e => onChange({ ...range, max: parse(e.target.value) })} className={inputClass} />
+      </div>
+    );
+  } else if (type === 'date') {
+    const range = filter?.kind === 'dateRange' ? filter : { kind: 'dateRange' as const };
+    body = (
+      <div className="flex flex-col gap-2">
+        <input type="date" defaultValue={range.from ?? ''} onChange={e => onChange({ ...range, from: e.target.value || undefined })} className={inputClass} />
+        <input type="date" defaultValue={range.to ?? ''} onChange={e => onChange({ ...range, to: e.target.value || undefined })} className={inputClass} />
+      </div>
+    );
+  } else {
+    const selected = filter?.kind === 'categories' ? filter.values : [];
+    const toggle = (value: string) => onChange({
+      kind: 'categories',
+      values: selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value]
+    });
+    const visible = options
+      .filter(([value]) => value.toLowerCase().includes(optionSearch.toLowerCase()))
+      .slice(0, MAX_CATEGORY_OPTIONS);
+    body = (
+      <>
+        <input type="text" placeholder="Find values..." value={optionSearch} onChange={e => setOptionSearch(e.target.value)} className={`${inputClass} mb-2`} />
+        <div className="max-h-56 overflow-y-auto space-y-1">
+          {visible.map(([value, count]) => (
+            <label key={value} className="flex items-center gap-2 text-xs px-2 py-1 rounded-md hover:bg-slate-50 dark:hover:bg-slate-800 cursor-pointer">
+              <input type="checkbox" checked={selected.includes(value)} onChange={() => toggle(value)} />
+              <span className="flex-1 truncate">{value === '' ? '(blank)' : value}</span>
+              <span className="text-slate-400">{count.toLocaleString()}</span>
+            </label>
+          ))}
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <div
+      onClick={e => e.stopPropagation()}
+      className="absolute left-0 top-full mt-2 w-64 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl shadow-2xl z-30 p-3 normal-case tracking-normal font-medium text-slate-700 dark:text-slate-200"
+    >
+      {body}
+      <div className="flex justify-between mt-3">
+        <button onClick={() => onChange(undefined)} className="text-xs font-bold text-slate-400 hover:text-red-500">Clear</button>
+        <button onClick={onClose} className="text-xs font-bold text-blue-600">Done</button>
+      </div>
+    </div>
+  );
+};
+
+const ColumnChooser: React.FC<{
+  dataset: Dataset;
+  view: TableViewState;
+  onViewChange: (view: TableViewState) => void;
+}> = ({ dataset, view, onViewChange }) => {
+  const order = [...view.columnOrder.filter(c => dataset.columns.includes(c)), ...dataset.columns.filter(c => !view.columnOrder.includes(c))];
+  const move = (index: number, delta: number) => {
+    const next = [...order];
+    const [col] = next.splice(index, 1);
+    next.splice(index + delta, 0, col);
+    onViewChange({ ...view, columnOrder: next });
+  };
+  const toggle = (col: string) => onViewChange({
+    ...view,
+    hiddenColumns: view.hiddenColumns.includes(col) ? view.hiddenColumns.filter(c => c !== col) : [...view.hiddenColumns, col]
+  });
+
+  return (
+    <div className="absolute right-0 top-full mt-2 w-72 max-h-96 overflow-y-auto bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl shadow-2xl z-30 p-2">
+      {order.map((col, i) => {
+        const hidden = view.hiddenColumns.includes(col);
+        return (
+          <div key={col} className="flex items-center gap-2 px-2 py-1.5 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-800 text-sm">
+            <button onClick={() => toggle(col)} className={hidden ? 'text-slate-300' : 'text-blue-600'}>
+              {hidden ? <EyeOff size={16} /> : <Eye size={16} />}
+            </button>
+            <span className={`flex-1 truncate font-medium ${hidden ? 'text-slate-400 line-through' : ''}`}>{col}</span>
+            <button disabled={i === 0} onClick={() => move(i, -1)} className="text-slate-400 hover:text-blue-600 disabled:opacity-20"><ChevronUp size={16} /></button>
+            <button disabled={i === order.length - 1} onClick={() => move(i, 1)} className="text-slate-400 hover:text-blue-600 disabled:opacity-20"><ChevronDown size={16} /></button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+// Virtualized grid: only the rows inside the viewport (plus overscan) are mounted.
+const DataGrid: React.FC<{
+  dataset: Dataset;
+  rows: DataRow[];
+  columns: string[];
+  profile: ColumnProfile[];
+  view: TableViewState;
+  onViewChange: (view: TableViewState) => void;
+}> = ({ dataset, rows, columns, profile, view, onViewChange }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(600);
+  const [openFilter, setOpenFilter] = useState<string | null>(null);
+  const [chooserOpen, setChooserOpen] = useState(false);
+  const [dragColumn, setDragColumn] = useState<string | null>(null);
+  const [searchDraft, setSearchDraft] = useState(view.search);
+  // The debounced search applies to the view as it is when the timer fires, not when typing started.
+  const latest = useRef({ view, onViewChange });
+  latest.current = { view, onViewChange };
+
+  const profileByColumn = useMemo(() => new Map(profile.map(p => [p.column, p])), [profile]);
+  const widthOf = (col: string) => view.columnWidths[col] ?? DEFAULT_COLUMN_WIDTH;
+  const totalWidth = columns.reduce((acc, c) => acc + widthOf(c), 0);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewportHeight(el.clientHeight));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  // Debounce the global search so each keystroke does not rescan every row.
+  useEffect(() => {
+    if (searchDraft === view.search) return;
+    const timer = setTimeout(() => latest.current.onViewChange({ ...latest.current.view, search: searchDraft }), 250);
+    return () => clearTimeout(timer);
+  }, [searchDraft]);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: 0 });
+  }, [rows]);
+
+  const contentHeight = rows.length * ROW_HEIGHT;
+  const spacerHeight = Math.min(contentHeight, MAX_SCROLL_HEIGHT);
+  // Pixel offset into the full list of rows; equal to scrollTop unless the spacer is capped.
+  const offset = contentHeight > spacerHeight
+    ? (Math.min(scrollTop, spacerHeight - viewportHeight) / Math.max(1, spacerHeight - viewportHeight)) * (contentHeight - viewportHeight)
+    : scrollTop;
+  const first = Math.max(0, Math.floor(offset / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(rows.length, Math.ceil((offset + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+
+  const toggleSort = (col: string) => {
+    const current = view.sort?.column === col ? view.sort.direction : undefined;
+    const sort = current === undefined ? { column: col, direction: 'asc' as const }
+      : current === 'asc' ? { column: col, direction: 'desc' as const }
+      : undefined;
+    onViewChange({ ...view, sort });
+  };
+
+  const setFilter = (col: string, filter: ColumnFilter | undefined) => {
+    const filters = { ...view.filters };
+    if (filter) filters[col] = filter; else delete filters[col];
+    onViewChange({ ...view, filters });
+  };
+
+  const startResize = (col: string, e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const startX = e.clientX;
+    const startWidth = widthOf(col);
+    let resized = view;
+    const onMove = (ev: MouseEvent) => {
+      resized = { ...resized, columnWidths: { ...resized.columnWidths, [col]: Math.max(MIN_COLUMN_WIDTH, startWidth + ev.clientX - startX) } };
+      onViewChange(resized);
+    };
+    const onUp = () => {
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', onUp);
+    };
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', onUp);
+  };
+
+  const dropOn = (target: string) => {
+    if (!dragColumn || dragColumn === target) return;
+    const order = view.columnOrder.filter(c => c !== dragColumn);
+    order.splice(order.indexOf(target), 0, dragColumn);
+    onViewChange({ ...view, columnOrder: order });
+    setDragColumn(null);
+  };
+
+  const activeFilterCount = Object.values(view.filters).filter(isFilterActive).length;
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-3xl border border-slate-200 dark:border-slate-800 shadow-xl overflow-hidden" onClick={() => setOpenFilter(null)}>
+      <div className="flex flex-wrap items-center gap-3 p-4 border-b border-slate-100 dark:border-slate-800">
+        <div className="relative flex-1 min-w-[220px]">
+          <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+          <input
+            type="text"
+            value={searchDraft}
+            onChange={e => setSearchDraft(e.target.value)}
+            placeholder="Search all columns..."
+            className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl pl-10 pr-4 py-2.5 text-sm font-medium outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        {activeFilterCount > 0 && (
+          <button
+            onClick={() => onViewChange({ ...view, filters: {} })}
+            className="flex items-center gap-2 px-3 py-2 rounded-xl text-xs font-bold bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300"
+          >
+            {activeFilterCount} filter{activeFilterCount === 1 ? '' : 's'} <X size={14} />
+          </button>
+        )}
+        <div className="relative" onClick={e => e.stopPropagation()}>
+          <button
+            onClick={() => setChooserOpen(o => !o)}
+            className="flex items-center gap-2 px-4 py-2.5 rounded-xl text-sm font-bold border border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800"
+          >
+            <Columns3 size={16} /> Columns
+          </button>
+          {chooserOpen && <ColumnChooser dataset={dataset} view={view} onViewChange={onViewChange} />}
+        </div>
+      </div>
+
+      <div ref={scrollRef} onScroll={e => setScrollTop(e.currentTarget.scrollTop)} className="overflow-auto h-[65vh] relative">
+        <div style={{ width: totalWidth, minWidth: '100%' }}>
+          <div className="sticky top-0 z-20 flex bg-slate-50 dark:bg-slate-800/95 backdrop-blur-md border-b border-slate-200 dark:border-slate-700">
+            {columns.map(col => {
+              const sorted = view.sort?.column === col ? view.sort.direction : undefined;
+              const filtered = isFilterActive(view.filters[col]);
+              return (
+                <div
+                  key={col}
+                  draggable
+                  onDragStart={() => setDragColumn(col)}
+                  onDragOver={e => e.preventDefault()}
+                  onDrop={() => dropOn(col)}
+                  style={{ width: widthOf(col) }}
+                  className={`relative shrink-0 flex items-center gap-1.5 px-4 py-4 text-[11px] font-bold text-slate-500 uppercase tracking-widest select-none ${dragColumn === col ? 'opacity-40' : ''}`}
+                >
+                  <GripVertical size={12} className="text-slate-300 cursor-grab shrink-0" />
+                  <button onClick={() => toggleSort(col)} className="flex items-center gap-1 truncate hover:text-blue-600" title={col}>
+                    <span className="truncate">{col}</span>
+                    {sorted === 'asc' && <ArrowUp size={12} />}
+                    {sorted === 'desc' && <ArrowDown size={12} />}
+                  </button>
+                  <button
+                    onClick={e => { e.stopPropagation(); setOpenFilter(openFilter === col ? null : col); }}
+                    className={`ml-auto shrink-0 ${filtered ? 'text-blue-600' : 'text-slate-300 hover:text-slate-500'}`}
+                  >
+                    <Filter size={12} />
+                  </button>
+                  {openFilter === col && (
+                    <FilterEditor
+                      dataset={dataset}
+                      column={col}
+                      profile={profileByColumn.get(col)}
+                      filter={view.filters[col]}
+                      onChange={f => setFilter(col, f)}
+                      onClose={() => setOpenFilter(null)}
+                    />
+                  )}
+                  <div onMouseDown={e => startResize(col, e)} className="absolute right-0 top-0 h-full w-1.5 cursor-col-resize hover:bg-blue-400/50" />
+                </div>
+              );
+            })}
+          </div>
+
+          <div style={{ height: spacerHeight, position: 'relative' }}>
+            {rows.slice(first, last).map((r, i) => (
+              <div
+                key={first + i}
+                style={{ top: (first + i) * ROW_HEIGHT - offset + scrollTop, height: ROW_HEIGHT }}
+                className="absolute left-0 right-0 flex border-b border-slate-100 dark:border-slate-800 hover:bg-blue-50/30 dark:hover:bg-blue-900/10 transition-colors"
+              >
+                {columns.map(c => (
+                  <div key={c} style={{ width: widthOf(c) }} className="shrink-0 px-4 flex items-center text-sm font-medium text-slate-700 dark:text-slate-300">
+                    <span className="truncate" title={r[c]?.toString()}>{r[c]?.toString() || '-'}</span>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          {rows.length === 0 && (
+            <div className="p-8 text-center text-slate-400 font-medium">No rows match the current search and filters.</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DataGrid;
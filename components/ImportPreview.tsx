@@ -0,0 +1,212 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FileSpreadsheet, X } from 'lucide-react';
+import { ColumnType, Dataset, Delimiter, ImportSource } from '../types';
+import { DELIMITERS, parseDelimited } from '../services/csvParser';
+import { COLUMN_TYPES, buildDataset, inferColumnTypes, normalizeHeaders } from '../services/typeInference';
+import { PREVIEW_BYTES } from '../services/importers';
+import { IngestRequest, MAX_IN_MEMORY_CELLS } from '../services/ingest';
+
+const PREVIEW_ROWS = 8;
+const HEADER_CANDIDATES = 10;
+
+const TYPE_LABELS: Record<ColumnType, string> = {
+  integer: 'Integer',
+  decimal: 'Decimal',
+  boolean: 'Boolean',
+  date: 'Date',
+  categorical: 'Categorical',
+  identifier: 'Identifier'
+};
+
+// Lets the user confirm the header row and per-column types before a Dataset is created.
+// Large files are previewed from their first rows and handed to onStream for the full import.
+const ImportPreview: React.FC<{
+  source: ImportSource;
+  onConfirm: (dataset: Dataset) => void;
+  onStream: (request: IngestRequest) => void;
+  onCancel: () => void;
+}> = ({ source, onConfirm, onStream, onCancel }) => {
+  const [delimiter, setDelimiter] = useState<Delimiter | undefined>(source.delimiter);
+  const [sheet, setSheet] = useState<string | undefined>(source.sheet);
+  const [headerRow, setHeaderRow] = useState(0);
+  const [overrides, setOverrides] = useState<Record<number, ColumnType>>({});
+  const [stratifyBy, setStratifyBy] = useState<string | null | undefined>(undefined);
+
+  const records = useMemo(() => {
+    if (source.text !== undefined && delimiter && delimiter !== source.delimiter) {
+      return parseDelimited(source.text, delimiter);
+    }
+    if (source.readSheet && sheet && sheet !== source.sheet) {
+      return source.readSheet(sheet);
+    }
+    return source.records;
+  }, [source, delimiter, sheet]);
+
+  const headers = useMemo(() => normalizeHeaders(records[headerRow] ?? []), [records, headerRow]);
+  const inferred = useMemo(
+    () => inferColumnTypes(headers, records.slice(headerRow + 1)),
+    [headers, records, headerRow]
+  );
+  const columnTypes = inferred.map((t, i) => overrides[i] ?? t);
+  const previewRows = records.slice(headerRow + 1, headerRow + 1 + PREVIEW_ROWS);
+  const dataRowCount = Math.max(0, records.length - headerRow - 1);
+  // For a partial source the count is extrapolated from the share of the file that was read.
+  const estimatedRows = source.partial && source.file
+    ? Math.round(dataRowCount * (source.file.size / PREVIEW_BYTES))
+    : dataRowCount;
+  const willSample = !!source.partial && estimatedRows * headers.length > MAX_IN_MEMORY_CELLS;
+
+  // Inferred types no longer line up with the columns once the layout changes.
+  useEffect(() => setOverrides({}), [delimiter, sheet, headerRow]);
+
+  const handleConfirm = () => {
+    if (headers.length === 0) return;
+    if (source.partial && source.file && delimiter && source.encoding) {
+      onStream({
+        file: source.file,
+        delimiter,
+        encoding: source.encoding,
+        headerRow,
+        columns: headers,
+        columnTypes,
+        maxCells: MAX_IN_MEMORY_CELLS,
+        stratifyBy
+      });
+      return;
+    }
+    onConfirm(buildDataset(source.fileName, records, headerRow, columnTypes));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-6 animate-in fade-in duration-300">
+      <div className="bg-white dark:bg-slate-900 rounded-[2rem] border border-slate-200 dark:border-slate-800 shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-8 border-b border-slate-100 dark:border-slate-800">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 bg-emerald-50 dark:bg-emerald-900/20 rounded-2xl flex items-center justify-center">
+              <FileSpreadsheet className="text-emerald-600 w-6 h-6" />
+            </div>
+            <div>
+              <h3 className="text-xl font-bold font-outfit">Import Preview</h3>
+              <p className="text-sm text-slate-500">
+                {source.fileName}{sheet && <> · {sheet}</>} · {source.partial ? '~' : ''}{estimatedRows.toLocaleString()} rows · {headers.length} columns
+                {source.encoding && <> · <span className="uppercase">{source.encoding}</span></>}
+              </p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-6 px-8 py-5 border-b border-slate-100 dark:border-slate-800 text-sm">
+          {source.text !== undefined && (
+            <label className="flex items-center gap-3">
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Delimiter</span>
+              <select
+                value={delimiter}
+                onChange={e => setDelimiter(e.target.value as Delimiter)}
+                className="bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-1.5 font-medium"
+              >
+                {DELIMITERS.map(d => <option key={d.label} value={d.value}>{d.label}</option>)}
+              </select>
+            </label>
+          )}
+          {source.sheetNames && source.sheetNames.length > 1 && (
+            <label className="flex items-center gap-3">
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Sheet</span>
+              <select
+                value={sheet}
+                onChange={e => { setSheet(e.target.value); setHeaderRow(0); }}
+                className="bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-1.5 font-medium"
+              >
+                {source.sheetNames.map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+            </label>
+          )}
+          <label className="flex items-center gap-3">
+            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Header Row</span>
+            <select
+              value={headerRow}
+              onChange={e => setHeaderRow(Number(e.target.value))}
+              className="bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-1.5 font-medium max-w-xs"
+            >
+              {records.slice(0, HEADER_CANDIDATES).map((r, i) => (
+                <option key={i} value={i}>Row {i + 1}: {r.slice(0, 4).join(', ').slice(0, 40)}</option>
+              ))}
+            </select>
+          </label>
+          {willSample && (
+            <label className="flex items-center gap-3">
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Sample</span>
+              <select
+                value={stratifyBy === undefined ? '__auto' : stratifyBy === null ? '__random' : stratifyBy}
+                onChange={e => setStratifyBy(e.target.value === '__auto' ? undefined : e.target.value === '__random' ? null : e.target.value)}
+                className="bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-1.5 font-medium max-w-xs"
+              >
+                <option value="__auto">Stratified (automatic)</option>
+                <option value="__random">Random</option>
+                {headers.filter((_, i) => columnTypes[i] === 'categorical' || columnTypes[i] === 'boolean').map(h => (
+                  <option key={h} value={h}>Stratified by {h}</option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+        {willSample && (
+          <p className="px-8 py-3 text-xs font-medium text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/20 border-b border-amber-100 dark:border-amber-900/40">
+            This file is too large to keep in memory. Column statistics will cover every row, but charts and answers will use a sample of about {Math.floor(MAX_IN_MEMORY_CELLS / Math.max(1, headers.length)).toLocaleString()} rows.
+          </p>
+        )}
+
+        <div className="flex-1 overflow-auto">
+          <table className="w-full text-left border-collapse">
+            <thead className="sticky top-0 bg-slate-50 dark:bg-slate-800/90 backdrop-blur-md z-10">
+              <tr>
+                {headers.map((h, i) => (
+                  <th key={i} className="px-4 py-3 border-b border-slate-200 dark:border-slate-700 align-top">
+                    <div className="text-[11px] font-bold text-slate-500 uppercase tracking-widest whitespace-nowrap mb-2">{h}</div>
+                    <select
+                      value={columnTypes[i]}
+                      onChange={e => setOverrides(prev => ({ ...prev, [i]: e.target.value as ColumnType }))}
+                      className={`text-xs rounded-md px-2 py-1 border font-semibold ${
+                        overrides[i] ? 'border-blue-500 text-blue-600' : 'border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300'
+                      } bg-white dark:bg-slate-900`}
+                    >
+                      {COLUMN_TYPES.map(t => <option key={t} value={t}>{TYPE_LABELS[t]}</option>)}
+                    </select>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+              {previewRows.map((r, ri) => (
+                <tr key={ri}>
+                  {headers.map((_, ci) => (
+                    <td key={ci} className="px-4 py-3 text-sm text-slate-700 dark:text-slate-300 whitespace-pre-wrap max-w-xs truncate">
+                      {r[ci] || '-'}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-slate-100 dark:border-slate-800">
+          <button onClick={onCancel} className="px-6 py-3 rounded-xl font-bold text-sm text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-all">
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={headers.length === 0}
+            className="px-6 py-3 bg-blue-600 text-white rounded-xl font-bold text-sm shadow-lg shadow-blue-200 dark:shadow-none hover:bg-blue-700 disabled:opacity-30 transition-all"
+          >
+            Import {source.partial ? '~' : ''}{estimatedRows.toLocaleString()} rows
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportPreview;
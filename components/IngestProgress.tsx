@@ -0,0 +1,46 @@
+import React from 'react';
+import { Loader2 } from 'lucide-react';
+import { IngestProgress as Progress } from '../services/ingest';
+
+const PHASE_LABELS: Record<Progress['phase'], string> = {
+  reading: 'Reading and parsing',
+  sampling: 'Drawing a sample',
+  profiling: 'Profiling every row'
+};
+
+const formatMB = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Progress of a file being streamed in the ingest worker, with a way to cancel it.
+const IngestProgress: React.FC<{
+  fileName: string;
+  progress: Progress;
+  onCancel: () => void;
+}> = ({ fileName, progress, onCancel }) => {
+  const ratio = progress.totalBytes > 0 ? Math.min(1, progress.bytesRead / progress.totalBytes) : 0;
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-6 animate-in fade-in duration-300">
+      <div className="bg-white dark:bg-slate-900 rounded-[2rem] border border-slate-200 dark:border-slate-800 shadow-2xl w-full max-w-md p-8">
+        <div className="flex items-center gap-3 mb-1">
+          <Loader2 className="animate-spin text-blue-600" size={20} />
+          <h3 className="text-lg font-bold font-outfit truncate">Importing {fileName}</h3>
+        </div>
+        <p className="text-sm text-slate-500 mb-6">
+          {PHASE_LABELS[progress.phase]} · {progress.rows.toLocaleString()} rows
+        </p>
+        <div className="h-2 rounded-full bg-slate-100 dark:bg-slate-800 overflow-hidden">
+          <div className="h-full bg-blue-600 transition-all duration-200" style={{ width: `${Math.round(ratio * 100)}%` }} />
+        </div>
+        <div className="flex justify-between items-center mt-3">
+          <span className="text-xs font-semibold text-slate-400">
+            {formatMB(progress.bytesRead)} of {formatMB(progress.totalBytes)} · {Math.round(ratio * 100)}%
+          </span>
+          <button onClick={onCancel} className="px-4 py-2 rounded-xl font-bold text-xs text-slate-500 hover:bg-red-50 hover:text-red-600 dark:hover:bg-red-900/20 transition-all">
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IngestProgress;
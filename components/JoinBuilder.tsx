@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { GitMerge, Plus, Trash2, X } from 'lucide-react';
+import { Dataset, JoinDefinition, JoinType } from '../types';
+import { JOIN_TYPES } from '../services/joins';
+
+const selectClass = 'w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm font-medium';
+
+// Defines a join between two loaded datasets; the result is added to the workspace as a derived dataset.
+const JoinBuilder: React.FC<{
+  datasets: Dataset[];
+  onCreate: (join: JoinDefinition) => void;
+  onCancel: () => void;
+}> = ({ datasets, onCreate, onCancel }) => {
+  const [leftId, setLeftId] = useState(datasets[0]?.id ?? '');
+  const [rightId, setRightId] = useState(datasets[1]?.id ?? datasets[0]?.id ?? '');
+  const [type, setType] = useState<JoinType>('inner');
+  const [keys, setKeys] = useState<{ left: string; right: string }[]>([{ left: '', right: '' }]);
+
+  const left = datasets.find(d => d.id === leftId);
+  const right = datasets.find(d => d.id === rightId);
+  const valid = !!left && !!right && keys.length > 0 && keys.every(k => k.left && k.right);
+
+  const updateKey = (index: number, side: 'left' | 'right', value: string) =>
+    setKeys(prev => prev.map((k, i) => (i === index ? { ...k, [side]: value } : k)));
+
+  const pickDataset = (side: 'left' | 'right', id: string) => {
+    if (side === 'left') setLeftId(id); else setRightId(id);
+    setKeys(prev => prev.map(k => ({ ...k, [side]: '' })));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-6 animate-in fade-in duration-300">
+      <div className="bg-white dark:bg-slate-900 rounded-[2rem] border border-slate-200 dark:border-slate-800 shadow-2xl w-full max-w-2xl overflow-hidden">
+        <div className="flex items-center justify-between p-8 border-b border-slate-100 dark:border-slate-800">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 bg-indigo-50 dark:bg-indigo-900/20 rounded-2xl flex items-center justify-center">
+              <GitMerge className="text-indigo-600 w-6 h-6" />
+            </div>
+            <div>
+              <h3 className="text-xl font-bold font-outfit">Join Datasets</h3>
+              <p className="text-sm text-slate-500">Creates a derived dataset you can explore and ask questions about.</p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-8 space-y-6">
+          <div className="grid grid-cols-3 gap-4">
+            <label className="space-y-2">
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Left</span>
+              <select value={leftId} onChange={e => pickDataset('left', e.target.value)} className={selectClass}>
+                {datasets.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+              </select>
+            </label>
+            <label className="space-y-2">
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Join Type</span>
+              <select value={type} onChange={e => setType(e.target.value as JoinType)} className={selectClass}>
+                {JOIN_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+              </select>
+            </label>
+            <label className="space-y-2">
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Right</span>
+              <select value={rightId} onChange={e => pickDataset('right', e.target.value)} className={selectClass}>
+                {datasets.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+              </select>
+            </label>
+          </div>
+
+          <div className="space-y-3">
+            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Key Columns</span>
+            {keys.map((k, i) => (
+              <div key={i} className="flex items-center gap-3">
+                <select value={k.left} onChange={e => updateKey(i, 'left', e.target.value)} className={selectClass}>
+                  <option value="">Select column...</option>
+                  {left?.columns.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+                <span className="text-slate-400 font-bold">=</span>
+                <select value={k.right} onChange={e => updateKey(i, 'right', e.target.value)} className={selectClass}>
+                  <option value="">Select column...</option>
+                  {right?.columns.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+                <button
+                  disabled={keys.length === 1}
+                  onClick={() => setKeys(prev => prev.filter((_, j) => j !== i))}
+                  className="p-2 text-slate-400 hover:text-red-500 disabled:opacity-20"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))}
+            <button onClick={() => setKeys(prev => [...prev, { left: '', right: '' }])} className="flex items-center gap-2 text-xs font-bold text-blue-600">
+              <Plus size={14} /> Add key pair
+            </button>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-slate-100 dark:border-slate-800">
+          <button onClick={onCancel} className="px-6 py-3 rounded-xl font-bold text-sm text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-all">
+            Cancel
+          </button>
+          <button
+            onClick={() => onCreate({ leftId, rightId, type, keys })}
+            disabled={!valid}
+            className="px-6 py-3 bg-blue-600 text-white rounded-xl font-bold text-sm shadow-lg shadow-blue-200 dark:shadow-none hover:bg-blue-700 disabled:opacity-30 transition-all"
+          >
+            Create Joined Dataset
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default JoinBuilder;
@@ -0,0 +1,83 @@
+import React from 'react';
+import { Eye, Send, X } from 'lucide-react';
+import { AnalysisPayload } from '../services/geminiService';
+
+const sectionClass = 'text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2';
+const blockClass = 'text-xs font-mono whitespace-pre-wrap break-words bg-slate-50 dark:bg-slate-800/60 border border-slate-100 dark:border-slate-800 rounded-xl p-4';
+
+// Shows exactly what one question sends to the model provider. With onSend it doubles as a confirmation step.
+const PayloadPreview: React.FC<{
+  payload: AnalysisPayload;
+  destination: string; // Provider, model and endpoint
+  toolsEnabled?: boolean;
+  onSend?: () => void;
+  onClose: () => void;
+}> = ({ payload, destination, toolsEnabled, onSend, onClose }) => {
+  const size = new Blob([payload.systemInstruction, payload.query, ...payload.history.map(t => t.content)]).size;
+  const { stats } = payload;
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-6 animate-in fade-in duration-300">
+      <div className="bg-white dark:bg-slate-900 rounded-[2rem] border border-slate-200 dark:border-slate-800 shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-8 border-b border-slate-100 dark:border-slate-800">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 bg-emerald-50 dark:bg-emerald-900/20 rounded-2xl flex items-center justify-center">
+              <Eye className="text-emerald-600 w-6 h-6" />
+            </div>
+            <div>
+              <h3 className="text-xl font-bold font-outfit">Outgoing Payload</h3>
+              <p className="text-sm text-slate-500">
+                To {destination} · {(size / 1024).toFixed(1)} KB · ≈{stats.estimatedTokens.toLocaleString()} of {stats.budget.toLocaleString()} tokens
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-8 space-y-6 overflow-y-auto">
+          <p className="text-xs text-slate-500">
+            {stats.sampleRows} sample rows ({stats.sampling}) · {stats.aggregates} aggregates · {stats.keptTurns} recent turns verbatim
+            {stats.summarizedTurns > 0 && `, ${stats.summarizedTurns} older turns summarized`}
+          </p>
+          <div>
+            <div className={sectionClass}>System Instruction</div>
+            <pre className={blockClass}>{payload.systemInstruction}</pre>
+          </div>
+          {payload.history.length > 0 && (
+            <div>
+              <div className={sectionClass}>Conversation ({payload.history.length} turns)</div>
+              <div className="space-y-2">
+                {payload.history.map((turn, i) => (
+                  <pre key={i} className={blockClass}><span className="font-bold">{turn.role}:</span> {turn.content}</pre>
+                ))}
+              </div>
+            </div>
+          )}
+          <div>
+            <div className={sectionClass}>Question</div>
+            <pre className={blockClass}>{payload.query}</pre>
+          </div>
+          <p className="text-[11px] text-slate-400">The response schema (field names only, no data) is sent as well.{' '}
+            {toolsEnabled
+              ? `The model may also call data tools; their results (statistics, counts and, unless schema-only mode is on, matching values and rows, with column policies applied) are sent back to it and listed in the reasoning trace.${onSend ? ' Each round of results is shown for confirmation before it is sent.' : ''}`
+              : 'Nothing else leaves the browser.'}
+          </p>
+        </div>
+
+        {onSend && (
+          <div className="flex justify-end gap-3 p-6 border-t border-slate-100 dark:border-slate-800">
+            <button onClick={onClose} className="px-5 py-3 rounded-xl font-bold text-sm text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-all">
+              Cancel
+            </button>
+            <button onClick={onSend} className="flex items-center gap-2 px-5 py-3 bg-blue-600 text-white rounded-xl font-bold text-sm hover:bg-blue-700 transition-all">
+              <Send size={16} /> Send
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PayloadPreview;
@@ -0,0 +1,157 @@
+import React from 'react';
+import { AlertTriangle, ShieldAlert } from 'lucide-react';
+import { ColumnPolicy, ColumnProfile, ColumnType } from '../types';
+import { COLUMN_POLICIES, PII_LABELS } from '../services/privacy';
+
+const TYPE_STYLES: Record<ColumnType, string> = {
+  integer: 'bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300',
+  decimal: 'bg-indigo-100 dark:bg-indigo-900/40 text-indigo-700 dark:text-indigo-300',
+  boolean: 'bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300',
+  date: 'bg-emerald-100 dark:bg-emerald-900/40 text-emerald-700 dark:text-emerald-300',
+  categorical: 'bg-pink-100 dark:bg-pink-900/40 text-pink-700 dark:text-pink-300',
+  identifier: 'bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-300'
+};
+
+const formatStat = (value: number | string | undefined) => {
+  if (value === undefined) return '-';
+  if (typeof value === 'string') return value;
+  return Math.abs(value) >= 1000 ? Math.round(value).toLocaleString() : Number(value.toPrecision(4)).toString();
+};
+
+const Stat: React.FC<{ label: string; value: number | string | undefined }> = ({ label, value }) => (
+  <div>
+    <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{label}</div>
+    <div className="text-sm font-bold text-slate-700 dark:text-slate-200 truncate">{formatStat(value)}</div>
+  </div>
+);
+
+const Histogram: React.FC<{ bins: { label: string; count: number }[] }> = ({ bins }) => {
+  const peak = Math.max(...bins.map(b => b.count), 1);
+  return (
+    <div className="flex items-end gap-0.5 h-16 mt-4">
+      {bins.map(b => (
+        <div
+          key={b.label}
+          title={`${b.label}: ${b.count.toLocaleString()}`}
+          className="flex-1 bg-blue-500/70 hover:bg-blue-600 rounded-t transition-colors"
+          style={{ height: `${Math.max(4, (b.count / peak) * 100)}%` }}
+        />
+      ))}
+    </div>
+  );
+};
+
+const TopCategories: React.FC<{ profile: ColumnProfile }> = ({ profile }) => (
+  <div className="mt-4 space-y-2">
+    {profile.topCategories.map(c => (
+      <div key={c.value} className="text-xs">
+        <div className="flex justify-between mb-1">
+          <span className="font-semibold truncate max-w-[70%] text-slate-600 dark:text-slate-300">{c.value}</span>
+          <span className="text-slate-400">{c.count.toLocaleString()}</span>
+        </div>
+        <div className="w-full h-1.5 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden">
+          <div className="h-full bg-pink-500/70" style={{ width: `${(c.count / Math.max(profile.count, 1)) * 100}%` }} />
+        </div>
+      </div>
+    ))}
+  </div>
+);
+
+const ColumnCard: React.FC<{
+  profile: ColumnProfile;
+  totalRows: number;
+  policy: ColumnPolicy;
+  onPolicyChange: (policy: ColumnPolicy) => void;
+}> = ({ profile, totalRows, policy, onPolicyChange }) => {
+  const numeric = profile.type === 'integer' || profile.type === 'decimal';
+  return (
+    <div className="p-6 bg-white dark:bg-slate-900 rounded-3xl border border-slate-100 dark:border-slate-800 shadow-sm">
+      <div className="flex items-start justify-between gap-3 mb-3">
+        <h3 className="font-bold text-lg truncate" title={profile.column}>{profile.column}</h3>
+        <span className={`text-[10px] font-bold uppercase tracking-widest px-2.5 py-1 rounded-full whitespace-nowrap ${TYPE_STYLES[profile.type]}`}>
+          {profile.type}
+        </span>
+      </div>
+
+      <div className="flex items-center justify-between gap-3 mb-5">
+        {profile.pii ? (
+          <span className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-widest px-2.5 py-1 rounded-full bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300">
+            <ShieldAlert size={12} /> {PII_LABELS[profile.pii]}
+          </span>
+        ) : <span />}
+        <label className="flex items-center gap-2 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+          To model
+          <select
+            value={policy}
+            onChange={e => onPolicyChange(e.target.value as ColumnPolicy)}
+            className="bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1 text-xs font-bold normal-case tracking-normal text-slate-700 dark:text-slate-200"
+          >
+            {COLUMN_POLICIES.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <Stat label="Nulls" value={`${profile.nullCount.toLocaleString()} (${totalRows ? Math.round((profile.nullCount / totalRows) * 100) : 0}%)`} />
+        <Stat label="Distinct" value={profile.distinctCount.toLocaleString()} />
+        {profile.min !== undefined && <Stat label="Min" value={profile.min} />}
+        {profile.max !== undefined && <Stat label="Max" value={profile.max} />}
+        {numeric && <Stat label="Mean" value={profile.mean} />}
+        {numeric && <Stat label="Std Dev" value={profile.stdDev} />}
+        {numeric && profile.quantiles && (
+          <>
+            <Stat label="P25" value={profile.quantiles.p25} />
+            <Stat label="Median" value={profile.quantiles.p50} />
+            <Stat label="P75" value={profile.quantiles.p75} />
+          </>
+        )}
+      </div>
+
+      {profile.histogram.length > 0 ? <Histogram bins={profile.histogram} /> : <TopCategories profile={profile} />}
+
+      {profile.warnings.length > 0 && (
+        <div className="mt-5 space-y-2">
+          {profile.warnings.map(w => (
+            <div key={w.kind} className="flex items-start gap-2 text-xs font-medium text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/20 px-3 py-2 rounded-xl">
+              <AlertTriangle size={14} className="shrink-0 mt-0.5" /> {w.message}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Column statistics, plus what each column may reveal to the model.
+const ProfilePanel: React.FC<{
+  profiles: ColumnProfile[];
+  totalRows: number;
+  policies: Record<string, ColumnPolicy>;
+  onPolicyChange: (column: string, policy: ColumnPolicy) => void;
+}> = ({ profiles, totalRows, policies, onPolicyChange }) => {
+  const warningCount = profiles.reduce((acc, p) => acc + p.warnings.length, 0);
+  const piiCount = profiles.filter(p => p.pii).length;
+  return (
+    <div className="animate-in fade-in duration-500">
+      <div className="mb-10">
+        <h2 className="text-3xl font-bold font-outfit mb-2">Column Profile</h2>
+        <p className="text-slate-500 font-medium">
+          <span className="bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300 px-3 py-1 rounded-full text-xs mr-2">{profiles.length} Columns</span>
+          {warningCount > 0 ? `${warningCount} data quality warnings` : 'No data quality warnings'}
+          {piiCount > 0 && (
+            <span className="ml-2 bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300 px-3 py-1 rounded-full text-xs">
+              {piiCount} {piiCount === 1 ? 'column looks' : 'columns look'} like personal data
+            </span>
+          )}
+        </p>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+        {profiles.map(p => (
+          <ColumnCard key={p.column} profile={p} totalRows={totalRows} policy={policies[p.column]} onPolicyChange={policy => onPolicyChange(p.column, policy)} />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ProfilePanel;
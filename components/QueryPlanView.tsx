@@ -0,0 +1,76 @@
+import React from 'react';
+import { Code2 } from 'lucide-react';
+import { AIResponse, ForecastMethod } from '../types';
+import { describeQueryPlan } from '../services/queryEngine';
+
+const FORECAST_LABELS: Record<ForecastMethod, string> = {
+  auto: 'automatic',
+  movingAverage: 'moving average',
+  exponentialSmoothing: 'exponential smoothing',
+  seasonal: 'seasonal decomposition'
+};
+
+// Shows the plan the local engine executed, so every charted number can be audited.
+const QueryPlanView: React.FC<{ response: AIResponse }> = ({ response }) => {
+  const { queryPlan, queryStats, chartType } = response;
+  if (!queryPlan || chartType === 'none') return null;
+
+  const measures = (queryPlan.valueColumns?.length ? queryPlan.valueColumns : [queryPlan.valueColumn]).filter(Boolean);
+  const details: [string, string | undefined][] = chartType === 'scatter'
+    ? [['X column', queryPlan.xColumn], ['Y column', queryPlan.yColumn]]
+    : chartType === 'histogram'
+    ? [['Column', queryPlan.valueColumn], ['Bins', queryPlan.bins ? String(queryPlan.bins) : 'auto']]
+    : chartType === 'boxPlot'
+    ? [['Column', queryPlan.valueColumn], ['Group by', queryPlan.groupBy]]
+    : chartType === 'forecast'
+    ? [
+        ['Date column', queryPlan.groupBy],
+        ['Measure', `${queryPlan.aggregation}${queryPlan.valueColumn ? ` of ${queryPlan.valueColumn}` : ''}`],
+        ['Interval', queryStats?.forecast?.interval ?? queryPlan.interval],
+        ['Method', `${FORECAST_LABELS[queryStats?.forecast?.method ?? queryPlan.forecastMethod ?? 'auto']}${queryStats?.forecast?.seasonLength ? `, ${queryStats.forecast.seasonLength}-period season` : ''}`],
+        ['Periods ahead', String(queryStats?.forecast?.horizon ?? queryPlan.horizon ?? 'auto')],
+        ['Anomalies', queryStats?.forecast ? `${queryStats.forecast.anomalies} (${queryStats.forecast.anomalyMethod === 'iqr' ? 'IQR' : 'z-score'})` : undefined]
+      ]
+    : chartType === 'heatmap' && !(queryPlan.groupBy && queryPlan.seriesBy)
+    ? [['Correlation of', queryPlan.columns?.length ? queryPlan.columns.join(', ') : 'all numeric columns']]
+    : [
+        ['Group by', queryPlan.groupBy],
+        ['Series', queryPlan.seriesBy],
+        ['Aggregation', `${queryPlan.aggregation}${measures.length ? ` of ${measures.join(', ')}` : ''}`],
+        ['Sort', queryPlan.sort ? `${queryPlan.sort.by} ${queryPlan.sort.direction}` : undefined]
+      ];
+  if (queryPlan.limit) details.push(['Limit', String(queryPlan.limit)]);
+
+  return (
+    <div className="mt-4 p-4 rounded-2xl bg-slate-50 dark:bg-slate-800/40 border border-slate-100 dark:border-slate-800">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-2">
+          <Code2 size={14} /> Query Plan
+        </span>
+        {queryStats && (
+          <span className="text-[10px] font-bold text-slate-400">
+            {queryStats.rowsMatched.toLocaleString()} of {queryStats.rowsScanned.toLocaleString()} rows matched · {queryStats.groups.toLocaleString()} groups
+            {queryStats.sampleOf && <> · sample of {queryStats.sampleOf.toLocaleString()} rows</>}
+          </span>
+        )}
+      </div>
+      <code className="block text-xs font-mono text-slate-700 dark:text-slate-300 break-words mb-3">
+        {describeQueryPlan(queryPlan, chartType)}
+      </code>
+      <div className="flex flex-wrap gap-2">
+        {details.filter(([, value]) => value).map(([label, value]) => (
+          <span key={label} className="text-[11px] px-2.5 py-1 rounded-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300">
+            <span className="font-bold">{label}:</span> {value}
+          </span>
+        ))}
+        {(queryPlan.filters ?? []).map((f, i) => (
+          <span key={`filter-${i}`} className="text-[11px] px-2.5 py-1 rounded-full bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300">
+            <span className="font-bold">Filter:</span> {f.column} {f.operator} {f.operator === 'in' ? (f.values ?? []).join(', ') : String(f.value ?? '')}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default QueryPlanView;
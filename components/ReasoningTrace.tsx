@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronRight, Wrench } from 'lucide-react';
+import { ToolTraceStep } from '../types';
+
+const formatArgs = (args: Record<string, any>) =>
+  Object.entries(args).map(([key, value]) => `${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`).join(', ');
+
+const formatResult = (result: string) => {
+  try {
+    return JSON.stringify(JSON.parse(result), null, 2);
+  } catch {
+    return result;
+  }
+};
+
+// The local tool calls the model made before answering, each with the exact result it was given.
+const ReasoningTrace: React.FC<{ trace: ToolTraceStep[]; live?: boolean }> = ({ trace, live }) => {
+  const [open, setOpen] = useState(false);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  if (trace.length === 0) return null;
+  const showSteps = open || live;
+
+  return (
+    <div className="mt-4 rounded-2xl bg-slate-50 dark:bg-slate-800/40 border border-slate-100 dark:border-slate-800">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between p-4 text-[10px] font-black text-slate-400 uppercase tracking-widest"
+      >
+        <span className="flex items-center gap-2">
+          <Wrench size={14} /> Reasoning Trace
+        </span>
+        <span className="flex items-center gap-2">
+          {trace.length} tool {trace.length === 1 ? 'call' : 'calls'}
+          {showSteps ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        </span>
+      </button>
+      {showSteps && (
+        <ol className="px-4 pb-4 space-y-2">
+          {trace.map((step, i) => (
+            <li key={i} className="rounded-xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700">
+              <button onClick={() => setExpanded(expanded === i ? null : i)} className="w-full flex items-center gap-3 px-3 py-2 text-left">
+                <span className="text-xs font-black text-slate-400 w-5">{i + 1}</span>
+                {step.error && <AlertTriangle size={14} className="text-amber-500 shrink-0" />}
+                <code className="flex-1 text-xs font-mono text-slate-700 dark:text-slate-300 truncate">
+                  <span className="font-bold text-blue-600 dark:text-blue-400">{step.tool}</span>({formatArgs(step.args)})
+                </code>
+                {expanded === i ? <ChevronDown size={14} className="text-slate-400" /> : <ChevronRight size={14} className="text-slate-400" />}
+              </button>
+              {expanded === i && (
+                <pre className={`px-3 pb-3 text-[11px] font-mono whitespace-pre-wrap break-words max-h-72 overflow-y-auto ${step.error ? 'text-amber-600 dark:text-amber-400' : 'text-slate-600 dark:text-slate-400'}`}>
+                  {formatResult(step.result)}
+                </pre>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default ReasoningTrace;
@@ -0,0 +1,192 @@
+import React, { useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, BarChart3, FileText, FileType, Loader2, MessageSquare, Pin, Plus, X } from 'lucide-react';
+import { ColumnProfile, Dataset } from '../types';
+import { buildDocxReport, buildPdfReport, hasChart, ReportItem, reportFileName } from '../services/report';
+import { captureChart, VectorChart } from '../services/chartVector';
+import ChartView from './ChartView';
+
+const sectionClass = 'text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3';
+const iconButton = 'p-1.5 rounded-lg text-slate-400 hover:text-blue-600 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-20 transition-all';
+
+// Recharts animates new charts in; exports wait this long after a chart is added so it is captured complete.
+const CHART_SETTLE_MS = 1600;
+
+const SourceIcon: React.FC<{ item: ReportItem }> = ({ item }) =>
+  item.source === 'pin' ? <Pin size={14} className="text-blue-500 shrink-0" /> : <MessageSquare size={14} className="text-slate-400 shrink-0" />;
+
+// Assembles chat answers and pinned charts into one ordered report, exported as PDF or Word.
+const ReportBuilder: React.FC<{
+  items: ReportItem[];
+  dataset: Dataset | null;
+  profile: ColumnProfile[];
+  initialSelection?: string[];
+  onClose: () => void;
+}> = ({ items, dataset, profile, initialSelection, onClose }) => {
+  const [title, setTitle] = useState(dataset ? `${dataset.name.split('.')[0]} Analysis` : 'Analysis Report');
+  const [selected, setSelected] = useState<string[]>(initialSelection ?? items.map(i => i.id));
+  const [includeDataset, setIncludeDataset] = useState(true);
+  const [busy, setBusy] = useState<'pdf' | 'docx' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const chartRefs = useRef<Record<string, React.RefObject<HTMLDivElement>>>({});
+  const settledAt = useRef(Date.now() + CHART_SETTLE_MS);
+
+  const byId = new Map(items.map(i => [i.id, i]));
+  const chosen = selected.map(id => byId.get(id)).filter((i): i is ReportItem => !!i);
+  const available = items.filter(i => !selected.includes(i.id));
+
+  const refFor = (id: string) => {
+    if (!chartRefs.current[id]) chartRefs.current[id] = React.createRef<HTMLDivElement>();
+    return chartRefs.current[id];
+  };
+
+  const add = (id: string) => {
+    settledAt.current = Date.now() + CHART_SETTLE_MS;
+    setSelected(prev => [...prev, id]);
+  };
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= selected.length) return;
+    const next = [...selected];
+    const [id] = next.splice(from, 1);
+    next.splice(to, 0, id);
+    setSelected(next);
+  };
+
+  const exportReport = async (format: 'pdf' | 'docx') => {
+    setBusy(format);
+    setError(null);
+    try {
+      const wait = settledAt.current - Date.now();
+      if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+      const charts: Record<string, VectorChart | undefined> = {};
+      chosen.filter(hasChart).forEach(item => {
+        const element = chartRefs.current[item.id]?.current;
+        if (element) charts[item.id] = captureChart(element);
+      });
+      const content = {
+        title: title.trim() || 'Analysis Report',
+        dataset: includeDataset ? dataset : null,
+        profile: includeDataset ? profile : [],
+        items: chosen,
+        charts
+      };
+      const blob = format === 'pdf' ? buildPdfReport(content) : await buildDocxReport(content);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = reportFileName(content.title, format);
+      a.click();
+    } catch (e) {
+      console.error('Report export failed', e);
+      setError(e instanceof Error ? e.message : 'Report export failed.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-6 animate-in fade-in duration-300">
+      <div className="bg-white dark:bg-slate-900 rounded-[2rem] border border-slate-200 dark:border-slate-800 shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between p-8 border-b border-slate-100 dark:border-slate-800">
+          <div className="flex items-center gap-4">
+            <div className="w-12 h-12 bg-blue-50 dark:bg-blue-900/20 rounded-2xl flex items-center justify-center">
+              <FileText className="text-blue-600 w-6 h-6" />
+            </div>
+            <div>
+              <h3 className="text-xl font-bold font-outfit">Report Builder</h3>
+              <p className="text-sm text-slate-500">Pick chat answers and pinned charts, put them in order, and export.</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-8 space-y-6 overflow-y-auto">
+          <div className="flex flex-wrap items-end gap-6">
+            <label className="flex-1 min-w-[16rem] space-y-2">
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Title</span>
+              <input
+                value={title}
+                onChange={e => setTitle(e.target.value)}
+                className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm font-medium"
+              />
+            </label>
+            {dataset && (
+              <label className="flex items-center gap-2 text-sm font-medium text-slate-600 dark:text-slate-300 pb-2">
+                <input type="checkbox" checked={includeDataset} onChange={e => setIncludeDataset(e.target.checked)} />
+                Describe {dataset.name}
+              </label>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+            <div>
+              <div className={sectionClass}>In This Report ({chosen.length})</div>
+              {chosen.length === 0 ? (
+                <p className="text-sm text-slate-400">Add answers or pinned charts from the list.</p>
+              ) : (
+                <ol className="space-y-2">
+                  {chosen.map((item, i) => (
+                    <li key={item.id} className="flex items-center gap-3 p-3 rounded-xl border border-slate-100 dark:border-slate-800 bg-slate-50/60 dark:bg-slate-800/40">
+                      <span className="text-xs font-black text-slate-400 w-5">{i + 1}</span>
+                      <SourceIcon item={item} />
+                      <span className="flex-1 text-sm font-medium truncate" title={item.title}>{item.title}</span>
+                      {hasChart(item) && <BarChart3 size={14} className="text-slate-300 shrink-0" />}
+                      <button onClick={() => move(i, i - 1)} disabled={i === 0} className={iconButton}><ArrowUp size={14} /></button>
+                      <button onClick={() => move(i, i + 1)} disabled={i === chosen.length - 1} className={iconButton}><ArrowDown size={14} /></button>
+                      <button onClick={() => setSelected(prev => prev.filter(id => id !== item.id))} className={iconButton}><X size={14} /></button>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+            <div>
+              <div className={sectionClass}>Available ({available.length})</div>
+              {available.length === 0 ? (
+                <p className="text-sm text-slate-400">Everything is in the report.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {available.map(item => (
+                    <li key={item.id} className="flex items-center gap-3 p-3 rounded-xl border border-dashed border-slate-200 dark:border-slate-700">
+                      <SourceIcon item={item} />
+                      <span className="flex-1 text-sm text-slate-600 dark:text-slate-300 truncate" title={item.title}>{item.title}</span>
+                      <button onClick={() => add(item.id)} className={iconButton}><Plus size={14} /></button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end gap-3 p-6 border-t border-slate-100 dark:border-slate-800">
+          {error && <span className="flex-1 text-xs font-semibold text-red-500">{error}</span>}
+          <button
+            onClick={() => exportReport('docx')}
+            disabled={chosen.length === 0 || busy !== null}
+            className="flex items-center gap-2 px-5 py-3 rounded-xl font-bold text-sm text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-40 transition-all"
+          >
+            {busy === 'docx' ? <Loader2 size={16} className="animate-spin" /> : <FileText size={16} />} Word Document
+          </button>
+          <button
+            onClick={() => exportReport('pdf')}
+            disabled={chosen.length === 0 || busy !== null}
+            className="flex items-center gap-2 px-5 py-3 bg-blue-600 text-white rounded-xl font-bold text-sm hover:bg-blue-700 disabled:opacity-40 transition-all"
+          >
+            {busy === 'pdf' ? <Loader2 size={16} className="animate-spin" /> : <FileType size={16} />} PDF
+          </button>
+        </div>
+      </div>
+
+      {/* Off-screen copies of the selected charts at a fixed size, read as vectors on export. */}
+      <div aria-hidden className="fixed top-0 -left-[10000px] w-[760px] pointer-events-none">
+        {chosen.filter(hasChart).map(item => (
+          <ChartView key={item.id} response={item.response} style={item.style} chartRef={refFor(item.id)} heightClass="h-96" />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ReportBuilder;
@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { Check, Copy, FolderOpen, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { Session } from '../types';
+import { deleteSession, duplicateSession, listSessions, renameSession } from '../services/storage';
+
+// Saved analysis sessions: reopen, rename, duplicate or delete them.
+const SessionList: React.FC<{
+  currentSessionId: string;
+  refreshKey: number;
+  onOpen: (id: string) => void;
+  onNew: () => void;
+  onRenamed: (id: string, name: string) => void;
+  onDeleted: (id: string) => void;
+}> = ({ currentSessionId, refreshKey, onOpen, onNew, onRenamed, onDeleted }) => {
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () => listSessions().then(setSessions).catch(err => setError(err.message));
+
+  useEffect(() => { refresh(); }, [refreshKey]);
+
+  const run = (action: Promise<unknown>) => action.then(refresh).catch(err => setError(err.message));
+
+  const commitRename = () => {
+    if (!editing) return;
+    const name = editing.name.trim();
+    if (name) {
+      run(renameSession(editing.id, name));
+      onRenamed(editing.id, name);
+    }
+    setEditing(null);
+  };
+
+  const handleDelete = (session: Session) => {
+    if (!confirm(`Delete "${session.name}"? Its datasets and conversation will be removed from this browser.`)) return;
+    run(deleteSession(session.id));
+    onDeleted(session.id);
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto animate-in fade-in duration-500">
+      <div className="flex items-center justify-between mb-10">
+        <div>
+          <h2 className="text-3xl font-bold font-outfit mb-2">Sessions</h2>
+          <p className="text-slate-500 font-medium">Datasets and conversations are saved in this browser automatically.</p>
+        </div>
+        <button onClick={onNew} className="flex items-center gap-2 px-5 py-3 bg-blue-600 text-white rounded-xl font-bold text-sm shadow-lg shadow-blue-200 dark:shadow-none hover:bg-blue-700 transition-all">
+          <Plus size={18} /> New Session
+        </button>
+      </div>
+
+      {error && <p className="mb-6 text-sm font-medium text-red-500">Storage error: {error}</p>}
+
+      {sessions.length === 0 ? (
+        <div className="p-12 text-center text-slate-400 bg-white dark:bg-slate-900 rounded-3xl border border-slate-100 dark:border-slate-800">
+          No saved sessions yet. Upload a dataset to start one.
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {sessions.map(s => {
+            const current = s.id === currentSessionId;
+            return (
+              <div key={s.id} className={`p-6 bg-white dark:bg-slate-900 rounded-3xl border shadow-sm flex items-center gap-6 ${current ? 'border-blue-500' : 'border-slate-100 dark:border-slate-800'}`}>
+                <div className="flex-1 min-w-0">
+                  {editing?.id === s.id ? (
+                    <div className="flex items-center gap-2">
+                      <input
+                        autoFocus
+                        value={editing.name}
+                        onChange={e => setEditing({ id: s.id, name: e.target.value })}
+                        onKeyDown={e => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setEditing(null); }}
+                        className="flex-1 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-1.5 font-bold outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <button onClick={commitRename} className="p-2 text-blue-600"><Check size={18} /></button>
+                      <button onClick={() => setEditing(null)} className="p-2 text-slate-400"><X size={18} /></button>
+                    </div>
+                  ) : (
+                    <h3 className="text-lg font-bold truncate">
+                      {s.name}
+                      {current && <span className="ml-3 text-[10px] font-black text-blue-600 uppercase tracking-widest">Open</span>}
+                    </h3>
+                  )}
+                  <p className="text-sm text-slate-500 mt-1 truncate">
+                    {s.datasetNames.length > 0 ? s.datasetNames.join(', ') : 'No datasets'} · {s.messages.length} messages · Updated {s.updatedAt.toLocaleString()}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  {!current && (
+                    <button onClick={() => onOpen(s.id)} title="Open" className="p-2.5 rounded-xl text-slate-500 hover:text-blue-600 hover:bg-slate-100 dark:hover:bg-slate-800"><FolderOpen size={18} /></button>
+                  )}
+                  <button onClick={() => setEditing({ id: s.id, name: s.name })} title="Rename" className="p-2.5 rounded-xl text-slate-500 hover:text-blue-600 hover:bg-slate-100 dark:hover:bg-slate-800"><Pencil size={18} /></button>
+                  <button onClick={() => run(duplicateSession(s.id))} title="Duplicate" className="p-2.5 rounded-xl text-slate-500 hover:text-blue-600 hover:bg-slate-100 dark:hover:bg-slate-800"><Copy size={18} /></button>
+                  <button onClick={() => handleDelete(s)} title="Delete" className="p-2.5 rounded-xl text-slate-500 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/10"><Trash2 size={18} /></button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionList;
@@ -0,0 +1,147 @@
+import React from 'react';
+import { Cpu, KeyRound, ShieldCheck, Thermometer } from 'lucide-react';
+import { PrivacySettings, ProviderSettings } from '../types';
+import { PROVIDERS, defaultProviderSettings, getProvider } from '../services/providers';
+import { DEFAULT_CONTEXT_BUDGET, MIN_CONTEXT_BUDGET } from '../services/contextBuilder';
+
+const inputClass = 'w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-4 py-3 text-sm font-medium outline-none focus:ring-2 focus:ring-blue-500';
+const labelClass = 'text-[10px] font-black text-slate-400 uppercase tracking-widest';
+
+// Chooses which model answers chat questions. Settings are stored with the other browser preferences.
+const Toggle: React.FC<{ label: string; description: string; checked: boolean; onChange: (checked: boolean) => void }> = ({ label, description, checked, onChange }) => (
+  <label className="flex items-start gap-3 cursor-pointer">
+    <input type="checkbox" checked={checked} onChange={e => onChange(e.target.checked)} className="mt-1 accent-blue-600" />
+    <span>
+      <span className="block text-sm font-bold">{label}</span>
+      <span className="block text-xs text-slate-500 mt-0.5">{description}</span>
+    </span>
+  </label>
+);
+
+const SettingsPanel: React.FC<{
+  settings: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+  privacy: PrivacySettings;
+  onPrivacyChange: (privacy: PrivacySettings) => void;
+}> = ({ settings, onChange, privacy, onPrivacyChange }) => {
+  const provider = getProvider(settings.provider);
+  const update = (patch: Partial<ProviderSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="max-w-3xl mx-auto animate-in fade-in duration-500">
+      <div className="mb-10">
+        <h2 className="text-3xl font-bold font-outfit mb-2">Settings</h2>
+        <p className="text-slate-500 font-medium">Pick the model provider that answers your questions.</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-8">
+        {PROVIDERS.map(p => (
+          <button
+            key={p.id}
+            onClick={() => p.id !== settings.provider && onChange(defaultProviderSettings(p.id))}
+            className={`p-5 text-left rounded-2xl border transition-all ${
+              p.id === settings.provider
+                ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+                : 'border-slate-100 dark:border-slate-800 bg-white dark:bg-slate-900 hover:border-slate-300'
+            }`}
+          >
+            <div className="flex items-center gap-2 font-bold"><Cpu size={16} className="text-blue-600" /> {p.label}</div>
+            <p className="text-xs text-slate-500 mt-1.5">{p.description}</p>
+          </button>
+        ))}
+      </div>
+
+      <div className="p-8 bg-white dark:bg-slate-900 rounded-[2rem] border border-slate-100 dark:border-slate-800 shadow-sm space-y-6">
+        <label className="block space-y-2">
+          <span className={labelClass}>Model</span>
+          <input value={settings.model} onChange={e => update({ model: e.target.value })} placeholder={provider.defaultModel} className={inputClass} />
+        </label>
+
+        <label className="block space-y-2">
+          <span className={`${labelClass} flex items-center gap-1.5`}><Thermometer size={12} /> Temperature · {settings.temperature.toFixed(1)}</span>
+          <input
+            type="range"
+            min={0}
+            max={2}
+            step={0.1}
+            value={settings.temperature}
+            onChange={e => update({ temperature: Number(e.target.value) })}
+            className="w-full accent-blue-600"
+          />
+        </label>
+
+        <label className="block space-y-2">
+          <span className={labelClass}>Context Budget (tokens)</span>
+          <input
+            type="number"
+            min={MIN_CONTEXT_BUDGET}
+            step={1000}
+            value={settings.contextBudget ?? DEFAULT_CONTEXT_BUDGET}
+            onChange={e => update({ contextBudget: Number(e.target.value) || undefined })}
+            className={inputClass}
+          />
+          <p className="text-[11px] text-slate-400">Sample rows, aggregates and conversation history are trimmed to fit; older turns are summarized.</p>
+        </label>
+
+        {provider.callTools && (
+          <Toggle
+            label="Data tool calls"
+            description="Before answering, the model may look up column statistics, distinct values, aggregates, correlations and matching rows over the full dataset. Each call is listed in the answer's reasoning trace."
+            checked={settings.useTools !== false}
+            onChange={useTools => update({ useTools })}
+          />
+        )}
+
+        {provider.defaultBaseUrl && (
+          <label className="block space-y-2">
+            <span className={labelClass}>Base URL</span>
+            <input value={settings.baseUrl ?? ''} onChange={e => update({ baseUrl: e.target.value })} placeholder={provider.defaultBaseUrl} className={inputClass} />
+          </label>
+        )}
+
+        {(provider.id === 'gemini' || provider.id === 'openai') && (
+          <label className="block space-y-2">
+            <span className={`${labelClass} flex items-center gap-1.5`}><KeyRound size={12} /> API Key {provider.requiresApiKey ? '' : '(optional)'}</span>
+            <input
+              type="password"
+              value={settings.apiKey ?? ''}
+              onChange={e => update({ apiKey: e.target.value || undefined })}
+              placeholder={provider.id === 'gemini' ? 'Uses the key configured at build time' : 'sk-...'}
+              className={inputClass}
+            />
+          </label>
+        )}
+
+        {(provider.id === 'gemini' || provider.id === 'openai') && (
+          <Toggle
+            label="Remember API key"
+            description={settings.rememberApiKey
+              ? 'Stored unencrypted in this browser until you turn this off; anyone with access to this browser profile can read it.'
+              : 'Kept for this browser tab only and forgotten when it closes.'}
+            checked={!!settings.rememberApiKey}
+            onChange={rememberApiKey => update({ rememberApiKey })}
+          />
+        )}
+      </div>
+
+      <div className="mt-8 p-8 bg-white dark:bg-slate-900 rounded-[2rem] border border-slate-100 dark:border-slate-800 shadow-sm space-y-5">
+        <div className="flex items-center gap-2 font-bold"><ShieldCheck size={16} className="text-emerald-600" /> Privacy</div>
+        <Toggle
+          label="Schema-only mode"
+          description="Send column names, types and aggregate statistics only. No rows leave the browser; charts are still computed locally over every row."
+          checked={privacy.schemaOnly}
+          onChange={schemaOnly => onPrivacyChange({ ...privacy, schemaOnly })}
+        />
+        <Toggle
+          label="Preview every request"
+          description="Show the exact payload, and any data tool results, before they are sent, and send only after you confirm."
+          checked={privacy.previewBeforeSend}
+          onChange={previewBeforeSend => onPrivacyChange({ ...privacy, previewBeforeSend })}
+        />
+        <p className="text-[11px] text-slate-400">Per-column policies (send, mask, hash, exclude) are set in the Column Profile tab. Columns that look like personal data are masked by default.</p>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,101 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle2, CircleDashed, FlaskConical } from 'lucide-react';
+import { StatAssumption, StatTestResult } from '../types';
+import { formatPValue } from '../services/hypothesisTests';
+
+const MAX_GROUP_ROWS = 8;
+
+const num = (value: number | undefined) => {
+  if (value === undefined || !Number.isFinite(value)) return value === undefined ? '–' : '∞';
+  if (value !== 0 && Math.abs(value) < 0.001) return value.toExponential(2);
+  return Math.abs(value) >= 1000 ? Math.round(value).toLocaleString() : Number(value.toPrecision(3)).toString();
+};
+
+const ASSUMPTION_ICONS: Record<StatAssumption['status'], React.ReactNode> = {
+  met: <CheckCircle2 size={14} className="text-emerald-500 shrink-0 mt-0.5" />,
+  violated: <AlertTriangle size={14} className="text-amber-500 shrink-0 mt-0.5" />,
+  unchecked: <CircleDashed size={14} className="text-slate-400 shrink-0 mt-0.5" />
+};
+
+// The locally computed hypothesis test behind an answer: what was tested, how, and how strongly.
+const StatTestBlock: React.FC<{ result: StatTestResult }> = ({ result }) => {
+  const significant = result.pValue < result.alpha;
+  const figures: [string, string][] = [
+    ['Statistic', `${result.statistic.name} = ${num(result.statistic.value)}${result.df ? `, df ${result.df.map(num).join(', ')}` : ''}`],
+    ['p-value', formatPValue(result.pValue)],
+    ['Effect size', `${result.effectSize.name} = ${num(result.effectSize.value)} (${result.effectSize.magnitude})`],
+    ['Records', result.n.toLocaleString()]
+  ];
+  const groups = result.groups ?? [];
+
+  return (
+    <div className="mt-4 p-4 rounded-2xl bg-slate-50 dark:bg-slate-800/40 border border-slate-100 dark:border-slate-800">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-2">
+          <FlaskConical size={14} /> {result.name}
+        </span>
+        <span className={`text-[11px] font-bold px-2.5 py-1 rounded-full ${significant ? 'bg-emerald-50 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300' : 'bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-slate-500'}`}>
+          {significant ? 'Significant' : 'Not significant'} at α = {result.alpha}
+        </span>
+      </div>
+      <p className="text-xs text-slate-600 dark:text-slate-300 mb-3">
+        <span className="font-bold">Null hypothesis:</span> {result.hypothesis}.
+      </p>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-3">
+        {figures.map(([label, value]) => (
+          <div key={label} className="px-3 py-2 rounded-xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700">
+            <div className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{label}</div>
+            <div className="text-sm font-mono text-slate-800 dark:text-slate-100">{value}</div>
+          </div>
+        ))}
+      </div>
+
+      {result.regression && (
+        <p className="text-xs font-mono text-slate-700 dark:text-slate-300 mb-3">
+          fit: y = {num(result.regression.intercept)} + {num(result.regression.slope)}·x (slope SE {num(result.regression.slopeStdError)}, R² = {num(result.regression.rSquared)})
+        </p>
+      )}
+
+      {groups.length > 0 && (
+        <table className="w-full text-xs mb-3">
+          <thead>
+            <tr className="text-left text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+              <th className="py-1 font-bold">Group</th>
+              <th className="py-1 font-bold text-right">n</th>
+              <th className="py-1 font-bold text-right">Mean</th>
+              <th className="py-1 font-bold text-right">Median</th>
+            </tr>
+          </thead>
+          <tbody className="text-slate-600 dark:text-slate-300">
+            {groups.slice(0, MAX_GROUP_ROWS).map(g => (
+              <tr key={g.name} className="border-t border-slate-200 dark:border-slate-700">
+                <td className="py-1 truncate max-w-[12rem]">{g.name}</td>
+                <td className="py-1 text-right font-mono">{g.n.toLocaleString()}</td>
+                <td className="py-1 text-right font-mono">{num(g.mean)}</td>
+                <td className="py-1 text-right font-mono">{num(g.median)}</td>
+              </tr>
+            ))}
+          </tbody>
+          {groups.length > MAX_GROUP_ROWS && (
+            <tfoot>
+              <tr><td colSpan={4} className="pt-1 text-slate-400">+{groups.length - MAX_GROUP_ROWS} more groups</td></tr>
+            </tfoot>
+          )}
+        </table>
+      )}
+
+      <div className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1">Assumptions</div>
+      <ul className="space-y-1">
+        {result.assumptions.map(a => (
+          <li key={a.label} className="flex items-start gap-2 text-xs text-slate-600 dark:text-slate-300">
+            {ASSUMPTION_ICONS[a.status]}
+            <span><span className="font-bold">{a.label}</span>{a.detail ? ` — ${a.detail}` : ''}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default StatTestBlock;
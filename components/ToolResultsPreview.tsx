@@ -0,0 +1,56 @@
+import React from 'react';
+import { Eye, Send, X } from 'lucide-react';
+import { ToolTraceStep } from '../types';
+
+const sectionClass = 'text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2';
+const blockClass = 'text-xs font-mono whitespace-pre-wrap break-words bg-slate-50 dark:bg-slate-800/60 border border-slate-100 dark:border-slate-800 rounded-xl p-4 max-h-72 overflow-y-auto';
+
+// Results of one round of data tool calls, shown before they go back to the model provider.
+const ToolResultsPreview: React.FC<{
+  steps: ToolTraceStep[];
+  destination: string;
+  onSend: () => void;
+  onSkip: () => void; // Answer without these results
+}> = ({ steps, destination, onSend, onSkip }) => (
+  <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-6 animate-in fade-in duration-300">
+    <div className="bg-white dark:bg-slate-900 rounded-[2rem] border border-slate-200 dark:border-slate-800 shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden">
+      <div className="flex items-center justify-between p-8 border-b border-slate-100 dark:border-slate-800">
+        <div className="flex items-center gap-4">
+          <div className="w-12 h-12 bg-emerald-50 dark:bg-emerald-900/20 rounded-2xl flex items-center justify-center">
+            <Eye className="text-emerald-600 w-6 h-6" />
+          </div>
+          <div>
+            <h3 className="text-xl font-bold font-outfit">Tool Results</h3>
+            <p className="text-sm text-slate-500">
+              To {destination} · {steps.length} tool {steps.length === 1 ? 'call' : 'calls'}
+            </p>
+          </div>
+        </div>
+        <button onClick={onSkip} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500">
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className="p-8 space-y-6 overflow-y-auto">
+        <p className="text-xs text-slate-500">The model asked for these figures before answering. They are computed locally with column policies applied.</p>
+        {steps.map((step, i) => (
+          <div key={i}>
+            <div className={sectionClass}>{step.tool}({JSON.stringify(step.args)})</div>
+            <pre className={blockClass}>{step.result}</pre>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-end gap-3 p-6 border-t border-slate-100 dark:border-slate-800">
+        <button onClick={onSkip} className="px-5 py-3 rounded-xl font-bold text-sm text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-800 transition-all">
+          Answer Without Them
+        </button>
+        <button onClick={onSend} className="flex items-center gap-2 px-5 py-3 bg-blue-600 text-white rounded-xl font-bold text-sm hover:bg-blue-700 transition-all">
+          <Send size={16} /> Send
+        </button>
+      </div>
+    </div>
+  </div>
+);
+
+export default ToolResultsPreview;
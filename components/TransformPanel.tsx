@@ -0,0 +1,250 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Play, Plus, RotateCcw, Undo2, Wand2, X } from 'lucide-react';
+import { Aggregation, ColumnType, Dataset, DateUnit, FillStrategy, FilterOperator, TransformKind, TransformStep } from '../types';
+import { applyTransforms, describeStep, matchingRecipes, rebuildRecipe, TRANSFORM_KINDS, TransformError, undoTransform } from '../services/transforms';
+
+const selectClass = 'w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm font-medium';
+const labelClass = 'text-[10px] font-black text-slate-400 uppercase tracking-widest';
+
+const COLUMN_TYPES: ColumnType[] = ['integer', 'decimal', 'boolean', 'date', 'categorical', 'identifier'];
+const OPERATORS: FilterOperator[] = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'contains', 'in'];
+const FILL_STRATEGIES: FillStrategy[] = ['value', 'mean', 'median', 'mode', 'previous'];
+const DATE_UNITS: DateUnit[] = ['day', 'week', 'month', 'quarter', 'year'];
+const AGGREGATIONS: Aggregation[] = ['sum', 'mean', 'count', 'min', 'max', 'median'];
+
+type Draft = Record<string, string>;
+
+const list = (value: string | undefined) => (value ?? '').split(',').map(v => v.trim()).filter(Boolean);
+
+// Turns the form fields into a step; validation of column names happens when it is applied.
+const buildStep = (kind: TransformKind, d: Draft, columns: string[]): TransformStep => {
+  switch (kind) {
+    case 'rename': return { kind, column: d.column, to: (d.to ?? '').trim() };
+    case 'changeType': return { kind, column: d.column, type: (d.type as ColumnType) ?? 'integer' };
+    case 'filter': {
+      const operator = (d.operator as FilterOperator) ?? 'eq';
+      return {
+        kind,
+        mode: d.mode === 'keep' ? 'keep' : 'remove',
+        filter: operator === 'in' ? { column: d.column, operator, values: list(d.value) } : { column: d.column, operator, value: d.value ?? '' }
+      };
+    }
+    case 'fillNulls': return { kind, column: d.column, strategy: (d.strategy as FillStrategy) ?? 'value', value: d.value };
+    case 'dropNulls': return { kind, columns: d.column ? [d.column] : [] };
+    case 'formula': return { kind, name: (d.name ?? '').trim(), expression: d.expression ?? '' };
+    case 'split': {
+      const into = list(d.into);
+      return { kind, column: d.column, separator: d.separator || ',', into: into.length ? into : [`${d.column}_1`, `${d.column}_2`] };
+    }
+    case 'merge': return { kind, columns: list(d.columns), separator: d.separator ?? ' ', name: (d.name ?? '').trim() };
+    case 'dateBucket': {
+      const unit = (d.unit as DateUnit) ?? 'day';
+      return { kind, column: d.column, unit, name: (d.name ?? '').trim() || `${d.column} (${unit})` };
+    }
+    case 'pivot': return { kind, index: d.column, pivotColumn: d.pivotColumn ?? '', valueColumn: d.valueColumn ?? '', aggregation: (d.aggregation as Aggregation) ?? 'sum' };
+    case 'unpivot': {
+      const ids = list(d.columns);
+      return { kind, idColumns: ids, valueColumns: columns.filter(c => !ids.includes(c)), nameColumn: d.name || 'variable', valueColumn: d.valueColumn || 'value' };
+    }
+    case 'deduplicate': return { kind, columns: list(d.columns) };
+    case 'dropColumns': return { kind, columns: d.column ? [d.column] : [] };
+  }
+};
+
+// Records transformation steps on the active dataset. Steps can be undone or removed, and a recipe
+// recorded on another dataset with the same columns can be replayed here.
+const TransformPanel: React.FC<{
+  dataset: Dataset;
+  datasets: Dataset[];
+  onChange: (dataset: Dataset) => void;
+  onClose: () => void;
+}> = ({ dataset, datasets, onChange, onClose }) => {
+  const [kind, setKind] = useState<TransformKind>('filter');
+  const [draft, setDraft] = useState<Draft>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const columns = dataset.columns;
+  const recipe = dataset.recipe ?? [];
+  const skipped = dataset.skippedSteps ?? [];
+  const replayable = matchingRecipes(dataset, datasets);
+  const set = (key: string, value: string) => setDraft(prev => ({ ...prev, [key]: value }));
+  const field = (key: string, fallback = '') => draft[key] ?? fallback;
+
+  const run = (change: () => Dataset) => {
+    try {
+      onChange(change());
+      setError(null);
+      return true;
+    } catch (err) {
+      if (!(err instanceof TransformError)) throw err;
+      setError(err.message);
+      return false;
+    }
+  };
+
+  // Retrying appends the step to the recipe; either way it leaves the skipped list.
+  const withoutSkipped = (target: Dataset, index: number): Dataset => {
+    const { skippedSteps, ...rest } = target;
+    const remaining = skipped.filter((_, j) => j !== index);
+    return remaining.length > 0 ? { ...rest, skippedSteps: remaining } : rest;
+  };
+
+  const addStep = () => {
+    // Column selects show the first column until changed; "any column" is the dropNulls default.
+    const step = buildStep(kind, kind === 'dropNulls' ? draft : { column: columns[0], ...draft }, columns);
+    if (run(() => applyTransforms(dataset, [step]))) setDraft({});
+  };
+
+  const columnSelect = (key: string, label: string, optional?: string) => (
+    <label className="space-y-2">
+      <span className={labelClass}>{label}</span>
+      <select value={field(key, optional === undefined ? columns[0] : '')} onChange={e => set(key, e.target.value)} className={selectClass}>
+        {optional !== undefined && <option value="">{optional}</option>}
+        {columns.map(c => <option key={c} value={c}>{c}</option>)}
+      </select>
+    </label>
+  );
+  const enumSelect = (key: string, label: string, options: string[]) => (
+    <label className="space-y-2">
+      <span className={labelClass}>{label}</span>
+      <select value={field(key, options[0])} onChange={e => set(key, e.target.value)} className={selectClass}>
+        {options.map(o => <option key={o} value={o}>{o}</option>)}
+      </select>
+    </label>
+  );
+  const textInput = (key: string, label: string, placeholder = '') => (
+    <label className="space-y-2">
+      <span className={labelClass}>{label}</span>
+      <input value={field(key)} onChange={e => set(key, e.target.value)} placeholder={placeholder} className={selectClass} />
+    </label>
+  );
+
+  const fields = (): React.ReactNode => {
+    switch (kind) {
+      case 'rename': return <>{columnSelect('column', 'Column')}{textInput('to', 'New Name')}</>;
+      case 'changeType': return <>{columnSelect('column', 'Column')}{enumSelect('type', 'Type', COLUMN_TYPES)}</>;
+      case 'filter': return (
+        <>
+          {enumSelect('mode', 'Rows', ['remove', 'keep'])}
+          {columnSelect('column', 'Where')}
+          {enumSelect('operator', 'Operator', OPERATORS)}
+          {textInput('value', 'Value', field('operator') === 'in' ? 'a, b, c' : '0')}
+        </>
+      );
+      case 'fillNulls': return (
+        <>
+          {columnSelect('column', 'Column')}
+          {enumSelect('strategy', 'Fill With', FILL_STRATEGIES)}
+          {field('strategy', 'value') === 'value' && textInput('value', 'Value')}
+        </>
+      );
+      case 'dropNulls': return columnSelect('column', 'Nulls In', 'Any column');
+      case 'formula': return <>{textInput('name', 'New Column')}{textInput('expression', 'Formula', '[Unit Price] * quantity')}</>;
+      case 'split': return <>{columnSelect('column', 'Column')}{textInput('separator', 'Separator', ',')}{textInput('into', 'Into', 'first, last')}</>;
+      case 'merge': return <>{textInput('columns', 'Columns', columns.slice(0, 2).join(', '))}{textInput('separator', 'Separator', ' ')}{textInput('name', 'New Column')}</>;
+      case 'dateBucket': return <>{columnSelect('column', 'Date Column')}{enumSelect('unit', 'Unit', DATE_UNITS)}{textInput('name', 'New Column', 'optional')}</>;
+      case 'pivot': return (
+        <>
+          {columnSelect('column', 'Rows')}
+          {columnSelect('pivotColumn', 'Columns From', 'Choose…')}
+          {columnSelect('valueColumn', 'Values', 'Choose…')}
+          {enumSelect('aggregation', 'Aggregation', AGGREGATIONS)}
+        </>
+      );
+      case 'unpivot': return <>{textInput('columns', 'Keep Columns', columns[0])}{textInput('name', 'Name Column', 'variable')}{textInput('valueColumn', 'Value Column', 'value')}</>;
+      case 'deduplicate': return textInput('columns', 'Key Columns', 'all columns');
+      case 'dropColumns': return columnSelect('column', 'Column');
+    }
+  };
+
+  return (
+    <div className="mb-8 bg-white dark:bg-slate-900 rounded-3xl border border-slate-200 dark:border-slate-800 shadow-sm p-6 animate-in fade-in duration-300">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <Wand2 className="text-blue-600" size={20} />
+          <h3 className="text-lg font-bold font-outfit">Transform</h3>
+        </div>
+        <button onClick={onClose} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+        <label className="space-y-2">
+          <span className={labelClass}>Step</span>
+          <select value={kind} onChange={e => { setKind(e.target.value as TransformKind); setDraft({}); setError(null); }} className={selectClass}>
+            {TRANSFORM_KINDS.map(k => <option key={k.kind} value={k.kind}>{k.label}</option>)}
+          </select>
+        </label>
+        {fields()}
+        <button onClick={addStep} className="flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg font-bold text-sm hover:bg-blue-700 transition-all">
+          <Plus size={16} /> Add Step
+        </button>
+      </div>
+      {error && <p className="mt-4 text-sm font-medium text-red-600">{error}</p>}
+
+      {replayable.length > 0 && recipe.length === 0 && (
+        <div className="mt-6 flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-slate-500">Same columns as</span>
+          {replayable.map(d => (
+            <button key={d.id} onClick={() => run(() => applyTransforms(dataset, d.recipe!))} className="px-3 py-1.5 rounded-full bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300 font-bold text-xs hover:bg-blue-100 transition-all">
+              Replay {d.name} ({d.recipe!.length} steps)
+            </button>
+          ))}
+        </div>
+      )}
+
+      {recipe.length > 0 && (
+        <div className="mt-6 border-t border-slate-100 dark:border-slate-800 pt-4">
+          <div className="flex items-center justify-between mb-3">
+            <span className={labelClass}>Recipe</span>
+            <div className="flex gap-2">
+              <button onClick={() => run(() => undoTransform(dataset))} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 transition-all">
+                <Undo2 size={14} /> Undo
+              </button>
+              <button onClick={() => run(() => rebuildRecipe(dataset, []))} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold text-slate-600 dark:text-slate-300 hover:bg-red-50 hover:text-red-600 dark:hover:bg-red-900/20 transition-all">
+                <RotateCcw size={14} /> Reset
+              </button>
+            </div>
+          </div>
+          <ol className="space-y-2">
+            {recipe.map((step, i) => (
+              <li key={i} className="flex items-center gap-3 text-sm bg-slate-50 dark:bg-slate-800/50 rounded-lg px-3 py-2">
+                <span className="text-xs font-black text-slate-400 w-5">{i + 1}</span>
+                <span className="flex-1 font-medium text-slate-700 dark:text-slate-200">{describeStep(step)}</span>
+                <button onClick={() => run(() => rebuildRecipe(dataset, recipe.filter((_, j) => j !== i)))} title="Remove step" className="p-1 rounded text-slate-400 hover:text-red-600">
+                  <X size={14} />
+                </button>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {skipped.length > 0 && (
+        <div className="mt-6 border-t border-slate-100 dark:border-slate-800 pt-4">
+          <span className={labelClass}>Skipped On The Latest Upload</span>
+          <ol className="mt-3 space-y-2">
+            {skipped.map((s, i) => (
+              <li key={i} className="flex items-center gap-3 text-sm bg-amber-50 dark:bg-amber-900/20 rounded-lg px-3 py-2">
+                <AlertTriangle size={14} className="text-amber-500 shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium text-slate-700 dark:text-slate-200">{describeStep(s.step)}</div>
+                  <div className="text-xs text-amber-700 dark:text-amber-300">{s.error}</div>
+                </div>
+                <button onClick={() => run(() => withoutSkipped(applyTransforms(dataset, [s.step]), i))} title="Apply again" className="p-1 rounded text-slate-400 hover:text-blue-600">
+                  <Play size={14} />
+                </button>
+                <button onClick={() => run(() => withoutSkipped(dataset, i))} title="Discard step" className="p-1 rounded text-slate-400 hover:text-red-600">
+                  <X size={14} />
+                </button>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TransformPanel;
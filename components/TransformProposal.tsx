@@ -0,0 +1,31 @@
+import React from 'react';
+import { Check, Wand2 } from 'lucide-react';
+import { TransformStep } from '../types';
+import { describeStep } from '../services/transforms';
+
+// Dataset changes the model proposed in chat. Nothing changes until the user applies them.
+const TransformProposal: React.FC<{
+  steps: TransformStep[];
+  applied?: boolean;
+  onApply: () => void;
+}> = ({ steps, applied, onApply }) => (
+  <div className="mt-6 rounded-2xl border border-blue-100 dark:border-blue-900/40 bg-blue-50/50 dark:bg-blue-900/10 p-5">
+    <div className="flex items-center justify-between gap-4 mb-3">
+      <span className="text-[10px] font-black text-blue-600 dark:text-blue-400 uppercase tracking-widest flex items-center gap-2">
+        <Wand2 size={14} /> Proposed Transform
+      </span>
+      {applied ? (
+        <span className="flex items-center gap-1.5 text-xs font-bold text-emerald-600"><Check size={14} /> Applied</span>
+      ) : (
+        <button onClick={onApply} className="px-4 py-2 bg-blue-600 text-white rounded-lg font-bold text-xs hover:bg-blue-700 transition-all">
+          Apply to Dataset
+        </button>
+      )}
+    </div>
+    <ol className="space-y-1 text-sm text-slate-700 dark:text-slate-200 list-decimal list-inside">
+      {steps.map((step, i) => <li key={i}>{describeStep(step)}</li>)}
+    </ol>
+  </div>
+);
+
+export default TransformProposal;
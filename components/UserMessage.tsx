@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { ChevronLeft, ChevronRight, Filter, Pencil, RotateCcw, SendHorizontal } from 'lucide-react';
+import { Message } from '../types';
+
+const actionClass = 'flex items-center gap-1.5 px-2 py-1 rounded-lg text-[10px] font-bold uppercase tracking-tighter text-blue-100 hover:text-white hover:bg-white/10 disabled:opacity-40 transition-all';
+
+// A question in the chat. Retrying or editing it starts a new branch; the arrows switch between branches.
+const UserMessage: React.FC<{
+  message: Message;
+  branchIndex: number;
+  branchCount: number;
+  busy: boolean;
+  onResend: (content: string) => void;
+  onSwitchBranch: (offset: number) => void;
+}> = ({ message, branchIndex, branchCount, busy, onResend, onSwitchBranch }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  if (draft !== null) {
+    const submit = () => {
+      if (!draft.trim()) return;
+      onResend(draft.trim());
+      setDraft(null);
+    };
+    return (
+      <div>
+        <textarea
+          autoFocus
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); submit(); }
+            if (e.key === 'Escape') setDraft(null);
+          }}
+          rows={3}
+          className="w-full bg-white/10 border border-white/20 rounded-xl px-4 py-3 text-base font-semibold text-white placeholder-blue-200 outline-none focus:ring-2 focus:ring-white/50 resize-y"
+        />
+        <div className="flex justify-end gap-2 mt-3">
+          <button onClick={() => setDraft(null)} className={actionClass}>Cancel</button>
+          <button onClick={submit} disabled={busy || !draft.trim()} className={`${actionClass} bg-white/15`}>
+            <SendHorizontal size={12} /> Send as new branch
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <p className="text-base leading-relaxed whitespace-pre-wrap font-semibold">{message.content}</p>
+      {message.scope && message.scope.length > 0 && (
+        <p className="flex items-center gap-1.5 mt-2 text-[11px] font-bold text-blue-100">
+          <Filter size={12} className="shrink-0" /> Asked about records where {message.scope.join(', ')}
+        </p>
+      )}
+      <div className="flex items-center justify-between gap-2 mt-4 -mb-3">
+        {branchCount > 1 ? (
+          <div className="flex items-center gap-1 text-[10px] font-bold text-blue-100">
+            <button onClick={() => onSwitchBranch(-1)} disabled={busy || branchIndex === 0} title="Previous branch" className={actionClass}><ChevronLeft size={12} /></button>
+            <span>{branchIndex + 1} / {branchCount}</span>
+            <button onClick={() => onSwitchBranch(1)} disabled={busy || branchIndex === branchCount - 1} title="Next branch" className={actionClass}><ChevronRight size={12} /></button>
+          </div>
+        ) : <span />}
+        <div className="flex items-center gap-1">
+          <button onClick={() => onResend(message.content)} disabled={busy} title="Ask again in a new branch" className={actionClass}>
+            <RotateCcw size={12} /> Retry
+          </button>
+          <button onClick={() => setDraft(message.content)} disabled={busy} title="Edit and resend in a new branch" className={actionClass}>
+            <Pencil size={12} /> Edit
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UserMessage;
@@ -0,0 +1,161 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowRight, Layers, MessageSquareText, Unlink, X } from 'lucide-react';
+import { Dataset } from '../types';
+import { listVersions, versionDataset } from '../services/versions';
+import { aggregateChange, aggregateChanged, columnChanged, diffDatasets, formatAggregate, formatShare, relativeChange, ShiftLevel } from '../services/datasetDiff';
+
+const selectClass = 'bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm font-medium';
+const labelClass = 'text-[10px] font-black text-slate-400 uppercase tracking-widest';
+
+const SHIFT_STYLES: Record<ShiftLevel, string> = {
+  none: 'bg-slate-100 dark:bg-slate-800 text-slate-500',
+  small: 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300',
+  moderate: 'bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300',
+  large: 'bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-300'
+};
+
+const Change: React.FC<{ change: number | null }> = ({ change }) =>
+  change === null ? null : (
+    <span className="text-slate-400"> ({change >= 0 ? '+' : ''}{(change * 100).toFixed(1)}%)</span>
+  );
+
+// Earlier uploads of the dataset and what changed between any two of them.
+const VersionPanel: React.FC<{
+  dataset: Dataset;
+  onExplain: (from: number, to: number) => void;
+  onDetach: () => void;
+  onClose: () => void;
+}> = ({ dataset, onExplain, onDetach, onClose }) => {
+  const versions = listVersions(dataset);
+  const latest = versions.length;
+  const [range, setRange] = useState({ from: Math.max(1, latest - 1), to: latest });
+  // Versions can be detached while the panel is open.
+  const from = Math.min(range.from, latest);
+  const to = Math.min(range.to, latest);
+  const diff = useMemo(() => diffDatasets(versionDataset(dataset, from), versionDataset(dataset, to)), [dataset, from, to]);
+  const changed = diff.columns.filter(columnChanged);
+  const unchanged = diff.columns.filter(c => !columnChanged(c));
+
+  const versionSelect = (value: number, onChange: (n: number) => void) => (
+    <select value={value} onChange={e => onChange(Number(e.target.value))} className={selectClass}>
+      {versions.map(v => <option key={v.number} value={v.number}>Version {v.number}{v.number === latest ? ' (current)' : ''}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="mb-8 bg-white dark:bg-slate-900 rounded-3xl border border-slate-200 dark:border-slate-800 shadow-sm p-6 animate-in fade-in duration-300">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <Layers className="text-blue-600" size={20} />
+          <h3 className="text-lg font-bold font-outfit">Versions</h3>
+        </div>
+        <button onClick={onClose} className="p-2 rounded-full hover:bg-slate-100 dark:hover:bg-slate-800 text-slate-500">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="space-y-1 mb-6">
+        {versions.map(v => (
+          <div key={v.number} className="flex items-center gap-3 px-3 py-2 rounded-xl text-sm hover:bg-slate-50 dark:hover:bg-slate-800/50">
+            <span className="text-[11px] font-black text-blue-600 w-8">v{v.number}</span>
+            <span className="flex-1 min-w-0 truncate font-semibold" title={v.upload?.fileName}>{v.upload?.fileName ?? dataset.name}</span>
+            <span className="text-xs text-slate-400">{v.upload ? new Date(v.upload.uploadedAt).toLocaleString() : 'loaded earlier'}</span>
+            <span className="text-xs text-slate-500 w-40 text-right">{v.rows.toLocaleString()} rows · {v.columns} cols</span>
+            {v.number === latest && <span className="text-[10px] font-bold uppercase text-emerald-600">Current</span>}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-6">
+        <span className={labelClass}>Compare</span>
+        {versionSelect(from, n => setRange({ from: n, to }))}
+        <ArrowRight size={16} className="text-slate-400" />
+        {versionSelect(to, n => setRange({ from, to: n }))}
+        <div className="flex-1" />
+        <button
+          onClick={() => onExplain(from, to)}
+          disabled={from === to}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg font-bold text-sm hover:bg-blue-700 disabled:opacity-40 transition-all"
+        >
+          <MessageSquareText size={16} /> Explain in Chat
+        </button>
+        <button
+          onClick={onDetach}
+          title={`Undo the version match: version ${latest - 1} becomes current again and the latest upload a separate dataset`}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg font-bold text-sm text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 transition-all"
+        >
+          <Unlink size={16} /> Keep Latest Separate
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-6">
+        <div className="px-4 py-3 rounded-2xl bg-slate-50 dark:bg-slate-800/40">
+          <div className={labelClass}>Rows</div>
+          <div className="text-sm font-mono mt-1">
+            {diff.from.rows.toLocaleString()} → {diff.to.rows.toLocaleString()}
+            <Change change={relativeChange(diff.from.rows, diff.to.rows)} />
+          </div>
+        </div>
+        <div className="px-4 py-3 rounded-2xl bg-slate-50 dark:bg-slate-800/40">
+          <div className={labelClass}>Added Columns</div>
+          <div className="text-sm mt-1 text-emerald-600 font-semibold truncate" title={diff.addedColumns.join(', ')}>{diff.addedColumns.join(', ') || '–'}</div>
+        </div>
+        <div className="px-4 py-3 rounded-2xl bg-slate-50 dark:bg-slate-800/40">
+          <div className={labelClass}>Removed Columns</div>
+          <div className="text-sm mt-1 text-red-500 font-semibold truncate" title={diff.removedColumns.join(', ')}>{diff.removedColumns.join(', ') || '–'}</div>
+        </div>
+      </div>
+
+      {changed.length > 0 && (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left">
+              <th className={`${labelClass} py-2`}>Column</th>
+              <th className={`${labelClass} py-2`}>Distribution</th>
+              <th className={`${labelClass} py-2`}>Changes</th>
+            </tr>
+          </thead>
+          <tbody className="text-slate-600 dark:text-slate-300">
+            {changed.map(c => (
+              <tr key={c.column} className="border-t border-slate-100 dark:border-slate-800 align-top">
+                <td className="py-2 pr-4">
+                  <div className="font-bold text-slate-800 dark:text-slate-100">{c.column}</div>
+                  <div className="text-[10px] text-slate-400">{c.previousType ? `${c.previousType} → ` : ''}{c.type}</div>
+                </td>
+                <td className="py-2 pr-4">
+                  {c.shift && (
+                    <span
+                      title={c.shift.statistic === 'KS' ? 'Kolmogorov–Smirnov distance' : 'Total variation distance of value shares'}
+                      className={`px-2 py-0.5 rounded-full font-bold whitespace-nowrap ${SHIFT_STYLES[c.shift.level]}`}
+                    >
+                      {c.shift.level === 'none' ? 'no shift' : `${c.shift.level} shift`} · {c.shift.value.toFixed(2)}
+                    </span>
+                  )}
+                </td>
+                <td className="py-2 space-y-0.5">
+                  {c.aggregates.filter(aggregateChanged).map(a => (
+                    <div key={a.name} className="font-mono">
+                      {a.name === 'new values'
+                        ? `${a.after?.toLocaleString()} new values`
+                        : <>{a.name} {formatAggregate(a.before, c.type, a.name)} → {formatAggregate(a.after, c.type, a.name)}<Change change={aggregateChange(a, c.type)} /></>}
+                    </div>
+                  ))}
+                  {c.categories.length > 0 && (
+                    <div className="text-slate-500">
+                      {c.categories.map(s => `${s.value} ${formatShare(s.before)} → ${formatShare(s.after)}`).join(' · ')}
+                    </div>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {unchanged.length > 0 && (
+        <p className="mt-4 text-xs text-slate-400">Unchanged: {unchanged.map(c => c.column).join(', ')}</p>
+      )}
+    </div>
+  );
+};
+
+export default VersionPanel;
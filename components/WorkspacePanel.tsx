@@ -0,0 +1,78 @@
+import React from 'react';
+import { FilePlus2, GitMerge, MessageSquarePlus, MessageSquareOff, Table as TableIcon, X } from 'lucide-react';
+import { Dataset } from '../types';
+
+// Sidebar list of loaded datasets: switch the active one, choose which others the AI sees, add or join files.
+const WorkspacePanel: React.FC<{
+  datasets: Dataset[];
+  activeId: string | null;
+  contextIds: string[];
+  acceptedFiles: string;
+  onSelect: (id: string) => void;
+  onToggleContext: (id: string) => void;
+  onRemove: (id: string) => void;
+  onUpload: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onJoin: () => void;
+}> = ({ datasets, activeId, contextIds, acceptedFiles, onSelect, onToggleContext, onRemove, onUpload, onJoin }) => (
+  <div className="mt-8">
+    <div className="flex items-center justify-between mb-3 px-1">
+      <p className="text-[10px] text-slate-400 uppercase font-bold tracking-widest">Datasets</p>
+      <div className="flex items-center gap-1">
+        {datasets.length >= 2 && (
+          <button onClick={onJoin} title="Join datasets" className="p-1.5 rounded-lg text-slate-400 hover:text-indigo-600 hover:bg-slate-100 dark:hover:bg-slate-800">
+            <GitMerge size={16} />
+          </button>
+        )}
+        <label title="Add dataset" className="p-1.5 rounded-lg text-slate-400 hover:text-blue-600 hover:bg-slate-100 dark:hover:bg-slate-800 cursor-pointer">
+          <FilePlus2 size={16} />
+          <input type="file" accept={acceptedFiles} onChange={onUpload} className="hidden" />
+        </label>
+      </div>
+    </div>
+
+    {datasets.length === 0 ? (
+      <p className="text-xs text-slate-400 px-1">No datasets loaded.</p>
+    ) : (
+      <div className="space-y-1 max-h-64 overflow-y-auto">
+        {datasets.map(d => {
+          const active = d.id === activeId;
+          const inContext = active || contextIds.includes(d.id);
+          return (
+            <div
+              key={d.id}
+              onClick={() => onSelect(d.id)}
+              className={`group flex items-center gap-2 px-3 py-2 rounded-xl cursor-pointer transition-all ${
+                active ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300' : 'text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800'
+              }`}
+            >
+              {d.derivedFrom ? <GitMerge size={14} className="shrink-0" /> : <TableIcon size={14} className="shrink-0" />}
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-semibold truncate" title={d.name}>{d.name}</div>
+                <div className="text-[10px] text-slate-400">
+                  {d.sample ? `${d.data.length.toLocaleString()} of ${d.sample.totalRows.toLocaleString()} rows (sample)` : `${d.data.length.toLocaleString()} rows`} · {d.columns.length} cols{d.versions?.length ? ` · v${d.versions.length + 1}` : ''}
+                </div>
+              </div>
+              <button
+                disabled={active}
+                onClick={e => { e.stopPropagation(); onToggleContext(d.id); }}
+                title={active ? 'Active dataset is always in the AI context' : inContext ? 'Remove from AI context' : 'Add to AI context'}
+                className={`p-1 rounded-md ${inContext ? 'text-blue-600' : 'text-slate-300 hover:text-slate-500'}`}
+              >
+                {inContext ? <MessageSquarePlus size={14} /> : <MessageSquareOff size={14} />}
+              </button>
+              <button
+                onClick={e => { e.stopPropagation(); onRemove(d.id); }}
+                title="Remove dataset"
+                className="p-1 rounded-md text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100"
+              >
+                <X size={14} />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    )}
+  </div>
+);
+
+export default WorkspacePanel;
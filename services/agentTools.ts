@@ -0,0 +1,360 @@
+import { Type } from "@google/genai";
+import { Aggregation, ColumnProfile, Dataset, DataRow, PrivacySettings, QueryFilter, StatTestKind, ToolTraceStep } from "../types";
+import { aggregate, matchesFilter, QueryPlanError } from "./queryEngine";
+import { profileDataset } from "./profiler";
+import { columnPolicy, privateView } from "./privacy";
+import { describeSample } from "./ingest";
+import { pearson, toNumber } from "./stats";
+import { runStatTest, StatTestError } from "./hypothesisTests";
+import { ToolCall, ToolDefinition } from "./providers";
+
+// --- Local data tools the model can call before answering; they run over every loaded record ---
+
+export const MAX_TOOL_ROUNDS = 6;
+export const MAX_TOOL_CALLS = 16;
+
+const MAX_GROUPS = 50;
+const MAX_SAMPLE_ROWS = 20;
+const MAX_CELL_CHARS = 200;
+const MAX_RESULT_CHARS = 6000;
+
+const AGGREGATIONS: Aggregation[] = ['sum', 'mean', 'count', 'min', 'max', 'median'];
+const OPERATORS: QueryFilter['operator'][] = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'contains', 'in'];
+const STAT_TESTS: StatTestKind[] = ['tTest', 'mannWhitney', 'anova', 'chiSquare', 'pearson', 'spearman', 'regression'];
+
+// Tools that return raw values, which schema-only mode never shares.
+const ROW_TOOLS = new Set(['distinct_values', 'sample_rows']);
+
+class ToolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolError';
+  }
+}
+
+const DATASET_PARAM = { type: Type.STRING, description: "Exact name of another workspace dataset; omit for the active dataset" };
+const FILTERS_PARAM = {
+  type: Type.ARRAY,
+  description: "Conditions that must all hold",
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      column: { type: Type.STRING },
+      operator: { type: Type.STRING, description: "One of: eq, neq, gt, gte, lt, lte, contains, in" },
+      value: { type: Type.STRING },
+      values: { type: Type.ARRAY, items: { type: Type.STRING } }
+    },
+    required: ["column", "operator"]
+  }
+};
+
+export const DATA_TOOLS: ToolDefinition[] = [
+  {
+    name: 'describe_column',
+    description: 'Statistics of one column over every record: type, missing and distinct counts, range, mean, quantiles and most frequent values.',
+    parameters: { type: Type.OBJECT, properties: { column: { type: Type.STRING }, dataset: DATASET_PARAM }, required: ["column"] }
+  },
+  {
+    name: 'distinct_values',
+    description: 'Distinct values of a column with their record counts, most frequent first.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { column: { type: Type.STRING }, filters: FILTERS_PARAM, limit: { type: Type.INTEGER, description: "At most 50" }, dataset: DATASET_PARAM },
+      required: ["column"]
+    }
+  },
+  {
+    name: 'aggregate',
+    description: 'Sum, mean, count, min, max or median of a column, optionally per group of another column and over filtered records. Groups come back largest first.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        aggregation: { type: Type.STRING, description: "One of: sum, mean, count, min, max, median" },
+        valueColumn: { type: Type.STRING, description: "Omit to count records" },
+        groupBy: { type: Type.STRING },
+        filters: FILTERS_PARAM,
+        limit: { type: Type.INTEGER, description: "Number of groups to return, at most 50" },
+        dataset: DATASET_PARAM
+      },
+      required: ["aggregation"]
+    }
+  },
+  {
+    name: 'count_rows',
+    description: 'Number of records matching the filters, and the share of all records.',
+    parameters: { type: Type.OBJECT, properties: { filters: FILTERS_PARAM, dataset: DATASET_PARAM }, required: ["filters"] }
+  },
+  {
+    name: 'correlation',
+    description: 'Pearson correlation between two numeric columns over records where both have values.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { xColumn: { type: Type.STRING }, yColumn: { type: Type.STRING }, filters: FILTERS_PARAM, dataset: DATASET_PARAM },
+      required: ["xColumn", "yColumn"]
+    }
+  },
+  {
+    name: 'statistical_test',
+    description: 'Runs a hypothesis test over every record and returns the statistic, p-value, effect size and any violated assumptions.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        test: { type: Type.STRING, description: "One of: tTest, mannWhitney, anova, chiSquare, pearson, spearman, regression" },
+        valueColumn: { type: Type.STRING, description: "tTest, mannWhitney, anova: the numeric measure" },
+        groupColumn: { type: Type.STRING, description: "tTest, mannWhitney, anova: the category splitting the records" },
+        groups: { type: Type.ARRAY, items: { type: Type.STRING }, description: "tTest, mannWhitney: the two groups to compare" },
+        xColumn: { type: Type.STRING, description: "pearson, spearman, regression: the predictor; chiSquare: the first category" },
+        yColumn: { type: Type.STRING, description: "pearson, spearman, regression: the outcome; chiSquare: the second category" },
+        filters: FILTERS_PARAM,
+        dataset: DATASET_PARAM
+      },
+      required: ["test"]
+    }
+  },
+  {
+    name: 'sample_rows',
+    description: 'Up to 20 records matching the filters, spread over all matches, to inspect concrete examples.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        filters: FILTERS_PARAM,
+        columns: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Columns to include; omit for all" },
+        limit: { type: Type.INTEGER },
+        dataset: DATASET_PARAM
+      }
+    }
+  }
+];
+
+/** The tools a model may call under the privacy settings. */
+export const availableTools = (privacy: PrivacySettings): ToolDefinition[] =>
+  privacy.schemaOnly ? DATA_TOOLS.filter(t => !ROW_TOOLS.has(t.name)) : DATA_TOOLS;
+
+export interface ToolContext {
+  dataset: Dataset;
+  profile: ColumnProfile[];
+  workspace: Dataset[]; // Other datasets the question may use
+  privacy: PrivacySettings;
+}
+
+/**
+ * Runs tool calls for one question. Column policies apply as in the prompt: excluded columns do
+ * not exist, and masked or hashed columns can be grouped and sampled (values stay protected) but
+ * not filtered on or measured.
+ */
+export const createToolRunner = (context: ToolContext) => {
+  const profiles = new Map<string, ColumnProfile[]>([[context.dataset.id, context.profile]]);
+  const tools = new Set(availableTools(context.privacy).map(t => t.name));
+
+  const target = (args: Record<string, any>) => {
+    const name = typeof args.dataset === 'string' ? args.dataset : '';
+    if (!name || name === context.dataset.name) return context.dataset;
+    const found = context.workspace.find(d => d.name === name);
+    if (!found) throw new ToolError(`Unknown dataset "${name}".`);
+    return found;
+  };
+  const profileOf = (dataset: Dataset) => {
+    if (!profiles.has(dataset.id)) profiles.set(dataset.id, profileDataset(dataset));
+    return profiles.get(dataset.id)!;
+  };
+  const policyOf = (dataset: Dataset, column: string) => columnPolicy(dataset, profileOf(dataset).find(p => p.column === column), column);
+
+  const column = (dataset: Dataset, value: unknown, role: string, measured = false): string => {
+    if (typeof value !== 'string' || !value) throw new ToolError(`Missing ${role} column.`);
+    const policy = dataset.columns.includes(value) ? policyOf(dataset, value) : 'exclude';
+    if (policy === 'exclude') throw new ToolError(`Unknown ${role} column "${value}". Columns: ${dataset.columns.filter(c => policyOf(dataset, c) !== 'exclude').join(', ')}.`);
+    if (measured && policy !== 'send') throw new ToolError(`Values of "${value}" are ${policy === 'hash' ? 'hashed' : 'masked'} for privacy, so it cannot be used as a ${role} column.`);
+    return value;
+  };
+
+  const filtered = (dataset: Dataset, raw: unknown): DataRow[] => {
+    if (raw === undefined || raw === null) return dataset.data;
+    if (!Array.isArray(raw)) throw new ToolError('"filters" must be a list.');
+    const filters: QueryFilter[] = raw.map((f: any) => {
+      const operator = String(f?.operator ?? '').toLowerCase() as QueryFilter['operator'];
+      if (!OPERATORS.includes(operator)) throw new ToolError(`Unsupported filter operator "${f?.operator}". Use one of: ${OPERATORS.join(', ')}.`);
+      return {
+        column: column(dataset, f?.column, 'filter', true),
+        operator,
+        value: f?.value,
+        values: Array.isArray(f?.values) ? f.values : typeof f?.value === 'string' && operator === 'in' ? f.value.split(',').map((v: string) => v.trim()) : undefined
+      };
+    });
+    return dataset.data.filter(row => filters.every(f => matchesFilter(row, f)));
+  };
+
+  // Puts values of masked or hashed columns through the same protection as the prompt.
+  const protect = (dataset: Dataset, rows: DataRow[]) => privateView(dataset, profileOf(dataset), rows).rows;
+  const protectValue = (dataset: Dataset, name: string, value: any) => protect(dataset, [{ [name]: value }])[0][name];
+
+  const scope = (dataset: Dataset, rows: DataRow[]) => {
+    const sample = describeSample(dataset);
+    return { records: rows.length, ...(sample ? { sample } : {}) };
+  };
+
+  const limitOf = (value: unknown, fallback: number, cap: number) => {
+    const n = Math.floor(Number(value));
+    return Number.isFinite(n) && n > 0 ? Math.min(n, cap) : fallback;
+  };
+
+  const execute = (call: ToolCall): Record<string, unknown> => {
+    const args = call.args ?? {};
+    if (!tools.has(call.name)) {
+      throw new ToolError(ROW_TOOLS.has(call.name) ? `${call.name} is unavailable in schema-only mode.` : `Unknown tool "${call.name}".`);
+    }
+    const dataset = target(args);
+
+    switch (call.name) {
+      case 'describe_column': {
+        const name = column(dataset, args.column, 'described');
+        const p = privateView(dataset, profileOf(dataset), []).profile.find(c => c.column === name)!;
+        return {
+          column: p.column, type: p.type, values: p.count, missing: p.nullCount, distinct: p.distinctCount,
+          min: p.min, max: p.max, mean: p.mean, stdDev: p.stdDev, quantiles: p.quantiles, outliers: p.outlierCount,
+          top: p.topCategories.slice(0, 10),
+          ...(p.pii ? { personalData: p.pii } : {}),
+          ...(describeSample(dataset) ? { sample: describeSample(dataset) } : {})
+        };
+      }
+      case 'distinct_values': {
+        const name = column(dataset, args.column, 'distinct');
+        const rows = filtered(dataset, args.filters);
+        const counts = new Map<string, { value: any; count: number }>();
+        rows.forEach(row => {
+          const key = String(row[name] ?? '');
+          const entry = counts.get(key) ?? { value: row[name] ?? null, count: 0 };
+          entry.count++;
+          counts.set(key, entry);
+        });
+        const limit = limitOf(args.limit, 20, MAX_GROUPS);
+        const values = Array.from(counts.values()).sort((a, b) => b.count - a.count);
+        return {
+          ...scope(dataset, rows),
+          column: name,
+          distinct: values.length,
+          values: values.slice(0, limit).map(v => ({ value: protectValue(dataset, name, v.value), count: v.count })),
+          ...(values.length > limit ? { truncated: true } : {})
+        };
+      }
+      case 'aggregate': {
+        const aggregation = String(args.aggregation ?? '').toLowerCase() as Aggregation;
+        if (!AGGREGATIONS.includes(aggregation)) throw new ToolError(`Unsupported aggregation "${args.aggregation}". Use one of: ${AGGREGATIONS.join(', ')}.`);
+        const value = args.valueColumn ? column(dataset, args.valueColumn, 'value', aggregation !== 'count') : undefined;
+        if (!value && aggregation !== 'count') throw new ToolError(`"${aggregation}" needs a valueColumn.`);
+        const rows = filtered(dataset, args.filters);
+        const measure = (group: DataRow[]) => (value ? aggregate(group.map(r => r[value]), aggregation) : group.length);
+        if (!args.groupBy) return { ...scope(dataset, rows), aggregation, valueColumn: value, value: measure(rows) };
+
+        const groupBy = column(dataset, args.groupBy, 'group');
+        const groups = new Map<string, { key: any; rows: DataRow[] }>();
+        rows.forEach(row => {
+          const key = String(row[groupBy] ?? '');
+          if (!groups.has(key)) groups.set(key, { key: row[groupBy] ?? null, rows: [] });
+          groups.get(key)!.rows.push(row);
+        });
+        const limit = limitOf(args.limit, 20, MAX_GROUPS);
+        const results = Array.from(groups.values())
+          .map(g => ({ key: g.key, value: measure(g.rows), records: g.rows.length }))
+          .sort((a, b) => (b.value ?? -Infinity) - (a.value ?? -Infinity));
+        return {
+          ...scope(dataset, rows),
+          aggregation,
+          valueColumn: value,
+          groupBy,
+          groups: results.length,
+          results: results.slice(0, limit).map(({ key, ...g }) => ({ group: protectValue(dataset, groupBy, key), ...g })),
+          ...(results.length > limit ? { truncated: true } : {})
+        };
+      }
+      case 'count_rows': {
+        const rows = filtered(dataset, args.filters);
+        return { matched: rows.length, total: dataset.data.length, share: dataset.data.length ? rows.length / dataset.data.length : 0 };
+      }
+      case 'correlation': {
+        const x = column(dataset, args.xColumn, 'x', true);
+        const y = column(dataset, args.yColumn, 'y', true);
+        const pairs = filtered(dataset, args.filters)
+          .map(row => [toNumber(row[x]), toNumber(row[y])])
+          .filter((p): p is [number, number] => p[0] !== null && p[1] !== null);
+        const r = pearson(pairs.map(p => p[0]), pairs.map(p => p[1]));
+        return { xColumn: x, yColumn: y, pairs: pairs.length, r: r === null ? null : Math.round(r * 1000) / 1000 };
+      }
+      case 'statistical_test': {
+        const test = STAT_TESTS.find(t => t.toLowerCase() === String(args.test ?? '').toLowerCase());
+        if (!test) throw new ToolError(`Unknown test "${args.test}". Use one of: ${STAT_TESTS.join(', ')}.`);
+        const groups = Array.isArray(args.groups) ? args.groups.map(String) : undefined;
+        // Grouping by a protected column is fine; naming its groups or measuring it is not.
+        const optional = (value: unknown, role: string, measured: boolean) => (value ? column(dataset, value, role, measured) : undefined);
+        const categorical = test === 'chiSquare';
+        const result = runStatTest({
+          test,
+          valueColumn: optional(args.valueColumn, 'value', !categorical),
+          groupColumn: optional(args.groupColumn, 'group', !!groups?.length),
+          groups,
+          xColumn: optional(args.xColumn, 'x', !categorical),
+          yColumn: optional(args.yColumn, 'y', !categorical)
+        }, { ...dataset, data: filtered(dataset, args.filters) });
+        const round = (v: number) => Number(v.toPrecision(4));
+        // The hypothesis and assumption details name the groups, which need the same protection as the group list.
+        const groupName = (name: string) => protectValue(dataset, args.groupColumn, name);
+        const groupNames = result.groups && policyOf(dataset, args.groupColumn) !== 'send'
+          ? new RegExp(result.groups.map(g => g.name).sort((a, b) => b.length - a.length).map(n => n.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|'), 'g')
+          : null;
+        const named = (text: string) => (groupNames ? text.replace(groupNames, groupName) : text);
+        return {
+          test: result.name,
+          hypothesis: named(result.hypothesis),
+          [result.statistic.name]: round(result.statistic.value),
+          ...(result.df ? { df: result.df.map(round) } : {}),
+          pValue: round(result.pValue),
+          effectSize: { [result.effectSize.name]: round(result.effectSize.value), magnitude: result.effectSize.magnitude },
+          records: result.n,
+          ...(result.groups ? {
+            groups: result.groups.slice(0, MAX_GROUPS).map(g => ({
+              group: groupName(g.name),
+              n: g.n,
+              mean: g.mean === undefined ? null : round(g.mean)
+            }))
+          } : {}),
+          ...(result.regression ? { slope: round(result.regression.slope), intercept: round(result.regression.intercept) } : {}),
+          violatedAssumptions: result.assumptions.filter(a => a.status === 'violated').map(a => named(`${a.label}: ${a.detail}`))
+        };
+      }
+      case 'sample_rows': {
+        const rows = filtered(dataset, args.filters);
+        const limit = limitOf(args.limit, 10, MAX_SAMPLE_ROWS);
+        const step = Math.max(1, rows.length / limit);
+        const picked = Array.from({ length: Math.min(limit, rows.length) }, (_, i) => rows[Math.floor(i * step)]);
+        const wanted = Array.isArray(args.columns) && args.columns.length ? args.columns.map((c: unknown) => column(dataset, c, 'sampled')) : null;
+        const shown = protect(dataset, picked).map(row => Object.fromEntries(
+          Object.entries(row)
+            .filter(([key]) => !wanted || wanted.includes(key))
+            .map(([key, cell]) => [key, typeof cell === 'string' && cell.length > MAX_CELL_CHARS ? `${cell.slice(0, MAX_CELL_CHARS)}…` : cell])
+        ));
+        return { ...scope(dataset, rows), rows: shown };
+      }
+      default:
+        throw new ToolError(`Unknown tool "${call.name}".`);
+    }
+  };
+
+  let calls = 0;
+
+  /** Runs one call. Problems come back to the model as { error } so it can correct itself. */
+  return (call: ToolCall): { step: ToolTraceStep; result: Record<string, unknown> } => {
+    let result: Record<string, unknown>;
+    try {
+      if (++calls > MAX_TOOL_CALLS) throw new ToolError('Tool call limit reached. Answer with what you have.');
+      result = execute(call);
+      // Keep results prompt-sized: drop sample rows or groups from the end until the JSON fits.
+      const list = Array.isArray(result.rows) ? 'rows' : Array.isArray(result.results) ? 'results' : null;
+      while (list && JSON.stringify(result).length > MAX_RESULT_CHARS && (result[list] as unknown[]).length > 1) {
+        result = { ...result, [list]: (result[list] as unknown[]).slice(0, Math.ceil((result[list] as unknown[]).length / 2)), truncated: true };
+      }
+    } catch (err: any) {
+      if (!(err instanceof ToolError || err instanceof QueryPlanError || err instanceof StatTestError)) throw err;
+      result = { error: err.message };
+    }
+    return { step: { tool: call.name, args: call.args ?? {}, result: JSON.stringify(result), ...(result.error ? { error: true } : {}) }, result };
+  };
+};
@@ -0,0 +1,224 @@
+import { AIResponse, AutoInsight, ChartType, ColumnProfile, Dataset, QueryPlan } from "../types";
+import { executeQueryPlan, QueryPlanError } from "./queryEngine";
+import { parseDateValue } from "./typeInference";
+import { formatCompact, max, mean, min, pearson, stdDev, toNumber } from "./stats";
+
+// --- First-look analysis run locally when a dataset is added ---
+
+const MAX_INSIGHTS = 8;
+const MAX_PER_KIND = 3;
+const MAX_NUMERIC_COLUMNS = 15; // Correlations are pairwise, so the column count is capped
+const MIN_ROWS = 10;
+const MIN_CORRELATION = 0.5;
+const MIN_OUTLIER_RATIO = 0.01;
+const MIN_TREND_R2 = 0.5;
+const MIN_TREND_BUCKETS = 4;
+const MIN_SKEWNESS = 1;
+const MIN_TOP_SHARE = 0.5;
+const MAX_CATEGORIES = 50;
+
+const isNumeric = (p: ColumnProfile) => p.type === 'integer' || p.type === 'decimal';
+
+const percent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+/** Runs a plan through the query engine so card charts are computed exactly like chat charts. */
+const planned = (summary: string, insight: string, chartType: ChartType, plan: QueryPlan, dataset: Dataset, labels: { x?: string; y?: string }): AIResponse => {
+  const { chartData, series, stats } = executeQueryPlan(plan, dataset, chartType);
+  return { summary, insight, chartType, chartData, series, queryPlan: plan, queryStats: stats, xAxisLabel: labels.x, yAxisLabel: labels.y };
+};
+
+const correlations = (dataset: Dataset, numeric: ColumnProfile[]): AutoInsight[] => {
+  const columns = numeric.slice(0, MAX_NUMERIC_COLUMNS).map(p => p.column);
+  const values = columns.map(c => dataset.data.map(r => toNumber(r[c])));
+  const found: AutoInsight[] = [];
+  for (let i = 0; i < columns.length; i++) {
+    for (let j = i + 1; j < columns.length; j++) {
+      const xs: number[] = [];
+      const ys: number[] = [];
+      values[i].forEach((x, k) => {
+        const y = values[j][k];
+        if (x !== null && y !== null) {
+          xs.push(x);
+          ys.push(y);
+        }
+      });
+      if (xs.length < MIN_ROWS) continue;
+      const r = pearson(xs, ys);
+      if (r === null || Math.abs(r) < MIN_CORRELATION) continue;
+      const [a, b] = [columns[i], columns[j]];
+      const direction = r > 0 ? 'positive' : 'negative';
+      const title = `${a} and ${b} move ${r > 0 ? 'together' : 'in opposite directions'}`;
+      const detail = `Strong ${direction} correlation (r = ${r.toFixed(2)}) across ${xs.length.toLocaleString()} rows.`;
+      found.push({
+        id: `correlation-${a}-${b}`,
+        kind: 'correlation',
+        score: Math.abs(r),
+        title,
+        detail,
+        question: `What explains the ${direction} relationship between ${a} and ${b}?`,
+        response: planned(title, detail, 'scatter', { aggregation: 'count', xColumn: a, yColumn: b }, dataset, { x: a, y: b })
+      });
+    }
+  }
+  return found;
+};
+
+const outliers = (dataset: Dataset, numeric: ColumnProfile[]): AutoInsight[] =>
+  numeric
+    .filter(p => p.outlierCount && p.count >= MIN_ROWS && p.outlierCount / p.count >= MIN_OUTLIER_RATIO)
+    .map(p => {
+      const ratio = p.outlierCount! / p.count;
+      const title = `${p.column} has ${p.outlierCount!.toLocaleString()} outliers`;
+      const detail = `${percent(ratio)} of values fall outside the typical range around the median of ${formatCompact(p.quantiles!.p50)}.`;
+      return {
+        id: `outliers-${p.column}`,
+        kind: 'outliers' as const,
+        score: Math.min(1, 0.4 + ratio * 4),
+        title,
+        detail,
+        question: `Which records are the outliers in ${p.column}, and what do they have in common?`,
+        response: planned(title, detail, 'boxPlot', { aggregation: 'count', valueColumn: p.column }, dataset, { y: p.column })
+      };
+    });
+
+/** Sample skewness: the third standardized moment. */
+const skewness = (values: number[]): number | null => {
+  const sd = stdDev(values);
+  if (sd === null || sd === 0) return null;
+  const m = mean(values)!;
+  return values.reduce((acc, v) => acc + ((v - m) / sd) ** 3, 0) / values.length;
+};
+
+const skewed = (dataset: Dataset, numeric: ColumnProfile[]): AutoInsight[] =>
+  numeric.flatMap(p => {
+    const values = dataset.data.map(r => toNumber(r[p.column])).filter((v): v is number => v !== null);
+    const skew = values.length >= MIN_ROWS ? skewness(values) : null;
+    if (skew === null || Math.abs(skew) < MIN_SKEWNESS) return [];
+    const side = skew > 0 ? 'right' : 'left';
+    const title = `${p.column} is heavily ${side}-skewed`;
+    const detail = `Skewness of ${skew.toFixed(2)}: most values sit ${skew > 0 ? 'low' : 'high'} with a long tail to the ${side}, so the mean (${formatCompact(p.mean ?? 0)}) differs from the median (${formatCompact(p.quantiles!.p50)}).`;
+    return [{
+      id: `skew-${p.column}`,
+      kind: 'skew' as const,
+      score: Math.min(1, Math.abs(skew) / 3),
+      title,
+      detail,
+      question: `Why is ${p.column} so skewed, and what makes up the long ${side} tail?`,
+      response: planned(title, detail, 'histogram', { aggregation: 'count', valueColumn: p.column }, dataset, { x: p.column, y: 'Records' })
+    }];
+  });
+
+const imbalances = (dataset: Dataset, profile: ColumnProfile[]): AutoInsight[] =>
+  profile
+    .filter(p => (p.type === 'categorical' || p.type === 'boolean') && p.distinctCount >= 2 && p.distinctCount <= MAX_CATEGORIES && p.count >= MIN_ROWS)
+    .flatMap(p => {
+      const top = p.topCategories[0];
+      const share = top.count / p.count;
+      // With two values a 50% share is perfectly balanced, so require more of it.
+      const expected = 1 / p.distinctCount;
+      if (share < Math.max(MIN_TOP_SHARE, expected * 1.6)) return [];
+      const title = `"${top.value}" dominates ${p.column}`;
+      const detail = `${percent(share)} of rows have ${p.column} = "${top.value}", against ${percent(expected)} if the ${p.distinctCount} values were even.`;
+      return [{
+        id: `imbalance-${p.column}`,
+        kind: 'imbalance' as const,
+        score: Math.min(1, (share - expected) / (1 - expected)),
+        title,
+        detail,
+        question: `How do records with ${p.column} = "${top.value}" differ from the rest?`,
+        response: planned(title, detail, 'bar', { aggregation: 'count', groupBy: p.column, sort: { by: 'value', direction: 'desc' }, limit: 10 }, dataset, { x: p.column, y: 'Records' })
+      }];
+    });
+
+/** R² of a least-squares line through the points (index, value). */
+const linearFit = (ys: number[]): { slope: number; r2: number } => {
+  const xs = ys.map((_, i) => i);
+  const r = pearson(xs, ys);
+  const sx = stdDev(xs)!;
+  const sy = stdDev(ys) ?? 0;
+  return { slope: r === null ? 0 : (r * sy) / sx, r2: r === null ? 0 : r * r };
+};
+
+const trends = (dataset: Dataset, profile: ColumnProfile[], numeric: ColumnProfile[]): AutoInsight[] =>
+  profile.filter(p => p.type === 'date').flatMap(dateProfile => {
+    const dates = dataset.data.map(r => parseDateValue(r[dateProfile.column]));
+    const present = dates.filter((d): d is number => d !== null);
+    if (present.length < MIN_ROWS) return [];
+    const spanDays = (max(present)! - min(present)!) / 86_400_000;
+    const bucketOf = (t: number) => new Date(t).toISOString().slice(0, spanDays > 90 ? 7 : 10);
+
+    // One candidate per measure: record count plus the mean of each numeric column.
+    const measures: { label: string; value: (rowIndex: number) => number | null; aggregate: 'count' | 'mean' }[] = [
+      { label: 'Records', value: () => 1, aggregate: 'count' },
+      ...numeric.map(p => ({ label: p.column, value: (i: number) => toNumber(dataset.data[i][p.column]), aggregate: 'mean' as const }))
+    ];
+
+    const candidates = measures.flatMap(measure => {
+      const buckets = new Map<string, number[]>();
+      dates.forEach((t, i) => {
+        const v = t === null ? null : measure.value(i);
+        if (t === null || v === null) return;
+        const key = bucketOf(t);
+        if (!buckets.has(key)) buckets.set(key, []);
+        buckets.get(key)!.push(v);
+      });
+      if (buckets.size < MIN_TREND_BUCKETS) return [];
+      const points = Array.from(buckets.entries())
+        .sort((a, b) => a[0].localeCompare(b[0]))
+        .map(([name, vs]) => ({ name, value: Number((measure.aggregate === 'count' ? vs.length : mean(vs)!).toPrecision(6)) }));
+      const fit = linearFit(points.map(p => p.value));
+      return fit.r2 >= MIN_TREND_R2 && fit.slope !== 0 ? [{ measure, points, fit }] : [];
+    });
+
+    const best = candidates.sort((a, b) => b.fit.r2 - a.fit.r2)[0];
+    if (!best) return [];
+    const { measure, points, fit } = best;
+    const first = points[0].value;
+    const last = points[points.length - 1].value;
+    const what = measure.aggregate === 'count' ? 'Record volume' : `Average ${measure.label}`;
+    const title = `${what} is ${fit.slope > 0 ? 'rising' : 'falling'} over ${dateProfile.column}`;
+    const change = first !== 0 ? ` (${last >= first ? '+' : ''}${percent((last - first) / Math.abs(first))})` : '';
+    const detail = `From ${formatCompact(first)} in ${points[0].name} to ${formatCompact(last)} in ${points[points.length - 1].name}${change}; a straight line explains ${percent(fit.r2)} of the variation.`;
+    return [{
+      id: `trend-${dateProfile.column}-${measure.label}`,
+      kind: 'trend' as const,
+      score: fit.r2,
+      title,
+      detail,
+      question: `What is driving the ${fit.slope > 0 ? 'rise' : 'decline'} in ${what.toLowerCase()} over ${dateProfile.column}?`,
+      // Bucketed by period, which the query engine can't express, so the chart is built here.
+      response: { summary: title, insight: detail, chartType: 'line', chartData: points, xAxisLabel: dateProfile.column, yAxisLabel: what }
+    }];
+  });
+
+/**
+ * Finds the strongest correlations, outliers, date trends, skewed distributions and category
+ * imbalances, ranked by how notable they are. At most a few cards of each kind are kept.
+ */
+export const generateAutoInsights = (dataset: Dataset, profile: ColumnProfile[]): AutoInsight[] => {
+  if (dataset.data.length < MIN_ROWS) return [];
+  const numeric = profile.filter(isNumeric);
+  // A detector whose chart can't be built is skipped rather than failing the whole pass.
+  const run = (detect: () => AutoInsight[]): AutoInsight[] => {
+    try {
+      return detect();
+    } catch (err) {
+      if (!(err instanceof QueryPlanError)) throw err;
+      return [];
+    }
+  };
+  const all = [
+    ...run(() => correlations(dataset, numeric)),
+    ...run(() => outliers(dataset, numeric)),
+    ...run(() => trends(dataset, profile, numeric)),
+    ...run(() => skewed(dataset, numeric)),
+    ...run(() => imbalances(dataset, profile))
+  ].sort((a, b) => b.score - a.score);
+
+  const perKind = new Map<string, number>();
+  return all.filter(insight => {
+    const n = perKind.get(insight.kind) ?? 0;
+    perKind.set(insight.kind, n + 1);
+    return n < MAX_PER_KIND;
+  }).slice(0, MAX_INSIGHTS);
+};
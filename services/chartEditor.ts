@@ -0,0 +1,67 @@
+import { AIResponse, ChartStyle, ChartType, ChartVersion, Dataset, Message, QueryPlan } from "../types";
+import { executeQueryPlan, QueryPlanError } from "./queryEngine";
+import { validateChartData } from "./responseValidator";
+
+// --- Manual edits to AI-generated charts, saved as versions on the message ---
+
+export interface ChartEdit {
+  chartType: ChartType;
+  queryPlan?: QueryPlan;
+  xAxisLabel?: string;
+  yAxisLabel?: string;
+  style: ChartStyle;
+}
+
+export const DEFAULT_CHART_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#06b6d4', '#84cc16'];
+
+/** The chart currently shown for a message: its active edited version, or the model's original. */
+export const activeChart = (message: Message): { response: AIResponse; style: ChartStyle } | null => {
+  if (!message.response) return null;
+  const version = message.chartVersions?.find(v => v.id === message.activeChartVersionId);
+  return version ? { response: version.response, style: version.style } : { response: message.response, style: {} };
+};
+
+/** Starting point for the editor, taken from the chart on screen. */
+export const editFromChart = (response: AIResponse, style: ChartStyle): ChartEdit => ({
+  chartType: response.chartType,
+  queryPlan: response.queryPlan ? { ...response.queryPlan } : undefined,
+  xAxisLabel: response.xAxisLabel,
+  yAxisLabel: response.yAxisLabel,
+  style: { ...style }
+});
+
+/**
+ * Re-runs the edited plan against the dataset and returns the resulting chart as a new version.
+ * Charts without a plan can only change presentation. Throws QueryPlanError when the edit can't be drawn.
+ */
+export const buildChartVersion = (base: AIResponse, edit: ChartEdit, dataset: Dataset): ChartVersion => {
+  const response: AIResponse = {
+    ...base,
+    chartType: edit.chartType,
+    queryPlan: edit.queryPlan,
+    xAxisLabel: edit.xAxisLabel,
+    yAxisLabel: edit.yAxisLabel
+  };
+  if (edit.queryPlan) {
+    const { chartData, series, stats } = executeQueryPlan(edit.queryPlan, dataset, edit.chartType);
+    response.chartData = chartData;
+    response.series = series;
+    response.queryStats = stats;
+  } else if (edit.chartType !== base.chartType) {
+    throw new QueryPlanError('This chart has no query plan, so only labels, colors and legend can be changed.');
+  }
+  const { chartData, issues } = validateChartData(response.chartType, response.chartData, response.series);
+  if (issues.length > 0) throw new QueryPlanError(issues.map(i => i.message).join(' '));
+  response.chartData = chartData;
+  return { id: `chart-${Date.now().toString(36)}`, createdAt: new Date(), response, style: edit.style };
+};
+
+/** Names for each color the chart uses: one per series, one per slice for pies, history and forecast for forecasts. */
+export const colorSlots = (response: AIResponse): string[] => {
+  if (response.chartType === 'pie') {
+    return response.chartData.slice(0, DEFAULT_CHART_COLORS.length).map(d => String(d.name));
+  }
+  if (response.chartType === 'forecast') return [response.yAxisLabel || 'Actual', 'Forecast and range'];
+  if (response.series?.length) return response.series.map(s => s.label);
+  return [response.yAxisLabel || 'Value'];
+};
@@ -0,0 +1,413 @@
+import { jsPDF, GState } from 'jspdf';
+
+// --- Rendered charts as vector shapes, so reports can redraw them sharply in PDF and Word ---
+
+export type Segment =
+  | { op: 'M' | 'L'; x: number; y: number }
+  | { op: 'C'; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { op: 'Z' };
+
+export interface Paint {
+  color: string; // #rrggbb
+  opacity: number;
+}
+
+export type VectorShape =
+  | { kind: 'path'; segments: Segment[]; fill?: Paint; stroke?: Paint & { width: number; dash?: number[] } }
+  | { kind: 'text'; text: string; x: number; y: number; size: number; color: Paint; bold: boolean; angle: number }; // x, y: baseline start
+
+// Coordinates are CSS pixels from the chart container's top-left corner.
+export interface VectorChart {
+  width: number;
+  height: number;
+  shapes: VectorShape[];
+}
+
+const SHAPE_TAGS = new Set(['path', 'rect', 'line', 'circle', 'ellipse', 'polyline', 'polygon']);
+const HIDDEN_SVG = 'defs, clipPath, mask, pattern, marker, title';
+const FALLBACK_TEXT = '#334155'; // Slate-700, for text too light to read on a white page
+const BASELINE_SHIFT = 0.35; // Roughly from the middle of a line of text to its baseline, in ems
+
+const parseColor = (value: string, alpha = 1): Paint | undefined => {
+  const rgb = /^rgba?\(\s*([\d.]+)[,\s]+([\d.]+)[,\s]+([\d.]+)(?:[,\s/]+([\d.]+%?))?\s*\)$/.exec(value.trim());
+  if (rgb) {
+    const a = rgb[4] === undefined ? 1 : rgb[4].endsWith('%') ? parseFloat(rgb[4]) / 100 : parseFloat(rgb[4]);
+    const hex = [rgb[1], rgb[2], rgb[3]].map(c => Math.round(Number(c)).toString(16).padStart(2, '0')).join('');
+    return a * alpha > 0 ? { color: `#${hex}`, opacity: a * alpha } : undefined;
+  }
+  const hex = /^#([0-9a-f]{6})$/i.exec(value.trim());
+  return hex && alpha > 0 ? { color: `#${hex[1].toLowerCase()}`, opacity: alpha } : undefined;
+};
+
+const luminance = (hex: string) => {
+  const [r, g, b] = [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16) / 255);
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+const readableText = (paint: Paint | undefined): Paint =>
+  !paint || luminance(paint.color) > 0.75 ? { color: FALLBACK_TEXT, opacity: 1 } : paint;
+
+// --- SVG path data ---
+
+const arcToCurves = (
+  x1: number, y1: number, rx: number, ry: number, rotation: number,
+  largeArc: boolean, sweep: boolean, x2: number, y2: number
+): Segment[] => {
+  if (rx === 0 || ry === 0 || (x1 === x2 && y1 === y2)) return [{ op: 'L', x: x2, y: y2 }];
+  const phi = (rotation * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (x1 - x2) / 2;
+  const dy = (y1 - y2) / 2;
+  const xp = cos * dx + sin * dy;
+  const yp = -sin * dx + cos * dy;
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  const lambda = (xp * xp) / (rx * rx) + (yp * yp) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+  const num = rx * rx * ry * ry - rx * rx * yp * yp - ry * ry * xp * xp;
+  const den = rx * rx * yp * yp + ry * ry * xp * xp;
+  const coef = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, num / den));
+  const cxp = (coef * rx * yp) / ry;
+  const cyp = (-coef * ry * xp) / rx;
+  const cx = cos * cxp - sin * cyp + (x1 + x2) / 2;
+  const cy = sin * cxp + cos * cyp + (y1 + y2) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const start = angle(1, 0, (xp - cxp) / rx, (yp - cyp) / ry);
+  let delta = angle((xp - cxp) / rx, (yp - cyp) / ry, (-xp - cxp) / rx, (-yp - cyp) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  // One cubic per quarter turn at most keeps the approximation error invisible.
+  const pieces = Math.max(1, Math.ceil(Math.abs(delta) / (Math.PI / 2)));
+  const step = delta / pieces;
+  const k = (4 / 3) * Math.tan(step / 4);
+  const point = (t: number) => [cx + rx * Math.cos(t) * cos - ry * Math.sin(t) * sin, cy + rx * Math.cos(t) * sin + ry * Math.sin(t) * cos];
+  const tangent = (t: number) => [-rx * Math.sin(t) * cos - ry * Math.cos(t) * sin, -rx * Math.sin(t) * sin + ry * Math.cos(t) * cos];
+  const curves: Segment[] = [];
+  for (let i = 0; i < pieces; i++) {
+    const t1 = start + i * step;
+    const t2 = t1 + step;
+    const [p1x, p1y] = point(t1);
+    const [p2x, p2y] = point(t2);
+    const [d1x, d1y] = tangent(t1);
+    const [d2x, d2y] = tangent(t2);
+    curves.push({ op: 'C', x1: p1x + k * d1x, y1: p1y + k * d1y, x2: p2x - k * d2x, y2: p2y - k * d2y, x: p2x, y: p2y });
+  }
+  return curves;
+};
+
+/** Absolute M/L/C/Z segments for SVG path data; arcs and quadratic curves become cubics. */
+export const parsePathData = (d: string): Segment[] => {
+  const tokens = d.match(/[MmLlHhVvCcSsQqTtAaZz]|[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/g) ?? [];
+  const segments: Segment[] = [];
+  let i = 0;
+  let command = '';
+  let x = 0, y = 0, startX = 0, startY = 0;
+  let lastControl: { x: number; y: number; quadratic: boolean } | null = null;
+  const next = () => Number(tokens[i++]);
+  const isNumber = () => i < tokens.length && !/^[a-zA-Z]$/.test(tokens[i]);
+  const cubic = (x1: number, y1: number, x2: number, y2: number, ex: number, ey: number) => {
+    segments.push({ op: 'C', x1, y1, x2, y2, x: ex, y: ey });
+    x = ex;
+    y = ey;
+  };
+  const quadratic = (qx: number, qy: number, ex: number, ey: number) => {
+    cubic(x + (2 / 3) * (qx - x), y + (2 / 3) * (qy - y), ex + (2 / 3) * (qx - ex), ey + (2 / 3) * (qy - ey), ex, ey);
+    lastControl = { x: qx, y: qy, quadratic: true };
+  };
+
+  while (i < tokens.length) {
+    if (!isNumber()) command = tokens[i++];
+    else if (!command) break;
+    const relative = command === command.toLowerCase();
+    const ox = relative ? x : 0;
+    const oy = relative ? y : 0;
+    const previous = lastControl;
+    lastControl = null;
+    switch (command.toUpperCase()) {
+      case 'M':
+        x = ox + next();
+        y = oy + next();
+        startX = x;
+        startY = y;
+        segments.push({ op: 'M', x, y });
+        command = relative ? 'l' : 'L'; // Extra pairs after a move are line-tos
+        break;
+      case 'L':
+        x = ox + next();
+        y = oy + next();
+        segments.push({ op: 'L', x, y });
+        break;
+      case 'H':
+        x = ox + next();
+        segments.push({ op: 'L', x, y });
+        break;
+      case 'V':
+        y = oy + next();
+        segments.push({ op: 'L', x, y });
+        break;
+      case 'C': {
+        const [x1, y1, x2, y2, ex, ey] = [ox + next(), oy + next(), ox + next(), oy + next(), ox + next(), oy + next()];
+        cubic(x1, y1, x2, y2, ex, ey);
+        lastControl = { x: x2, y: y2, quadratic: false };
+        break;
+      }
+      case 'S': {
+        const x1 = previous && !previous.quadratic ? 2 * x - previous.x : x;
+        const y1 = previous && !previous.quadratic ? 2 * y - previous.y : y;
+        const [x2, y2, ex, ey] = [ox + next(), oy + next(), ox + next(), oy + next()];
+        cubic(x1, y1, x2, y2, ex, ey);
+        lastControl = { x: x2, y: y2, quadratic: false };
+        break;
+      }
+      case 'Q': {
+        const [qx, qy, ex, ey] = [ox + next(), oy + next(), ox + next(), oy + next()];
+        quadratic(qx, qy, ex, ey);
+        break;
+      }
+      case 'T': {
+        const qx = previous?.quadratic ? 2 * x - previous.x : x;
+        const qy = previous?.quadratic ? 2 * y - previous.y : y;
+        quadratic(qx, qy, ox + next(), oy + next());
+        break;
+      }
+      case 'A': {
+        const [rx, ry, rotation, large, sweep] = [next(), next(), next(), next(), next()];
+        const [ex, ey] = [ox + next(), oy + next()];
+        segments.push(...arcToCurves(x, y, rx, ry, rotation, large !== 0, sweep !== 0, ex, ey));
+        x = ex;
+        y = ey;
+        break;
+      }
+      case 'Z':
+        segments.push({ op: 'Z' });
+        x = startX;
+        y = startY;
+        break;
+      default:
+        return segments;
+    }
+  }
+  return segments;
+};
+
+const ellipse = (cx: number, cy: number, rx: number, ry: number): Segment[] => {
+  const k = 0.5523; // Cubic approximation of a quarter circle
+  return [
+    { op: 'M', x: cx + rx, y: cy },
+    { op: 'C', x1: cx + rx, y1: cy + k * ry, x2: cx + k * rx, y2: cy + ry, x: cx, y: cy + ry },
+    { op: 'C', x1: cx - k * rx, y1: cy + ry, x2: cx - rx, y2: cy + k * ry, x: cx - rx, y: cy },
+    { op: 'C', x1: cx - rx, y1: cy - k * ry, x2: cx - k * rx, y2: cy - ry, x: cx, y: cy - ry },
+    { op: 'C', x1: cx + k * rx, y1: cy - ry, x2: cx + rx, y2: cy - k * ry, x: cx + rx, y: cy },
+    { op: 'Z' }
+  ];
+};
+
+const rectangle = (x: number, y: number, w: number, h: number): Segment[] => [
+  { op: 'M', x, y }, { op: 'L', x: x + w, y }, { op: 'L', x: x + w, y: y + h }, { op: 'L', x, y: y + h }, { op: 'Z' }
+];
+
+const polyline = (points: string, closed: boolean): Segment[] => {
+  const values = (points.match(/[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/g) ?? []).map(Number);
+  const segments: Segment[] = [];
+  for (let i = 0; i + 1 < values.length; i += 2) segments.push({ op: i === 0 ? 'M' : 'L', x: values[i], y: values[i + 1] });
+  if (closed && segments.length) segments.push({ op: 'Z' });
+  return segments;
+};
+
+const num = (el: Element, name: string) => parseFloat(el.getAttribute(name) ?? '0') || 0;
+
+const localSegments = (el: Element): Segment[] => {
+  switch (el.tagName.toLowerCase()) {
+    case 'path': return parsePathData(el.getAttribute('d') ?? '');
+    case 'rect': return rectangle(num(el, 'x'), num(el, 'y'), num(el, 'width'), num(el, 'height'));
+    case 'line': return [{ op: 'M', x: num(el, 'x1'), y: num(el, 'y1') }, { op: 'L', x: num(el, 'x2'), y: num(el, 'y2') }];
+    case 'circle': return ellipse(num(el, 'cx'), num(el, 'cy'), num(el, 'r'), num(el, 'r'));
+    case 'ellipse': return ellipse(num(el, 'cx'), num(el, 'cy'), num(el, 'rx'), num(el, 'ry'));
+    case 'polyline': return polyline(el.getAttribute('points') ?? '', false);
+    case 'polygon': return polyline(el.getAttribute('points') ?? '', true);
+    default: return [];
+  }
+};
+
+const transformSegments = (segments: Segment[], m: DOMMatrix, ox: number, oy: number): Segment[] => {
+  const map = (x: number, y: number) => [m.a * x + m.c * y + m.e - ox, m.b * x + m.d * y + m.f - oy];
+  return segments.map(s => {
+    if (s.op === 'Z') return s;
+    const [x, y] = map(s.x, s.y);
+    if (s.op !== 'C') return { op: s.op, x, y };
+    const [x1, y1] = map(s.x1, s.y1);
+    const [x2, y2] = map(s.x2, s.y2);
+    return { op: 'C', x1, y1, x2, y2, x, y };
+  });
+};
+
+/**
+ * Reads a rendered chart (Recharts SVG, plus HTML legends and the CSS-grid heatmap) into vector
+ * shapes. The element must be laid out, though it can sit off screen. The container's own
+ * background is left out so charts drawn in dark mode still read on a white page.
+ */
+export const captureChart = (container: HTMLElement): VectorChart => {
+  const origin = container.getBoundingClientRect();
+  const shapes: VectorShape[] = [];
+
+  container.querySelectorAll('*').forEach(el => {
+    if (el.closest(HIDDEN_SVG)) return;
+    const style = getComputedStyle(el);
+    const opacity = parseFloat(style.opacity || '1');
+    if (style.visibility === 'hidden' || style.display === 'none' || opacity === 0) return;
+
+    if (el instanceof SVGGraphicsElement) {
+      const matrix = el.getScreenCTM();
+      if (!matrix) return;
+      const tag = el.tagName.toLowerCase();
+
+      if (SHAPE_TAGS.has(tag)) {
+        const segments = transformSegments(localSegments(el), matrix, origin.left, origin.top);
+        if (segments.length < 2) return;
+        const scale = Math.hypot(matrix.a, matrix.b);
+        const fill = tag === 'line' ? undefined : parseColor(style.fill, parseFloat(style.fillOpacity || '1') * opacity);
+        const strokePaint = parseColor(style.stroke, parseFloat(style.strokeOpacity || '1') * opacity);
+        const width = parseFloat(style.strokeWidth || '1') * scale;
+        const dash = style.strokeDasharray && style.strokeDasharray !== 'none'
+          ? style.strokeDasharray.split(/[\s,]+/).map(v => parseFloat(v) * scale).filter(v => v > 0)
+          : undefined;
+        const stroke = strokePaint && width > 0 ? { ...strokePaint, width, dash: dash?.length ? dash : undefined } : undefined;
+        if (fill || stroke) shapes.push({ kind: 'path', segments, fill, stroke });
+        return;
+      }
+
+      if (tag === 'text') {
+        const runs = el.querySelectorAll('tspan').length ? Array.from(el.querySelectorAll('tspan')) : [el];
+        const angle = Math.atan2(matrix.b, matrix.a);
+        const scale = Math.hypot(matrix.a, matrix.b);
+        const size = parseFloat(style.fontSize || '12') * scale;
+        runs.forEach(run => {
+          const text = run.textContent?.trim();
+          if (!text) return;
+          const box = (run as SVGGraphicsElement).getBBox();
+          const lx = box.x;
+          const ly = box.y + box.height / 2;
+          const shift = BASELINE_SHIFT * size;
+          shapes.push({
+            kind: 'text',
+            text,
+            x: matrix.a * lx + matrix.c * ly + matrix.e - origin.left - Math.sin(angle) * shift,
+            y: matrix.b * lx + matrix.d * ly + matrix.f - origin.top + Math.cos(angle) * shift,
+            size,
+            color: readableText(parseColor(style.fill, parseFloat(style.fillOpacity || '1') * opacity)),
+            bold: parseInt(style.fontWeight, 10) >= 600,
+            angle: (angle * 180) / Math.PI
+          });
+        });
+      }
+      return;
+    }
+
+    if (!(el instanceof HTMLElement)) return;
+    const box = el.getBoundingClientRect();
+    if (box.width === 0 || box.height === 0) return;
+    const background = parseColor(style.backgroundColor, opacity);
+    if (background && el !== container) {
+      shapes.push({ kind: 'path', segments: rectangle(box.left - origin.left, box.top - origin.top, box.width, box.height), fill: background });
+    }
+    el.childNodes.forEach(node => {
+      let text = node.nodeType === Node.TEXT_NODE ? node.textContent?.trim() : '';
+      if (!text) return;
+      const range = document.createRange();
+      range.selectNodeContents(node);
+      const rect = range.getBoundingClientRect();
+      // Truncated labels (text-overflow: ellipsis) keep roughly the share that is visible.
+      if (el.scrollWidth > el.clientWidth + 1) {
+        text = `${text.slice(0, Math.max(1, Math.floor((text.length * el.clientWidth) / el.scrollWidth) - 1))}…`;
+      }
+      const size = parseFloat(style.fontSize || '12');
+      shapes.push({
+        kind: 'text',
+        text,
+        x: rect.left - origin.left,
+        y: rect.top - origin.top + rect.height / 2 + BASELINE_SHIFT * size,
+        size,
+        color: readableText(parseColor(style.color, opacity)),
+        bold: parseInt(style.fontWeight, 10) >= 600,
+        angle: 0
+      });
+    });
+  });
+
+  return { width: origin.width, height: origin.height, shapes };
+};
+
+// --- Output ---
+
+/** Draws the chart into a jsPDF page at (left, top), `width` mm wide. Returns the height used in mm. */
+export const drawChartPdf = (doc: jsPDF, chart: VectorChart, left: number, top: number, width: number): number => {
+  const k = width / chart.width;
+  const trace = (segments: Segment[]) => segments.forEach(s => {
+    if (s.op === 'M') doc.moveTo(left + s.x * k, top + s.y * k);
+    else if (s.op === 'L') doc.lineTo(left + s.x * k, top + s.y * k);
+    else if (s.op === 'C') doc.curveTo(left + s.x1 * k, top + s.y1 * k, left + s.x2 * k, top + s.y2 * k, left + s.x * k, top + s.y * k);
+    else doc.close();
+  });
+
+  chart.shapes.forEach(shape => {
+    if (shape.kind === 'path') {
+      if (shape.fill) {
+        doc.setGState(new GState({ opacity: shape.fill.opacity }));
+        doc.setFillColor(shape.fill.color);
+        trace(shape.segments);
+        doc.fill();
+      }
+      if (shape.stroke) {
+        doc.setGState(new GState({ 'stroke-opacity': shape.stroke.opacity }));
+        doc.setDrawColor(shape.stroke.color);
+        doc.setLineWidth(shape.stroke.width * k);
+        doc.setLineDashPattern(shape.stroke.dash?.map(d => d * k) ?? [], 0);
+        trace(shape.segments);
+        doc.stroke();
+      }
+      return;
+    }
+    doc.setGState(new GState({ opacity: shape.color.opacity }));
+    doc.setTextColor(shape.color.color);
+    doc.setFont('helvetica', shape.bold ? 'bold' : 'normal');
+    doc.setFontSize((shape.size * k) / 0.3528); // mm to pt
+    doc.text(shape.text, left + shape.x * k, top + shape.y * k, { angle: -shape.angle });
+  });
+
+  doc.setGState(new GState({ opacity: 1, 'stroke-opacity': 1 }));
+  doc.setLineDashPattern([], 0);
+  return chart.height * k;
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const pathData = (segments: Segment[]) => segments.map(s => {
+  const f = (v: number) => +v.toFixed(2);
+  if (s.op === 'Z') return 'Z';
+  if (s.op === 'C') return `C${f(s.x1)} ${f(s.y1)} ${f(s.x2)} ${f(s.y2)} ${f(s.x)} ${f(s.y)}`;
+  return `${s.op}${f(s.x)} ${f(s.y)}`;
+}).join('');
+
+/** A standalone SVG document of the chart, on a white background. */
+export const chartToSvg = (chart: VectorChart): string => {
+  const body = chart.shapes.map(shape => {
+    if (shape.kind === 'path') {
+      const fill = shape.fill ? `fill="${shape.fill.color}" fill-opacity="${shape.fill.opacity}"` : 'fill="none"';
+      const stroke = shape.stroke
+        ? ` stroke="${shape.stroke.color}" stroke-opacity="${shape.stroke.opacity}" stroke-width="${+shape.stroke.width.toFixed(2)}"${shape.stroke.dash ? ` stroke-dasharray="${shape.stroke.dash.join(' ')}"` : ''}`
+        : '';
+      return `<path d="${pathData(shape.segments)}" ${fill}${stroke}/>`;
+    }
+    const rotate = shape.angle ? ` transform="rotate(${+shape.angle.toFixed(2)} ${+shape.x.toFixed(2)} ${+shape.y.toFixed(2)})"` : '';
+    return `<text x="${+shape.x.toFixed(2)}" y="${+shape.y.toFixed(2)}" font-family="Helvetica, Arial, sans-serif" font-size="${+shape.size.toFixed(2)}" font-weight="${shape.bold ? 'bold' : 'normal'}" fill="${shape.color.color}" fill-opacity="${shape.color.opacity}"${rotate}>${escapeXml(shape.text)}</text>`;
+  });
+  const { width, height } = chart;
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${Math.round(width)}" height="${Math.round(height)}" viewBox="0 0 ${width} ${height}"><rect width="100%" height="100%" fill="#ffffff"/>${body.join('')}</svg>`;
+};
@@ -0,0 +1,370 @@
+import { AIResponse, ChartType, ColumnType, Dataset, DateUnit, QueryFilter, QueryPlan, TransformStep } from "../types";
+import { describeStep } from "./transforms";
+import { describeSample } from "./ingest";
+import { sturgesBins } from "./stats";
+import { SEASON_LENGTHS } from "./timeSeries";
+
+// --- Re-runnable exports of an analysis: pandas notebooks and SQL scripts ---
+
+export interface NotebookEntry {
+  question: string;
+  response: AIResponse;
+}
+
+interface NotebookCell {
+  cell_type: 'markdown' | 'code';
+  metadata: Record<string, never>;
+  source: string[];
+  execution_count?: null;
+  outputs?: [];
+}
+
+const MAX_HEATMAP_COLUMNS = 12;
+const RESAMPLE_FREQ: Record<DateUnit, string> = { day: 'D', week: 'W-MON', month: 'MS', quarter: 'QS', year: 'YS' };
+
+type ColumnTypes = Record<string, ColumnType>;
+
+/**
+ * A filter or fill value as a number literal when its column is numeric, else null. Values are quoted by
+ * their column's type, so "00123" in a text column stays a string; columns of unknown type (another
+ * dataset's) keep the value's own type.
+ */
+const numberLiteral = (types: ColumnTypes, column: string, value: string | number | undefined): string | null => {
+  const type = types[column];
+  const numeric = type ? type === 'integer' || type === 'decimal' : typeof value === 'number';
+  return numeric && value !== undefined && String(value).trim() !== '' && !isNaN(Number(value)) ? String(Number(value)) : null;
+};
+
+// JSON string literals are valid Python string literals for everything a column name or value holds.
+const py = (value: unknown) => JSON.stringify(value);
+const pyValue = (types: ColumnTypes, column: string, value: string | number | undefined) =>
+  numberLiteral(types, column, value) ?? py(String(value ?? ''));
+
+const sqlIdent = (name: string) => `"${name.replace(/"/g, '""')}"`;
+const sqlString = (value: string) => `'${value.replace(/'/g, "''")}'`;
+const sqlValue = (types: ColumnTypes, column: string, value: string | number | undefined) =>
+  numberLiteral(types, column, value) ?? sqlString(String(value ?? ''));
+
+/** A SQL table name derived from a file name: "Q3 Sales.csv" becomes q3_sales. */
+const tableName = (fileName: string) =>
+  fileName.replace(/\.[^.]+$/, '').toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'dataset';
+
+export const tableNameFor = (dataset: Dataset) => tableName(dataset.name);
+
+// Types of the dataset's columns, including ones the recipe dropped or renamed.
+const columnTypesOf = (dataset: Dataset): ColumnTypes => ({ ...dataset.original?.columnTypes, ...dataset.columnTypes });
+
+// A plan reading another workspace dataset has columns of unknown type.
+const planTypes = (response: AIResponse, dataset: Dataset): ColumnTypes =>
+  response.queryPlan?.dataset && response.queryPlan.dataset !== dataset.name ? {} : columnTypesOf(dataset);
+
+const readerFor = (fileName: string) => {
+  const ext = fileName.split('.').pop()?.toLowerCase();
+  if (ext === 'xlsx' || ext === 'xls') return `pd.read_excel(${py(fileName)})`;
+  if (ext === 'json') return `pd.read_json(${py(fileName)})`;
+  if (ext === 'tsv' || ext === 'tab') return `pd.read_csv(${py(fileName)}, sep="\\t")`;
+  return `pd.read_csv(${py(fileName)})`;
+};
+
+// --- pandas ---
+
+const pandasFilter = (f: QueryFilter, types: ColumnTypes) => {
+  const col = `data[${py(f.column)}]`;
+  const ops: Record<string, string> = { eq: '==', neq: '!=', gt: '>', gte: '>=', lt: '<', lte: '<=' };
+  if (f.operator === 'in') return `${col}.isin([${(f.values ?? []).map(v => pyValue(types, f.column, v)).join(', ')}])`;
+  if (f.operator === 'contains') return `${col}.astype(str).str.contains(${py(String(f.value ?? ''))}, case=False, regex=False, na=False)`;
+  return `(${col} ${ops[f.operator]} ${pyValue(types, f.column, f.value)})`;
+};
+
+const pandasStep = (step: TransformStep, types: ColumnTypes): string => {
+  switch (step.kind) {
+    case 'rename': return `df = df.rename(columns={${py(step.column)}: ${py(step.to)}})`;
+    case 'changeType':
+      if (step.type === 'date') return `df[${py(step.column)}] = pd.to_datetime(df[${py(step.column)}], errors="coerce")`;
+      if (step.type === 'integer' || step.type === 'decimal') return `df[${py(step.column)}] = pd.to_numeric(df[${py(step.column)}], errors="coerce")`;
+      if (step.type === 'boolean') return `df[${py(step.column)}] = df[${py(step.column)}].astype(str).str.lower().isin(["true", "yes", "1", "y"])`;
+      return `df[${py(step.column)}] = df[${py(step.column)}].astype(str)`;
+    case 'filter': {
+      const condition = pandasFilter(step.filter, types).replace(/data\[/g, 'df[');
+      return `df = df[${step.mode === 'remove' ? '~' : ''}(${condition})]`;
+    }
+    case 'fillNulls': {
+      const col = `df[${py(step.column)}]`;
+      const fill = step.strategy === 'value' ? pyValue(types, step.column, step.value) : step.strategy === 'mode' ? `${col}.mode().iloc[0]` : `${col}.${step.strategy}()`;
+      return step.strategy === 'previous' ? `${col} = ${col}.ffill()` : `${col} = ${col}.fillna(${fill})`;
+    }
+    case 'dropNulls': return step.columns.length ? `df = df.dropna(subset=${py(step.columns)})` : 'df = df.dropna()';
+    case 'formula': return `df[${py(step.name)}] = df.eval(${py(step.expression.replace(/\[([^\]]+)\]/g, '`$1`'))})  # Translate any spreadsheet functions by hand`;
+    case 'split': return `df[${py(step.into)}] = df[${py(step.column)}].astype(str).str.split(${py(step.separator)}, n=${step.into.length - 1}, expand=True)`;
+    case 'merge': return `df[${py(step.name)}] = df[${py(step.columns)}].astype(str).agg(${py(step.separator)}.join, axis=1)`;
+    case 'dateBucket': {
+      const freq: Record<string, string> = { day: 'D', week: 'W', month: 'M', quarter: 'Q', year: 'Y' };
+      return `df[${py(step.name)}] = pd.to_datetime(df[${py(step.column)}], errors="coerce").dt.to_period(${py(freq[step.unit])}).astype(str)`;
+    }
+    case 'pivot': return `df = df.pivot_table(index=${py(step.index)}, columns=${py(step.pivotColumn)}, values=${py(step.valueColumn)}, aggfunc=${py(step.aggregation)}).reset_index()`;
+    case 'unpivot': return `df = df.melt(id_vars=${py(step.idColumns)}, value_vars=${py(step.valueColumns)}, var_name=${py(step.nameColumn)}, value_name=${py(step.valueColumn)})`;
+    case 'deduplicate': return step.columns.length ? `df = df.drop_duplicates(subset=${py(step.columns)})` : 'df = df.drop_duplicates()';
+    case 'dropColumns': return `df = df.drop(columns=${py(step.columns)})`;
+  }
+};
+
+const pandasAgg = (aggregation: string) => py(aggregation);
+
+const pandasSort = (plan: QueryPlan, nameColumn: string, valueColumn: string) => {
+  const sort = plan.sort ?? { by: 'name', direction: 'asc' };
+  const by = sort.by === 'value' ? valueColumn : nameColumn;
+  const limit = plan.limit ? `.head(${plan.limit})` : '';
+  return `.sort_values(${py(by)}, ascending=${sort.direction === 'desc' ? 'False' : 'True'})${limit}`;
+};
+
+/** pandas + matplotlib code computing and drawing one chart from `df`. Filter values are quoted by `types`. */
+export const planToPandas = (response: AIResponse, types: ColumnTypes = {}): string => {
+  const plan = response.queryPlan;
+  if (!plan) return '# This answer has no query plan, so there is nothing to recompute.';
+  const chartType = response.chartType;
+  const lines: string[] = [];
+  lines.push(plan.dataset ? `data = ${readerFor(plan.dataset)}` : 'data = df');
+  (plan.filters ?? []).forEach(f => lines.push(`data = data[${pandasFilter(f, types)}]`));
+  const title = `title=${py(response.summary)}`;
+  const labels = `xlabel=${py(response.xAxisLabel ?? '')}, ylabel=${py(response.yAxisLabel ?? '')}`;
+  const g = plan.groupBy;
+  const v = plan.valueColumn ?? plan.valueColumns?.[0];
+
+  if (chartType === 'scatter') {
+    lines.push(`result = data[[${py(plan.xColumn)}, ${py(plan.yColumn)}]].dropna()${plan.limit ? `.head(${plan.limit})` : ''}`);
+    lines.push(`result.plot(kind="scatter", x=${py(plan.xColumn)}, y=${py(plan.yColumn)}, ${title}, ${labels})`);
+  } else if (chartType === 'histogram') {
+    lines.push(`result = pd.to_numeric(data[${py(v)}], errors="coerce").dropna()`);
+    lines.push(`result.plot(kind="hist", bins=${plan.bins ?? '"sturges"'}, ${title}, ${labels})`);
+  } else if (chartType === 'boxPlot') {
+    lines.push(g ? `result = data.groupby(${py(g)})[${py(v)}].describe()` : `result = data[${py(v)}].describe()`);
+    lines.push(`data.boxplot(column=${py(v)}${g ? `, by=${py(g)}` : ''})`);
+    lines.push(`plt.title(${py(response.summary)})`);
+  } else if (chartType === 'forecast') {
+    // statsmodels picks its own smoothing factors, so its numbers can differ slightly from the app's.
+    const interval = response.queryStats?.forecast?.interval ?? plan.interval ?? 'month';
+    const method = response.queryStats?.forecast?.method ?? 'exponentialSmoothing';
+    const horizon = response.queryStats?.forecast?.horizon ?? plan.horizon ?? 6;
+    const resampled = `.resample(${py(RESAMPLE_FREQ[interval])})`;
+    lines.push('import numpy as np');
+    lines.push('from statsmodels.tsa.holtwinters import ExponentialSmoothing');
+    lines.push(`dated = data.set_index(pd.to_datetime(data[${py(g)}], errors="coerce")).loc[lambda d: d.index.notna()]`);
+    lines.push(v && plan.aggregation !== 'count'
+      ? `series = dated[${py(v)}]${resampled}.agg(${pandasAgg(plan.aggregation)})`
+      : `series = dated${resampled}.size()`);
+    lines.push(plan.aggregation === 'sum' || plan.aggregation === 'count' ? 'series = series.fillna(0)' : 'series = series.interpolate()');
+    if (method === 'movingAverage') {
+      const window = Math.max(2, Math.min(SEASON_LENGTHS[interval] || 3, Math.floor((response.queryStats?.groups ?? 6) / 2)));
+      lines.push(`fitted = series.rolling(${window}).mean().shift(1)`);
+      lines.push(`forecast = pd.Series(series.iloc[-${window}:].mean(), index=pd.date_range(series.index[-1], periods=${horizon + 1}, freq=${py(RESAMPLE_FREQ[interval])})[1:])`);
+    } else {
+      lines.push(method === 'seasonal'
+        ? `model = ExponentialSmoothing(series, trend="add", seasonal="add", seasonal_periods=${SEASON_LENGTHS[interval]}).fit()`
+        : 'model = ExponentialSmoothing(series, trend="add").fit()');
+      lines.push('fitted = model.fittedvalues');
+      lines.push(`forecast = model.forecast(${horizon})`);
+    }
+    lines.push('residuals = series - fitted');
+    if (response.queryStats?.forecast?.anomalyMethod === 'iqr') {
+      lines.push('q1, q3 = residuals.quantile([0.25, 0.75])');
+      lines.push('anomalies = series[(residuals < q1 - 1.5 * (q3 - q1)) | (residuals > q3 + 1.5 * (q3 - q1))]');
+    } else {
+      lines.push('anomalies = series[((residuals - residuals.mean()) / residuals.std()).abs() > 3]');
+    }
+    lines.push('band = 1.96 * residuals.std() * np.sqrt(np.arange(1, len(forecast) + 1))');
+    lines.push(`ax = series.plot(label="Actual", ${title}, ${labels})`);
+    lines.push('forecast.plot(ax=ax, style="--", label="Forecast")');
+    lines.push('ax.fill_between(forecast.index, forecast - band, forecast + band, alpha=0.2, label="95% range")');
+    lines.push('ax.scatter(anomalies.index, anomalies, color="red", zorder=3, label="Anomaly")');
+    lines.push('ax.legend()');
+    lines.push('result = pd.DataFrame({"actual": series, "fitted": fitted, "anomaly": series.index.isin(anomalies.index)})');
+  } else if (chartType === 'heatmap') {
+    if (g && plan.seriesBy) {
+      lines.push(v
+        ? `result = data.pivot_table(index=${py(plan.seriesBy)}, columns=${py(g)}, values=${py(v)}, aggfunc=${pandasAgg(plan.aggregation)})`
+        : `result = pd.crosstab(data[${py(plan.seriesBy)}], data[${py(g)}])`);
+    } else {
+      const columns = plan.columns?.length ? `[${plan.columns.slice(0, MAX_HEATMAP_COLUMNS).map(py).join(', ')}]` : `data.select_dtypes("number").columns[:${MAX_HEATMAP_COLUMNS}]`;
+      lines.push(`result = data[${columns}].corr()`);
+    }
+    lines.push('plt.imshow(result, cmap="RdBu_r", aspect="auto")');
+    lines.push('plt.colorbar()');
+    lines.push('plt.xticks(range(len(result.columns)), result.columns, rotation=45, ha="right")');
+    lines.push('plt.yticks(range(len(result.index)), result.index)');
+    lines.push(`plt.title(${py(response.summary)})`);
+  } else if (plan.seriesBy || (plan.valueColumns?.length ?? 0) > 1 || chartType === 'combo') {
+    if (plan.seriesBy) {
+      lines.push(v
+        ? `result = data.pivot_table(index=${py(g)}, columns=${py(plan.seriesBy)}, values=${py(v)}, aggfunc=${pandasAgg(plan.aggregation)})`
+        : `result = pd.crosstab(data[${py(g)}], data[${py(plan.seriesBy)}])`);
+    } else {
+      lines.push(`result = data.groupby(${py(g)})[${py(plan.valueColumns)}].agg(${pandasAgg(plan.aggregation)})`);
+    }
+    if (chartType === 'combo' && plan.valueColumns && plan.valueColumns.length >= 2) {
+      lines.push(`ax = result[${py(plan.valueColumns[0])}].plot(kind="bar", ${title}, ${labels})`);
+      lines.push(`result[${py(plan.valueColumns[1])}].plot(ax=ax, secondary_y=True, color="C1", marker="o", use_index=False)`);
+    } else {
+      const kind = chartType === 'line' ? 'line' : chartType === 'area' ? 'area' : 'bar';
+      lines.push(`result.plot(kind="${kind}"${chartType === 'stackedBar' ? ', stacked=True' : ''}, ${title}, ${labels})`);
+    }
+  } else if (g) {
+    lines.push(plan.aggregation === 'count' && !v
+      ? `result = data.groupby(${py(g)}, dropna=False).size().reset_index(name="value")`
+      : `result = data.groupby(${py(g)}, dropna=False)[${py(v)}].agg(${pandasAgg(plan.aggregation)}).reset_index(name="value")`);
+    lines.push(`result = result${pandasSort(plan, g, 'value')}`);
+    lines.push(chartType === 'pie'
+      ? `result.set_index(${py(g)})["value"].plot(kind="pie", ${title}, ylabel="")`
+      : `result.plot(kind="${chartType === 'line' || chartType === 'area' ? chartType : 'bar'}", x=${py(g)}, y="value", legend=False, ${title}, ${labels})`);
+  } else {
+    lines.push(v ? `result = data[${py(v)}].agg(${pandasAgg(plan.aggregation)})` : 'result = len(data)');
+  }
+  lines.push('plt.tight_layout()');
+  lines.push('plt.show()');
+  lines.push('result');
+  return lines.join('\n');
+};
+
+// --- SQL ---
+
+const sqlFilter = (f: QueryFilter, types: ColumnTypes) => {
+  const col = sqlIdent(f.column);
+  const ops: Record<string, string> = { eq: '=', neq: '<>', gt: '>', gte: '>=', lt: '<', lte: '<=' };
+  if (f.operator === 'in') return `${col} IN (${(f.values ?? []).map(v => sqlValue(types, f.column, v)).join(', ')})`;
+  if (f.operator === 'contains') return `LOWER(CAST(${col} AS VARCHAR)) LIKE ${sqlString(`%${String(f.value ?? '').toLowerCase()}%`)}`;
+  return `${col} ${ops[f.operator]} ${sqlValue(types, f.column, f.value)}`;
+};
+
+const sqlAgg = (aggregation: string, column?: string) => {
+  if (!column) return 'COUNT(*)';
+  const col = sqlIdent(column);
+  if (aggregation === 'median') return `PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY ${col})`;
+  if (aggregation === 'mean') return `AVG(${col})`;
+  return `${aggregation.toUpperCase()}(${col})`;
+};
+
+/**
+ * A SQL query (PostgreSQL/DuckDB dialect) computing the chart's numbers from a table with the
+ * dataset's columns. Multi-series results come back in long form: one row per category and series.
+ * Filter values are quoted by `types`.
+ */
+export const planToSql = (response: AIResponse, table: string, types: ColumnTypes = {}): string => {
+  const plan = response.queryPlan;
+  if (!plan) return '-- This answer has no query plan, so there is nothing to recompute.';
+  const from = `FROM ${sqlIdent(plan.dataset ? tableName(plan.dataset) : table)}`;
+  const filters = (plan.filters ?? []).map(f => sqlFilter(f, types));
+  const where = (extra: string[] = []) => {
+    const all = [...filters, ...extra];
+    return all.length ? `\nWHERE ${all.join('\n  AND ')}` : '';
+  };
+  const limit = plan.limit ? `\nLIMIT ${plan.limit}` : '';
+  const g = plan.groupBy ? sqlIdent(plan.groupBy) : null;
+  const v = plan.valueColumn ?? plan.valueColumns?.[0];
+  const chartType: ChartType = response.chartType;
+
+  if (chartType === 'scatter') {
+    const x = sqlIdent(plan.xColumn ?? ''), y = sqlIdent(plan.yColumn ?? '');
+    return `SELECT ${x}, ${y}\n${from}${where([`${x} IS NOT NULL`, `${y} IS NOT NULL`])}${limit};`;
+  }
+  if (chartType === 'histogram' && v) {
+    const col = sqlIdent(v);
+    const bins = plan.bins ?? sturgesBins(response.queryStats?.rowsMatched ?? 0);
+    return `WITH filtered AS (\n  SELECT ${col} AS value\n  ${from}${where([`${col} IS NOT NULL`]).replace(/\n/g, '\n  ')}\n),\nbounds AS (SELECT MIN(value) AS lo, MAX(value) AS hi FROM filtered)\n` +
+      `SELECT\n  LEAST(FLOOR((value - lo) / NULLIF(hi - lo, 0) * ${bins}), ${bins - 1}) AS bin,\n  MIN(value) AS bin_start,\n  MAX(value) AS bin_end,\n  COUNT(*) AS value\nFROM filtered, bounds\nGROUP BY 1\nORDER BY 1;`;
+  }
+  if (chartType === 'boxPlot' && v) {
+    const col = sqlIdent(v);
+    const q = (p: number) => `PERCENTILE_CONT(${p}) WITHIN GROUP (ORDER BY ${col})`;
+    return `SELECT${g ? `\n  ${g} AS name,` : ''}\n  MIN(${col}) AS min,\n  ${q(0.25)} AS q1,\n  ${q(0.5)} AS median,\n  ${q(0.75)} AS q3,\n  MAX(${col}) AS max,\n  COUNT(${col}) AS count\n${from}${where()}${g ? `\nGROUP BY ${g}\nORDER BY median DESC` : ''}${limit};\n-- Whiskers in the app stop at 1.5 × IQR from the quartiles; MIN and MAX here include outliers.`;
+  }
+  if (chartType === 'forecast' && g) {
+    const interval = response.queryStats?.forecast?.interval ?? plan.interval ?? 'month';
+    return `SELECT DATE_TRUNC('${interval}', CAST(${g} AS TIMESTAMP)) AS period, ${sqlAgg(plan.aggregation, plan.valueColumn)} AS value\n${from}${where([`${g} IS NOT NULL`])}\nGROUP BY 1\nORDER BY 1;\n` +
+      '-- This is the resampled history only. The forecast, its band and the anomaly flags are computed in the app; see the notebook export.';
+  }
+  if (chartType === 'heatmap' && !(plan.groupBy && plan.seriesBy)) {
+    // Without explicit columns the engine used every numeric column; the chart data names them.
+    const used = Array.from(new Set(response.chartData.map(cell => String(cell.x))));
+    const columns = (plan.columns?.length ? plan.columns : used).slice(0, MAX_HEATMAP_COLUMNS);
+    if (columns.length < 2) return `-- List the numeric columns to correlate, e.g. SELECT CORR(a, b) ${from};`;
+    const pairs = columns.flatMap((a, i) => columns.slice(i + 1).map(b => `  CORR(${sqlIdent(a)}, ${sqlIdent(b)}) AS ${sqlIdent(`${a} × ${b}`)}`));
+    return `SELECT\n${pairs.join(',\n')}\n${from}${where()};`;
+  }
+  if (plan.seriesBy && g) {
+    const s = sqlIdent(plan.seriesBy);
+    return `SELECT ${g} AS name, ${s} AS series, ${sqlAgg(plan.aggregation, plan.valueColumn)} AS value\n${from}${where()}\nGROUP BY ${g}, ${s}\nORDER BY ${g}, ${s};`;
+  }
+  const measures = (plan.valueColumns?.length ? plan.valueColumns : [v]).map(c => `${sqlAgg(plan.aggregation, c)} AS ${sqlIdent(c ? `${plan.aggregation} of ${c}` : 'value')}`);
+  if (!g) return `SELECT ${measures.join(', ')}\n${from}${where()};`;
+  const sort = plan.sort ?? { by: 'name', direction: 'asc' };
+  const orderBy = sort.by === 'value' ? 2 : 1;
+  return `SELECT ${g} AS name, ${measures.join(', ')}\n${from}${where()}\nGROUP BY ${g}\nORDER BY ${orderBy} ${sort.direction === 'desc' ? 'DESC' : 'ASC'}${limit};`;
+};
+
+const recipeComment = (dataset: Dataset, prefix: string) => {
+  const notes: string[] = [];
+  const sample = describeSample(dataset);
+  if (sample) notes.push(`${prefix} The app computed these numbers over a sample (${sample}); over the full file they will differ.`);
+  if (dataset.recipe?.length) {
+    notes.push(`${prefix} The dataset was transformed in the app first:`);
+    dataset.recipe.forEach((step, i) => notes.push(`${prefix}   ${i + 1}. ${describeStep(step)}`));
+  }
+  return notes;
+};
+
+/** A commented SQL script for one answer. */
+export const buildSqlScript = (entry: NotebookEntry, dataset: Dataset): string => {
+  const table = tableNameFor(dataset);
+  return [
+    `-- ${entry.question}`,
+    `-- ${entry.response.summary}`,
+    `-- Table ${table}: ${dataset.columns.join(', ')}`,
+    ...recipeComment(dataset, '--'),
+    '',
+    planToSql(entry.response, table, planTypes(entry.response, dataset)),
+    ''
+  ].join('\n');
+};
+
+// --- Notebooks ---
+
+const lines = (text: string) => text.split('\n').map((line, i, all) => (i < all.length - 1 ? `${line}\n` : line));
+const markdown = (text: string): NotebookCell => ({ cell_type: 'markdown', metadata: {}, source: lines(text) });
+const code = (text: string): NotebookCell => ({ cell_type: 'code', metadata: {}, execution_count: null, outputs: [], source: lines(text) });
+
+/**
+ * A Jupyter notebook (nbformat 4) that loads the file, replays the transform recipe and
+ * recomputes every entry's chart, with the question, summary and insight as markdown.
+ */
+export const buildNotebook = (entries: NotebookEntry[], dataset: Dataset): string => {
+  const setup = [
+    'import pandas as pd',
+    'import matplotlib.pyplot as plt',
+    '',
+    `# Place ${dataset.name} next to this notebook.`,
+    `df = ${readerFor(dataset.name)}`
+  ];
+  if (dataset.recipe?.length) {
+    setup.push('', '# Transform steps recorded in the app');
+    dataset.recipe.forEach(step => setup.push(`# ${describeStep(step)}`, pandasStep(step, columnTypesOf(dataset))));
+  }
+  setup.push('df.head()');
+
+  const sample = describeSample(dataset);
+  const cells: NotebookCell[] = [
+    markdown(`# Analysis of ${dataset.name}\n\nExported from InsightAI on ${new Date().toLocaleString()}.${sample ? `\n\n> The app worked on a ${sample.toLowerCase()}; results over the full file may differ.` : ''}`),
+    code(setup.join('\n')),
+    ...entries.flatMap(({ question, response }) => [
+      markdown(`## ${question}\n\n**${response.summary}**\n\n${response.insight}`),
+      code(planToPandas(response, planTypes(response, dataset)))
+    ])
+  ];
+  return JSON.stringify({
+    cells,
+    metadata: {
+      kernelspec: { display_name: 'Python 3', language: 'python', name: 'python3' },
+      language_info: { name: 'python' }
+    },
+    nbformat: 4,
+    nbformat_minor: 5
+  }, null, 1);
+};
@@ -0,0 +1,150 @@
+import { ColumnType, DataRow } from "../types";
+
+// --- Column-oriented storage for files too large to hold as row objects ---
+
+const INITIAL_CAPACITY = 4096;
+const MAX_STRATA = 50;
+
+// Numbers in a Float64Array (NaN for null); text that failed to parse is kept aside by row.
+interface NumberVector {
+  kind: 'number';
+  values: Float64Array;
+  unparsed: Map<number, string>;
+}
+
+// Every other type is dictionary-encoded: code 0 is null, code n is dictionary[n - 1].
+interface DictionaryVector {
+  kind: 'dictionary';
+  codes: Uint32Array;
+  dictionary: any[];
+  lookup: Map<any, number>;
+}
+
+export interface ColumnStore {
+  columns: string[];
+  types: ColumnType[];
+  vectors: (NumberVector | DictionaryVector)[];
+  length: number;
+}
+
+const isNumericType = (type: ColumnType) => type === 'integer' || type === 'decimal';
+
+export const createColumnStore = (columns: string[], types: ColumnType[]): ColumnStore => ({
+  columns,
+  types,
+  vectors: types.map(type => isNumericType(type)
+    ? { kind: 'number', values: new Float64Array(INITIAL_CAPACITY), unparsed: new Map() }
+    : { kind: 'dictionary', codes: new Uint32Array(INITIAL_CAPACITY), dictionary: [], lookup: new Map() }),
+  length: 0
+});
+
+const grow = <T extends Float64Array | Uint32Array>(array: T): T => {
+  const next = new (array.constructor as any)(array.length * 2) as T;
+  next.set(array);
+  return next;
+};
+
+/** Appends one row of converted values (see convertValue), in column order. */
+export const appendRow = (store: ColumnStore, values: any[]) => {
+  const i = store.length;
+  store.vectors.forEach((vector, c) => {
+    const value = values[c];
+    if (vector.kind === 'number') {
+      if (i === vector.values.length) vector.values = grow(vector.values);
+      if (typeof value === 'number') {
+        vector.values[i] = value;
+      } else {
+        vector.values[i] = NaN;
+        if (value !== null && value !== undefined) vector.unparsed.set(i, String(value));
+      }
+    } else {
+      if (i === vector.codes.length) vector.codes = grow(vector.codes);
+      if (value === null || value === undefined) {
+        vector.codes[i] = 0;
+        return;
+      }
+      let code = vector.lookup.get(value);
+      if (code === undefined) {
+        vector.dictionary.push(value);
+        code = vector.dictionary.length;
+        vector.lookup.set(value, code);
+      }
+      vector.codes[i] = code;
+    }
+  });
+  store.length++;
+};
+
+const valueAt = (vector: NumberVector | DictionaryVector, i: number): any => {
+  if (vector.kind === 'number') {
+    const n = vector.values[i];
+    return Number.isNaN(n) ? vector.unparsed.get(i) ?? null : n;
+  }
+  const code = vector.codes[i];
+  return code === 0 ? null : vector.dictionary[code - 1];
+};
+
+/** Every value of one column, decoded back to what a row object would hold. */
+export const columnValues = (store: ColumnStore, column: number): any[] => {
+  const vector = store.vectors[column];
+  const out = new Array(store.length);
+  for (let i = 0; i < store.length; i++) out[i] = valueAt(vector, i);
+  return out;
+};
+
+export const rowAt = (store: ColumnStore, i: number): DataRow => {
+  const row: DataRow = {};
+  store.columns.forEach((column, c) => {
+    row[column] = valueAt(store.vectors[c], i);
+  });
+  return row;
+};
+
+/** The categorical column with the fewest (but at least two) values, a natural grouping to preserve. */
+export const pickStratifyColumn = (store: ColumnStore): number | null => {
+  let best: number | null = null;
+  store.vectors.forEach((vector, c) => {
+    if (vector.kind !== 'dictionary' || (store.types[c] !== 'categorical' && store.types[c] !== 'boolean')) return;
+    const size = vector.dictionary.length;
+    if (size < 2 || size > MAX_STRATA) return;
+    const bestVector = best === null ? null : store.vectors[best] as DictionaryVector;
+    if (!bestVector || size < bestVector.dictionary.length) best = c;
+  });
+  return best;
+};
+
+/**
+ * Row indices of a sample of about `size` rows, in file order. With a stratum column each of its
+ * values keeps its share of the rows (and at least one row); otherwise rows are drawn uniformly.
+ */
+export const stratifiedSample = (store: ColumnStore, size: number, stratum: number | null): number[] => {
+  const vector = stratum === null ? null : store.vectors[stratum];
+  const codeOf = (i: number) => (vector && vector.kind === 'dictionary' ? vector.codes[i] : 0);
+  const strataCount = vector && vector.kind === 'dictionary' ? vector.dictionary.length + 1 : 1;
+
+  // Bucket row indices by stratum in one flat array: counting sort.
+  const counts = new Uint32Array(strataCount);
+  for (let i = 0; i < store.length; i++) counts[codeOf(i)]++;
+  const offsets = new Uint32Array(strataCount);
+  for (let s = 1; s < strataCount; s++) offsets[s] = offsets[s - 1] + counts[s - 1];
+  const fill = offsets.slice();
+  const order = new Uint32Array(store.length);
+  for (let i = 0; i < store.length; i++) order[fill[codeOf(i)]++] = i;
+
+  const picked: number[] = [];
+  for (let s = 0; s < strataCount; s++) {
+    const n = counts[s];
+    if (n === 0) continue;
+    const quota = Math.min(n, Math.max(1, Math.round((size * n) / store.length)));
+    // Partial Fisher-Yates shuffle within the stratum's slice.
+    const start = offsets[s];
+    for (let k = 0; k < quota; k++) {
+      const j = start + k + Math.floor(Math.random() * (n - k));
+      const tmp = order[start + k];
+      order[start + k] = order[j];
+      order[j] = tmp;
+      picked.push(order[start + k]);
+    }
+  }
+  return picked.sort((a, b) => a - b);
+};
@@ -0,0 +1,209 @@
+import { ColumnProfile, Dataset, DataRow, PrivacySettings } from "../types";
+import { ChatTurn } from "./providers";
+import { columnPolicy, privateView } from "./privacy";
+import { aggregate } from "./queryEngine";
+import { formatCompact } from "./stats";
+import { describeProfile } from "./profiler";
+
+// --- Choosing what goes into the prompt: sample rows, aggregates and history within a token budget ---
+
+export const DEFAULT_CONTEXT_BUDGET = 8000;
+export const MIN_CONTEXT_BUDGET = 2000;
+
+const MAX_SAMPLE_ROWS = 15;
+const MAX_STRATA = 8;
+const MAX_AGGREGATE_GROUPS = 8;
+const MAX_GROUP_COLUMNS = 50;
+const SUMMARY_CHARS = 140;
+
+// Shares of what is left after the fixed prompt, the profile and the question.
+const HISTORY_SHARE = 0.4;
+const SUMMARY_SHARE = 0.1;
+const AGGREGATE_SHARE = 0.2;
+
+export interface ContextStats {
+  estimatedTokens: number;
+  budget: number;
+  sampleRows: number;
+  sampling: string; // e.g. "stratified by region"
+  aggregates: number;
+  keptTurns: number;
+  summarizedTurns: number; // Older turns beyond the summary share are left out entirely
+}
+
+export interface AnalysisContext {
+  profile: ColumnProfile[]; // With column policies applied
+  rows: DataRow[];
+  aggregates: string[];
+  earlierTurns: string[]; // One line per summarized question and answer, oldest first
+  history: ChatTurn[]; // Recent turns, verbatim
+  protectedColumns: string[];
+  stats: ContextStats;
+}
+
+/** Rough token count: about four characters per token for English text and JSON. */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+// Seeded from the dataset id so the same dataset yields the same sample on every turn.
+const seededRandom = (seed: string) => {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) state = (Math.imul(state, 31) + seed.charCodeAt(i)) | 0;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const isGroupable = (p: ColumnProfile) =>
+  (p.type === 'categorical' || p.type === 'boolean') && p.distinctCount >= 2 && p.distinctCount <= MAX_GROUP_COLUMNS;
+
+/**
+ * Up to `size` rows spread over the whole file: stratified by the categorical column with the
+ * most values (up to MAX_STRATA) so every group shows up, else a uniform random draw. Rows stay
+ * in file order.
+ */
+export const representativeRows = (dataset: Dataset, profile: ColumnProfile[], size: number): { rows: DataRow[]; sampling: string } => {
+  const data = dataset.data;
+  if (data.length <= size) return { rows: data, sampling: 'all rows' };
+  const random = seededRandom(dataset.id);
+  const stratum = profile
+    .filter(p => isGroupable(p) && p.distinctCount <= MAX_STRATA && columnPolicy(dataset, p, p.column) === 'send')
+    .sort((a, b) => b.distinctCount - a.distinctCount)[0];
+
+  const groups = new Map<string, number[]>();
+  data.forEach((row, i) => {
+    const key = stratum ? String(row[stratum.column] ?? '') : '';
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(i);
+  });
+
+  const picked: number[] = [];
+  groups.forEach(indices => {
+    const quota = Math.min(indices.length, Math.max(1, Math.round((size * indices.length) / data.length)));
+    for (let k = 0; k < quota; k++) {
+      const j = k + Math.floor(random() * (indices.length - k));
+      [indices[k], indices[j]] = [indices[j], indices[k]];
+      picked.push(indices[k]);
+    }
+  });
+  return {
+    rows: picked.sort((a, b) => a - b).slice(0, size).map(i => data[i]),
+    sampling: stratum ? `stratified by ${stratum.column}` : 'random'
+  };
+};
+
+/** Precomputed group totals, e.g. "Sum of amount by region: North 1,204, South 860", most useful first. */
+export const keyAggregates = (dataset: Dataset, profile: ColumnProfile[]): string[] => {
+  const sendable = profile.filter(p => columnPolicy(dataset, p, p.column) === 'send');
+  const groups = sendable.filter(isGroupable).sort((a, b) => a.distinctCount - b.distinctCount).slice(0, 2);
+  const measures = sendable.filter(p => (p.type === 'integer' || p.type === 'decimal') && !/(^|_|\s)id$/i.test(p.column)).slice(0, 3);
+  const lines: string[] = [];
+
+  groups.forEach(group => {
+    const buckets = new Map<string, DataRow[]>();
+    dataset.data.forEach(row => {
+      const key = String(row[group.column] ?? '(blank)');
+      if (!buckets.has(key)) buckets.set(key, []);
+      buckets.get(key)!.push(row);
+    });
+    const describe = (label: string, score: (rows: DataRow[]) => number | null) => {
+      const scored = Array.from(buckets.entries())
+        .map(([name, rows]) => ({ name, value: score(rows) }))
+        .filter((g): g is { name: string; value: number } => g.value !== null)
+        .sort((a, b) => b.value - a.value);
+      const shown = scored.slice(0, MAX_AGGREGATE_GROUPS).map(g => `${g.name} ${formatCompact(g.value)}`).join(', ');
+      const more = scored.length > MAX_AGGREGATE_GROUPS ? ` (+${scored.length - MAX_AGGREGATE_GROUPS} more)` : '';
+      lines.push(`${label} by ${group.column}: ${shown}${more}`);
+    };
+    describe('Records', rows => rows.length);
+    measures.forEach(m => {
+      describe(`Sum of ${m.column}`, rows => aggregate(rows.map(r => r[m.column]), 'sum'));
+      describe(`Mean of ${m.column}`, rows => aggregate(rows.map(r => r[m.column]), 'mean'));
+    });
+  });
+  return lines;
+};
+
+const summarize = (turn: ChatTurn) => {
+  const text = turn.content.replace(/\s+/g, ' ').trim();
+  const sentence = /^.+?[.!?](\s|$)/.exec(text)?.[0].trim() ?? text;
+  const short = sentence.length > SUMMARY_CHARS ? `${sentence.slice(0, SUMMARY_CHARS - 1)}…` : sentence;
+  return `${turn.role === 'user' ? 'Q' : 'A'}: ${short}`;
+};
+
+const turnTokens = (turn: ChatTurn) => estimateTokens(turn.content) + 4;
+
+/**
+ * Fits the dataset context and conversation into `budget` tokens. `reservedTokens` is the prompt
+ * text that is always sent (instructions, other datasets). Recent turns are kept verbatim and older
+ * ones shrink to one-line summaries; aggregates and sample rows fill what is left.
+ */
+export const buildContext = (
+  dataset: Dataset,
+  profile: ColumnProfile[],
+  history: ChatTurn[],
+  query: string,
+  options: { budget: number; reservedTokens: number; privacy: PrivacySettings }
+): AnalysisContext => {
+  const budget = Math.max(MIN_CONTEXT_BUDGET, options.budget);
+  const { schemaOnly } = options.privacy;
+  const candidates = schemaOnly ? { rows: [], sampling: 'none (schema only)' } : representativeRows(dataset, profile, MAX_SAMPLE_ROWS);
+  const view = privateView(dataset, profile, candidates.rows);
+  let remaining = budget - options.reservedTokens - estimateTokens(describeProfile(view.profile)) - estimateTokens(query);
+  const available = Math.max(0, remaining);
+
+  // Newest turns first, whole user/assistant pairs so the kept history starts with a question.
+  let historyLeft = available * HISTORY_SHARE;
+  let keepFrom = history.length;
+  while (keepFrom >= 2 && turnTokens(history[keepFrom - 1]) + turnTokens(history[keepFrom - 2]) <= historyLeft) {
+    historyLeft -= turnTokens(history[keepFrom - 1]) + turnTokens(history[keepFrom - 2]);
+    keepFrom -= 2;
+  }
+  const kept = history.slice(keepFrom);
+  let summaryLeft = available * SUMMARY_SHARE;
+  const earlierTurns: string[] = [];
+  for (let i = keepFrom - 1; i >= 0; i--) {
+    const line = summarize(history[i]);
+    if (estimateTokens(line) > summaryLeft) break;
+    summaryLeft -= estimateTokens(line);
+    earlierTurns.unshift(line);
+  }
+  remaining -= kept.reduce((acc, t) => acc + turnTokens(t), 0) + estimateTokens(earlierTurns.join('\n'));
+
+  let aggregateLeft = Math.min(Math.max(0, remaining), available * AGGREGATE_SHARE);
+  const aggregates: string[] = [];
+  for (const line of keyAggregates(dataset, profile)) {
+    if (estimateTokens(line) > aggregateLeft) break;
+    aggregateLeft -= estimateTokens(line);
+    aggregates.push(line);
+  }
+  remaining -= estimateTokens(aggregates.join('\n'));
+
+  const rows: DataRow[] = [];
+  for (const row of view.rows) {
+    const cost = estimateTokens(JSON.stringify(row)) + 1;
+    if (cost > remaining) break;
+    remaining -= cost;
+    rows.push(row);
+  }
+
+  return {
+    profile: view.profile,
+    rows,
+    aggregates,
+    earlierTurns,
+    history: kept,
+    protectedColumns: view.protectedColumns,
+    stats: {
+      estimatedTokens: budget - remaining,
+      budget,
+      sampleRows: rows.length,
+      sampling: candidates.sampling,
+      aggregates: aggregates.length,
+      keptTurns: kept.length,
+      summarizedTurns: earlierTurns.length
+    }
+  };
+};
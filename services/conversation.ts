@@ -0,0 +1,33 @@
+import { Message } from "../types";
+
+// --- The chat is a tree: retrying or editing a question adds a sibling branch instead of rewriting history ---
+
+/** Messages from the root down to (and including) the given leaf. */
+export const threadTo = (messages: Message[], leafId: string | null): Message[] => {
+  const byId = new Map(messages.map(m => [m.id, m]));
+  const thread: Message[] = [];
+  let current = leafId ? byId.get(leafId) : undefined;
+  while (current) {
+    thread.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return thread;
+};
+
+/** Alternative versions of a message: everything sharing its parent, oldest first. */
+export const siblingsOf = (messages: Message[], message: Message): Message[] =>
+  messages.filter(m => m.role === message.role && (m.parentId ?? null) === (message.parentId ?? null));
+
+/** Follows the most recent reply at every level, so switching branches lands on the end of that branch. */
+export const latestLeaf = (messages: Message[], fromId: string): string => {
+  let id = fromId;
+  while (true) {
+    const children = messages.filter(m => m.parentId === id);
+    if (children.length === 0) return id;
+    id = children[children.length - 1].id;
+  }
+};
+
+/** Sessions saved before branching stored a flat list; chain those messages in order. */
+export const linkLegacyMessages = (messages: Message[]): Message[] =>
+  messages.map((m, i) => (m.parentId !== undefined ? m : { ...m, parentId: i > 0 ? messages[i - 1].id : null }));
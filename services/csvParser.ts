@@ -0,0 +1,145 @@
+import { Delimiter, TextEncoding } from "../types";
+
+// --- RFC 4180 delimited text parsing with delimiter and encoding detection ---
+
+export const DELIMITERS: { value: Delimiter; label: string }[] = [
+  { value: ',', label: 'Comma' },
+  { value: ';', label: 'Semicolon' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe' }
+];
+
+/**
+ * Decodes raw file bytes. Honors a byte-order mark when present, otherwise tries strict UTF-8
+ * and falls back to Windows-1252 (a superset of Latin-1) for legacy exports. With `partial`,
+ * the bytes are the head of a longer file and a character cut off at the end is dropped.
+ */
+export const decodeText = (buffer: ArrayBuffer, partial = false): { text: string; encoding: TextEncoding } => {
+  const bytes = new Uint8Array(buffer);
+  const options = { stream: partial };
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { text: new TextDecoder('utf-8').decode(bytes.subarray(3), options), encoding: 'utf-8' };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { text: new TextDecoder('utf-16le').decode(bytes.subarray(2), options), encoding: 'utf-16le' };
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { text: new TextDecoder('utf-16be').decode(bytes.subarray(2), options), encoding: 'utf-16be' };
+  }
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes, options), encoding: 'utf-8' };
+  } catch {
+    return { text: new TextDecoder('windows-1252').decode(bytes, options), encoding: 'windows-1252' };
+  }
+};
+
+export interface DelimitedParser {
+  push: (chunk: string) => string[][]; // Returns the records completed by this chunk
+  end: () => string[][];
+}
+
+/**
+ * Incremental RFC 4180 parser: quoted fields may contain delimiters, line breaks and doubled ("")
+ * quotes. Accepts CRLF, LF or CR line endings and skips blank lines. Text can arrive in chunks of
+ * any size; a field or record split across chunks is completed by the next one.
+ */
+export const createDelimitedParser = (delimiter: Delimiter, maxRecords = Infinity): DelimitedParser => {
+  let emitted = 0;
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let wasQuoted = false;
+  let carry = ''; // Held-back last character of the previous chunk
+
+  const consume = (text: string, final: boolean): string[][] => {
+    const records: string[][] = [];
+    const pushField = () => {
+      record.push(wasQuoted ? field : field.trim());
+      field = '';
+      wasQuoted = false;
+    };
+    const pushRecord = () => {
+      pushField();
+      if (!(record.length === 1 && record[0] === '')) {
+        records.push(record);
+        emitted++;
+      }
+      record = [];
+    };
+
+    carry = '';
+    for (let i = 0; i < text.length && emitted < maxRecords; i++) {
+      const ch = text[i];
+      // A quote or CR needs the next character to decide its meaning; wait for the next chunk.
+      if (!final && i === text.length - 1 && ((inQuotes && ch === '"') || ch === '\r')) {
+        carry = ch;
+        break;
+      }
+      if (inQuotes) {
+        if (ch === '"') {
+          if (text[i + 1] === '"') {
+            field += '"';
+            i++;
+          } else {
+            inQuotes = false;
+          }
+        } else {
+          field += ch;
+        }
+      } else if (ch === '"' && field.trim() === '') {
+        // Opening quote: only meaningful at the start of a field (leading spaces are tolerated).
+        field = '';
+        inQuotes = true;
+        wasQuoted = true;
+      } else if (ch === delimiter) {
+        pushField();
+      } else if (ch === '\n' || ch === '\r') {
+        if (ch === '\r' && text[i + 1] === '\n') i++;
+        pushRecord();
+      } else {
+        field += ch;
+      }
+    }
+    if (final && emitted < maxRecords && (field !== '' || record.length > 0 || wasQuoted)) pushRecord();
+    return records;
+  };
+
+  return {
+    push: chunk => consume(carry + chunk, false),
+    end: () => consume(carry, true)
+  };
+};
+
+/** Parses a whole delimited text; see createDelimitedParser. */
+export const parseDelimited = (text: string, delimiter: Delimiter, maxRecords = Infinity): string[][] => {
+  const parser = createDelimitedParser(delimiter, maxRecords);
+  return [...parser.push(text), ...parser.end()];
+};
+
+/**
+ * Picks the delimiter that splits the first lines into the most, and most consistent, fields.
+ */
+export const detectDelimiter = (text: string): Delimiter => {
+  const head = text.slice(0, 64 * 1024);
+  let best: { delimiter: Delimiter; score: number } = { delimiter: ',', score: 0 };
+
+  for (const { value } of DELIMITERS) {
+    const records = parseDelimited(head, value, 30);
+    if (records.length === 0) continue;
+    const widthCounts = new Map<number, number>();
+    records.forEach(r => widthCounts.set(r.length, (widthCounts.get(r.length) ?? 0) + 1));
+    let modal = 0;
+    let modalCount = 0;
+    widthCounts.forEach((count, width) => {
+      if (count > modalCount || (count === modalCount && width > modal)) {
+        modal = width;
+        modalCount = count;
+      }
+    });
+    if (modal < 2) continue;
+    const score = (modalCount / records.length) * modal;
+    if (score > best.score) best = { delimiter: value, score };
+  }
+
+  return best.delimiter;
+};
@@ -0,0 +1,102 @@
+import { jsPDF } from 'jspdf';
+import html2canvas from 'html2canvas';
+import { Dataset, PinnedInsight } from "../types";
+import { describeQueryPlan, executeQueryPlan, planColumns } from "./queryEngine";
+
+/**
+ * Finds the dataset a pinned chart should be recomputed on: the active dataset when it has every
+ * column the plan reads (e.g. a newer upload of the same export), otherwise the most recently
+ * loaded compatible dataset, preferring one with the original name.
+ */
+export const findPinDataset = (pin: PinnedInsight, datasets: Dataset[], active: Dataset | null): Dataset | null => {
+  const plan = pin.response.queryPlan;
+  if (!plan) return null;
+  const needed = planColumns(plan);
+  const compatible = (d: Dataset) => needed.every(c => d.columns.includes(c));
+  if (active && compatible(active)) return active;
+  const candidates = datasets.filter(compatible).reverse();
+  return candidates.find(d => d.name === pin.datasetName) ?? candidates[0] ?? null;
+};
+
+/** Re-runs a pin's query plan. Throws QueryPlanError when the plan no longer fits the dataset. */
+export const refreshPin = (pin: PinnedInsight, dataset: Dataset): PinnedInsight => {
+  const plan = pin.response.queryPlan!;
+  const { chartData, series, stats } = executeQueryPlan(plan, dataset, pin.response.chartType);
+  return {
+    ...pin,
+    datasetName: dataset.name,
+    response: { ...pin.response, chartData, series, queryStats: stats },
+    refreshedAt: new Date()
+  };
+};
+
+const PAGE_MARGIN = 20;
+const CONTENT_WIDTH = 170;
+
+/** One page per tile: title, note, chart snapshot and the query that produced it. */
+export const exportDashboardPdf = async (
+  pins: PinnedInsight[],
+  chartElements: Record<string, HTMLElement | null>,
+  fileName: string
+): Promise<void> => {
+  const doc = new jsPDF();
+
+  doc.setFontSize(22);
+  doc.setTextColor(59, 130, 246); // Blue-600
+  doc.text('InsightAI Dashboard', PAGE_MARGIN, 30);
+  doc.setFontSize(10);
+  doc.setTextColor(100, 116, 139); // Slate-500
+  doc.text(`Generated on ${new Date().toLocaleString()} · ${pins.length} pinned insights`, PAGE_MARGIN, 38);
+  doc.setTextColor(15, 23, 42); // Slate-900
+  doc.setFontSize(12);
+  let tocY = 52;
+  pins.forEach((pin, i) => {
+    if (tocY > 275) {
+      doc.addPage();
+      tocY = 25;
+    }
+    doc.text(`${i + 1}. ${pin.title}`.slice(0, 90), PAGE_MARGIN, tocY);
+    tocY += 8;
+  });
+
+  for (const pin of pins) {
+    doc.addPage();
+    let y = 25;
+    doc.setFontSize(16);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(15, 23, 42);
+    const title = doc.splitTextToSize(pin.title, CONTENT_WIDTH);
+    doc.text(title, PAGE_MARGIN, y);
+    y += title.length * 7 + 2;
+
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(100, 116, 139);
+    doc.text(`${pin.datasetName} · ${(pin.refreshedAt ?? pin.pinnedAt).toLocaleString()}`, PAGE_MARGIN, y);
+    y += 8;
+
+    if (pin.note) {
+      doc.setFontSize(11);
+      doc.setTextColor(15, 23, 42);
+      const note = doc.splitTextToSize(pin.note, CONTENT_WIDTH);
+      doc.text(note, PAGE_MARGIN, y);
+      y += note.length * 5 + 4;
+    }
+
+    const element = chartElements[pin.id];
+    if (element) {
+      const canvas = await html2canvas(element, { scale: 2, backgroundColor: '#ffffff' });
+      const height = Math.min(150, (canvas.height / canvas.width) * CONTENT_WIDTH);
+      doc.addImage(canvas.toDataURL('image/png'), 'PNG', PAGE_MARGIN, y, CONTENT_WIDTH, height);
+      y += height + 8;
+    }
+
+    doc.setFontSize(9);
+    doc.setTextColor(100, 116, 139);
+    const details = [`Question: ${pin.question}`];
+    if (pin.response.queryPlan) details.push(`Query: ${describeQueryPlan(pin.response.queryPlan, pin.response.chartType)}`);
+    doc.text(doc.splitTextToSize(details.join('\n'), CONTENT_WIDTH), PAGE_MARGIN, Math.min(y, 260));
+  }
+
+  doc.save(fileName);
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { Dataset, DataRow } from "../types";
+import { describeDiff, diffDatasets } from "./datasetDiff";
+import { buildAnalysisPayload } from "./geminiService";
+import { profileDataset } from "./profiler";
+
+const SEGMENTS = ["Acme Corp", "Globex Ltd", "Initech"];
+
+const upload = (name: string, rows: DataRow[]): Dataset => ({
+  id: name,
+  name,
+  columns: ["account", "note", "amount"],
+  data: rows,
+  columnPolicies: { account: "mask", note: "exclude" }
+});
+
+const rows = (count: number, shift: number): DataRow[] =>
+  Array.from({ length: count }, (_, i) => ({
+    account: SEGMENTS[(i + shift) % SEGMENTS.length],
+    note: `private note ${i + shift}`,
+    amount: 10 * i + shift
+  }));
+
+const from = upload("sales.csv (version 1)", rows(30, 0));
+const to = upload("sales.csv", [...rows(30, 1), { account: "Umbrella Inc", note: "private note new", amount: 5 }]);
+
+const instructionFor = (schemaOnly: boolean) => {
+  const privacy = { schemaOnly, previewBeforeSend: false };
+  const changes = describeDiff(diffDatasets(from, to), to, privacy);
+  const workspace = { datasets: [from], relationships: [], comparison: { from: from.name, to: to.name, changes } };
+  return { changes, systemInstruction: buildAnalysisPayload("What changed?", to, profileDataset(to), [], workspace, privacy).systemInstruction };
+};
+
+describe("describeDiff column policies", () => {
+  it("never sends the values of a masked column or an excluded column", () => {
+    const { changes, systemInstruction } = instructionFor(false);
+    expect(changes.some(line => line.startsWith("account"))).toBe(true);
+    [...SEGMENTS, "Umbrella Inc"].forEach(value => expect(systemInstruction).not.toContain(value));
+    expect(changes.join("\n")).not.toContain("note");
+    expect(systemInstruction).not.toContain("private note");
+  });
+
+  it("reports only counts and type changes in schema-only mode", () => {
+    const { changes } = instructionFor(true);
+    const text = changes.join("\n");
+    expect(text).not.toContain("share changes");
+    expect(text).not.toContain("distribution shift");
+    expect(text).not.toMatch(/\b(sum|mean|median|min|max) /);
+    expect(text).toContain("Rows: 30 -> 31");
+  });
+});
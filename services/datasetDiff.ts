@@ -0,0 +1,232 @@
+import { ColumnProfile, ColumnType, Dataset, PrivacySettings } from "../types";
+import { profileDataset } from "./profiler";
+import { columnPolicy, privateView } from "./privacy";
+import { parseDateValue } from "./typeInference";
+import { sum, toNumber } from "./stats";
+
+// --- What changed between two versions of a dataset: columns, row counts, aggregates and distributions ---
+
+export type ShiftLevel = 'none' | 'small' | 'moderate' | 'large';
+
+export interface AggregateChange {
+  name: string; // e.g. "mean", "missing", "latest"
+  before: number | null;
+  after: number | null;
+}
+
+// Share of a column's non-missing values, before and after.
+export interface CategoryChange {
+  value: string;
+  before: number;
+  after: number;
+}
+
+export interface DistributionShift {
+  statistic: 'KS' | 'TVD'; // Kolmogorov–Smirnov D for numbers and dates, total variation distance of value shares otherwise
+  value: number; // 0 (same distribution) to 1 (no overlap)
+  level: ShiftLevel;
+}
+
+export interface ColumnDiff {
+  column: string;
+  type: ColumnType;
+  previousType?: ColumnType; // Set when the column's type changed
+  aggregates: AggregateChange[];
+  shift?: DistributionShift;
+  categories: CategoryChange[]; // Values whose share moved most; categorical and boolean columns only
+}
+
+export interface DatasetDiff {
+  from: { name: string; rows: number; columns: number };
+  to: { name: string; rows: number; columns: number };
+  addedColumns: string[];
+  removedColumns: string[];
+  columns: ColumnDiff[]; // Columns in both versions, largest distribution shift first
+  profile: ColumnProfile[]; // Of the later version, to apply its column policies
+}
+
+const SHIFT_LEVELS: [number, ShiftLevel][] = [[0.3, 'large'], [0.15, 'moderate'], [0.05, 'small']];
+const MAX_CATEGORY_CHANGES = 5;
+// Aggregates that count values without revealing any of them.
+const COUNT_AGGREGATES = ['distinct', 'new values', 'missing'];
+
+const isNumericType = (type: ColumnType) => type === 'integer' || type === 'decimal';
+
+const isMissing = (value: any) => value === null || value === undefined || value === '';
+
+const shiftLevel = (value: number): ShiftLevel => SHIFT_LEVELS.find(([min]) => value >= min)?.[1] ?? 'none';
+
+const rowCount = (dataset: Dataset) => dataset.sample?.totalRows ?? dataset.data.length;
+
+/** Largest gap between the two empirical distribution functions. Both arrays must be sorted. */
+const ksStatistic = (a: number[], b: number[]): number => {
+  if (a.length === 0 || b.length === 0) return 0;
+  let i = 0;
+  let j = 0;
+  let d = 0;
+  while (i < a.length && j < b.length) {
+    const v = Math.min(a[i], b[j]);
+    while (i < a.length && a[i] === v) i++;
+    while (j < b.length && b[j] === v) j++;
+    d = Math.max(d, Math.abs(i / a.length - j / b.length));
+  }
+  return d;
+};
+
+const sortedValues = (dataset: Dataset, column: string, type: ColumnType): number[] =>
+  dataset.data
+    .map(row => (type === 'date' ? parseDateValue(row[column]) : toNumber(row[column])))
+    .filter((v): v is number => v !== null)
+    .sort((a, b) => a - b);
+
+const shares = (dataset: Dataset, column: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  let total = 0;
+  dataset.data.forEach(row => {
+    if (isMissing(row[column])) return;
+    const key = String(row[column]);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+    total++;
+  });
+  counts.forEach((count, key) => counts.set(key, count / total));
+  return counts;
+};
+
+const distinctValues = (dataset: Dataset, column: string): Set<string> =>
+  new Set(dataset.data.filter(row => !isMissing(row[column])).map(row => String(row[column])));
+
+const asNumber = (value: number | string | undefined, type: ColumnType): number | null =>
+  value === undefined ? null : type === 'date' ? parseDateValue(value) : toNumber(value);
+
+const diffColumn = (column: string, from: Dataset, to: Dataset, before: ColumnProfile, after: ColumnProfile): ColumnDiff => {
+  const type = after.type;
+  const comparable = before.type === type;
+  const diff: ColumnDiff = {
+    column,
+    type,
+    ...(comparable ? {} : { previousType: before.type }),
+    aggregates: [],
+    categories: []
+  };
+  const both = (name: string, read: (p: ColumnProfile) => number | null | undefined) =>
+    diff.aggregates.push({ name, before: read(before) ?? null, after: read(after) ?? null });
+
+  if (comparable && (isNumericType(type) || type === 'date')) {
+    const previous = sortedValues(from, column, type);
+    const current = sortedValues(to, column, type);
+    if (isNumericType(type)) {
+      // Sums of a sample would not describe the whole file.
+      if (!from.sample && !to.sample) diff.aggregates.push({ name: 'sum', before: sum(previous), after: sum(current) });
+      both('mean', p => p.mean);
+      both('median', p => p.quantiles?.p50);
+    }
+    both(type === 'date' ? 'earliest' : 'min', p => asNumber(p.min, type));
+    both(type === 'date' ? 'latest' : 'max', p => asNumber(p.max, type));
+    const value = ksStatistic(previous, current);
+    diff.shift = { statistic: 'KS', value, level: shiftLevel(value) };
+  } else {
+    both('distinct', p => p.distinctCount);
+    if (comparable && (type === 'categorical' || type === 'boolean')) {
+      const previous = shares(from, column);
+      const current = shares(to, column);
+      const values = new Set([...previous.keys(), ...current.keys()]);
+      const changes = [...values].map(value => ({ value, before: previous.get(value) ?? 0, after: current.get(value) ?? 0 }));
+      const value = sum(changes.map(c => Math.abs(c.after - c.before))) / 2;
+      diff.shift = { statistic: 'TVD', value, level: shiftLevel(value) };
+      diff.categories = changes
+        .filter(c => c.before !== c.after)
+        .sort((a, b) => Math.abs(b.after - b.before) - Math.abs(a.after - a.before))
+        .slice(0, MAX_CATEGORY_CHANGES);
+    }
+    if (type !== 'boolean') {
+      const previous = distinctValues(from, column);
+      diff.aggregates.push({ name: 'new values', before: null, after: [...distinctValues(to, column)].filter(v => !previous.has(v)).length });
+    }
+  }
+  both('missing', p => p.nullCount);
+  return diff;
+};
+
+/** Compares two versions of a dataset. Sampled versions are compared on their samples, apart from profile figures. */
+export const diffDatasets = (from: Dataset, to: Dataset): DatasetDiff => {
+  const profile = profileDataset(to);
+  const fromProfile = new Map(profileDataset(from).map(p => [p.column, p]));
+  const toProfile = new Map(profile.map(p => [p.column, p]));
+  const shared = to.columns.filter(c => from.columns.includes(c) && fromProfile.has(c) && toProfile.has(c));
+  const columns = shared
+    .map(c => diffColumn(c, from, to, fromProfile.get(c)!, toProfile.get(c)!))
+    .sort((a, b) => (b.shift?.value ?? -1) - (a.shift?.value ?? -1));
+  return {
+    from: { name: from.name, rows: rowCount(from), columns: from.columns.length },
+    to: { name: to.name, rows: rowCount(to), columns: to.columns.length },
+    addedColumns: to.columns.filter(c => !from.columns.includes(c)),
+    removedColumns: from.columns.filter(c => !to.columns.includes(c)),
+    columns,
+    profile
+  };
+};
+
+/** Relative change, or null when there is no base to compare with. */
+export const relativeChange = (before: number | null, after: number | null): number | null =>
+  before === null || after === null || before === 0 ? null : (after - before) / Math.abs(before);
+
+const isDateBound = (type: ColumnType, name: string) => type === 'date' && (name === 'earliest' || name === 'latest');
+
+/** Relative change of an aggregate; null for date bounds, whose timestamps have no meaningful ratio. */
+export const aggregateChange = (a: AggregateChange, type: ColumnType): number | null =>
+  isDateBound(type, a.name) ? null : relativeChange(a.before, a.after);
+
+export const formatAggregate = (value: number | null, type: ColumnType, name: string): string => {
+  if (value === null) return '–';
+  if (isDateBound(type, name)) return new Date(value).toISOString().slice(0, 10);
+  return Number.isInteger(value) ? value.toLocaleString() : Number(value.toPrecision(4)).toLocaleString();
+};
+
+export const formatShare = (share: number) => `${(share * 100).toFixed(1)}%`;
+
+const formatPercent = (change: number | null) => (change === null ? '' : ` (${change >= 0 ? '+' : ''}${(change * 100).toFixed(1)}%)`);
+
+export const aggregateChanged = (a: AggregateChange): boolean =>
+  a.before !== a.after && !(a.name === 'new values' && a.after === 0);
+
+/** Whether anything about the column differs between the versions. */
+export const columnChanged = (diff: ColumnDiff): boolean =>
+  !!diff.previousType || (!!diff.shift && diff.shift.level !== 'none') || diff.aggregates.some(aggregateChanged);
+
+/**
+ * One line per change, for the model's prompt, under the column policies of `dataset` (the later version):
+ * excluded columns are left out, masked or hashed columns report counts and protected share changes, and
+ * schema-only mode reports only counts and type changes.
+ */
+export const describeDiff = (diff: DatasetDiff, dataset: Dataset, privacy: PrivacySettings): string[] => {
+  const view = privateView(dataset, diff.profile, []);
+  const addedColumns = diff.addedColumns.filter(c => !view.excludedColumns.includes(c));
+  const removedColumns = diff.removedColumns.filter(c => columnPolicy(dataset, undefined, c) !== 'exclude');
+  const lines = [`Rows: ${diff.from.rows.toLocaleString()} -> ${diff.to.rows.toLocaleString()}${formatPercent(relativeChange(diff.from.rows, diff.to.rows))}`];
+  if (addedColumns.length > 0) lines.push(`Added columns: ${addedColumns.join(', ')}`);
+  if (removedColumns.length > 0) lines.push(`Removed columns: ${removedColumns.join(', ')}`);
+  const unchanged: string[] = [];
+  diff.columns.filter(c => !view.excludedColumns.includes(c.column)).forEach(c => {
+    if (!columnChanged(c)) {
+      unchanged.push(c.column);
+      return;
+    }
+    const isProtected = view.protectedColumns.includes(c.column);
+    const countsOnly = privacy.schemaOnly || isProtected;
+    const parts = c.aggregates
+      .filter(a => aggregateChanged(a) && (!countsOnly || COUNT_AGGREGATES.includes(a.name)))
+      .map(a => a.name === 'new values'
+        ? `${a.after} new values`
+        : `${a.name} ${formatAggregate(a.before, c.type, a.name)} -> ${formatAggregate(a.after, c.type, a.name)}${formatPercent(aggregateChange(a, c.type))}`);
+    if (c.shift && !privacy.schemaOnly) parts.push(`distribution shift ${c.shift.statistic} ${c.shift.value.toFixed(2)} (${c.shift.level})`);
+    if (c.categories.length > 0 && !privacy.schemaOnly) {
+      const values = isProtected
+        ? privateView(dataset, diff.profile, c.categories.map(s => ({ [c.column]: s.value }))).rows.map(r => String(r[c.column]))
+        : c.categories.map(s => s.value);
+      parts.push(`share changes: ${c.categories.map((s, i) => `${values[i]} ${formatShare(s.before)} -> ${formatShare(s.after)}`).join(', ')}`);
+    }
+    lines.push(`${c.column} (${c.previousType ? `${c.previousType} -> ` : ''}${c.type}): ${parts.length > 0 ? parts.join('; ') : 'values changed'}`);
+  });
+  if (unchanged.length > 0) lines.push(`Unchanged columns: ${unchanged.join(', ')}`);
+  return lines;
+};
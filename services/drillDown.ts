@@ -0,0 +1,165 @@
+import { AIResponse, ChartSelection, ChartType, ColumnFilter, ColumnType, Dataset, DateUnit, QueryFilter, QueryPlan } from "../types";
+import { BLANK_LABEL, matchesFilter } from "./queryEngine";
+import { activeFilters } from "./tableView";
+import { addPeriods } from "./timeSeries";
+import { parseDateValue } from "./typeInference";
+import { toNumber } from "./stats";
+
+// --- Clicks on chart elements become Data Table filters; active filters scope chat and cross-filter pins ---
+
+export type ColumnFilters = Record<string, ColumnFilter>;
+
+const DAY_MS = 86_400_000;
+
+const isoDay = (t: number) => new Date(t).toISOString().slice(0, 10);
+
+/** Records whose column equals a chart label, in the filter form the Data Table edits for the column's type. */
+const valueFilter = (label: string, type: ColumnType | undefined): ColumnFilter => {
+  if (label === BLANK_LABEL) return { kind: 'categories', values: [''] };
+  if (type === 'integer' || type === 'decimal') {
+    const n = toNumber(label);
+    if (n !== null) return { kind: 'range', min: n, max: n };
+  }
+  if (type === 'date') {
+    const t = parseDateValue(label);
+    if (t !== null) return { kind: 'dateRange', from: isoDay(t), to: isoDay(t) };
+  }
+  return { kind: 'categories', values: [label] };
+};
+
+/** The days of a forecast period label (2024, 2024-Q1, 2024-01 or an ISO day starting a day or week). */
+const periodFilter = (label: string, unit: DateUnit): ColumnFilter | null => {
+  const match = /^(\d{4})(?:-Q([1-4])|-(\d{2})(?:-(\d{2}))?)?$/.exec(label);
+  if (!match) return null;
+  const [, year, quarter, month, day] = match;
+  const start = Date.UTC(Number(year), quarter ? (Number(quarter) - 1) * 3 : month ? Number(month) - 1 : 0, day ? Number(day) : 1);
+  return { kind: 'dateRange', from: isoDay(start), to: isoDay(addPeriods(start, unit, 1) - DAY_MS) };
+};
+
+/** A plan filter in Data Table form, when the table can express it; the rest are dropped. */
+const fromQueryFilter = (filter: QueryFilter, type: ColumnType | undefined, current?: ColumnFilter): ColumnFilter | null => {
+  const numeric = type === 'integer' || type === 'decimal';
+  switch (filter.operator) {
+    case 'eq': return valueFilter(String(filter.value ?? ''), type);
+    case 'in': return numeric || type === 'date' ? null : { kind: 'categories', values: (filter.values ?? []).map(String) };
+    case 'gte':
+    case 'lte': {
+      const bound = filter.operator === 'gte' ? 'min' : 'max';
+      if (numeric) {
+        const n = toNumber(filter.value);
+        return n === null ? null : { ...(current?.kind === 'range' ? current : { kind: 'range' as const }), [bound]: n };
+      }
+      const t = type === 'date' ? parseDateValue(filter.value) : null;
+      return t === null ? null : { ...(current?.kind === 'dateRange' ? current : { kind: 'dateRange' as const }), [bound === 'min' ? 'from' : 'to']: isoDay(t) };
+    }
+    default: return null;
+  }
+};
+
+/** Columns a click on this chart filters; cross-filtering leaves them alone so the chart can be clicked again. */
+const selectionColumns = (plan: QueryPlan, chartType: ChartType): string[] => {
+  if (chartType === 'scatter') return [plan.xColumn, plan.yColumn].filter((c): c is string => !!c);
+  if (chartType === 'histogram') return plan.valueColumn ? [plan.valueColumn] : [];
+  return [plan.groupBy, plan.seriesBy].filter((c): c is string => !!c);
+};
+
+/** Whether clicking the chart can select records of the dataset: it has a plan over it, with rows behind each element. */
+export const canDrill = (response: AIResponse, dataset: Dataset): boolean => {
+  const plan = response.queryPlan;
+  if (!plan || response.chartType === 'none' || (plan.dataset && plan.dataset !== dataset.name)) return false;
+  if (response.chartType === 'heatmap' && !(plan.groupBy && plan.seriesBy)) return false; // Correlation cells are column pairs
+  const columns = selectionColumns(plan, response.chartType);
+  return columns.length > 0 && columns.every(c => dataset.columns.includes(c));
+};
+
+/**
+ * Filters selecting the records behind one chart element (a category and its series, a histogram bin,
+ * a scatter point, a heatmap cell or a forecast period), plus the chart's own plan filters where the
+ * Data Table can express them. Null for elements no records are behind, such as forecast periods ahead.
+ */
+export const drillFilters = (response: AIResponse, selection: ChartSelection, types: Record<string, ColumnType>): ColumnFilters | null => {
+  const plan = response.queryPlan;
+  const point = response.chartData[selection.index];
+  if (!plan || !point) return null;
+
+  const filters: ColumnFilters = {};
+  (plan.filters ?? []).forEach(f => {
+    const converted = fromQueryFilter(f, types[f.column], filters[f.column]);
+    if (converted) filters[f.column] = converted;
+  });
+
+  switch (response.chartType) {
+    case 'scatter':
+      if (!plan.xColumn || !plan.yColumn) return null;
+      filters[plan.xColumn] = { kind: 'range', min: point.x, max: point.x };
+      filters[plan.yColumn] = { kind: 'range', min: point.y, max: point.y };
+      break;
+    case 'histogram':
+      if (!plan.valueColumn) return null;
+      filters[plan.valueColumn] = { kind: 'range', min: point.start, max: point.end };
+      break;
+    case 'heatmap':
+      if (!plan.groupBy || !plan.seriesBy) return null;
+      filters[plan.groupBy] = valueFilter(point.x, types[plan.groupBy]);
+      filters[plan.seriesBy] = valueFilter(point.y, types[plan.seriesBy]);
+      break;
+    case 'forecast': {
+      const unit = response.queryStats?.forecast?.interval ?? plan.interval;
+      const period = plan.groupBy && unit && point.actual !== null ? periodFilter(point.name, unit) : null;
+      if (!period) return null;
+      filters[plan.groupBy!] = period;
+      break;
+    }
+    default: {
+      if (!plan.groupBy) return null;
+      filters[plan.groupBy] = valueFilter(point.name, types[plan.groupBy]);
+      const series = response.series?.find(s => s.key === selection.seriesKey);
+      if (plan.seriesBy && series) filters[plan.seriesBy] = valueFilter(series.label, types[plan.seriesBy]);
+    }
+  }
+  return filters;
+};
+
+/** Data Table filters as query plan filters, so plans re-run later (pins, chart edits, exports) keep the subset. */
+export const toQueryFilters = (filters: [string, ColumnFilter][]): QueryFilter[] =>
+  filters.flatMap(([column, f]): QueryFilter[] => {
+    switch (f.kind) {
+      case 'categories':
+        return [f.values.length === 1 ? { column, operator: 'eq', value: f.values[0] } : { column, operator: 'in', values: f.values }];
+      case 'range':
+        if (f.min !== undefined && f.min === f.max) return [{ column, operator: 'eq', value: f.min }];
+        return [
+          ...(f.min !== undefined ? [{ column, operator: 'gte' as const, value: f.min }] : []),
+          ...(f.max !== undefined ? [{ column, operator: 'lte' as const, value: f.max }] : [])
+        ];
+      case 'dateRange': {
+        // "to" covers its whole day, so the bound is the start of the next one.
+        const to = f.to ? parseDateValue(f.to) : null;
+        return [
+          ...(f.from ? [{ column, operator: 'gte' as const, value: f.from }] : []),
+          ...(to !== null ? [{ column, operator: 'lt' as const, value: isoDay(to + DAY_MS) }] : [])
+        ];
+      }
+    }
+  });
+
+/** The records chat questions run on while Data Table filters are active; the dataset itself otherwise. */
+export const scopeDataset = (dataset: Dataset, filters: ColumnFilters): Dataset => {
+  const scope = toQueryFilters(activeFilters(dataset, filters));
+  if (scope.length === 0) return dataset;
+  return { ...dataset, data: dataset.data.filter(row => scope.every(f => matchesFilter(row, f))), scope };
+};
+
+/** A pinned chart's plan narrowed by the active filters, except on the columns the chart itself selects. */
+export const crossFilterPlan = (plan: QueryPlan, chartType: ChartType, dataset: Dataset, filters: ColumnFilters): QueryPlan | null => {
+  const own = selectionColumns(plan, chartType);
+  const extra = toQueryFilters(activeFilters(dataset, filters).filter(([column]) => !own.includes(column)));
+  return extra.length > 0 ? { ...plan, filters: [...(plan.filters ?? []), ...extra] } : null;
+};
+
+/** Merges a click's filters into the current ones; clicking the element already selected clears its filters. */
+export const toggleDrill = (current: ColumnFilters, next: ColumnFilters): ColumnFilters => {
+  const same = Object.entries(next).every(([column, f]) => JSON.stringify(current[column]) === JSON.stringify(f));
+  if (!same) return { ...current, ...next };
+  return Object.fromEntries(Object.entries(current).filter(([column]) => !(column in next)));
+};
@@ -0,0 +1,268 @@
+import { DataRow } from "../types";
+import { parseDateValue } from "./typeInference";
+import { toNumber } from "./stats";
+
+// --- Spreadsheet-style expressions for derived columns, e.g. [Unit Price] * quantity ---
+
+export class FormulaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FormulaError';
+  }
+}
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'column'; value: string }
+  | { type: 'name'; value: string }
+  | { type: 'op'; value: string };
+
+type Evaluate = (row: DataRow) => any;
+
+const OPERATORS = ['<=', '>=', '!=', '<>', '==', '&&', '||', '+', '-', '*', '/', '%', '<', '>', '=', '(', ')', ','];
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (/[0-9.]/.test(ch)) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/.exec(source.slice(i));
+      if (!match) throw new FormulaError(`Unexpected "${ch}" at position ${i + 1}.`);
+      tokens.push({ type: 'number', value: Number(match[0]) });
+      i += match[0].length;
+    } else if (ch === '"' || ch === "'") {
+      const end = source.indexOf(ch, i + 1);
+      if (end === -1) throw new FormulaError(`Unterminated text starting at position ${i + 1}.`);
+      tokens.push({ type: 'string', value: source.slice(i + 1, end) });
+      i = end + 1;
+    } else if (ch === '[') {
+      const end = source.indexOf(']', i + 1);
+      if (end === -1) throw new FormulaError(`Missing "]" after position ${i + 1}.`);
+      tokens.push({ type: 'column', value: source.slice(i + 1, end) });
+      i = end + 1;
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_.]*/.exec(source.slice(i))!;
+      tokens.push({ type: 'name', value: match[0] });
+      i += match[0].length;
+    } else {
+      const op = OPERATORS.find(o => source.startsWith(o, i));
+      if (!op) throw new FormulaError(`Unexpected "${ch}" at position ${i + 1}.`);
+      tokens.push({ type: 'op', value: op });
+      i += op.length;
+    }
+  }
+  return tokens;
+};
+
+const isBlank = (v: any) => v === null || v === undefined || v === '';
+
+/** Numeric operands, or null when either side is missing or not a number. */
+const numeric = (a: any, b: any, fn: (x: number, y: number) => number) => {
+  const x = toNumber(a);
+  const y = toNumber(b);
+  if (x === null || y === null) return null;
+  const result = fn(x, y);
+  return Number.isFinite(result) ? result : null;
+};
+
+const compareValues = (a: any, b: any): number => {
+  const x = toNumber(a);
+  const y = toNumber(b);
+  if (x !== null && y !== null) return x - y;
+  return String(a ?? '').localeCompare(String(b ?? ''));
+};
+
+const dateField = (value: any, field: 'year' | 'month' | 'day') => {
+  const t = parseDateValue(value);
+  if (t === null) return null;
+  const d = new Date(t);
+  return field === 'year' ? d.getUTCFullYear() : field === 'month' ? d.getUTCMonth() + 1 : d.getUTCDate();
+};
+
+const unaryNumber = (fn: (x: number) => number) => (args: any[]) => {
+  const x = toNumber(args[0]);
+  if (x === null) return null;
+  const result = fn(x);
+  return Number.isFinite(result) ? result : null;
+};
+
+const FUNCTIONS: Record<string, (args: any[]) => any> = {
+  abs: unaryNumber(Math.abs),
+  floor: unaryNumber(Math.floor),
+  ceil: unaryNumber(Math.ceil),
+  sqrt: unaryNumber(Math.sqrt),
+  log: unaryNumber(Math.log),
+  round: args => {
+    const x = toNumber(args[0]);
+    const digits = toNumber(args[1]) ?? 0;
+    return x === null ? null : Math.round(x * 10 ** digits) / 10 ** digits;
+  },
+  min: args => {
+    const xs = args.map(toNumber).filter((x): x is number => x !== null);
+    return xs.length ? Math.min(...xs) : null;
+  },
+  max: args => {
+    const xs = args.map(toNumber).filter((x): x is number => x !== null);
+    return xs.length ? Math.max(...xs) : null;
+  },
+  upper: args => (isBlank(args[0]) ? null : String(args[0]).toUpperCase()),
+  lower: args => (isBlank(args[0]) ? null : String(args[0]).toLowerCase()),
+  trim: args => (isBlank(args[0]) ? null : String(args[0]).trim()),
+  len: args => (isBlank(args[0]) ? 0 : String(args[0]).length),
+  concat: args => args.map(a => (isBlank(a) ? '' : String(a))).join(''),
+  year: args => dateField(args[0], 'year'),
+  month: args => dateField(args[0], 'month'),
+  day: args => dateField(args[0], 'day'),
+  coalesce: args => args.find(a => !isBlank(a)) ?? null,
+  isblank: args => isBlank(args[0])
+};
+
+/** Columns an expression reads, written bare or in brackets. */
+export const formulaColumns = (expression: string, columns: string[]): string[] => [
+  ...new Set(tokenize(expression)
+    .filter(t => (t.type === 'column' || t.type === 'name') && columns.includes(t.value))
+    .map(t => t.value as string))
+];
+
+/**
+ * Compiles an expression over the given columns into a function of a row. Columns are written
+ * bare (amount) or in brackets ([Unit Price]); text goes in quotes. Supports + - * / %,
+ * comparisons, && and ||, if(condition, then, else) and the functions in FUNCTIONS.
+ * Missing or non-numeric operands make arithmetic yield null rather than NaN.
+ */
+export const compileFormula = (expression: string, columns: string[]): Evaluate => {
+  const tokens = tokenize(expression);
+  if (tokens.length === 0) throw new FormulaError('The formula is empty.');
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const isOp = (...ops: string[]) => peek()?.type === 'op' && ops.includes(peek()!.value as string);
+  const expect = (op: string) => {
+    if (!isOp(op)) throw new FormulaError(`Expected "${op}"${peek() ? ` before "${peek()!.value}"` : ' at the end'}.`);
+    pos++;
+  };
+  const column = (name: string): Evaluate => {
+    if (!columns.includes(name)) throw new FormulaError(`Unknown column "${name}".`);
+    return row => row[name];
+  };
+
+  const parseOr = (): Evaluate => {
+    let left = parseAnd();
+    while (isOp('||') || (peek()?.type === 'name' && String(peek()!.value).toLowerCase() === 'or')) {
+      pos++;
+      const a = left, b = parseAnd();
+      left = row => !!a(row) || !!b(row);
+    }
+    return left;
+  };
+  const parseAnd = (): Evaluate => {
+    let left = parseComparison();
+    while (isOp('&&') || (peek()?.type === 'name' && String(peek()!.value).toLowerCase() === 'and')) {
+      pos++;
+      const a = left, b = parseComparison();
+      left = row => !!a(row) && !!b(row);
+    }
+    return left;
+  };
+  const parseComparison = (): Evaluate => {
+    const left = parseAdditive();
+    if (!isOp('=', '==', '!=', '<>', '<', '<=', '>', '>=')) return left;
+    const op = String(tokens[pos++].value);
+    const right = parseAdditive();
+    return row => {
+      const a = left(row), b = right(row);
+      if (op === '=' || op === '==') return isBlank(a) || isBlank(b) ? isBlank(a) && isBlank(b) : compareValues(a, b) === 0;
+      if (op === '!=' || op === '<>') return isBlank(a) || isBlank(b) ? isBlank(a) !== isBlank(b) : compareValues(a, b) !== 0;
+      if (isBlank(a) || isBlank(b)) return false;
+      const c = compareValues(a, b);
+      return op === '<' ? c < 0 : op === '<=' ? c <= 0 : op === '>' ? c > 0 : c >= 0;
+    };
+  };
+  const parseAdditive = (): Evaluate => {
+    let left = parseMultiplicative();
+    while (isOp('+', '-')) {
+      const op = tokens[pos++].value;
+      const a = left, b = parseMultiplicative();
+      left = op === '+'
+        ? row => {
+            const x = a(row), y = b(row);
+            // Text on either side means concatenation, as in spreadsheets' & operator.
+            if ((typeof x === 'string' && toNumber(x) === null) || (typeof y === 'string' && toNumber(y) === null)) {
+              return `${isBlank(x) ? '' : x}${isBlank(y) ? '' : y}`;
+            }
+            return numeric(x, y, (p, q) => p + q);
+          }
+        : row => numeric(a(row), b(row), (p, q) => p - q);
+    }
+    return left;
+  };
+  const parseMultiplicative = (): Evaluate => {
+    let left = parseUnary();
+    while (isOp('*', '/', '%')) {
+      const op = tokens[pos++].value;
+      const a = left, b = parseUnary();
+      left = row => numeric(a(row), b(row), op === '*' ? (p, q) => p * q : op === '/' ? (p, q) => p / q : (p, q) => p % q);
+    }
+    return left;
+  };
+  const parseUnary = (): Evaluate => {
+    if (isOp('-')) {
+      pos++;
+      const inner = parseUnary();
+      return row => numeric(0, inner(row), (p, q) => p - q);
+    }
+    return parsePrimary();
+  };
+  const parsePrimary = (): Evaluate => {
+    const token = tokens[pos++];
+    if (!token) throw new FormulaError('The formula ends unexpectedly.');
+    switch (token.type) {
+      case 'number':
+      case 'string': {
+        const value = token.value;
+        return () => value;
+      }
+      case 'column':
+        return column(token.value);
+      case 'name': {
+        const lower = token.value.toLowerCase();
+        if (!isOp('(')) {
+          if (lower === 'true' || lower === 'false') return () => lower === 'true';
+          if (lower === 'null') return () => null;
+          return column(token.value);
+        }
+        pos++;
+        const args: Evaluate[] = [];
+        if (!isOp(')')) {
+          do {
+            if (args.length > 0) pos++;
+            args.push(parseOr());
+          } while (isOp(','));
+        }
+        expect(')');
+        if (lower === 'if') {
+          if (args.length !== 3) throw new FormulaError('if() takes a condition, a value when true and a value when false.');
+          const [test, then, otherwise] = args;
+          return row => (test(row) ? then(row) : otherwise(row));
+        }
+        const fn = FUNCTIONS[lower];
+        if (!fn) throw new FormulaError(`Unknown function "${token.value}". Available: if, ${Object.keys(FUNCTIONS).join(', ')}.`);
+        return row => fn(args.map(arg => arg(row)));
+      }
+      default:
+        if (token.value === '(') {
+          const inner = parseOr();
+          expect(')');
+          return inner;
+        }
+        throw new FormulaError(`Unexpected "${token.value}".`);
+    }
+  };
+
+  const evaluate = parseOr();
+  if (pos < tokens.length) throw new FormulaError(`Unexpected "${tokens[pos].value}" after the end of the formula.`);
+  return evaluate;
+};
@@ -1,93 +1,403 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { Dataset, AIResponse } from "../types";
+import { Type } from "@google/genai";
+import { Dataset, AIResponse, ColumnProfile, PrivacySettings, ProviderSettings, ToolTraceStep, WorkspaceContext } from "../types";
+import { executeQueryPlan, formatFilter, QueryPlanError, resolvePlanDataset } from "./queryEngine";
+import { runStatTest, StatTestError } from "./hypothesisTests";
+import { describeProfile, profileDataset } from "./profiler";
+import { describeSample } from "./ingest";
+import { applyTransforms, TransformError } from "./transforms";
+import { DEFAULT_PRIVACY, privateFilters, privateView } from "./privacy";
+import { AnalysisContext, buildContext, ContextStats, DEFAULT_CONTEXT_BUDGET, estimateTokens } from "./contextBuilder";
+import { ChatTurn, DEFAULT_PROVIDER_SETTINGS, getProvider, isAbortError, ToolRound } from "./providers";
+import { availableTools, createToolRunner, MAX_TOOL_ROUNDS } from "./agentTools";
+import { describeIssuesForRetry, parseResponseText, readPartialField, ResponseValidationError, validateChartData, validateResponse } from "./responseValidator";
 
-export const analyzeData = async (
+const FILTERS_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      column: { type: Type.STRING },
+      operator: { type: Type.STRING, description: "One of: eq, neq, gt, gte, lt, lte, contains, in" },
+      value: { type: Type.STRING },
+      values: { type: Type.ARRAY, items: { type: Type.STRING } }
+    },
+    required: ["column", "operator"]
+  }
+};
+
+// Written in Gemini's schema dialect; other providers convert it with toJsonSchema.
+const RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    insight: { type: Type.STRING },
+    chartType: {
+      type: Type.STRING,
+      description: "One of: bar, stackedBar, groupedBar, line, area, combo, pie, scatter, histogram, boxPlot, heatmap, forecast, none"
+    },
+    queryPlan: {
+      type: Type.OBJECT,
+      properties: {
+        dataset: { type: Type.STRING, description: "Exact name of another workspace dataset to query; omit for the active dataset" },
+        groupBy: { type: Type.STRING },
+        seriesBy: { type: Type.STRING, description: "Column whose values become separate series (stacked/grouped bars, multi-line, area, pivot heatmap)" },
+        aggregation: { type: Type.STRING, description: "One of: sum, mean, count, min, max, median" },
+        valueColumn: { type: Type.STRING },
+        valueColumns: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Several measures as series; combo needs two (bars, then line)" },
+        xColumn: { type: Type.STRING },
+        yColumn: { type: Type.STRING },
+        columns: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Heatmap only: numeric columns to correlate" },
+        bins: { type: Type.INTEGER, description: "Histogram only: number of bins" },
+        interval: { type: Type.STRING, description: "Forecast only: one of day, week, month, quarter, year" },
+        horizon: { type: Type.INTEGER, description: "Forecast only: periods to predict; 0 to only flag anomalies" },
+        forecastMethod: { type: Type.STRING, description: "Forecast only: one of auto, movingAverage, exponentialSmoothing, seasonal" },
+        anomalyMethod: { type: Type.STRING, description: "Forecast only: one of zscore, iqr" },
+        filters: FILTERS_SCHEMA,
+        sort: {
+          type: Type.OBJECT,
+          properties: {
+            by: { type: Type.STRING, description: "One of: name, value" },
+            direction: { type: Type.STRING, description: "One of: asc, desc" }
+          }
+        },
+        limit: { type: Type.INTEGER }
+      },
+      required: ["aggregation"]
+    },
+    statTest: {
+      type: Type.OBJECT,
+      description: "A hypothesis test run locally over every record",
+      properties: {
+        test: { type: Type.STRING, description: "One of: tTest, mannWhitney, anova, chiSquare, pearson, spearman, regression" },
+        dataset: { type: Type.STRING, description: "Exact name of another workspace dataset to test; omit for the active dataset" },
+        valueColumn: { type: Type.STRING, description: "tTest, mannWhitney, anova: the numeric measure" },
+        groupColumn: { type: Type.STRING, description: "tTest, mannWhitney, anova: the category splitting the records" },
+        groups: { type: Type.ARRAY, items: { type: Type.STRING }, description: "tTest, mannWhitney: the two groups to compare; one group is compared with all others" },
+        xColumn: { type: Type.STRING, description: "pearson, spearman, regression: the predictor; chiSquare: the first category" },
+        yColumn: { type: Type.STRING, description: "pearson, spearman, regression: the outcome; chiSquare: the second category" },
+        filters: FILTERS_SCHEMA
+      },
+      required: ["test"]
+    },
+    transforms: {
+      type: Type.ARRAY,
+      description: "Changes to the dataset itself, applied in order once the user confirms",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          kind: { type: Type.STRING, description: "One of: rename, changeType, filter, fillNulls, dropNulls, formula, split, merge, dateBucket, pivot, unpivot, deduplicate, dropColumns" },
+          column: { type: Type.STRING },
+          to: { type: Type.STRING, description: "rename: the new name" },
+          type: { type: Type.STRING, description: "changeType: one of integer, decimal, boolean, date, categorical, identifier" },
+          mode: { type: Type.STRING, description: "filter: keep or remove the matching rows" },
+          filter: {
+            type: Type.OBJECT,
+            properties: {
+              column: { type: Type.STRING },
+              operator: { type: Type.STRING, description: "One of: eq, neq, gt, gte, lt, lte, contains, in" },
+              value: { type: Type.STRING },
+              values: { type: Type.ARRAY, items: { type: Type.STRING } }
+            }
+          },
+          strategy: { type: Type.STRING, description: "fillNulls: one of value, mean, median, mode, previous" },
+          value: { type: Type.STRING, description: "fillNulls: the fill value" },
+          columns: { type: Type.ARRAY, items: { type: Type.STRING } },
+          name: { type: Type.STRING, description: "Name of the new column (formula, merge, dateBucket)" },
+          expression: { type: Type.STRING, description: "formula: e.g. [Unit Price] * quantity" },
+          separator: { type: Type.STRING },
+          into: { type: Type.ARRAY, items: { type: Type.STRING }, description: "split: names of the new columns" },
+          unit: { type: Type.STRING, description: "dateBucket: one of day, week, month, quarter, year" },
+          index: { type: Type.STRING, description: "pivot: the row key column" },
+          pivotColumn: { type: Type.STRING },
+          valueColumn: { type: Type.STRING },
+          aggregation: { type: Type.STRING },
+          idColumns: { type: Type.ARRAY, items: { type: Type.STRING } },
+          valueColumns: { type: Type.ARRAY, items: { type: Type.STRING } },
+          nameColumn: { type: Type.STRING }
+        },
+        required: ["kind"]
+      }
+    },
+    xAxisLabel: { type: Type.STRING },
+    yAxisLabel: { type: Type.STRING },
+    suggestion: { type: Type.STRING, description: "A relevant follow-up question." }
+  },
+  required: ["summary", "insight", "chartType"]
+};
+
+export interface AnalyzeOptions {
+  signal?: AbortSignal;
+  onPartial?: (partial: { summary?: string; insight?: string }) => void; // Text fields decoded while streaming
+  privacy?: PrivacySettings;
+  onTrace?: (trace: ToolTraceStep[]) => void; // Called after each round of tool calls
+  confirmToolResults?: (steps: ToolTraceStep[]) => Promise<boolean>; // Asked before a round of results is sent; false answers without them
+}
+
+const TOOL_GUIDE = `
+
+TOOLS: Before answering you may call the data tools to check facts over every record: column statistics,
+distinct values, grouped aggregates, filtered counts, correlations and matching sample rows. Call them when
+the sample or statistics above cannot settle the question; skip them when they can. Stop calling tools once
+you have what you need, then reply in plain text with a short summary of what you found.`;
+
+// Tool results already seen, added to the system instruction of the structured answer call.
+const describeFindings = (trace: ToolTraceStep[]) => trace.length === 0 ? '' : `
+
+DATA TOOL RESULTS for the current question (exact, computed over every record):
+${trace.map(step => `- ${step.tool}(${JSON.stringify(step.args)}) -> ${step.result}`).join('\n')}
+Use them in the summary and insight. The chart still comes from a queryPlan.`;
+
+// Everything that leaves the browser for one question, apart from the fixed response schema.
+export interface AnalysisPayload {
+  systemInstruction: string;
+  history: ChatTurn[];
+  query: string;
+  profile: ColumnProfile[]; // Only read by the offline provider; never sent
+  stats: ContextStats;
+}
+
+type PromptParts = Omit<AnalysisContext, 'history' | 'stats'>;
+
+const EMPTY_PARTS: PromptParts = { profile: [], rows: [], aggregates: [], earlierTurns: [], protectedColumns: [] };
+
+/**
+ * Builds the prompt within the token budget, with column policies and schema-only mode applied.
+ * Also used for the payload preview and the prompt size shown under the chat input.
+ */
+export const buildAnalysisPayload = (
   query: string,
   dataset: Dataset,
-  history: { role: string; content: string }[]
-): Promise<AIResponse> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-  // Provide a rich context with more metadata and a representative sample
-  const dataSample = dataset.data.slice(0, 15);
-  const columnsList = dataset.columns.join(', ');
-  
-  // Create a summary of numeric vs categorical columns for the AI
-  const columnTypes = dataset.columns.map(col => {
-    const val = dataset.data.find(r => r[col] !== null && r[col] !== undefined)?.[col];
-    return `${col} (${typeof val})`;
-  }).join(', ');
+  profile: ColumnProfile[],
+  history: { role: string; content: string }[],
+  workspace: WorkspaceContext = { datasets: [], relationships: [] },
+  privacy: PrivacySettings = DEFAULT_PRIVACY,
+  budget: number = DEFAULT_CONTEXT_BUDGET
+): AnalysisPayload => {
+  const sampleNote = describeSample(dataset);
+  const totalRows = dataset.scope ? dataset.data.length : dataset.sample?.totalRows ?? dataset.data.length;
+  const workspaceProfiles = workspace.datasets.map(d => describeProfile(privateView(d, profileDataset(d), []).profile));
+  // Filter values are row values, so they follow the column policies and are not shared in schema-only mode.
+  const scope = dataset.scope && !privacy.schemaOnly ? privateFilters(dataset, profile, dataset.scope) : [];
 
-  const systemInstruction = `You are a Senior Data Scientist at InsightAI. Your goal is to provide deep, actionable insights and beautiful visualizations for any user query regarding their dataset.
+  const render = (parts: PromptParts) => `You are a Senior Data Scientist at InsightAI. Your goal is to provide deep, actionable insights and beautiful visualizations for any user query regarding their dataset.
 
 Dataset Metadata:
 - File Name: ${dataset.name}
-- Total Records: ${dataset.data.length}
-- Columns & types: ${columnTypes}
-
-Sample Data Context:
-${JSON.stringify(dataSample)}
+- Total Records: ${totalRows}${scope.length > 0 ? `
+- FILTERED VIEW: The user narrowed the data to records where ${scope.map(formatFilter).join(' AND ')}. The profile, sample and every query plan cover only these records, so do not repeat these filters; mention them in 'insight' when it matters.` : ''}
+- Column profile (computed over all records):
+${describeProfile(parts.profile)}${sampleNote ? `
+- WORKING ON A SAMPLE: ${sampleNote}. The file was too large to load, so charts are computed from the sample only. Counts and sums cover the sampled rows, not the whole file; say so in 'insight' when it matters, and prefer means, medians and shares.` : ''}
 
+${parts.aggregates.length > 0 ? `Precomputed Aggregates (over ${sampleNote ? 'the sampled' : 'all'} records):
+${parts.aggregates.map(a => `- ${a}`).join('\n')}
+` : ''}
+${privacy.schemaOnly ? `SCHEMA-ONLY MODE: No rows are shared, only the column names, types and statistics above. Plan charts from those.` : `Representative Sample (${parts.rows.length} rows spread across the file):
+${JSON.stringify(parts.rows)}`}${parts.protectedColumns.length > 0 ? `
+PRIVACY: Values of ${parts.protectedColumns.join(', ')} are masked or hashed. Never put them in filters or quote them.` : ''}
+${workspace.datasets.length > 0 ? `
+Other Datasets In This Workspace (query them by setting 'queryPlan.dataset' to the exact name):
+${workspace.datasets.map((d, i) => `* "${d.name}" (${describeSample(d) ?? `${d.data.length} records`})\n${workspaceProfiles[i]}`).join('\n')}
+${workspace.relationships.length > 0 ? `
+Relationships:
+${workspace.relationships.map(r => `- ${r}`).join('\n')}
+For questions spanning several tables, query the joined dataset that combines them.` : ''}
+` : ''}${workspace.comparison ? `
+VERSION COMPARISON: The user is asking what changed from "${workspace.comparison.from}" to "${workspace.comparison.to}"${workspace.comparison.to === dataset.name ? ' (the active dataset)' : ''}, two uploads of the same file. Differences computed locally:
+${workspace.comparison.changes.map(c => `- ${c}`).join('\n')}
+Explain the changes from these figures, largest first, and say what could cause them. Chart a version by setting 'queryPlan.dataset' to its name.
+` : ''}
+${parts.earlierTurns.length > 0 ? `
+Earlier In This Conversation (summarized):
+${parts.earlierTurns.map(t => `- ${t}`).join('\n')}
+` : ''}
 STRICT OPERATIONAL GUIDELINES:
 1. ANALYZE: Carefully process the user's question relative to ALL available columns.
 2. TEXTUAL RESPONSE: 
    - 'summary': A punchy, one-sentence headline of the main finding.
    - 'insight': A detailed, professional analysis. Break down trends, identify outliers, or answer specific calculations requested.
-3. VISUALIZATION:
+3. VISUALIZATION (QUERY PLAN):
+   - You only see ${privacy.schemaOnly ? 'the schema' : 'a sample'}, so NEVER invent chart numbers. Instead return a 'queryPlan' that a local engine runs over ${sampleNote ? `the ${dataset.data.length} sampled` : `ALL ${dataset.data.length}`} records.
    - Always try to generate a chart if the data allows for comparison, distribution, or trends.
-   - Choose 'bar' for categories, 'line' for time/sequences, 'pie' for parts-of-a-whole, 'scatter' for correlations.
-   - Map 'chartData' to:
-     - [{ "name": "Label", "value": 123 }, ...] for bar/line/pie.
-     - [{ "x": 10, "y": 20 }, ...] for scatter.
+   - Choose 'bar' for categories, 'line' for time/sequences, 'area' for cumulative volume over time, 'pie' for parts-of-a-whole, 'scatter' for correlations between two columns.
+   - For bar/line/area/pie: set 'groupBy' (category column), 'aggregation' (sum, mean, count, min, max, median) and 'valueColumn' (omit only for count).
+   - Multiple series ("revenue by month per region"): add 'seriesBy' (the second category) with 'stackedBar', 'groupedBar', 'line' or 'area'. To compare several measures instead, list them in 'valueColumns'.
+   - 'combo': a dual-axis chart. Set 'groupBy' and two 'valueColumns': the first is drawn as bars on the left axis, the second as a line on the right axis.
+   - 'histogram': the distribution of one numeric 'valueColumn'; optional 'bins'.
+   - 'boxPlot': quartiles and outliers of a numeric 'valueColumn', optionally per 'groupBy' category.
+   - 'heatmap': without groupBy it is a correlation matrix of the numeric 'columns' (omit to use all numeric columns); with 'groupBy' and 'seriesBy' it pivots the aggregated 'valueColumn'.
+   - 'forecast': for predictions ("sales next quarter"), trends with expected ranges, and unusual days or months. Set 'groupBy' to a date column, 'aggregation' and 'valueColumn' (omit for counts). Optional: 'interval' (day, week, month, quarter, year; chosen from the date span when omitted), 'horizon' (periods to predict; 0 when only anomalies are asked for), 'forecastMethod' (auto, movingAverage, exponentialSmoothing, seasonal; prefer auto) and 'anomalyMethod' (zscore, iqr). The engine resamples, forecasts with a 95% band and flags anomalous periods. Never use 'line' with made-up future values.
+   - For scatter: set 'xColumn' and 'yColumn' (numeric columns); 'aggregation' is ignored.
+   - Optional: 'filters' (operator one of eq, neq, gt, gte, lt, lte, contains, in; use 'values' for in), 'sort' ({ by: name|value, direction: asc|desc }) and 'limit' for top-N questions.
+   - Use exact column names from the metadata above. Omit 'dataset' to query "${dataset.name}".
    - Use high-quality, descriptive 'xAxisLabel' and 'yAxisLabel'.
-4. FALLBACK: If the data cannot answer the question, explain why clearly in the 'insight' and set 'chartType' to 'none'.
-5. OUTPUT: Return ONLY a valid JSON object following the responseSchema.`;
+4. NUMBERS: Chart values are computed locally from your plan, so do not state exact totals or averages in 'insight' that you could not read directly from the sample; describe what the chart measures instead.
+5. CHANGING THE DATA: When the user asks to clean or reshape the dataset ("remove rows where amount is negative", "add a margin column"), list the steps in 'transforms' and set 'chartType' to 'none'. They are applied only after the user confirms, so describe them in 'insight' as proposed changes.
+   - filter: { kind: "filter", filter: { column, operator, value }, mode: "remove" | "keep" }.
+   - formula: 'expression' uses column names (in [brackets] when they contain spaces), + - * / %, comparisons, and, or, if(cond, a, b) and abs, round, min, max, upper, lower, trim, len, concat, year, month, day, coalesce, isblank.
+   - Other kinds: rename (column, to), changeType (column, type), fillNulls (column, strategy, value), dropNulls (columns), split (column, separator, into), merge (columns, separator, name), dateBucket (column, unit, name), pivot (index, pivotColumn, valueColumn, aggregation), unpivot (idColumns, valueColumns, nameColumn, valueColumn), deduplicate (columns), dropColumns (columns).
+6. STATISTICAL TESTS: When the user asks whether a difference or relationship is significant, or real rather than chance, set 'statTest'. It runs locally over ${sampleNote ? 'the sampled' : 'all'} records and its statistic, p-value and effect size are shown next to your insight.
+   - tTest: mean of 'valueColumn' between two 'groups' of 'groupColumn'. mannWhitney: the same comparison for skewed data, outliers or ranks. anova: means across three or more groups.
+   - chiSquare: whether two categorical columns ('xColumn', 'yColumn') are related. pearson (linear) or spearman (monotonic): correlation of two numeric columns. regression: how 'yColumn' changes per unit of 'xColumn'.
+   - Never state a p-value or test statistic you did not get from a tool; explain what the test checks and how to read its result. Keep a chart of the comparison when it helps.
+7. FALLBACK: If the data cannot answer the question, explain why clearly in the 'insight' and set 'chartType' to 'none'.
+8. OUTPUT: Return ONLY a valid JSON object following the responseSchema.`;
 
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview", 
-      contents: [
-        ...history.map(h => ({ role: h.role === 'user' ? 'user' : 'model', parts: [{ text: h.content }] })),
-        { role: 'user', parts: [{ text: query }] }
-      ],
-      config: {
-        systemInstruction,
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            summary: { type: Type.STRING },
-            insight: { type: Type.STRING },
-            chartType: { type: Type.STRING, description: "One of: bar, line, pie, scatter, none" },
-            chartData: { 
-              type: Type.ARRAY, 
-              items: { 
-                type: Type.OBJECT, 
-                properties: {
-                  name: { type: Type.STRING },
-                  value: { type: Type.NUMBER },
-                  x: { type: Type.NUMBER },
-                  y: { type: Type.NUMBER }
-                }
-              }
-            },
-            xAxisLabel: { type: Type.STRING },
-            yAxisLabel: { type: Type.STRING },
-            suggestion: { type: Type.STRING, description: "A relevant follow-up question." }
-          },
-          required: ["summary", "insight", "chartType", "chartData"]
-        }
+  const turns = history.map(h => ({ role: h.role === 'user' ? 'user' as const : 'assistant' as const, content: h.content }));
+  const context = buildContext(dataset, profile, turns, query, { budget, privacy, reservedTokens: estimateTokens(render(EMPTY_PARTS)) });
+  const systemInstruction = render(context);
+  return {
+    systemInstruction,
+    history: context.history,
+    query,
+    profile: context.profile,
+    stats: {
+      ...context.stats,
+      estimatedTokens: estimateTokens([systemInstruction, query, ...context.history.map(t => t.content)].join('\n'))
+    }
+  };
+};
+
+export const analyzeData = async (
+  query: string,
+  dataset: Dataset,
+  profile: ColumnProfile[],
+  history: { role: string; content: string }[],
+  workspace: WorkspaceContext = { datasets: [], relationships: [] },
+  settings: ProviderSettings = DEFAULT_PROVIDER_SETTINGS,
+  options: AnalyzeOptions = {}
+): Promise<AIResponse> => {
+  const payload = buildAnalysisPayload(query, dataset, profile, history, workspace, options.privacy, settings.contextBudget);
+  const provider = getProvider(settings.provider);
+  const turns = payload.history;
+  const trace: ToolTraceStep[] = [];
+
+  // Investigation: the model calls local tools until it stops asking or hits the round limit. Providers
+  // without function calling skip this and answer in one shot, as does any tool-phase failure.
+  const investigate = async () => {
+    if (!provider.callTools || settings.useTools === false) return;
+    const privacy = options.privacy ?? DEFAULT_PRIVACY;
+    const run = createToolRunner({ dataset, profile, workspace: workspace.datasets.filter(d => d.id !== dataset.id), privacy });
+    const rounds: ToolRound[] = [];
+    try {
+      for (let i = 0; i < MAX_TOOL_ROUNDS; i++) {
+        const turn = await provider.callTools({
+          systemInstruction: payload.systemInstruction + TOOL_GUIDE,
+          history: turns,
+          query,
+          tools: availableTools(privacy),
+          rounds,
+          profile: payload.profile
+        }, settings, { signal: options.signal });
+        if (turn.calls.length === 0) return;
+        const ran = turn.calls.map(run);
+        if (options.confirmToolResults && !(await options.confirmToolResults(ran.map(r => r.step)))) return;
+        trace.push(...ran.map(r => r.step));
+        rounds.push({ calls: turn.calls, results: ran.map(r => r.result), raw: turn.raw });
+        options.onTrace?.([...trace]);
       }
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.warn(`${provider.label} tool calls failed; answering without them:`, error);
+    }
+  };
+
+  // One model call plus local validation and plan execution. Every problem found becomes an issue.
+  const attempt = async (attemptHistory: typeof turns, attemptQuery: string) => {
+    const text = await provider.generate({
+      systemInstruction: payload.systemInstruction + describeFindings(trace),
+      history: attemptHistory,
+      query: attemptQuery,
+      responseSchema: RESPONSE_SCHEMA,
+      profile: payload.profile
+    }, settings, {
+      signal: options.signal,
+      onText: text => options.onPartial?.({ summary: readPartialField(text, 'summary'), insight: readPartialField(text, 'insight') })
     });
+    if (!text) return { text, response: null, issues: [{ path: '$', message: 'Empty response.' }] };
+
+    const { response, issues } = validateResponse(parseResponseText(text));
+    // Plans run again later (pins, chart edits, exports), so they carry the filters the question was limited to.
+    const scoped = (target?: string) => dataset.scope && (!target || target === dataset.name);
+    if (response?.queryPlan && scoped(response.queryPlan.dataset)) {
+      response.queryPlan.filters = [...dataset.scope!, ...(response.queryPlan.filters ?? [])];
+    }
+    if (response?.statTest && scoped(response.statTest.dataset)) {
+      response.statTest.filters = [...dataset.scope!, ...(response.statTest.filters ?? [])];
+    }
+    if (response?.transforms) {
+      // Dry run, so steps naming unknown columns or bad formulas go back to the model.
+      try {
+        applyTransforms(dataset, response.transforms);
+      } catch (err: any) {
+        if (!(err instanceof TransformError)) throw err;
+        issues.push({ path: 'transforms', message: err.message });
+      }
+    }
+    if (response?.statTest) {
+      try {
+        response.statResult = runStatTest(response.statTest, resolvePlanDataset(response.statTest, dataset, workspace.datasets));
+      } catch (err: any) {
+        if (!(err instanceof StatTestError || err instanceof QueryPlanError)) throw err;
+        issues.push({ path: 'statTest', message: err.message });
+      }
+    }
+    if (!response || response.chartType === 'none') return { text, response, issues };
+    if (response.queryPlan) {
+      try {
+        const target = resolvePlanDataset(response.queryPlan, dataset, workspace.datasets);
+        const { chartData, series, stats } = executeQueryPlan(response.queryPlan, target, response.chartType);
+        response.chartData = chartData;
+        response.series = series;
+        response.queryStats = stats;
+      } catch (err: any) {
+        if (!(err instanceof QueryPlanError)) throw err;
+        issues.push({ path: 'queryPlan', message: err.message });
+        return { text, response, issues };
+      }
+    }
+    const checked = validateChartData(response.chartType, response.chartData, response.series);
+    response.chartData = checked.chartData;
+    return { text, response, issues: [...issues, ...checked.issues] };
+  };
 
-    const text = response.text;
-    if (!text) throw new Error("Empty AI response.");
-    
-    const parsed = JSON.parse(text);
-    return parsed as AIResponse;
+  try {
+    await investigate();
+    let result = await attempt(turns, query);
+    if (result.issues.length > 0) {
+      // Retry once, showing the model its own output and what was wrong with it.
+      result = await attempt(
+        [...turns, { role: 'user', content: query }, { role: 'assistant', content: result.text }],
+        describeIssuesForRetry(result.issues)
+      );
+    }
+    const { response, issues } = result;
+    if (!response) {
+      throw new ResponseValidationError(`${provider.label} returned a response that could not be used, even after a retry.`, issues);
+    }
+    if (issues.length > 0) {
+      // Only the parts that failed are left out of the answer.
+      const failed = (part: string) => issues.some(i => i.path === part || i.path.startsWith(`${part}.`) || i.path.startsWith(`${part}[`));
+      const transformsFailed = failed('transforms');
+      const testFailed = failed('statTest');
+      const chartFailed = issues.some(i => !/^(transforms|statTest)\b/.test(i.path));
+      const parts = [chartFailed && 'chart', transformsFailed && 'suggested transforms', testFailed && 'statistical test'].filter((p): p is string => !!p);
+      throw new ResponseValidationError(
+        `The answer is shown without its ${parts.join(' and ')}, which failed validation after a retry.`,
+        issues,
+        {
+          ...response,
+          ...(chartFailed ? { chartType: 'none', chartData: [], series: undefined, queryStats: undefined } : {}),
+          ...(transformsFailed ? { transforms: undefined } : {}),
+          ...(testFailed ? { statTest: undefined, statResult: undefined } : {}),
+          ...(trace.length ? { trace } : {})
+        }
+      );
+    }
+    return trace.length ? { ...response, trace } : response;
   } catch (error: any) {
-    console.error("Gemini API Error:", error);
-    throw new Error(error.message || "InsightAI is having trouble processing this request. Please try a different question.");
+    if (!isAbortError(error)) console.error(`${provider.label} error:`, error);
+    throw error;
   }
 };
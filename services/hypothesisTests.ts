@@ -0,0 +1,494 @@
+import { Dataset, DataRow, StatAssumption, StatTestRequest, StatTestResult } from "../types";
+import { matchesFilter } from "./queryEngine";
+import { mean, median, pearson, stdDev, sum, toNumber } from "./stats";
+
+// --- Hypothesis tests run locally over every record, so p-values are computed rather than guessed ---
+
+export const ALPHA = 0.05;
+const MAX_GROUPS = 50;
+const MAX_CATEGORIES = 30;
+// Group sizes from which the means are close enough to normal whatever the data's shape.
+const LARGE_SAMPLE = 30;
+const MAX_SKEW = 1;
+const MAX_SD_RATIO = 2;
+// Below this group size the normal approximation of Mann-Whitney U is rough.
+const MIN_RANK_SAMPLE = 8;
+
+export class StatTestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StatTestError';
+  }
+}
+
+// --- Distributions ---
+
+// Lanczos approximation (g = 7), accurate to about 15 digits.
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61503916999185,
+  12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7
+];
+const TINY = 1e-300;
+const EPSILON = 1e-14;
+const MAX_ITERATIONS = 500;
+
+const logGamma = (x: number): number => {
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  const z = x - 1;
+  let a = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i++) a += LANCZOS[i] / (z + i);
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(a);
+};
+
+const guard = (v: number) => (Math.abs(v) < TINY ? TINY : v);
+
+// Continued fraction of the incomplete beta function, evaluated with Lentz's method.
+const betaFraction = (a: number, b: number, x: number): number => {
+  let c = 1;
+  let d = 1 / guard(1 - ((a + b) * x) / (a + 1));
+  let h = d;
+  for (let m = 1; m <= MAX_ITERATIONS; m++) {
+    const even = (m * (b - m) * x) / ((a + 2 * m - 1) * (a + 2 * m));
+    d = 1 / guard(1 + even * d);
+    c = guard(1 + even / c);
+    h *= d * c;
+    const odd = (-(a + m) * (a + b + m) * x) / ((a + 2 * m) * (a + 2 * m + 1));
+    d = 1 / guard(1 + odd * d);
+    c = guard(1 + odd / c);
+    h *= d * c;
+    if (Math.abs(d * c - 1) < EPSILON) break;
+  }
+  return h;
+};
+
+/** Regularized incomplete beta function I_x(a, b). */
+const incompleteBeta = (x: number, a: number, b: number): number => {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2) ? (front * betaFraction(a, b, x)) / a : 1 - (front * betaFraction(b, a, 1 - x)) / b;
+};
+
+/** Regularized upper incomplete gamma function Q(a, x): a series below a + 1, a continued fraction above. */
+const upperGamma = (a: number, x: number): number => {
+  if (x <= 0) return 1;
+  const front = Math.exp(-x + a * Math.log(x) - logGamma(a));
+  if (x < a + 1) {
+    let term = 1 / a;
+    let total = term;
+    for (let n = 1; n < MAX_ITERATIONS && Math.abs(term) > Math.abs(total) * EPSILON; n++) {
+      term *= x / (a + n);
+      total += term;
+    }
+    return Math.max(0, 1 - front * total);
+  }
+  let b = x + 1 - a;
+  let c = 1 / TINY;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < MAX_ITERATIONS; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = 1 / guard(an * d + b);
+    c = guard(b + an / c);
+    h *= d * c;
+    if (Math.abs(d * c - 1) < EPSILON) break;
+  }
+  return front * h;
+};
+
+/** Two-sided p-value of a t statistic. */
+export const tTwoSided = (t: number, df: number): number => incompleteBeta(df / (df + t * t), df / 2, 0.5);
+
+/** Upper-tail p-value of an F statistic. */
+export const fUpperTail = (f: number, df1: number, df2: number): number =>
+  f <= 0 ? 1 : incompleteBeta(df2 / (df2 + df1 * f), df2 / 2, df1 / 2);
+
+/** Upper-tail p-value of a chi-square statistic. */
+export const chiSquareUpperTail = (x: number, df: number): number => upperGamma(df / 2, x / 2);
+
+/** Two-sided p-value of a standard normal z; P(|Z| > z) is Q(1/2, z²/2). */
+export const normalTwoSided = (z: number): number => upperGamma(0.5, (z * z) / 2);
+
+// --- Helpers ---
+
+/** Average ranks (1-based, ties share their mean rank) and the tie correction Σ(t³ − t). */
+const rank = (values: number[]): { ranks: number[]; ties: number } => {
+  const order = values.map((v, i) => [v, i] as const).sort((a, b) => a[0] - b[0]);
+  const ranks = new Array<number>(values.length);
+  let ties = 0;
+  for (let start = 0; start < order.length;) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1][0] === order[start][0]) end++;
+    const shared = (start + end) / 2 + 1;
+    for (let k = start; k <= end; k++) ranks[order[k][1]] = shared;
+    const t = end - start + 1;
+    ties += t ** 3 - t;
+    start = end + 1;
+  }
+  return { ranks, ties };
+};
+
+const skewness = (values: number[]): number | null => {
+  const sd = stdDev(values);
+  if (values.length < 3 || !sd) return null;
+  const m = mean(values)!;
+  const n = values.length;
+  return (n / ((n - 1) * (n - 2))) * sum(values.map(v => ((v - m) / sd) ** 3));
+};
+
+const variance = (values: number[]) => (stdDev(values) ?? 0) ** 2;
+
+const magnitude = (value: number, [small, medium, large]: number[]): StatTestResult['effectSize']['magnitude'] => {
+  const size = Math.abs(value);
+  return size >= large ? 'large' : size >= medium ? 'medium' : size >= small ? 'small' : 'negligible';
+};
+
+const format = (value: number) => Number(value.toPrecision(3)).toString();
+
+/** Normal enough for a test on means: a large group, or a small one without strong skew. */
+const normality = (groups: { name: string; values: number[] }[], label = 'Values roughly normal in each group'): StatAssumption => {
+  const small = groups.filter(g => g.values.length < LARGE_SAMPLE);
+  if (small.length === 0) return { label, status: 'met', detail: `Every group has at least ${LARGE_SAMPLE} values, so the means are close to normal.` };
+  const skewed = small
+    .map(g => ({ name: g.name, skew: skewness(g.values) }))
+    .filter(g => g.skew !== null && Math.abs(g.skew) > MAX_SKEW);
+  if (skewed.length > 0) {
+    return { label, status: 'violated', detail: `Strong skew in ${skewed.map(g => `${g.name} (${format(g.skew!)})`).join(', ')}; a rank-based test is safer.` };
+  }
+  return { label, status: 'met', detail: `Skewness within ±${MAX_SKEW} in groups under ${LARGE_SAMPLE} values.` };
+};
+
+const INDEPENDENCE: StatAssumption = { label: 'Independent observations', status: 'unchecked', detail: 'Each record should be a separate, unrelated observation.' };
+
+// --- Data access ---
+
+const requireColumn = (dataset: Dataset, column: string | undefined, role: string): string => {
+  if (!column) throw new StatTestError(`This test needs a ${role} column.`);
+  if (!dataset.columns.includes(column)) throw new StatTestError(`Statistical test references unknown ${role} column "${column}".`);
+  return column;
+};
+
+const filteredRows = (request: StatTestRequest, dataset: Dataset): DataRow[] => {
+  const filters = request.filters ?? [];
+  filters.forEach(f => requireColumn(dataset, f.column, 'filter'));
+  return filters.length > 0 ? dataset.data.filter(row => filters.every(f => matchesFilter(row, f))) : dataset.data;
+};
+
+const isBlank = (value: any) => value === null || value === undefined || value === '';
+
+/** Numeric values of the measure per category, largest groups first. */
+const groupValues = (rows: DataRow[], groupColumn: string, valueColumn: string) => {
+  const groups = new Map<string, number[]>();
+  for (const row of rows) {
+    const value = toNumber(row[valueColumn]);
+    if (value === null || isBlank(row[groupColumn])) continue;
+    const key = String(row[groupColumn]);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(value);
+  }
+  return Array.from(groups.entries()).map(([name, values]) => ({ name, values })).sort((a, b) => b.values.length - a.values.length);
+};
+
+/** The two groups to compare: the ones named (one named group is compared with all others), or the two largest. */
+const pickTwoGroups = (all: { name: string; values: number[] }[], requested: string[] = [], groupColumn: string) => {
+  const find = (name: string) => {
+    const key = name.trim().toLowerCase();
+    const group = all.find(g => g.name.toLowerCase() === key);
+    if (!group) throw new StatTestError(`"${groupColumn}" has no group "${name}". Groups include: ${all.slice(0, 10).map(g => g.name).join(', ')}.`);
+    return group;
+  };
+  if (requested.length > 2) throw new StatTestError('This test compares exactly two groups; use anova for more.');
+  if (requested.length === 2) return [find(requested[0]), find(requested[1])];
+  if (requested.length === 1) {
+    const chosen = find(requested[0]);
+    return [chosen, { name: `Not ${chosen.name}`, values: all.filter(g => g !== chosen).flatMap(g => g.values) }];
+  }
+  if (all.length < 2) throw new StatTestError(`"${groupColumn}" needs at least two groups with values to compare.`);
+  return all.slice(0, 2);
+};
+
+const pairs = (rows: DataRow[], xColumn: string, yColumn: string) => {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (const row of rows) {
+    const x = toNumber(row[xColumn]);
+    const y = toNumber(row[yColumn]);
+    if (x === null || y === null) continue;
+    xs.push(x);
+    ys.push(y);
+  }
+  if (xs.length < 3) throw new StatTestError(`Only ${xs.length} records have values for both "${xColumn}" and "${yColumn}"; at least 3 are needed.`);
+  return { xs, ys };
+};
+
+const summarize = (groups: { name: string; values: number[] }[]) =>
+  groups.map(g => ({ name: g.name, n: g.values.length, mean: mean(g.values) ?? undefined, median: median(g.values) ?? undefined }));
+
+// --- Tests ---
+
+const tTest = (request: StatTestRequest, dataset: Dataset, rows: DataRow[]): StatTestResult => {
+  const valueColumn = requireColumn(dataset, request.valueColumn, 'value');
+  const groupColumn = requireColumn(dataset, request.groupColumn, 'group');
+  const [a, b] = pickTwoGroups(groupValues(rows, groupColumn, valueColumn), request.groups, groupColumn);
+  if (a.values.length < 2 || b.values.length < 2) throw new StatTestError('Each group needs at least two values for a t-test.');
+  const [va, vb] = [variance(a.values) / a.values.length, variance(b.values) / b.values.length];
+  const se = Math.sqrt(va + vb);
+  if (se === 0) throw new StatTestError(`"${valueColumn}" does not vary within either group, so there is nothing to test.`);
+  const diff = mean(a.values)! - mean(b.values)!;
+  const t = diff / se;
+  // Welch–Satterthwaite degrees of freedom: no equal-variance assumption.
+  const df = (va + vb) ** 2 / (va ** 2 / (a.values.length - 1) + vb ** 2 / (b.values.length - 1));
+  const pooled = Math.sqrt(
+    ((a.values.length - 1) * variance(a.values) + (b.values.length - 1) * variance(b.values)) / (a.values.length + b.values.length - 2)
+  );
+  const d = pooled === 0 ? 0 : diff / pooled;
+  const sdRatio = Math.max(stdDev(a.values)!, stdDev(b.values)!) / Math.max(Math.min(stdDev(a.values)!, stdDev(b.values)!), TINY);
+  return {
+    test: 'tTest',
+    name: "Welch's t-test",
+    hypothesis: `Mean ${valueColumn} is the same for ${a.name} and ${b.name}`,
+    assumptions: [
+      INDEPENDENCE,
+      normality([a, b]),
+      { label: 'Equal variances not required', status: 'met', detail: `Welch's correction is used; the standard deviations differ by a factor of ${format(sdRatio)}.` }
+    ],
+    statistic: { name: 't', value: t },
+    df: [df],
+    pValue: tTwoSided(t, df),
+    effectSize: { name: "Cohen's d", value: d, magnitude: magnitude(d, [0.2, 0.5, 0.8]) },
+    n: a.values.length + b.values.length,
+    groups: summarize([a, b]),
+    alpha: ALPHA
+  };
+};
+
+const mannWhitney = (request: StatTestRequest, dataset: Dataset, rows: DataRow[]): StatTestResult => {
+  const valueColumn = requireColumn(dataset, request.valueColumn, 'value');
+  const groupColumn = requireColumn(dataset, request.groupColumn, 'group');
+  const [a, b] = pickTwoGroups(groupValues(rows, groupColumn, valueColumn), request.groups, groupColumn);
+  const [n1, n2] = [a.values.length, b.values.length];
+  if (n1 === 0 || n2 === 0) throw new StatTestError('Both groups need values for a Mann-Whitney test.');
+  const { ranks, ties } = rank([...a.values, ...b.values]);
+  const n = n1 + n2;
+  const u1 = sum(ranks.slice(0, n1)) - (n1 * (n1 + 1)) / 2;
+  const u = Math.min(u1, n1 * n2 - u1);
+  // Normal approximation with tie and continuity corrections.
+  const sigma = Math.sqrt(((n1 * n2) / 12) * (n + 1 - ties / (n * (n - 1))));
+  const z = sigma === 0 ? 0 : Math.max(0, Math.abs(u1 - (n1 * n2) / 2) - 0.5) / sigma;
+  const r = (2 * u1) / (n1 * n2) - 1;
+  return {
+    test: 'mannWhitney',
+    name: 'Mann-Whitney U test',
+    hypothesis: `${valueColumn} tends to be neither higher nor lower in ${a.name} than in ${b.name}`,
+    assumptions: [
+      INDEPENDENCE,
+      { label: 'No normality needed', status: 'met', detail: 'The test compares ranks, so skew and outliers do not distort it.' },
+      Math.min(n1, n2) >= MIN_RANK_SAMPLE
+        ? { label: 'Normal approximation', status: 'met', detail: `Both groups have at least ${MIN_RANK_SAMPLE} values.` }
+        : { label: 'Normal approximation', status: 'violated', detail: `A group has fewer than ${MIN_RANK_SAMPLE} values, so the p-value is approximate.` }
+    ],
+    statistic: { name: 'U', value: u },
+    pValue: sigma === 0 ? 1 : normalTwoSided(z),
+    effectSize: { name: 'Rank-biserial r', value: r, magnitude: magnitude(r, [0.1, 0.3, 0.5]) },
+    n,
+    groups: summarize([a, b]),
+    alpha: ALPHA
+  };
+};
+
+const anova = (request: StatTestRequest, dataset: Dataset, rows: DataRow[]): StatTestResult => {
+  const valueColumn = requireColumn(dataset, request.valueColumn, 'value');
+  const groupColumn = requireColumn(dataset, request.groupColumn, 'group');
+  let groups = groupValues(rows, groupColumn, valueColumn);
+  if (request.groups?.length) {
+    const wanted = new Set(request.groups.map(g => g.trim().toLowerCase()));
+    groups = groups.filter(g => wanted.has(g.name.toLowerCase()));
+  }
+  if (groups.length > MAX_GROUPS) throw new StatTestError(`"${groupColumn}" has ${groups.length} groups; ANOVA supports up to ${MAX_GROUPS}. Filter to fewer groups.`);
+  const k = groups.length;
+  const n = sum(groups.map(g => g.values.length));
+  if (k < 2 || n - k < 1) throw new StatTestError(`ANOVA needs at least two groups of "${groupColumn}" and more values than groups.`);
+  const grand = sum(groups.map(g => sum(g.values))) / n;
+  const between = sum(groups.map(g => g.values.length * (mean(g.values)! - grand) ** 2));
+  const within = sum(groups.map(g => {
+    const m = mean(g.values)!;
+    return sum(g.values.map(v => (v - m) ** 2));
+  }));
+  if (within === 0) throw new StatTestError(`"${valueColumn}" does not vary within any group, so there is nothing to test.`);
+  const [df1, df2] = [k - 1, n - k];
+  const f = between / df1 / (within / df2);
+  const sds = groups.map(g => stdDev(g.values)).filter((sd): sd is number => sd !== null && sd > 0);
+  const sdRatio = sds.length > 1 ? Math.max(...sds) / Math.min(...sds) : 1;
+  const etaSquared = between / (between + within);
+  return {
+    test: 'anova',
+    name: 'One-way ANOVA',
+    hypothesis: `Mean ${valueColumn} is the same across all ${k} ${groupColumn} groups`,
+    assumptions: [
+      INDEPENDENCE,
+      normality(groups),
+      sdRatio <= MAX_SD_RATIO
+        ? { label: 'Similar variances', status: 'met', detail: `Largest group standard deviation is ${format(sdRatio)}× the smallest.` }
+        : { label: 'Similar variances', status: 'violated', detail: `Largest group standard deviation is ${format(sdRatio)}× the smallest (over ${MAX_SD_RATIO}×).` }
+    ],
+    statistic: { name: 'F', value: f },
+    df: [df1, df2],
+    pValue: fUpperTail(f, df1, df2),
+    effectSize: { name: 'η²', value: etaSquared, magnitude: magnitude(etaSquared, [0.01, 0.06, 0.14]) },
+    n,
+    groups: summarize(groups),
+    alpha: ALPHA
+  };
+};
+
+const chiSquare = (request: StatTestRequest, dataset: Dataset, rows: DataRow[]): StatTestResult => {
+  const xColumn = requireColumn(dataset, request.xColumn ?? request.groupColumn, 'first category');
+  const yColumn = requireColumn(dataset, request.yColumn ?? request.valueColumn, 'second category');
+  const counts = new Map<string, Map<string, number>>();
+  const columnTotals = new Map<string, number>();
+  let n = 0;
+  for (const row of rows) {
+    if (isBlank(row[xColumn]) || isBlank(row[yColumn])) continue;
+    const [x, y] = [String(row[xColumn]), String(row[yColumn])];
+    if (!counts.has(x)) counts.set(x, new Map());
+    counts.get(x)!.set(y, (counts.get(x)!.get(y) ?? 0) + 1);
+    columnTotals.set(y, (columnTotals.get(y) ?? 0) + 1);
+    n++;
+  }
+  const [r, c] = [counts.size, columnTotals.size];
+  if (r < 2 || c < 2) throw new StatTestError(`"${xColumn}" and "${yColumn}" each need at least two categories with records.`);
+  if (r > MAX_CATEGORIES || c > MAX_CATEGORIES) {
+    throw new StatTestError(`Chi-square supports up to ${MAX_CATEGORIES} categories per column; "${r > MAX_CATEGORIES ? xColumn : yColumn}" has ${Math.max(r, c)}.`);
+  }
+  let statistic = 0;
+  let lowCells = 0;
+  let minExpected = Infinity;
+  counts.forEach(row => {
+    const rowTotal = sum(Array.from(row.values()));
+    columnTotals.forEach((columnTotal, y) => {
+      const expected = (rowTotal * columnTotal) / n;
+      statistic += ((row.get(y) ?? 0) - expected) ** 2 / expected;
+      if (expected < 5) lowCells++;
+      minExpected = Math.min(minExpected, expected);
+    });
+  });
+  const df = (r - 1) * (c - 1);
+  const smaller = Math.min(r, c) - 1;
+  const v = Math.sqrt(statistic / (n * smaller));
+  const cells = r * c;
+  return {
+    test: 'chiSquare',
+    name: 'Chi-square test of independence',
+    hypothesis: `${xColumn} and ${yColumn} are independent`,
+    assumptions: [
+      INDEPENDENCE,
+      lowCells <= 0.2 * cells && minExpected >= 1
+        ? { label: 'Expected counts large enough', status: 'met', detail: `${cells - lowCells} of ${cells} cells expect at least 5 records.` }
+        : { label: 'Expected counts large enough', status: 'violated', detail: `${lowCells} of ${cells} cells expect fewer than 5 records (smallest ${format(minExpected)}); merge rare categories.` }
+    ],
+    statistic: { name: 'χ²', value: statistic },
+    df: [df],
+    pValue: chiSquareUpperTail(statistic, df),
+    // Cohen's thresholds for Cramér's V shrink as the smaller table dimension grows.
+    effectSize: { name: "Cramér's V", value: v, magnitude: magnitude(v, [0.1, 0.3, 0.5].map(t => t / Math.sqrt(smaller))) },
+    n,
+    alpha: ALPHA
+  };
+};
+
+const correlation = (request: StatTestRequest, dataset: Dataset, rows: DataRow[], ranked: boolean): StatTestResult => {
+  const xColumn = requireColumn(dataset, request.xColumn, 'x');
+  const yColumn = requireColumn(dataset, request.yColumn, 'y');
+  const { xs, ys } = pairs(rows, xColumn, yColumn);
+  const r = ranked ? pearson(rank(xs).ranks, rank(ys).ranks) : pearson(xs, ys);
+  if (r === null) throw new StatTestError(`"${xColumn}" or "${yColumn}" does not vary, so there is no correlation to test.`);
+  const df = xs.length - 2;
+  const t = Math.abs(r) >= 1 ? Infinity : r * Math.sqrt(df / (1 - r * r));
+  return {
+    test: ranked ? 'spearman' : 'pearson',
+    name: ranked ? 'Spearman rank correlation' : 'Pearson correlation',
+    hypothesis: `No ${ranked ? 'monotonic' : 'linear'} relationship between ${xColumn} and ${yColumn}`,
+    assumptions: ranked
+      ? [
+          INDEPENDENCE,
+          { label: 'Monotonic relationship', status: 'unchecked', detail: 'Values should rise or fall together, not necessarily in a straight line.' }
+        ]
+      : [
+          INDEPENDENCE,
+          { label: 'Linear relationship', status: 'unchecked', detail: 'Check the scatter plot; a curved pattern understates r.' },
+          normality([{ name: xColumn, values: xs }, { name: yColumn, values: ys }], 'Both variables roughly normal')
+        ],
+    statistic: { name: ranked ? 'ρ' : 'r', value: r },
+    df: [df],
+    pValue: Number.isFinite(t) ? tTwoSided(t, df) : 0,
+    effectSize: { name: ranked ? 'ρ' : 'r', value: r, magnitude: magnitude(r, [0.1, 0.3, 0.5]) },
+    n: xs.length,
+    alpha: ALPHA
+  };
+};
+
+const regression = (request: StatTestRequest, dataset: Dataset, rows: DataRow[]): StatTestResult => {
+  const xColumn = requireColumn(dataset, request.xColumn, 'predictor');
+  const yColumn = requireColumn(dataset, request.yColumn, 'outcome');
+  const { xs, ys } = pairs(rows, xColumn, yColumn);
+  const [mx, my] = [mean(xs)!, mean(ys)!];
+  const sxx = sum(xs.map(x => (x - mx) ** 2));
+  if (sxx === 0) throw new StatTestError(`"${xColumn}" does not vary, so no line can be fitted.`);
+  const slope = sum(xs.map((x, i) => (x - mx) * (ys[i] - my))) / sxx;
+  const intercept = my - slope * mx;
+  const residuals = ys.map((y, i) => y - (intercept + slope * xs[i]));
+  const sse = sum(residuals.map(e => e * e));
+  const sst = sum(ys.map(y => (y - my) ** 2));
+  const df = xs.length - 2;
+  const slopeStdError = Math.sqrt(sse / df / sxx);
+  const t = slopeStdError === 0 ? Infinity : slope / slopeStdError;
+  const rSquared = sst === 0 ? 0 : 1 - sse / sst;
+
+  // Constant variance: residual spread for the lower and upper half of the predictor.
+  const order = xs.map((_, i) => i).sort((a, b) => xs[a] - xs[b]);
+  const half = Math.floor(order.length / 2);
+  const spreads = [order.slice(0, half), order.slice(half)].map(idx => stdDev(idx.map(i => residuals[i])) ?? 0);
+  const spreadRatio = Math.max(...spreads) / Math.max(Math.min(...spreads), TINY);
+  return {
+    test: 'regression',
+    name: 'Simple linear regression',
+    hypothesis: `The slope of ${yColumn} on ${xColumn} is zero`,
+    assumptions: [
+      INDEPENDENCE,
+      { label: 'Linear relationship', status: 'unchecked', detail: 'Check the scatter plot for curvature.' },
+      normality([{ name: 'residuals', values: residuals }], 'Residuals roughly normal'),
+      spreadRatio <= MAX_SD_RATIO
+        ? { label: 'Constant residual spread', status: 'met', detail: `Residual spread differs by ${format(spreadRatio)}× between low and high ${xColumn}.` }
+        : { label: 'Constant residual spread', status: 'violated', detail: `Residual spread differs by ${format(spreadRatio)}× between low and high ${xColumn}.` }
+    ],
+    statistic: { name: 't', value: t },
+    df: [df],
+    pValue: Number.isFinite(t) ? tTwoSided(t, df) : 0,
+    effectSize: { name: 'R²', value: rSquared, magnitude: magnitude(rSquared, [0.02, 0.13, 0.26]) },
+    n: xs.length,
+    regression: { slope, intercept, slopeStdError, rSquared },
+    alpha: ALPHA
+  };
+};
+
+/**
+ * Runs the requested test over every record of the dataset (after the request's filters).
+ * Throws StatTestError when the request names unknown columns or the data cannot support the test.
+ */
+export const runStatTest = (request: StatTestRequest, dataset: Dataset): StatTestResult => {
+  const rows = filteredRows(request, dataset);
+  switch (request.test) {
+    case 'tTest': return tTest(request, dataset, rows);
+    case 'mannWhitney': return mannWhitney(request, dataset, rows);
+    case 'anova': return anova(request, dataset, rows);
+    case 'chiSquare': return chiSquare(request, dataset, rows);
+    case 'pearson': return correlation(request, dataset, rows, false);
+    case 'spearman': return correlation(request, dataset, rows, true);
+    case 'regression': return regression(request, dataset, rows);
+  }
+};
+
+/** "p < 0.001" style, as reported in papers. */
+export const formatPValue = (p: number): string => (p < 0.001 ? 'p < 0.001' : `p = ${p.toFixed(3)}`);
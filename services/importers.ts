@@ -0,0 +1,144 @@
+import * as XLSX from 'xlsx';
+import { ImportSource } from "../types";
+import { decodeText, detectDelimiter, parseDelimited } from "./csvParser";
+
+// --- File readers: every format is normalized to raw string records for the import preview ---
+
+export const SUPPORTED_EXTENSIONS = ['.csv', '.tsv', '.txt', '.xlsx', '.xls', '.json', '.ndjson', '.jsonl'];
+
+/** Only this much of a delimited file is read for the import preview; larger files are streamed on import. */
+export const PREVIEW_BYTES = 512 * 1024;
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+const extensionOf = (fileName: string) => {
+  const dot = fileName.lastIndexOf('.');
+  return dot === -1 ? '' : fileName.slice(dot).toLowerCase();
+};
+
+const cellToString = (value: any): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) {
+    // Excel dates without a time component are stored at local midnight.
+    const iso = new Date(value.getTime() - value.getTimezoneOffset() * 60000).toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso.slice(0, 19).replace('T', ' ');
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+/** With `file`, the buffer holds only the head of that file; the rest is streamed on import. */
+export const readDelimited = (fileName: string, buffer: ArrayBuffer, file?: File): ImportSource => {
+  const decoded = decodeText(buffer, !!file);
+  // The head usually ends mid-record, so it is cut back to the last complete line.
+  const text = file ? decoded.text.slice(0, decoded.text.lastIndexOf('\n') + 1) : decoded.text;
+  const delimiter = detectDelimiter(text);
+  const source: ImportSource = { fileName, format: 'delimited', records: parseDelimited(text, delimiter), text, delimiter, encoding: decoded.encoding };
+  return file ? { ...source, file, partial: true } : source;
+};
+
+export const readWorkbook = (fileName: string, buffer: ArrayBuffer): ImportSource => {
+  const workbook = XLSX.read(buffer, { type: 'array', cellDates: true });
+  if (workbook.SheetNames.length === 0) throw new ImportError('The workbook has no sheets.');
+
+  const readSheet = (sheet: string): string[][] => {
+    const rows = XLSX.utils.sheet_to_json<any[]>(workbook.Sheets[sheet], { header: 1, raw: true, defval: '', blankrows: false });
+    return rows.map(r => r.map(cellToString));
+  };
+
+  // Open the first sheet that actually contains data.
+  const sheet = workbook.SheetNames.find(name => readSheet(name).length > 0) ?? workbook.SheetNames[0];
+  return { fileName, format: 'excel', records: readSheet(sheet), sheetNames: workbook.SheetNames, sheet, readSheet };
+};
+
+/** Flattens nested objects into dotted keys: { a: { b: 1 } } becomes { "a.b": 1 }. Arrays are kept as JSON text. */
+export const flattenObject = (value: Record<string, any>, prefix = '', out: Record<string, any> = {}): Record<string, any> => {
+  Object.entries(value).forEach(([key, v]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (v !== null && typeof v === 'object' && !Array.isArray(v) && Object.keys(v).length > 0) {
+      flattenObject(v, path, out);
+    } else {
+      out[path] = v;
+    }
+  });
+  return out;
+};
+
+const isRecord = (value: any): value is Record<string, any> => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const parseJsonObjects = (text: string): Record<string, any>[] => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (Array.isArray(parsed)) return parsed;
+      // Common API envelope: { "data": [ ... ], "total": 2 }. An object with other lists, or a list of
+      // plain values, is a single record.
+      const lists = Object.values(parsed).filter(Array.isArray);
+      const [nested] = lists;
+      if (lists.length === 1 && nested.length > 0 && nested.every(isRecord)) return nested;
+      return [parsed];
+    } catch (err) {
+      // A single line that fails to parse as a whole document may still be NDJSON.
+      if (trimmed.startsWith('[')) throw new ImportError(`Invalid JSON: ${(err as Error).message}`);
+    }
+  }
+
+  return trimmed.split(/\r?\n/).filter(line => line.trim() !== '').map((line, i) => {
+    try {
+      return JSON.parse(line);
+    } catch {
+      throw new ImportError(`Invalid JSON on line ${i + 1}.`);
+    }
+  });
+};
+
+export const readJson = (fileName: string, buffer: ArrayBuffer): ImportSource => {
+  const { text, encoding } = decodeText(buffer);
+  const objects = parseJsonObjects(text).filter(isRecord);
+  if (objects.length === 0) throw new ImportError('Expected an array of objects or one JSON object per line.');
+
+  const flattened = objects.map(o => flattenObject(o));
+  const columns: string[] = [];
+  const seen = new Set<string>();
+  flattened.forEach(row => Object.keys(row).forEach(key => {
+    if (!seen.has(key)) {
+      seen.add(key);
+      columns.push(key);
+    }
+  }));
+
+  const records = [columns, ...flattened.map(row => columns.map(c => cellToString(row[c])))];
+  return { fileName, format: 'json', records, encoding };
+};
+
+export const readImportFile = (file: File): Promise<ImportSource> =>
+  new Promise((resolve, reject) => {
+    const ext = extensionOf(file.name);
+    const isWorkbook = ext === '.xlsx' || ext === '.xls';
+    const isJson = ext === '.json' || ext === '.ndjson' || ext === '.jsonl';
+    // Large delimited files: only the head is read here; the import streams the rest in a worker.
+    const streamed = !isWorkbook && !isJson && file.size > PREVIEW_BYTES;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        const buffer = event.target?.result as ArrayBuffer;
+        const source = isWorkbook
+          ? readWorkbook(file.name, buffer)
+          : isJson
+            ? readJson(file.name, buffer)
+            : readDelimited(file.name, buffer, streamed ? file : undefined);
+        if (source.records.length === 0) throw new ImportError('Could not detect columns.');
+        resolve(source);
+      } catch (err) {
+        reject(err);
+      }
+    };
+    reader.onerror = () => reject(new ImportError('The file could not be read.'));
+    reader.readAsArrayBuffer(streamed ? file.slice(0, PREVIEW_BYTES) : file);
+  });
@@ -0,0 +1,87 @@
+import { ColumnType, Dataset, DataRow, DatasetSample, Delimiter, TextEncoding } from "../types";
+import { ImportError } from "./importers";
+import { abortError } from "./providers";
+
+// --- Streaming import of large delimited files in a Web Worker ---
+
+/** Above this many cells (rows × columns) only a sample is kept in memory. */
+export const MAX_IN_MEMORY_CELLS = 2_000_000;
+
+export interface IngestRequest {
+  file: File;
+  delimiter: Delimiter;
+  encoding: TextEncoding;
+  headerRow: number;
+  columns: string[];
+  columnTypes: ColumnType[];
+  maxCells: number;
+  stratifyBy?: string | null; // Column to stratify a sample by; null for a simple random sample, unset to pick one
+}
+
+export interface IngestProgress {
+  phase: 'reading' | 'sampling' | 'profiling';
+  bytesRead: number;
+  totalBytes: number;
+  rows: number;
+}
+
+export type IngestMessage =
+  | { type: 'progress'; progress: IngestProgress }
+  | { type: 'done'; data: DataRow[]; sample?: DatasetSample }
+  | { type: 'error'; message: string };
+
+/** Parses the file off the main thread. Aborting the signal terminates the worker. */
+export const ingestFile = (
+  request: IngestRequest,
+  onProgress: (progress: IngestProgress) => void,
+  signal?: AbortSignal
+): Promise<Dataset> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const worker = new Worker(new URL('./ingest.worker.ts', import.meta.url), { type: 'module' });
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', cancel);
+    };
+    const cancel = () => {
+      finish();
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', cancel);
+
+    worker.onmessage = (event: MessageEvent<IngestMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message.progress);
+        return;
+      }
+      finish();
+      if (message.type === 'error') {
+        reject(new ImportError(message.message));
+        return;
+      }
+      const types: Record<string, ColumnType> = {};
+      request.columns.forEach((col, i) => { types[col] = request.columnTypes[i]; });
+      resolve({
+        id: Math.random().toString(36).substr(2, 9),
+        name: request.file.name,
+        columns: request.columns,
+        data: message.data,
+        columnTypes: types,
+        sample: message.sample
+      });
+    };
+    worker.onerror = (event: ErrorEvent) => {
+      finish();
+      reject(new ImportError(event.message || 'The file could not be read.'));
+    };
+    worker.postMessage(request);
+  });
+
+/** e.g. "Stratified sample of 40,000 of 2,000,000 rows (by region)", or null for complete datasets. */
+export const describeSample = (dataset: Dataset): string | null => {
+  const { sample } = dataset;
+  if (!sample) return null;
+  const size = `${dataset.data.length.toLocaleString()} of ${sample.totalRows.toLocaleString()} rows`;
+  return sample.stratifiedBy ? `Stratified sample of ${size} (by ${sample.stratifiedBy})` : `Random sample of ${size}`;
+};
@@ -0,0 +1,65 @@
+import { IngestMessage, IngestProgress, IngestRequest } from "./ingest";
+import { createDelimitedParser } from "./csvParser";
+import { convertValue } from "./typeInference";
+import { profileValues } from "./profiler";
+import { appendRow, columnValues, createColumnStore, pickStratifyColumn, rowAt, stratifiedSample } from "./columnStore";
+
+// Streams a delimited file into a column store, then returns every row or, past the memory
+// budget, a sample plus a profile computed over all rows.
+
+const PROGRESS_INTERVAL_MS = 100;
+
+const ctx = self as unknown as Worker;
+const post = (message: IngestMessage) => ctx.postMessage(message);
+
+const ingest = async (request: IngestRequest): Promise<IngestMessage> => {
+  const { file, delimiter, encoding, headerRow, columns, columnTypes, maxCells, stratifyBy } = request;
+  const store = createColumnStore(columns, columnTypes);
+  const parser = createDelimitedParser(delimiter);
+  const decoder = new TextDecoder(encoding);
+  const progress = (phase: IngestProgress['phase'], bytesRead: number) =>
+    post({ type: 'progress', progress: { phase, bytesRead, totalBytes: file.size, rows: store.length } });
+
+  let recordIndex = 0;
+  const add = (records: string[][]) => records.forEach(record => {
+    // Records up to and including the header row were handled by the preview.
+    if (recordIndex++ <= headerRow || !record.some(v => v.trim() !== '')) return;
+    appendRow(store, columns.map((_, i) => convertValue(record[i], columnTypes[i] ?? 'categorical')));
+  });
+
+  const reader = file.stream().getReader();
+  let bytesRead = 0;
+  let reported = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytesRead += value.byteLength;
+    add(parser.push(decoder.decode(value, { stream: true })));
+    if (Date.now() - reported >= PROGRESS_INTERVAL_MS) {
+      progress('reading', bytesRead);
+      reported = Date.now();
+    }
+  }
+  add(parser.push(decoder.decode()));
+  add(parser.end());
+
+  const rowLimit = Math.max(1, Math.floor(maxCells / Math.max(1, columns.length)));
+  if (store.length <= rowLimit) {
+    return { type: 'done', data: Array.from({ length: store.length }, (_, i) => rowAt(store, i)) };
+  }
+
+  progress('sampling', bytesRead);
+  const chosen = stratifyBy ? columns.indexOf(stratifyBy) : -1;
+  const stratum = stratifyBy === null ? null : chosen !== -1 ? chosen : pickStratifyColumn(store);
+  const data = stratifiedSample(store, rowLimit, stratum).map(i => rowAt(store, i));
+
+  progress('profiling', bytesRead);
+  const profile = columns.map((column, c) => profileValues(column, columnValues(store, c), columnTypes[c]));
+  return { type: 'done', data, sample: { totalRows: store.length, stratifiedBy: stratum === null ? undefined : columns[stratum], profile } };
+};
+
+ctx.onmessage = (event: MessageEvent<IngestRequest>) => {
+  ingest(event.data)
+    .then(post)
+    .catch((err: Error) => post({ type: 'error', message: err.message || 'The file could not be parsed.' }));
+};
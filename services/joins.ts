@@ -0,0 +1,111 @@
+import { ColumnType, Dataset, DataRow, JoinDefinition, JoinType } from "../types";
+
+export const JOIN_TYPES: { value: JoinType; label: string }[] = [
+  { value: 'inner', label: 'Inner' },
+  { value: 'left', label: 'Left' },
+  { value: 'full', label: 'Full outer' }
+];
+
+const keyOf = (row: DataRow, columns: string[]): string | null => {
+  const parts: string[] = [];
+  for (const col of columns) {
+    const v = row[col];
+    // SQL semantics: a null in any key column never matches.
+    if (v === null || v === undefined || v === '') return null;
+    parts.push(String(v).trim().toLowerCase());
+  }
+  return JSON.stringify(parts);
+};
+
+/** Gives a dataset name that is not already taken ("sales.csv (2)"). */
+export const uniqueDatasetName = (name: string, existing: Dataset[]): string => {
+  const taken = new Set(existing.map(d => d.name));
+  if (!taken.has(name)) return name;
+  let i = 2;
+  while (taken.has(`${name} (${i})`)) i++;
+  return `${name} (${i})`;
+};
+
+/**
+ * Hash join of two datasets on one or more key pairs. Right-hand columns that collide with
+ * left-hand names are prefixed with the right dataset's name; right keys equal to their left
+ * counterpart are merged into a single column.
+ */
+export const joinDatasets = (left: Dataset, right: Dataset, join: JoinDefinition): Dataset => {
+  if (join.keys.length === 0) throw new Error('A join needs at least one key column pair.');
+  join.keys.forEach(k => {
+    if (!left.columns.includes(k.left)) throw new Error(`"${left.name}" has no column "${k.left}".`);
+    if (!right.columns.includes(k.right)) throw new Error(`"${right.name}" has no column "${k.right}".`);
+  });
+
+  const leftKeys = join.keys.map(k => k.left);
+  const rightKeys = join.keys.map(k => k.right);
+  const mergedRightKeys = new Set(join.keys.filter(k => k.left === k.right).map(k => k.right));
+
+  const rightColumnNames = new Map<string, string>();
+  right.columns.forEach(col => {
+    if (mergedRightKeys.has(col)) return;
+    rightColumnNames.set(col, left.columns.includes(col) ? `${right.name}.${col}` : col);
+  });
+  const columns = [...left.columns, ...rightColumnNames.values()];
+
+  const index = new Map<string, DataRow[]>();
+  right.data.forEach(row => {
+    const key = keyOf(row, rightKeys);
+    if (key === null) return;
+    const bucket = index.get(key);
+    if (bucket) bucket.push(row); else index.set(key, [row]);
+  });
+
+  const combine = (l: DataRow | null, r: DataRow | null): DataRow => {
+    const out: DataRow = {};
+    left.columns.forEach(col => { out[col] = l ? l[col] ?? null : null; });
+    // Merged key columns take the right value when there is no left row (full join).
+    if (!l && r) join.keys.forEach(k => { if (mergedRightKeys.has(k.right)) out[k.left] = r[k.right]; });
+    rightColumnNames.forEach((name, col) => { out[name] = r ? r[col] ?? null : null; });
+    return out;
+  };
+
+  const data: DataRow[] = [];
+  const matchedRight = new Set<DataRow>();
+  left.data.forEach(l => {
+    const key = keyOf(l, leftKeys);
+    const matches = key === null ? undefined : index.get(key);
+    if (matches) {
+      matches.forEach(r => {
+        matchedRight.add(r);
+        data.push(combine(l, r));
+      });
+    } else if (join.type !== 'inner') {
+      data.push(combine(l, null));
+    }
+  });
+  if (join.type === 'full') {
+    right.data.forEach(r => { if (!matchedRight.has(r)) data.push(combine(null, r)); });
+  }
+
+  const columnTypes: Record<string, ColumnType> = {};
+  left.columns.forEach(col => { if (left.columnTypes?.[col]) columnTypes[col] = left.columnTypes[col]; });
+  rightColumnNames.forEach((name, col) => { if (right.columnTypes?.[col]) columnTypes[name] = right.columnTypes[col]; });
+
+  return {
+    id: Math.random().toString(36).substr(2, 9),
+    name: `${left.name} ⋈ ${right.name}`,
+    columns,
+    data,
+    columnTypes,
+    derivedFrom: join
+  };
+};
+
+/** Describes every join in the workspace in terms the model can use, e.g. for cross-table questions. */
+export const describeRelationships = (datasets: Dataset[]): string[] => {
+  const byId = new Map(datasets.map(d => [d.id, d]));
+  return datasets.filter(d => d.derivedFrom).map(d => {
+    const join = d.derivedFrom!;
+    const left = byId.get(join.leftId)?.name ?? 'removed dataset';
+    const right = byId.get(join.rightId)?.name ?? 'removed dataset';
+    const on = join.keys.map(k => `${left}.${k.left} = ${right}.${k.right}`).join(' AND ');
+    return `"${d.name}" is a ${join.type} join of "${left}" and "${right}" ON ${on}`;
+  });
+};
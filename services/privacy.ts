@@ -0,0 +1,175 @@
+import { ColumnPolicy, ColumnProfile, Dataset, DataRow, PiiKind, PrivacySettings, QueryFilter } from "../types";
+
+// --- PII detection and the per-column policies applied before anything is sent to a model ---
+
+const DETECTION_SAMPLE = 500;
+const MATCH_RATIO = 0.8;
+
+export const DEFAULT_PRIVACY: PrivacySettings = { schemaOnly: false, previewBeforeSend: false };
+
+export const PII_LABELS: Record<PiiKind, string> = {
+  email: 'Email',
+  phone: 'Phone',
+  name: 'Person name',
+  cardNumber: 'Card number',
+  nationalId: 'National ID'
+};
+
+export const COLUMN_POLICIES: { value: ColumnPolicy; label: string }[] = [
+  { value: 'send', label: 'Send' },
+  { value: 'mask', label: 'Mask' },
+  { value: 'hash', label: 'Hash' },
+  { value: 'exclude', label: 'Exclude' }
+];
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+const PHONE = /^\+?[\d\s().-]{7,20}$/;
+const SSN = /^\d{3}-\d{2}-\d{4}$/;
+const PERSON_NAME = /^[A-Z][a-zA-Z'’-]+(\s+[A-Z][a-zA-Z'’.-]*){0,3}$/;
+
+const PHONE_HINT = /phone|mobile|\btel\b|telephone|\bcell\b|fax/i;
+const NAME_HINT = /(^|[^a-z])(first|last|full|given|family|middle|sur)?[\s_-]?name$|^(customer|contact|employee|person|patient|client|owner)$/i;
+// "Product name" and friends are not about people.
+const NOT_A_PERSON = /product|company|item|file|city|country|state|region|category|brand|store|street|project|team|department|host|domain|user_?name|display/i;
+const ID_HINT = /ssn|social[\s_-]?security|passport|national[\s_-]?id|tax[\s_-]?id|\bnin\b|driver'?s?[\s_-]?licen[cs]e/i;
+
+const digitsOf = (value: string) => value.replace(/\D/g, '');
+
+// Card numbers carry a Luhn check digit, which separates them from other long digit strings.
+const luhnValid = (digits: string) => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+};
+
+const isCardNumber = (value: string) => {
+  if (!/^[\d\s-]+$/.test(value)) return false;
+  const digits = digitsOf(value);
+  return digits.length >= 13 && digits.length <= 19 && luhnValid(digits);
+};
+
+const isPhone = (value: string) => {
+  const digits = digitsOf(value).length;
+  return PHONE.test(value) && digits >= 7 && digits <= 15;
+};
+
+const share = (values: string[], test: (v: string) => boolean) =>
+  values.length === 0 ? 0 : values.filter(test).length / values.length;
+
+/**
+ * Guesses whether a column holds personal data from its name and a sample of its values.
+ * Names and phone numbers need a matching column name too, since their value patterns alone
+ * also fit product names and plain numeric codes.
+ */
+export const detectPii = (column: string, values: any[]): PiiKind | undefined => {
+  const sample = values.slice(0, DETECTION_SAMPLE).map(v => String(v).trim()).filter(Boolean);
+  if (sample.length === 0) return undefined;
+  if (share(sample, v => EMAIL.test(v)) >= MATCH_RATIO) return 'email';
+  if (share(sample, isCardNumber) >= MATCH_RATIO) return 'cardNumber';
+  if (share(sample, v => SSN.test(v)) >= MATCH_RATIO || ID_HINT.test(column)) return 'nationalId';
+  if (PHONE_HINT.test(column) && share(sample, isPhone) >= MATCH_RATIO) return 'phone';
+  if (NAME_HINT.test(column) && !NOT_A_PERSON.test(column) && share(sample, v => PERSON_NAME.test(v)) >= MATCH_RATIO) return 'name';
+  return undefined;
+};
+
+/** The column's policy: the user's choice, else mask for detected PII and send for everything else. */
+export const columnPolicy = (dataset: Dataset, profile: ColumnProfile | undefined, column: string): ColumnPolicy =>
+  dataset.columnPolicies?.[column] ?? (profile?.pii ? 'mask' : 'send');
+
+// Least to most protective: a hash hides every character a mask keeps, and excluding hides the column.
+const POLICY_ORDER: ColumnPolicy[] = ['send', 'mask', 'hash', 'exclude'];
+
+export const strictestPolicy = (policies: ColumnPolicy[]): ColumnPolicy =>
+  policies.reduce<ColumnPolicy>((a, b) => (POLICY_ORDER.indexOf(b) > POLICY_ORDER.indexOf(a) ? b : a), 'send');
+
+/** A column's policy judged from its rows, for tables without a profile (e.g. between transform steps). */
+export const rowsPolicy = (policies: Record<string, ColumnPolicy> | undefined, column: string, rows: DataRow[]): ColumnPolicy =>
+  policies?.[column] ?? (detectPii(column, rows.slice(0, DETECTION_SAMPLE).map(r => r[column]).filter(v => v !== null && v !== undefined)) ? 'mask' : 'send');
+
+const maskValue = (value: string, pii?: PiiKind): string => {
+  switch (pii) {
+    case 'email': {
+      const [local, domain] = value.split('@');
+      return `${local.slice(0, 1)}***@${domain}`;
+    }
+    case 'cardNumber': return `**** ${digitsOf(value).slice(-4)}`;
+    case 'phone': return `***${digitsOf(value).slice(-2)}`;
+    case 'name': return value.split(/\s+/).map(part => `${part.slice(0, 1)}.`).join(' ');
+    case 'nationalId': return '***';
+    default: return value.length <= 2 ? '***' : `${value.slice(0, 1)}***`;
+  }
+};
+
+// A fresh salt per page load keeps hashes consistent within a session, so the model can still
+// group and count by the column, without letting anyone look values up across sessions.
+const SALT = Math.random().toString(36).slice(2);
+
+/** FNV-1a over the salted value. Not cryptographic; it only has to hide values from the model. */
+const hashValue = (value: string): string => {
+  let hash = 0x811c9dc5;
+  const input = `${SALT}:${value}`;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `#${(hash >>> 0).toString(16).padStart(8, '0')}`;
+};
+
+const protect = (value: any, policy: ColumnPolicy, pii?: PiiKind) => {
+  if (value === null || value === undefined || value === '' || policy === 'send') return value;
+  return policy === 'hash' ? hashValue(String(value)) : maskValue(String(value), pii);
+};
+
+/** Filters as a model may see them: values on masked or hashed columns protected, filters on excluded columns left out. */
+export const privateFilters = (dataset: Dataset, profile: ColumnProfile[], filters: QueryFilter[]): QueryFilter[] =>
+  filters.flatMap(f => {
+    const columnProfile = profile.find(p => p.column === f.column);
+    const policy = columnPolicy(dataset, columnProfile, f.column);
+    if (policy === 'exclude') return [];
+    const hide = (v: string | number) => protect(v, policy, columnProfile?.pii);
+    return [{ ...f, ...(f.value !== undefined ? { value: hide(f.value) } : {}), ...(f.values ? { values: f.values.map(hide) } : {}) }];
+  });
+
+export interface PrivateView {
+  rows: DataRow[];
+  profile: ColumnProfile[];
+  protectedColumns: string[]; // Masked or hashed, so their values must not be used in filters
+  excludedColumns: string[];
+}
+
+/** The rows and profile of a dataset as a model may see them under the column policies. */
+export const privateView = (dataset: Dataset, profile: ColumnProfile[], rows: DataRow[]): PrivateView => {
+  const policies = new Map(profile.map(p => [p.column, columnPolicy(dataset, p, p.column)]));
+  const policyOf = (column: string) => policies.get(column) ?? columnPolicy(dataset, undefined, column);
+  const pii = new Map(profile.map(p => [p.column, p.pii]));
+  const kept = dataset.columns.filter(c => policyOf(c) !== 'exclude');
+
+  return {
+    rows: rows.map(row => Object.fromEntries(kept.map(c => [c, protect(row[c], policyOf(c), pii.get(c))]))),
+    profile: profile
+      .filter(p => policyOf(p.column) !== 'exclude')
+      .map(p => {
+        const policy = policyOf(p.column);
+        if (policy === 'send') return p;
+        // Extremes of a numeric PII column (a phone number stored as a number) are real values.
+        const hide = (v: number | string | undefined) => (typeof v === 'string' ? protect(v, policy, p.pii) : p.pii ? undefined : v);
+        return {
+          ...p,
+          min: hide(p.min),
+          max: hide(p.max),
+          quantiles: p.pii ? undefined : p.quantiles,
+          topCategories: p.topCategories.map(c => ({ ...c, value: protect(c.value, policy, p.pii) })),
+          histogram: p.histogram.map(b => ({ ...b, label: protect(b.label, policy, p.pii) }))
+        };
+      }),
+    protectedColumns: kept.filter(c => policyOf(c) === 'mask' || policyOf(c) === 'hash'),
+    excludedColumns: dataset.columns.filter(c => policyOf(c) === 'exclude')
+  };
+};
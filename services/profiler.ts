@@ -0,0 +1,137 @@
+import { ColumnProfile, ColumnType, Dataset, ProfileWarning } from "../types";
+import { inferColumnType, parseDateValue } from "./typeInference";
+import { detectPii } from "./privacy";
+import { formatCompact, histogramBins, mean, quantileSorted, stdDev, sturgesBins, toNumber } from "./stats";
+
+const TOP_CATEGORIES = 5;
+const MAX_HISTOGRAM_BINS = 12;
+const HIGH_NULL_RATIO = 0.5;
+const HIGH_CARDINALITY_RATIO = 0.9;
+const MIXED_TYPE_RATIO = 0.05;
+
+const isNumericType = (type: ColumnType) => type === 'integer' || type === 'decimal';
+
+const isMissing = (value: any) => value === null || value === undefined || value === '';
+
+const formatBinEdge = (value: number, type: ColumnType) =>
+  type === 'date' ? new Date(value).toISOString().slice(0, 10) : formatCompact(value);
+
+const buildHistogram = (sorted: number[], type: ColumnType): { label: string; count: number }[] => {
+  if (sorted.length > 0 && sorted[0] === sorted[sorted.length - 1]) return [{ label: formatBinEdge(sorted[0], type), count: sorted.length }];
+  // Sturges' rule, capped so the sparkline stays legible.
+  const bins = Math.min(MAX_HISTOGRAM_BINS, sturgesBins(sorted.length));
+  return histogramBins(sorted, bins).map(b => ({ label: `${formatBinEdge(b.start, type)} – ${formatBinEdge(b.end, type)}`, count: b.count }));
+};
+
+const topCategories = (values: any[]) => {
+  const counts = new Map<string, number>();
+  values.forEach(v => {
+    const key = String(v);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  return {
+    distinctCount: counts.size,
+    top: Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, TOP_CATEGORIES)
+      .map(([value, count]) => ({ value, count }))
+  };
+};
+
+/** Profiles one column's values; the type is inferred when not given. */
+export const profileValues = (column: string, raw: any[], knownType?: ColumnType): ColumnProfile => {
+  const present = raw.filter(v => !isMissing(v));
+  const type = knownType ?? inferColumnType(column, present.slice(0, 5000).map(v => String(v)));
+  const { distinctCount, top } = topCategories(present);
+  const warnings: ProfileWarning[] = [];
+
+  const profile: ColumnProfile = {
+    column,
+    type,
+    count: present.length,
+    nullCount: raw.length - present.length,
+    distinctCount,
+    topCategories: top,
+    histogram: [],
+    warnings
+  };
+
+  if (isNumericType(type) || type === 'date') {
+    const parsed = present.map(v => (type === 'date' ? parseDateValue(v) : typeof v === 'number' ? v : toNumber(v)));
+    const numbers = parsed.filter((v): v is number => v !== null);
+    const unparsable = present.length - numbers.length;
+    if (unparsable > 0 && unparsable / present.length >= MIXED_TYPE_RATIO) {
+      warnings.push({ kind: 'mixedTypes', message: `${unparsable.toLocaleString()} values are not valid ${type === 'date' ? 'dates' : 'numbers'}.` });
+    }
+
+    const sorted = [...numbers].sort((a, b) => a - b);
+    if (sorted.length > 0) {
+      const q = (p: number) => quantileSorted(sorted, p)!;
+      profile.quantiles = { p05: q(0.05), p25: q(0.25), p50: q(0.5), p75: q(0.75), p95: q(0.95) };
+      profile.histogram = buildHistogram(sorted, type);
+      if (type === 'date') {
+        profile.min = new Date(sorted[0]).toISOString().slice(0, 10);
+        profile.max = new Date(sorted[sorted.length - 1]).toISOString().slice(0, 10);
+      } else {
+        profile.min = sorted[0];
+        profile.max = sorted[sorted.length - 1];
+        profile.mean = mean(sorted) ?? undefined;
+        profile.stdDev = stdDev(sorted) ?? undefined;
+
+        // Tukey fences: values beyond 1.5 × IQR from the quartiles.
+        const iqr = profile.quantiles.p75 - profile.quantiles.p25;
+        const lowFence = profile.quantiles.p25 - 1.5 * iqr;
+        const highFence = profile.quantiles.p75 + 1.5 * iqr;
+        profile.outlierCount = iqr > 0 ? sorted.filter(v => v < lowFence || v > highFence).length : 0;
+        if (profile.outlierCount > 0) {
+          warnings.push({ kind: 'outliers', message: `${profile.outlierCount.toLocaleString()} likely outliers outside [${formatBinEdge(lowFence, type)}, ${formatBinEdge(highFence, type)}].` });
+        }
+      }
+    }
+  } else if (type === 'categorical') {
+    const numericLike = present.filter(v => toNumber(v) !== null).length;
+    const ratio = present.length > 0 ? numericLike / present.length : 0;
+    if (ratio >= MIXED_TYPE_RATIO && ratio <= 1 - MIXED_TYPE_RATIO) {
+      warnings.push({ kind: 'mixedTypes', message: `${Math.round(ratio * 100)}% of values are numeric, the rest are text.` });
+    }
+    if (present.length > 20 && distinctCount / present.length >= HIGH_CARDINALITY_RATIO) {
+      warnings.push({ kind: 'highCardinality', message: 'Almost every value is unique; grouping by this column is unlikely to be useful.' });
+    }
+  }
+
+  if (present.length > 0 && distinctCount === 1) {
+    warnings.push({ kind: 'constant', message: `Every value is "${top[0].value}".` });
+  }
+  if (raw.length > 0 && profile.nullCount / raw.length >= HIGH_NULL_RATIO) {
+    warnings.push({ kind: 'highNulls', message: `${Math.round((profile.nullCount / raw.length) * 100)}% of values are missing.` });
+  }
+
+  const pii = detectPii(column, present);
+  if (pii) profile.pii = pii;
+  return profile;
+};
+
+export const profileColumn = (dataset: Dataset, column: string): ColumnProfile =>
+  profileValues(column, dataset.data.map(r => r[column]), dataset.columnTypes?.[column]);
+
+/** Sampled datasets carry an exact profile of the whole file, computed while it was streamed. */
+export const profileDataset = (dataset: Dataset): ColumnProfile[] =>
+  dataset.sample?.profile ?? dataset.columns.map(column => profileColumn(dataset, column));
+
+const fmt = (value: number | string | undefined) =>
+  typeof value === 'number' ? Number(value.toPrecision(6)).toString() : String(value);
+
+/** One line per column, used in the model's system prompt. */
+export const describeProfile = (profiles: ColumnProfile[]): string =>
+  profiles.map(p => {
+    const parts = [`${p.nullCount} nulls`, `${p.distinctCount} distinct`];
+    if (p.min !== undefined) parts.push(`min ${fmt(p.min)}`, `max ${fmt(p.max)}`);
+    if (p.mean !== undefined) parts.push(`mean ${fmt(p.mean)}`);
+    if (p.stdDev !== undefined) parts.push(`sd ${fmt(p.stdDev)}`);
+    if (p.quantiles && p.type !== 'date') parts.push(`median ${fmt(p.quantiles.p50)}`);
+    if ((p.type === 'categorical' || p.type === 'boolean') && p.topCategories.length > 0) {
+      parts.push(`top values: ${p.topCategories.map(c => `${c.value} (${c.count})`).join(', ')}`);
+    }
+    const warnings = p.warnings.length ? ` [warnings: ${p.warnings.map(w => w.kind).join(', ')}]` : '';
+    return `- ${p.column} (${p.type}): ${parts.join(', ')}${warnings}`;
+  }).join('\n');
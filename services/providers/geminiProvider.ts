@@ -0,0 +1,63 @@
+import { GoogleGenAI } from "@google/genai";
+import { abortError, AnalysisProvider, ChatTurn } from "./types";
+
+const turnsToContents = (history: ChatTurn[], query: string) => [
+  ...history.map(h => ({ role: h.role === 'user' ? 'user' : 'model', parts: [{ text: h.content }] })),
+  { role: 'user', parts: [{ text: query }] }
+];
+
+export const geminiProvider: AnalysisProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  description: 'Gemini API with structured JSON output.',
+  defaultModel: 'gemini-3-flash-preview',
+  requiresApiKey: false, // Falls back to the key injected at build time
+  generate: async (request, settings, options = {}) => {
+    const ai = new GoogleGenAI({ apiKey: settings.apiKey || process.env.API_KEY });
+    const stream = await ai.models.generateContentStream({
+      model: settings.model,
+      contents: turnsToContents(request.history, request.query),
+      config: {
+        systemInstruction: request.systemInstruction,
+        temperature: settings.temperature,
+        responseMimeType: "application/json",
+        responseSchema: request.responseSchema,
+        abortSignal: options.signal
+      }
+    });
+    let text = '';
+    for await (const chunk of stream) {
+      text += chunk.text ?? '';
+      options.onText?.(text);
+    }
+    // The SDK's abort only stops the client side, so make sure a stopped stream never looks complete.
+    if (options.signal?.aborted) throw abortError();
+    return text;
+  },
+  // Function calling without a response schema; the structured answer is a separate generate call.
+  callTools: async (request, settings, options = {}) => {
+    const ai = new GoogleGenAI({ apiKey: settings.apiKey || process.env.API_KEY });
+    const response = await ai.models.generateContent({
+      model: settings.model,
+      contents: [
+        ...turnsToContents(request.history, request.query),
+        ...request.rounds.flatMap(round => [
+          round.raw as any, // The model's content, thought signatures included
+          {
+            role: 'user',
+            parts: round.calls.map((call, i) => ({ functionResponse: { id: call.id, name: call.name, response: round.results[i] } }))
+          }
+        ])
+      ],
+      config: {
+        systemInstruction: request.systemInstruction,
+        temperature: settings.temperature,
+        tools: [{ functionDeclarations: request.tools }],
+        abortSignal: options.signal
+      }
+    });
+    if (options.signal?.aborted) throw abortError();
+    const calls = (response.functionCalls ?? []).map(call => ({ id: call.id, name: call.name ?? '', args: call.args ?? {} }));
+    return { calls, raw: response.candidates?.[0]?.content };
+  }
+};
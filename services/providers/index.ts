@@ -0,0 +1,21 @@
+import { ProviderId, ProviderSettings } from "../../types";
+import { geminiProvider } from "./geminiProvider";
+import { mockProvider } from "./mockProvider";
+import { ollamaProvider } from "./ollamaProvider";
+import { openaiProvider } from "./openaiProvider";
+import { AnalysisProvider } from "./types";
+
+export * from "./types";
+
+export const PROVIDERS: AnalysisProvider[] = [geminiProvider, openaiProvider, ollamaProvider, mockProvider];
+
+export const getProvider = (id: ProviderId): AnalysisProvider =>
+  PROVIDERS.find(p => p.id === id) ?? geminiProvider;
+
+/** Default settings for a provider, used on first run and when switching providers. */
+export const defaultProviderSettings = (id: ProviderId): ProviderSettings => {
+  const provider = getProvider(id);
+  return { provider: provider.id, model: provider.defaultModel, temperature: 1, baseUrl: provider.defaultBaseUrl };
+};
+
+export const DEFAULT_PROVIDER_SETTINGS = defaultProviderSettings('gemini');
@@ -0,0 +1,252 @@
+import { AIResponse, ColumnProfile, QueryPlan, StatTestRequest } from "../../types";
+import { abortError, AnalysisProvider, AnalysisRequest } from "./types";
+
+const CHUNK_SIZE = 24;
+const CHUNK_DELAY_MS = 25;
+
+const isNumeric = (p: ColumnProfile) => p.type === 'integer' || p.type === 'decimal';
+
+// Columns named in the question, in the order they are mentioned.
+const mentioned = (query: string, profiles: ColumnProfile[]) =>
+  profiles
+    .filter(p => query.includes(p.column.toLowerCase()))
+    .sort((a, b) => query.indexOf(a.column.toLowerCase()) - query.indexOf(b.column.toLowerCase()));
+
+/**
+ * Builds a canned response from the question's keywords and the profile's columns. The output only
+ * depends on its inputs, so demos and manual tests are reproducible without any network access.
+ */
+export const mockResponse = (request: AnalysisRequest): AIResponse => {
+  const query = request.query.toLowerCase();
+  const numeric = request.profile.filter(isNumeric);
+  const categorical = request.profile.filter(p => p.type === 'categorical' || p.type === 'boolean');
+  const dates = request.profile.filter(p => p.type === 'date');
+
+  // Columns named in the question win over the first column of the right type.
+  const pick = (candidates: ColumnProfile[]) => mentioned(query, candidates)[0] ?? candidates[0];
+  const value = pick(numeric);
+  const category = pick(categorical);
+  const date = pick(dates);
+
+  const base = {
+    suggestion: value && category ? `Which ${category.column} has the highest average ${value.column}?` : 'What does each column contain?'
+  };
+
+  // "what changed between version 1 and 2": restates the locally computed differences listed in the prompt.
+  const comparison = /VERSION COMPARISON[^\n]*\n((?:- .*\n)+)/.exec(request.systemInstruction);
+  if (comparison && /chang|differ|compar/.test(query)) {
+    const changes = comparison[1].trim().split('\n').map(line => line.slice(2));
+    return {
+      ...base,
+      summary: `[Mock] ${changes[0]}.`,
+      insight: `Offline mock response. The largest differences between the versions:\n${changes.slice(1, 6).join('\n') || 'No column changed.'}`,
+      chartType: 'none',
+      chartData: []
+    };
+  }
+
+  // "remove rows where amount is negative": a transform proposal rather than a chart.
+  const negative = mentioned(query, numeric)[0];
+  if (/(remove|drop|delete|exclude) (the )?rows/.test(query) && /negative|below zero|less than zero/.test(query) && negative) {
+    return {
+      ...base,
+      summary: `[Mock] Remove rows where ${negative.column} is negative.`,
+      insight: `Offline mock response. Proposes a filter step that drops every row with ${negative.column} below zero. Apply it to change the dataset.`,
+      chartType: 'none',
+      chartData: [],
+      transforms: [{ kind: 'filter', filter: { column: negative.column, operator: 'lt', value: 0 }, mode: 'remove' }]
+    };
+  }
+
+  const renamed = /rename (?:column )?["']?(.+?)["']? to ["']?(.+?)["']?$/i.exec(request.query.trim());
+  const renamedColumn = renamed && request.profile.find(p => p.column.toLowerCase() === renamed[1].toLowerCase());
+  if (renamed && renamedColumn) {
+    return {
+      ...base,
+      summary: `[Mock] Rename ${renamedColumn.column} to ${renamed[2]}.`,
+      insight: 'Offline mock response. Proposes a rename step. Apply it to change the dataset.',
+      chartType: 'none',
+      chartData: [],
+      transforms: [{ kind: 'rename', column: renamedColumn.column, to: renamed[2] }]
+    };
+  }
+
+  if (/significan|statistical|p-value|t-test|anova|chi-square|hypothesis|regression/.test(query) && (value || categorical.length >= 2)) {
+    const pair = mentioned(query, numeric).length >= 2 ? mentioned(query, numeric) : numeric;
+    const categories = mentioned(query, categorical).length >= 2 ? mentioned(query, categorical) : categorical;
+    // Groups of the category named in the question, e.g. "between North and South".
+    const groups = category?.topCategories.filter(c => query.includes(c.value.toLowerCase())).map(c => c.value) ?? [];
+    let test: StatTestRequest;
+    if (/regression|predict/.test(query) && pair.length >= 2) test = { test: 'regression', xColumn: pair[0].column, yColumn: pair[1].column };
+    else if (/correlat|relationship/.test(query) && pair.length >= 2) test = { test: /rank|monoton/.test(query) ? 'spearman' : 'pearson', xColumn: pair[0].column, yColumn: pair[1].column };
+    else if ((!value || !category || /chi-square|independen|associat/.test(query)) && categories.length >= 2) test = { test: 'chiSquare', xColumn: categories[0].column, yColumn: categories[1].column };
+    else if (value && category) {
+      const kind = groups.length === 2 || category.distinctCount === 2 ? (/median|rank|skew|non-?parametric/.test(query) ? 'mannWhitney' : 'tTest') : 'anova';
+      test = { test: kind, valueColumn: value.column, groupColumn: category.column, ...(kind !== 'anova' && groups.length ? { groups } : {}) };
+    } else {
+      return { ...base, summary: '[Mock] No suitable columns for a test.', insight: 'Offline mock response. Name a numeric column and a category, or two numeric columns.', chartType: 'none', chartData: [] };
+    }
+    const paired = test.xColumn && test.yColumn && test.test !== 'chiSquare';
+    return {
+      ...base,
+      summary: `[Mock] ${test.test} test of ${[test.valueColumn ?? test.xColumn, test.groupColumn ?? test.yColumn].join(' by ')}.`,
+      insight: 'Offline mock response. The test runs locally over every record; its p-value says how surprising the observed difference or relationship would be if there were none, and the effect size says how large it is.',
+      chartType: paired ? 'scatter' : test.test === 'chiSquare' ? 'stackedBar' : 'boxPlot',
+      chartData: [],
+      queryPlan: paired
+        ? { aggregation: 'count', xColumn: test.xColumn, yColumn: test.yColumn }
+        : test.test === 'chiSquare'
+        ? { aggregation: 'count', groupBy: test.xColumn, seriesBy: test.yColumn }
+        : { aggregation: 'count', valueColumn: test.valueColumn, groupBy: test.groupColumn },
+      statTest: test,
+      xAxisLabel: paired ? test.xColumn : test.groupColumn ?? test.xColumn,
+      yAxisLabel: paired ? test.yColumn : test.valueColumn ?? 'Records'
+    };
+  }
+
+  if (/heatmap|correlation matrix/.test(query) && numeric.length >= 2) {
+    return {
+      ...base,
+      summary: '[Mock] Correlation matrix of the numeric columns.',
+      insight: 'Offline mock response. Each cell is the Pearson correlation between two numeric columns.',
+      chartType: 'heatmap',
+      chartData: [],
+      queryPlan: { aggregation: 'count' }
+    };
+  }
+
+  if (/distribution|histogram|spread/.test(query) && value) {
+    const boxed = /box|outlier/.test(query) || (/by|per/.test(query) && category);
+    return {
+      ...base,
+      summary: `[Mock] Distribution of ${value.column}${boxed && category ? ` by ${category.column}` : ''}.`,
+      insight: boxed
+        ? `Offline mock response. Boxes show the quartiles of ${value.column}; dots beyond the whiskers are outliers.`
+        : `Offline mock response. Bars count how many records fall in each ${value.column} range.`,
+      chartType: boxed ? 'boxPlot' : 'histogram',
+      chartData: [],
+      queryPlan: { aggregation: 'count', valueColumn: value.column, groupBy: boxed ? category?.column : undefined },
+      xAxisLabel: boxed && category ? category.column : value.column,
+      yAxisLabel: boxed ? value.column : 'Records'
+    };
+  }
+
+  if (/correlat|relationship|versus|\bvs\b/.test(query) && numeric.length >= 2) {
+    const [x, y] = mentioned(query, numeric).length >= 2 ? mentioned(query, numeric) : numeric;
+    return {
+      ...base,
+      summary: `[Mock] ${y.column} plotted against ${x.column}.`,
+      insight: `Offline mock response. Each point is one record, showing how ${y.column} moves with ${x.column}.`,
+      chartType: 'scatter',
+      chartData: [],
+      queryPlan: { aggregation: 'count', xColumn: x.column, yColumn: y.column },
+      xAxisLabel: x.column,
+      yAxisLabel: y.column
+    };
+  }
+
+  if (/forecast|predict|project|next (day|week|month|quarter|year)|anomal|unusual|spike/.test(query) && date) {
+    const anomaliesOnly = !/forecast|predict|project|next /.test(query);
+    return {
+      ...base,
+      summary: `[Mock] ${anomaliesOnly ? 'Unusual periods in' : 'Forecast of'} ${value ? `total ${value.column}` : 'record count'} over ${date.column}.`,
+      insight: anomaliesOnly
+        ? `Offline mock response. Highlighted points are periods whose ${value ? value.column : 'record count'} is far from the fitted trend and season.`
+        : `Offline mock response. The solid line is the history, the dashed line the forecast and the band its 95% range; highlighted points are anomalies.`,
+      chartType: 'forecast',
+      chartData: [],
+      queryPlan: { groupBy: date.column, aggregation: value ? 'sum' : 'count', valueColumn: value?.column, horizon: anomaliesOnly ? 0 : undefined },
+      xAxisLabel: date.column,
+      yAxisLabel: value ? `Total ${value.column}` : 'Records'
+    };
+  }
+
+  if (/trend|over time|monthly|yearly|by date|timeline/.test(query) && date) {
+    const plan: QueryPlan = { groupBy: date.column, aggregation: value ? 'sum' : 'count', valueColumn: value?.column, sort: { by: 'name', direction: 'asc' } };
+    return {
+      ...base,
+      summary: `[Mock] ${value ? `Total ${value.column}` : 'Record count'} over ${date.column}.`,
+      insight: `Offline mock response. The line aggregates ${value ? value.column : 'records'} for each ${date.column} value in order.`,
+      chartType: 'line',
+      chartData: [],
+      queryPlan: plan,
+      xAxisLabel: date.column,
+      yAxisLabel: value ? `Total ${value.column}` : 'Records'
+    };
+  }
+
+  // "sales by region per product": two categorical columns named in the question become a stacked bar.
+  const split = mentioned(query, categorical);
+  if (/\bper\b|\beach\b|split by/.test(query) && split.length >= 2) {
+    return {
+      ...base,
+      summary: `[Mock] ${value ? `Total ${value.column}` : 'Records'} by ${split[0].column}, split by ${split[1].column}.`,
+      insight: `Offline mock response. Each bar is one ${split[0].column}; segments show its ${split[1].column} breakdown.`,
+      chartType: 'stackedBar',
+      chartData: [],
+      queryPlan: { groupBy: split[0].column, seriesBy: split[1].column, aggregation: value ? 'sum' : 'count', valueColumn: value?.column },
+      xAxisLabel: split[0].column,
+      yAxisLabel: value ? `Total ${value.column}` : 'Records'
+    };
+  }
+
+  if (!category) {
+    return {
+      ...base,
+      summary: '[Mock] No categorical column to chart.',
+      insight: `Offline mock response. The dataset has ${request.profile.length} columns but none suitable for grouping, so no chart was produced.`,
+      chartType: 'none',
+      chartData: []
+    };
+  }
+
+  const counting = /how many|count|number of|frequency/.test(query) || !value;
+  const averaging = !counting && /average|mean|typical/.test(query);
+  const aggregation = counting ? 'count' : averaging ? 'mean' : 'sum';
+  const measure = counting ? 'Records' : `${averaging ? 'Average' : 'Total'} ${value!.column}`;
+  const chartType = /share|proportion|percent|breakdown|split/.test(query) ? 'pie' : 'bar';
+
+  return {
+    ...base,
+    summary: `[Mock] ${measure} by ${category.column}.`,
+    insight: `Offline mock response. Groups records by ${category.column} and compares ${measure.toLowerCase()} across the top 10 groups.`,
+    chartType,
+    chartData: [],
+    queryPlan: {
+      groupBy: category.column,
+      aggregation,
+      valueColumn: counting ? undefined : value!.column,
+      sort: { by: 'value', direction: 'desc' },
+      limit: 10
+    },
+    xAxisLabel: category.column,
+    yAxisLabel: measure
+  };
+};
+
+export const mockProvider: AnalysisProvider = {
+  id: 'mock',
+  label: 'Offline mock',
+  description: 'Deterministic canned answers. No network or API key needed.',
+  defaultModel: 'mock-1',
+  requiresApiKey: false,
+  // Streams the canned JSON in small chunks so the streaming UI and Stop button behave as with a real model.
+  generate: async (request, _settings, options = {}) => {
+    const full = JSON.stringify(mockResponse(request));
+    for (let end = CHUNK_SIZE; end < full.length + CHUNK_SIZE; end += CHUNK_SIZE) {
+      await new Promise(resolve => setTimeout(resolve, CHUNK_DELAY_MS));
+      if (options.signal?.aborted) throw abortError();
+      options.onText?.(full.slice(0, end));
+    }
+    return full;
+  },
+  // One round: describe the columns named in the question (or the first column), then answer.
+  callTools: async (request, _settings, options = {}) => {
+    await new Promise(resolve => setTimeout(resolve, CHUNK_DELAY_MS));
+    if (options.signal?.aborted) throw abortError();
+    if (request.rounds.length > 0 || !request.tools.some(t => t.name === 'describe_column')) return { calls: [] };
+    const named = mentioned(request.query.toLowerCase(), request.profile).slice(0, 2);
+    const columns = named.length ? named : request.profile.slice(0, 1);
+    return { calls: columns.map(p => ({ name: 'describe_column', args: { column: p.column } })) };
+  }
+};
@@ -0,0 +1,41 @@
+import { AnalysisProvider, ProviderError, readLines, toJsonSchema } from "./types";
+
+export const ollamaProvider: AnalysisProvider = {
+  id: 'ollama',
+  label: 'Ollama (local)',
+  description: 'A model served by Ollama on this machine or your network.',
+  defaultModel: 'llama3.1',
+  defaultBaseUrl: 'http://localhost:11434',
+  requiresApiKey: false,
+  generate: async (request, settings, options = {}) => {
+    const baseUrl = (settings.baseUrl || ollamaProvider.defaultBaseUrl!).replace(/\/+$/, '');
+    const res = await fetch(`${baseUrl}/api/chat`, {
+      method: 'POST',
+      signal: options.signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: settings.model,
+        stream: true,
+        format: toJsonSchema(request.responseSchema),
+        options: { temperature: settings.temperature },
+        messages: [
+          { role: 'system', content: request.systemInstruction },
+          ...request.history.map(h => ({ role: h.role, content: h.content })),
+          { role: 'user', content: request.query }
+        ]
+      })
+    });
+    if (!res.ok) {
+      throw new ProviderError(`Ollama returned ${res.status}: ${(await res.text()).slice(0, 300)}`, res.status);
+    }
+    // Newline-delimited JSON, one partial message per line.
+    let text = '';
+    await readLines(res, line => {
+      const chunk = JSON.parse(line);
+      if (chunk.error) throw new ProviderError(`Ollama: ${chunk.error}`);
+      text += chunk.message?.content ?? '';
+      options.onText?.(text);
+    });
+    return text;
+  }
+};
@@ -0,0 +1,93 @@
+import { AnalysisProvider, ProviderError, readLines, toJsonSchema } from "./types";
+
+// Any server implementing the OpenAI Chat Completions API (OpenAI, Azure proxies, vLLM, LM Studio...).
+export const openaiProvider: AnalysisProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  description: 'Any endpoint implementing the Chat Completions API.',
+  defaultModel: 'gpt-4o-mini',
+  defaultBaseUrl: 'https://api.openai.com/v1',
+  requiresApiKey: true,
+  generate: async (request, settings, options = {}) => {
+    const baseUrl = (settings.baseUrl || openaiProvider.defaultBaseUrl!).replace(/\/+$/, '');
+    // json_object mode is the most widely supported structured-output option, so the schema goes in the prompt.
+    const system = `${request.systemInstruction}\n\nRespond with a JSON object matching this JSON Schema:\n${JSON.stringify(toJsonSchema(request.responseSchema))}`;
+    const res = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      signal: options.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: settings.model,
+        temperature: settings.temperature,
+        stream: true,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: system },
+          ...request.history.map(h => ({ role: h.role, content: h.content })),
+          { role: 'user', content: request.query }
+        ]
+      })
+    });
+    if (!res.ok) {
+      throw new ProviderError(`OpenAI-compatible endpoint returned ${res.status}: ${(await res.text()).slice(0, 300)}`, res.status);
+    }
+    // Server-sent events: one "data: {json}" line per delta, terminated by "data: [DONE]".
+    let text = '';
+    await readLines(res, line => {
+      if (!line.startsWith('data:')) return;
+      const data = line.slice(5).trim();
+      if (data === '[DONE]') return;
+      text += JSON.parse(data).choices?.[0]?.delta?.content ?? '';
+      options.onText?.(text);
+    });
+    return text;
+  },
+  callTools: async (request, settings, options = {}) => {
+    const baseUrl = (settings.baseUrl || openaiProvider.defaultBaseUrl!).replace(/\/+$/, '');
+    const res = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      signal: options.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: settings.model,
+        temperature: settings.temperature,
+        tools: request.tools.map(t => ({
+          type: 'function',
+          function: { name: t.name, description: t.description, parameters: toJsonSchema(t.parameters) }
+        })),
+        messages: [
+          { role: 'system', content: request.systemInstruction },
+          ...request.history.map(h => ({ role: h.role, content: h.content })),
+          { role: 'user', content: request.query },
+          // Each round replays the assistant message that asked for the calls, then one tool message per result.
+          ...request.rounds.flatMap(round => [
+            round.raw,
+            ...round.calls.map((call, i) => ({ role: 'tool', tool_call_id: call.id, content: JSON.stringify(round.results[i]) }))
+          ])
+        ]
+      })
+    });
+    if (!res.ok) {
+      throw new ProviderError(`OpenAI-compatible endpoint returned ${res.status}: ${(await res.text()).slice(0, 300)}`, res.status);
+    }
+    const message = (await res.json()).choices?.[0]?.message;
+    const calls = (message?.tool_calls ?? [])
+      .filter((c: any) => c.type === 'function')
+      .map((c: any) => {
+        let args: Record<string, any> = {};
+        try {
+          args = JSON.parse(c.function.arguments || '{}');
+        } catch {
+          // Malformed arguments reach the tool as none; it reports what is missing and the model retries.
+        }
+        return { id: c.id, name: c.function.name, args };
+      });
+    return { calls, raw: message };
+  }
+};
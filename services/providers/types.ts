@@ -0,0 +1,106 @@
+import { ColumnProfile, ProviderId, ProviderSettings } from "../../types";
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Everything a provider needs for one analysis call. Providers return the raw JSON text.
+export interface AnalysisRequest {
+  systemInstruction: string;
+  history: ChatTurn[];
+  query: string;
+  responseSchema: Record<string, any>; // Gemini-style schema (uppercase types); see toJsonSchema
+  profile: ColumnProfile[]; // Lets offline providers build plans against real columns
+}
+
+// A local function the model may call while investigating. Parameters use the same schema dialect as responseSchema.
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+}
+
+export interface ToolCall {
+  id?: string; // Set by providers that match results to calls by id
+  name: string;
+  args: Record<string, any>;
+}
+
+// One round of tool use. `raw` is the provider's own message for the round, replayed verbatim on the
+// next call (Gemini requires its thought signatures back).
+export interface ToolRound {
+  calls: ToolCall[];
+  results: Record<string, unknown>[]; // One per call, in the same order
+  raw?: unknown;
+}
+
+export interface ToolRequest {
+  systemInstruction: string;
+  history: ChatTurn[];
+  query: string;
+  tools: ToolDefinition[];
+  rounds: ToolRound[]; // Earlier rounds for this question
+  profile: ColumnProfile[];
+}
+
+export interface ToolTurn {
+  calls: ToolCall[]; // Empty once the model has what it needs
+  raw?: unknown;
+}
+
+export interface GenerateOptions {
+  signal?: AbortSignal;
+  onText?: (textSoFar: string) => void; // Called with the accumulated output as it streams in
+}
+
+export interface AnalysisProvider {
+  id: ProviderId;
+  label: string;
+  description: string;
+  defaultModel: string;
+  defaultBaseUrl?: string;
+  requiresApiKey: boolean;
+  generate: (request: AnalysisRequest, settings: ProviderSettings, options?: GenerateOptions) => Promise<string>;
+  // Providers with function calling implement this; the rest answer in one shot.
+  callTools?: (request: ToolRequest, settings: ProviderSettings, options?: GenerateOptions) => Promise<ToolTurn>;
+}
+
+export class ProviderError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
+export const abortError = () => new DOMException('The request was stopped.', 'AbortError');
+
+/** Feeds each complete line of a streamed HTTP body to onLine. Used for SSE and NDJSON responses. */
+export const readLines = async (response: Response, onLine: (line: string) => void): Promise<void> => {
+  if (!response.body) throw new ProviderError('The endpoint returned an empty stream.');
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop()!;
+    lines.map(l => l.trim()).filter(Boolean).forEach(onLine);
+    if (done) return;
+  }
+};
+
+/** Converts the Gemini schema dialect (Type.OBJECT etc.) to standard JSON Schema. */
+export const toJsonSchema = (schema: any): any => {
+  if (Array.isArray(schema)) return schema.map(toJsonSchema);
+  if (schema === null || typeof schema !== 'object') return schema;
+  const out: Record<string, any> = {};
+  Object.entries(schema).forEach(([key, value]) => {
+    out[key] = key === 'type' && typeof value === 'string' ? value.toLowerCase() : toJsonSchema(value);
+  });
+  return out;
+};
@@ -0,0 +1,490 @@
+import { Dataset, DataRow, QueryPlan, QueryFilter, QueryStats, ChartType, ChartSeries, Aggregation, ForecastStats } from "../types";
+import { toNumber, sum, mean, median, min, max, quantileSorted, histogramBins, sturgesBins, pearson, formatCompact } from "./stats";
+import { parseDateValue } from "./typeInference";
+import { addPeriods, bandWidth, defaultInterval, DEFAULT_HORIZONS, fitWithAnomalies, periodLabel, periodStart } from "./timeSeries";
+
+const MAX_SCATTER_POINTS = 2000;
+const MAX_SERIES = 8;
+const MAX_HISTOGRAM_BINS = 50;
+const MAX_HEATMAP_COLUMNS = 12;
+const MAX_BOX_OUTLIERS = 50;
+const MAX_FORECAST_PERIODS = 1500;
+const MAX_FORECAST_HORIZON = 120;
+const MIN_FORECAST_PERIODS = 3;
+const DAY_MS = 86_400_000;
+export const BLANK_LABEL = '(blank)';
+
+export class QueryPlanError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QueryPlanError';
+  }
+}
+
+export interface QueryResult {
+  chartData: any[];
+  series?: ChartSeries[];
+  stats: QueryStats;
+}
+
+/** Picks the dataset a plan runs against: the active one unless the plan names another context dataset. */
+export const resolvePlanDataset = (plan: Pick<QueryPlan, 'dataset'>, active: Dataset, context: Dataset[]): Dataset => {
+  if (!plan.dataset || plan.dataset === active.name) return active;
+  const target = context.find(d => d.name === plan.dataset);
+  if (!target) throw new QueryPlanError(`Query plan references unknown dataset "${plan.dataset}".`);
+  return target;
+};
+
+/** Every column a plan reads, used to check whether another dataset can run it. */
+export const planColumns = (plan: QueryPlan): string[] => {
+  const columns = [
+    plan.groupBy, plan.seriesBy, plan.valueColumn, plan.xColumn, plan.yColumn,
+    ...(plan.valueColumns ?? []), ...(plan.columns ?? []), ...(plan.filters ?? []).map(f => f.column)
+  ];
+  return Array.from(new Set(columns.filter((c): c is string => !!c)));
+};
+
+const assertColumn = (dataset: Dataset, column: string | undefined, role: string) => {
+  if (column === undefined || column === '') return;
+  if (!dataset.columns.includes(column)) {
+    throw new QueryPlanError(`Query plan references unknown ${role} column "${column}".`);
+  }
+};
+
+const compare = (a: any, b: any): number => {
+  const na = toNumber(a);
+  const nb = toNumber(b);
+  if (na !== null && nb !== null) return na - nb;
+  return String(a ?? '').localeCompare(String(b ?? ''), undefined, { numeric: true, sensitivity: 'base' });
+};
+
+const looseEquals = (a: any, b: any): boolean => {
+  const na = toNumber(a);
+  const nb = toNumber(b);
+  if (na !== null && nb !== null) return na === nb;
+  return String(a ?? '').trim().toLowerCase() === String(b ?? '').trim().toLowerCase();
+};
+
+// Range bounds compare as numbers, then as dates (so "2024-02-01" bounds "31/01/2024 10:00"), then as text.
+const compareBound = (cell: any, bound: any): number => {
+  if (toNumber(cell) === null || toNumber(bound) === null) {
+    const [tc, tb] = [parseDateValue(cell), parseDateValue(bound)];
+    if (tc !== null && tb !== null) return tc - tb;
+  }
+  return compare(cell, bound);
+};
+
+export const matchesFilter = (row: DataRow, filter: QueryFilter): boolean => {
+  const cell = row[filter.column];
+  switch (filter.operator) {
+    case 'eq': return looseEquals(cell, filter.value);
+    case 'neq': return !looseEquals(cell, filter.value);
+    case 'gt': return cell !== null && cell !== undefined && cell !== '' && compareBound(cell, filter.value) > 0;
+    case 'gte': return cell !== null && cell !== undefined && cell !== '' && compareBound(cell, filter.value) >= 0;
+    case 'lt': return cell !== null && cell !== undefined && cell !== '' && compareBound(cell, filter.value) < 0;
+    case 'lte': return cell !== null && cell !== undefined && cell !== '' && compareBound(cell, filter.value) <= 0;
+    case 'contains': return String(cell ?? '').toLowerCase().includes(String(filter.value ?? '').toLowerCase());
+    case 'in': return (filter.values ?? []).some(v => looseEquals(cell, v));
+    default: throw new QueryPlanError(`Unsupported filter operator "${(filter as QueryFilter).operator}".`);
+  }
+};
+
+export const aggregate = (values: any[], aggregation: Aggregation): number | null => {
+  if (aggregation === 'count') return values.filter(v => v !== null && v !== undefined && v !== '').length;
+  const numbers = values.map(toNumber).filter((v): v is number => v !== null);
+  switch (aggregation) {
+    case 'sum': return sum(numbers);
+    case 'mean': return mean(numbers);
+    case 'median': return median(numbers);
+    case 'min': return min(numbers);
+    case 'max': return max(numbers);
+    default: throw new QueryPlanError(`Unsupported aggregation "${aggregation}".`);
+  }
+};
+
+const round = (value: number | null) => (value === null ? null : Math.round(value * 1e6) / 1e6);
+
+const groupKey = (raw: any) => (raw === null || raw === undefined || raw === '' ? BLANK_LABEL : String(raw));
+
+const numbersIn = (rows: DataRow[], column: string): number[] =>
+  rows.map(row => toNumber(row[column])).filter((v): v is number => v !== null);
+
+const byName = (a: { name: string }, b: { name: string }) => compare(a.name, b.name);
+
+/** Applies the plan's sort (by group name, or by a numeric score per row) and limit. */
+const sortAndLimit = <T extends { name: string }>(rows: T[], plan: QueryPlan, score: (row: T) => number): T[] => {
+  const sort = plan.sort ?? { by: 'name', direction: 'asc' };
+  const direction = sort.direction === 'desc' ? -1 : 1;
+  rows.sort((a, b) => direction * (sort.by === 'value' ? score(a) - score(b) : byName(a, b)));
+  return plan.limit && plan.limit > 0 ? rows.slice(0, plan.limit) : rows;
+};
+
+/** Columns a correlation heatmap can use: typed numeric columns, or columns whose sampled values all parse. */
+const numericColumns = (dataset: Dataset): string[] =>
+  dataset.columns.filter(column => {
+    const type = dataset.columnTypes?.[column];
+    if (type) return type === 'integer' || type === 'decimal';
+    const sample = dataset.data.slice(0, 200).map(r => r[column]).filter(v => v !== null && v !== undefined && v !== '');
+    return sample.length > 0 && sample.every(v => toNumber(v) !== null);
+  });
+
+const histogramResult = (plan: QueryPlan, rows: DataRow[]) => {
+  if (!plan.valueColumn) throw new QueryPlanError('Histogram plans need a numeric valueColumn.');
+  const sorted = numbersIn(rows, plan.valueColumn).sort((a, b) => a - b);
+  const bins = Math.min(MAX_HISTOGRAM_BINS, Math.max(1, Math.round(plan.bins ?? sturgesBins(sorted.length))));
+  return histogramBins(sorted, bins).map(b => ({
+    name: b.start === b.end ? formatCompact(b.start) : `${formatCompact(b.start)} – ${formatCompact(b.end)}`,
+    value: b.count,
+    start: round(b.start),
+    end: round(b.end)
+  }));
+};
+
+/** Tukey box plots: whiskers reach the furthest values within 1.5 × IQR of the quartiles. */
+const boxPlotResult = (plan: QueryPlan, rows: DataRow[]) => {
+  if (!plan.valueColumn) throw new QueryPlanError('Box plot plans need a numeric valueColumn.');
+  const groups = new Map<string, DataRow[]>();
+  rows.forEach(row => {
+    const key = plan.groupBy ? groupKey(row[plan.groupBy]) : plan.valueColumn!;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(row);
+  });
+  const boxes = Array.from(groups.entries()).flatMap(([name, groupRows]) => {
+    const sorted = numbersIn(groupRows, plan.valueColumn!).sort((a, b) => a - b);
+    if (sorted.length === 0) return [];
+    const q1 = quantileSorted(sorted, 0.25)!;
+    const q3 = quantileSorted(sorted, 0.75)!;
+    const fence = 1.5 * (q3 - q1);
+    const inside = sorted.filter(v => v >= q1 - fence && v <= q3 + fence);
+    const outliers = sorted.filter(v => v < q1 - fence || v > q3 + fence);
+    return [{
+      name,
+      min: round(inside[0]),
+      q1: round(q1),
+      median: round(quantileSorted(sorted, 0.5)),
+      q3: round(q3),
+      max: round(inside[inside.length - 1]),
+      count: sorted.length,
+      outliers: outliers.slice(0, MAX_BOX_OUTLIERS).map(round)
+    }];
+  });
+  return { chartData: sortAndLimit(boxes, plan, b => b.median ?? 0), groups: groups.size };
+};
+
+/**
+ * Two heatmap flavours: a pivot of an aggregate over groupBy × seriesBy, or (without those) the
+ * Pearson correlation matrix of `columns`, defaulting to every numeric column.
+ */
+const heatmapResult = (plan: QueryPlan, dataset: Dataset, rows: DataRow[]) => {
+  if (plan.groupBy && plan.seriesBy) {
+    const cells = new Map<string, { x: string; y: string; values: any[] }>();
+    rows.forEach(row => {
+      const x = groupKey(row[plan.groupBy!]);
+      const y = groupKey(row[plan.seriesBy!]);
+      const id = JSON.stringify([x, y]);
+      if (!cells.has(id)) cells.set(id, { x, y, values: [] });
+      cells.get(id)!.values.push(plan.valueColumn ? row[plan.valueColumn] : 1);
+    });
+    const chartData = Array.from(cells.values())
+      .map(c => ({ x: c.x, y: c.y, value: round(aggregate(c.values, plan.aggregation)) }))
+      .sort((a, b) => compare(a.x, b.x) || compare(a.y, b.y));
+    return { chartData, groups: cells.size };
+  }
+
+  const columns = (plan.columns?.length ? plan.columns : numericColumns(dataset)).slice(0, MAX_HEATMAP_COLUMNS);
+  columns.forEach(c => assertColumn(dataset, c, 'heatmap'));
+  if (columns.length < 2) throw new QueryPlanError('A correlation heatmap needs at least two numeric columns.');
+  const parsed = columns.map(c => rows.map(row => toNumber(row[c])));
+  // The matrix is symmetric, so each pair is computed once and mirrored.
+  const matrix = columns.map(() => new Array<number | null>(columns.length).fill(null));
+  columns.forEach((_, i) => {
+    for (let j = i; j < columns.length; j++) {
+      const xs: number[] = [];
+      const ys: number[] = [];
+      parsed[i].forEach((v, r) => {
+        if (v !== null && parsed[j][r] !== null) {
+          xs.push(v);
+          ys.push(parsed[j][r]!);
+        }
+      });
+      matrix[i][j] = matrix[j][i] = round(pearson(xs, ys));
+    }
+  });
+  const chartData = columns.flatMap((y, i) => columns.map((x, j) => ({ x, y, value: matrix[i][j] })));
+  return { chartData, groups: columns.length };
+};
+
+/**
+ * Resamples a measure over the groupBy date column, fits it, and predicts plan.horizon further
+ * periods with a 95% band. Missing periods count as zero for sum and count; for the other
+ * aggregations they stay empty in the chart and are interpolated only for the fit. Residual
+ * outliers are flagged as anomalies.
+ */
+const forecastResult = (plan: QueryPlan, rows: DataRow[]) => {
+  const dateColumn = plan.groupBy;
+  if (!dateColumn) throw new QueryPlanError('Forecast plans need the date column as groupBy.');
+  if (plan.aggregation !== 'count' && !plan.valueColumn) throw new QueryPlanError(`Aggregation "${plan.aggregation}" needs a valueColumn.`);
+
+  const dated = rows
+    .map(row => ({ t: parseDateValue(row[dateColumn]), row }))
+    .filter((d): d is { t: number; row: DataRow } => d.t !== null);
+  if (dated.length === 0) throw new QueryPlanError(`"${dateColumn}" has no dates to build a time series from.`);
+  const times = dated.map(d => d.t);
+  const interval = plan.interval ?? defaultInterval(min(times)!, max(times)!);
+
+  const buckets = new Map<number, any[]>();
+  dated.forEach(({ t, row }) => {
+    const start = periodStart(t, interval);
+    let bucket = buckets.get(start);
+    if (!bucket) {
+      bucket = [];
+      buckets.set(start, bucket);
+    }
+    bucket.push(plan.valueColumn ? row[plan.valueColumn] : 1);
+  });
+  const last = max(Array.from(buckets.keys()))!;
+  const periods: number[] = [];
+  for (let t = min(Array.from(buckets.keys()))!; t <= last; t = addPeriods(t, interval, 1)) {
+    periods.push(t);
+    if (periods.length > MAX_FORECAST_PERIODS) {
+      throw new QueryPlanError(`Resampling by ${interval} gives more than ${MAX_FORECAST_PERIODS} periods. Use a longer interval.`);
+    }
+  }
+
+  const additive = plan.aggregation === 'sum' || plan.aggregation === 'count';
+  const actual = periods.map(t => {
+    const values = buckets.get(t);
+    return values ? round(aggregate(values, plan.aggregation)) : additive ? 0 : null;
+  });
+  // A sum over a first or last period the data only partly covers is not comparable with the rest,
+  // so such periods are shown but left out of the fit and never flagged.
+  const partial = periods.map((t, i) =>
+    additive && ((i === 0 && periodStart(min(times)!, 'day') > t) || (i === periods.length - 1 && periodStart(max(times)!, 'day') < addPeriods(t, interval, 1) - DAY_MS)));
+  const modelled = actual.map((v, i) => (partial[i] ? null : v));
+  if (modelled.filter(v => v !== null).length < MIN_FORECAST_PERIODS) {
+    throw new QueryPlanError(`A time series needs at least ${MIN_FORECAST_PERIODS} complete ${interval}s with values. Use a shorter interval.`);
+  }
+
+  const horizon = Math.max(0, Math.min(plan.horizon ?? DEFAULT_HORIZONS[interval], MAX_FORECAST_HORIZON, periods.length));
+  const anomalyMethod = plan.anomalyMethod ?? 'zscore';
+  const { fit, anomalies } = fitWithAnomalies(modelled, horizon, plan.forecastMethod ?? 'auto', interval, anomalyMethod);
+
+  const history = periods.map((t, i) => ({
+    name: periodLabel(t, interval),
+    actual: actual[i],
+    fitted: fit.fitted[i] === null ? null : round(fit.fitted[i]),
+    forecast: null as number | null,
+    lower: null as number | null,
+    upper: null as number | null,
+    anomaly: anomalies[i],
+    partial: partial[i]
+  }));
+  // The forecast line and band start at the last actual value so the chart reads continuously.
+  const lastRow = history[history.length - 1];
+  if (horizon > 0 && lastRow.actual !== null) Object.assign(lastRow, { forecast: lastRow.actual, lower: lastRow.actual, upper: lastRow.actual });
+  const future = fit.predictions.map((p, h) => {
+    const width = bandWidth(fit.residualStdDev, h + 1);
+    return {
+      name: periodLabel(addPeriods(last, interval, h + 1), interval),
+      actual: null,
+      fitted: null,
+      forecast: round(p),
+      lower: round(p - width),
+      upper: round(p + width),
+      anomaly: false,
+      partial: false
+    };
+  });
+
+  const forecast: ForecastStats = {
+    method: fit.method,
+    interval,
+    seasonLength: fit.seasonLength,
+    horizon,
+    anomalies: anomalies.filter(Boolean).length,
+    anomalyMethod,
+    residualStdDev: fit.residualStdDev === null ? null : round(fit.residualStdDev)
+  };
+  return { chartData: [...history, ...future], periods: periods.length, forecast };
+};
+
+/**
+ * Wide rows for multi-series charts: { name, s0, s1, ... } with one key per series. Series come
+ * from the distinct values of seriesBy (the largest MAX_SERIES by total) or from valueColumns.
+ */
+const seriesResult = (plan: QueryPlan, rows: DataRow[], chartType: ChartType) => {
+  const measures = plan.valueColumns?.length ? plan.valueColumns : [plan.valueColumn];
+  if (chartType === 'combo' && measures.length < 2) {
+    throw new QueryPlanError('Combo charts need two valueColumns: bars on the left axis, a line on the right.');
+  }
+  if (plan.seriesBy && measures.length > 1) {
+    throw new QueryPlanError('Use either seriesBy or several valueColumns, not both.');
+  }
+  const categoryOf = (row: DataRow) => (plan.groupBy ? groupKey(row[plan.groupBy]) : 'all');
+
+  // cells: category -> series label -> raw values
+  const cells = new Map<string, Map<string, any[]>>();
+  const push = (category: string, series: string, value: any) => {
+    if (!cells.has(category)) cells.set(category, new Map());
+    const bySeries = cells.get(category)!;
+    if (!bySeries.has(series)) bySeries.set(series, []);
+    bySeries.get(series)!.push(value);
+  };
+  const measureLabel = (column?: string) => (column ? `${plan.aggregation} of ${column}` : 'count');
+  rows.forEach(row => {
+    const category = categoryOf(row);
+    if (plan.seriesBy) push(category, groupKey(row[plan.seriesBy]), plan.valueColumn ? row[plan.valueColumn] : 1);
+    else measures.forEach(m => push(category, measureLabel(m), m ? row[m] : 1));
+  });
+
+  const aggregated = new Map<string, Map<string, number | null>>();
+  const totals = new Map<string, number>();
+  cells.forEach((bySeries, category) => {
+    const values = new Map<string, number | null>();
+    bySeries.forEach((raw, series) => {
+      const value = round(aggregate(raw, plan.aggregation));
+      values.set(series, value);
+      totals.set(series, (totals.get(series) ?? 0) + Math.abs(value ?? 0));
+    });
+    aggregated.set(category, values);
+  });
+
+  const labels = plan.seriesBy
+    ? Array.from(totals.keys()).sort((a, b) => totals.get(b)! - totals.get(a)!).slice(0, MAX_SERIES).sort(compare)
+    : measures.map(measureLabel);
+  const series: ChartSeries[] = labels.map((label, i) => ({
+    key: `s${i}`,
+    label,
+    ...(chartType === 'combo' ? { axis: i === 0 ? 'left' as const : 'right' as const } : {})
+  }));
+
+  const wide = Array.from(aggregated.entries()).map(([name, values]) => {
+    const row: Record<string, any> = { name };
+    series.forEach(s => { row[s.key] = values.get(s.label) ?? null; });
+    return row as { name: string; [key: string]: any };
+  });
+  const total = (row: Record<string, any>) => series.reduce((acc, s) => acc + (row[s.key] ?? 0), 0);
+  return { chartData: sortAndLimit(wide, plan, total), series, groups: cells.size };
+};
+
+const needsSeries = (plan: QueryPlan, chartType: ChartType) =>
+  chartType !== 'pie' && (chartType === 'combo' || !!plan.seriesBy || (plan.valueColumns?.length ?? 0) > 1);
+
+/**
+ * Runs a model-generated query plan over every row of the dataset and returns chart-ready data.
+ * Throws QueryPlanError when the plan references columns or operators the engine does not know.
+ */
+export const executeQueryPlan = (plan: QueryPlan, dataset: Dataset, chartType: ChartType): QueryResult => {
+  const filters = plan.filters ?? [];
+  filters.forEach(f => assertColumn(dataset, f.column, 'filter'));
+
+  const rows = filters.length > 0
+    ? dataset.data.filter(row => filters.every(f => matchesFilter(row, f)))
+    : dataset.data;
+  const stats = (groups: number): QueryStats => ({ rowsScanned: dataset.data.length, rowsMatched: rows.length, groups, sampleOf: dataset.sample?.totalRows });
+
+  if (chartType === 'scatter') {
+    assertColumn(dataset, plan.xColumn, 'x');
+    assertColumn(dataset, plan.yColumn, 'y');
+    if (!plan.xColumn || !plan.yColumn) throw new QueryPlanError('Scatter plans need both xColumn and yColumn.');
+    const points = rows
+      .map(row => ({ x: toNumber(row[plan.xColumn!]), y: toNumber(row[plan.yColumn!]) }))
+      .filter(p => p.x !== null && p.y !== null);
+    const limited = points.slice(0, Math.min(plan.limit ?? MAX_SCATTER_POINTS, MAX_SCATTER_POINTS));
+    return { chartData: limited, stats: stats(limited.length) };
+  }
+
+  assertColumn(dataset, plan.groupBy, 'group-by');
+  assertColumn(dataset, plan.seriesBy, 'series');
+  assertColumn(dataset, plan.valueColumn, 'value');
+  (plan.valueColumns ?? []).forEach(c => assertColumn(dataset, c, 'value'));
+
+  if (chartType === 'histogram') {
+    const chartData = histogramResult(plan, rows);
+    return { chartData, stats: stats(chartData.length) };
+  }
+  if (chartType === 'boxPlot') {
+    const { chartData, groups } = boxPlotResult(plan, rows);
+    return { chartData, stats: stats(groups) };
+  }
+  if (chartType === 'heatmap') {
+    const { chartData, groups } = heatmapResult(plan, dataset, rows);
+    return { chartData, stats: stats(groups) };
+  }
+
+  if (chartType === 'forecast') {
+    const { chartData, periods, forecast } = forecastResult(plan, rows);
+    return { chartData, stats: { ...stats(periods), forecast } };
+  }
+
+  if (plan.aggregation !== 'count' && !plan.valueColumn && !plan.valueColumns?.length) {
+    throw new QueryPlanError(`Aggregation "${plan.aggregation}" needs a valueColumn.`);
+  }
+
+  if (needsSeries(plan, chartType)) {
+    const { chartData, series, groups } = seriesResult(plan, rows, chartType);
+    return { chartData, series, stats: stats(groups) };
+  }
+
+  const valueColumn = plan.valueColumn ?? plan.valueColumns?.[0];
+  const pick = (row: DataRow) => (valueColumn ? row[valueColumn] : 1);
+  const groups = new Map<string, any[]>();
+  if (plan.groupBy) {
+    for (const row of rows) {
+      const key = groupKey(row[plan.groupBy]);
+      let bucket = groups.get(key);
+      if (!bucket) {
+        bucket = [];
+        groups.set(key, bucket);
+      }
+      bucket.push(pick(row));
+    }
+  } else {
+    groups.set(valueColumn ? `${plan.aggregation} of ${valueColumn}` : 'count', rows.map(pick));
+  }
+
+  const chartData = Array.from(groups.entries()).map(([name, values]) => ({
+    name,
+    value: round(aggregate(values, plan.aggregation))
+  }));
+
+  return { chartData: sortAndLimit(chartData, plan, g => g.value ?? 0), stats: stats(groups.size) };
+};
+
+export const formatFilter = (f: QueryFilter): string => {
+  const symbols: Record<string, string> = { eq: '=', neq: '≠', gt: '>', gte: '≥', lt: '<', lte: '≤' };
+  if (f.operator === 'in') return `${f.column} IN (${(f.values ?? []).join(', ')})`;
+  if (f.operator === 'contains') return `${f.column} CONTAINS "${f.value}"`;
+  return `${f.column} ${symbols[f.operator] ?? f.operator} ${f.value}`;
+};
+
+/** A compact pseudo-SQL rendering of a plan, used to audit how numbers were produced. */
+export const describeQueryPlan = (plan: QueryPlan, chartType: ChartType): string => {
+  const from = plan.dataset ? ` FROM "${plan.dataset}"` : '';
+  const where = plan.filters?.length ? ` WHERE ${plan.filters.map(formatFilter).join(' AND ')}` : '';
+  const limit = plan.limit ? ` LIMIT ${plan.limit}` : '';
+  if (chartType === 'scatter') {
+    return `SELECT ${plan.xColumn}, ${plan.yColumn}${from}${where}${limit}`;
+  }
+  if (chartType === 'histogram') {
+    return `SELECT BIN(${plan.valueColumn}, ${plan.bins ?? 'auto'}), COUNT(*)${from}${where} GROUP BY 1`;
+  }
+  if (chartType === 'boxPlot') {
+    const select = plan.groupBy ? `${plan.groupBy}, QUARTILES(${plan.valueColumn})` : `QUARTILES(${plan.valueColumn})`;
+    return `SELECT ${select}${from}${where}${plan.groupBy ? ` GROUP BY ${plan.groupBy}` : ''}${limit}`;
+  }
+  if (chartType === 'forecast') {
+    const interval = plan.interval ? plan.interval.toUpperCase() : 'AUTO';
+    return `SELECT DATE_TRUNC(${interval}, ${plan.groupBy}), ${plan.aggregation.toUpperCase()}(${plan.valueColumn ?? '*'})${from}${where} GROUP BY 1 ORDER BY 1 FORECAST ${plan.horizon ?? 'auto'} USING ${plan.forecastMethod ?? 'auto'}`;
+  }
+  if (chartType === 'heatmap' && !(plan.groupBy && plan.seriesBy)) {
+    return `SELECT CORR(a, b) FOR a, b IN (${plan.columns?.length ? plan.columns.join(', ') : 'all numeric columns'})${from}${where}`;
+  }
+  const columns = plan.valueColumns?.length ? plan.valueColumns : [plan.valueColumn];
+  const measures = columns.map(c => `${plan.aggregation.toUpperCase()}(${c ?? '*'})`);
+  const keys = [plan.groupBy, plan.seriesBy].filter(Boolean);
+  const select = [...keys, ...measures].join(', ');
+  const groupBy = keys.length ? ` GROUP BY ${keys.join(', ')}` : '';
+  const orderBy = plan.sort ? ` ORDER BY ${plan.sort.by === 'value' ? measures.join(' + ') : plan.groupBy ?? 'name'} ${plan.sort.direction.toUpperCase()}` : '';
+  return `SELECT ${select}${from}${where}${groupBy}${orderBy}${limit}`;
+};
@@ -0,0 +1,482 @@
+import { jsPDF } from 'jspdf';
+import { AIResponse, ChartStyle, ColumnProfile, Dataset, Message, PinnedInsight } from "../types";
+import { activeChart } from "./chartEditor";
+import { chartToSvg, drawChartPdf, VectorChart } from "./chartVector";
+import { describeSample } from "./ingest";
+import { PII_LABELS } from "./privacy";
+import { describeQueryPlan } from "./queryEngine";
+import { formatCompact } from "./stats";
+import { describeStep } from "./transforms";
+import { createZip } from "./zip";
+
+// --- Multi-page reports of chat answers and pinned charts, as PDF and Word documents ---
+
+export interface ReportItem {
+  id: string;
+  source: 'chat' | 'pin';
+  title: string;
+  question: string;
+  response: AIResponse;
+  style?: ChartStyle;
+  datasetName: string;
+  note?: string;
+  date: Date;
+}
+
+export interface ReportContent {
+  title: string;
+  dataset: Dataset | null;
+  profile: ColumnProfile[];
+  items: ReportItem[]; // In report order
+  charts: Record<string, VectorChart | undefined>; // By item id
+}
+
+// Shared by both formats so a PDF and a Word export of the same report look alike.
+const BRAND = {
+  name: 'InsightAI',
+  primary: '#3b82f6', // Blue-500
+  ink: '#0f172a', // Slate-900
+  muted: '#64748b', // Slate-500
+  rule: '#e2e8f0', // Slate-200
+  tint: '#eff6ff' // Blue-50
+};
+
+const MAX_CHART_HEIGHT_MM = 140;
+const COLUMN_HEADERS = ['Column', 'Type', 'Filled', 'Distinct', 'Values'];
+
+/** Every answered question in the thread (oldest first), then the dashboard's pins in grid order. */
+export const reportItems = (thread: Message[], messages: Message[], pins: PinnedInsight[], datasetName: string): ReportItem[] => {
+  const answers = thread.flatMap((m): ReportItem[] => {
+    const chart = m.role === 'assistant' ? activeChart(m) : null;
+    if (!chart) return [];
+    return [{
+      id: `chat-${m.id}`,
+      source: 'chat',
+      title: chart.response.summary,
+      question: messages.find(q => q.id === m.parentId)?.content ?? '',
+      response: chart.response,
+      style: chart.style,
+      datasetName: chart.response.queryPlan?.dataset ?? datasetName,
+      date: m.timestamp
+    }];
+  });
+  const pinned = pins.map((pin): ReportItem => ({
+    id: pin.id,
+    source: 'pin',
+    title: pin.title,
+    question: pin.question,
+    response: pin.response,
+    style: pin.style,
+    datasetName: pin.datasetName,
+    note: pin.note || undefined,
+    date: pin.refreshedAt ?? pin.pinnedAt
+  }));
+  return [...answers, ...pinned];
+};
+
+export const hasChart = (item: ReportItem) => item.response.chartType !== 'none' && item.response.chartData.length > 0;
+
+const describeItem = (item: ReportItem) =>
+  `${item.source === 'pin' ? 'Pinned insight' : 'Chat answer'} · ${item.datasetName} · ${item.date.toLocaleString()}`;
+
+const datasetFacts = (dataset: Dataset): string[] => {
+  const rows = dataset.sample?.totalRows ?? dataset.data.length;
+  const facts = [`${rows.toLocaleString()} rows × ${dataset.columns.length} columns`];
+  const sample = describeSample(dataset);
+  if (sample) facts.push(`${sample}; charts were computed on the sample.`);
+  if (dataset.derivedFrom) facts.push(`Built by a ${dataset.derivedFrom.type} join on ${dataset.derivedFrom.keys.map(k => `${k.left} = ${k.right}`).join(', ')}.`);
+  return facts;
+};
+
+const columnSummary = (p: ColumnProfile): string => {
+  if (p.pii) return `${PII_LABELS[p.pii]} (values not shown)`;
+  if (p.type === 'integer' || p.type === 'decimal') {
+    if (typeof p.min !== 'number' || typeof p.max !== 'number') return '';
+    return `${formatCompact(p.min)} to ${formatCompact(p.max)}${p.mean !== undefined ? `, mean ${formatCompact(p.mean)}` : ''}`;
+  }
+  if (p.type === 'date') return p.min !== undefined ? `${p.min} to ${p.max}` : '';
+  return p.topCategories.slice(0, 3).map(c => `${c.value} (${c.count.toLocaleString()})`).join(', ');
+};
+
+const columnRows = (profile: ColumnProfile[]): string[][] => profile.map(p => {
+  const total = p.count + p.nullCount;
+  return [p.column, p.type, total ? `${Math.round((p.count / total) * 100)}%` : '—', p.distinctCount.toLocaleString(), columnSummary(p)];
+});
+
+const paragraphsOf = (text: string) => text.split(/\n+/).map(t => t.trim()).filter(Boolean);
+
+const fileStem = (title: string) => title.replace(/[^\w-]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 60) || 'Report';
+
+export const reportFileName = (title: string, extension: 'pdf' | 'docx') => `InsightAI_${fileStem(title)}.${extension}`;
+
+// --- PDF ---
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 20;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const BOTTOM = PAGE_HEIGHT - 22;
+const TOC_PER_PAGE = 30;
+const COLUMN_WIDTHS_MM = [42, 22, 16, 18, 72];
+
+const lineHeight = (size: number) => size * 0.45; // pt to mm at 1.28 line spacing
+
+/**
+ * A4 PDF: title page, contents with links, the dataset description, then one section per item.
+ * Text wraps and continues on new pages; charts are drawn as vectors.
+ */
+export const buildPdfReport = (content: ReportContent): Blob => {
+  const doc = new jsPDF();
+  const sections: { title: string; page: number }[] = [];
+  let y = MARGIN;
+
+  const newPage = () => {
+    doc.addPage();
+    y = MARGIN + 5;
+  };
+  const ensure = (height: number) => {
+    if (y + height > BOTTOM) newPage();
+  };
+  const style = (size: number, weight: 'normal' | 'bold' | 'italic', color: string) => {
+    doc.setFont('helvetica', weight);
+    doc.setFontSize(size);
+    doc.setTextColor(color);
+  };
+  const write = (text: string, size = 11, weight: 'normal' | 'bold' | 'italic' = 'normal', color = BRAND.ink, after = 3) => {
+    style(size, weight, color);
+    (doc.splitTextToSize(text, CONTENT_WIDTH) as string[]).forEach(line => {
+      ensure(lineHeight(size));
+      doc.text(line, MARGIN, y);
+      y += lineHeight(size);
+    });
+    y += after;
+  };
+  const label = (text: string) => {
+    ensure(12);
+    write(text.toUpperCase(), 8, 'bold', BRAND.primary, 1);
+  };
+  const heading = (title: string) => {
+    sections.push({ title, page: doc.getNumberOfPages() });
+    doc.outline.add(null, title, { pageNumber: doc.getNumberOfPages() });
+    write(title, 18, 'bold', BRAND.ink, 2);
+    doc.setDrawColor(BRAND.primary);
+    doc.setLineWidth(0.6);
+    doc.line(MARGIN, y, MARGIN + 24, y);
+    y += 8;
+  };
+  const table = (headers: string[], rows: string[][]) => {
+    const padding = 1.5;
+    const drawRow = (cells: string[], header: boolean) => {
+      style(8.5, header ? 'bold' : 'normal', BRAND.ink);
+      const wrapped = cells.map((cell, i) => doc.splitTextToSize(cell, COLUMN_WIDTHS_MM[i] - 2 * padding) as string[]);
+      const height = Math.max(...wrapped.map(lines => lines.length)) * lineHeight(8.5) + 2 * padding;
+      if (y + height > BOTTOM) {
+        newPage();
+        if (!header) drawRow(headers, true);
+        style(8.5, 'normal', BRAND.ink);
+      }
+      if (header) {
+        doc.setFillColor(BRAND.tint);
+        doc.rect(MARGIN, y, CONTENT_WIDTH, height, 'F');
+      }
+      let x = MARGIN;
+      wrapped.forEach((lines, i) => {
+        doc.text(lines, x + padding, y + padding + lineHeight(8.5) * 0.75, { lineHeightFactor: 1.28 });
+        x += COLUMN_WIDTHS_MM[i];
+      });
+      y += height;
+      doc.setDrawColor(BRAND.rule);
+      doc.setLineWidth(0.2);
+      doc.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y);
+    };
+    drawRow(headers, true);
+    rows.forEach(row => drawRow(row, false));
+    y += 6;
+  };
+
+  // Title page
+  doc.setFillColor(BRAND.primary);
+  doc.rect(0, 0, PAGE_WIDTH, 10, 'F');
+  style(12, 'bold', BRAND.primary);
+  doc.text(BRAND.name, MARGIN, 60);
+  y = 80;
+  write(content.title, 28, 'bold', BRAND.ink, 4);
+  if (content.dataset) write(content.dataset.name, 13, 'normal', BRAND.muted, 2);
+  write(`${content.items.length} ${content.items.length === 1 ? 'section' : 'sections'} · Generated on ${new Date().toLocaleString()}`, 10, 'normal', BRAND.muted);
+
+  // Contents pages are reserved now and filled in once every section's page is known.
+  const tocStart = doc.getNumberOfPages() + 1;
+  const tocPages = Math.ceil((content.items.length + (content.dataset ? 1 : 0)) / TOC_PER_PAGE) || 1;
+  for (let i = 0; i < tocPages; i++) doc.addPage();
+
+  if (content.dataset) {
+    newPage();
+    heading('Dataset');
+    datasetFacts(content.dataset).forEach(fact => write(fact, 11, 'normal', BRAND.ink, 1));
+    y += 3;
+    if (content.dataset.recipe?.length) {
+      label('Transform steps');
+      content.dataset.recipe.forEach((step, i) => write(`${i + 1}. ${describeStep(step)}`, 10, 'normal', BRAND.ink, 1));
+      y += 4;
+    }
+    if (content.profile.length) {
+      label('Columns');
+      table(COLUMN_HEADERS, columnRows(content.profile));
+    }
+  }
+
+  content.items.forEach((item, index) => {
+    newPage();
+    heading(`${index + 1}. ${item.title}`);
+    write(describeItem(item), 9, 'normal', BRAND.muted, 5);
+    if (item.question) {
+      label('Question');
+      write(item.question, 11, 'italic', BRAND.ink, 5);
+    }
+    if (item.note) {
+      label('Note');
+      write(item.note, 11, 'normal', BRAND.ink, 5);
+    }
+    const chart = content.charts[item.id];
+    if (chart && hasChart(item)) {
+      const natural = (chart.height / chart.width) * CONTENT_WIDTH;
+      const width = natural > MAX_CHART_HEIGHT_MM ? (CONTENT_WIDTH * MAX_CHART_HEIGHT_MM) / natural : CONTENT_WIDTH;
+      ensure((chart.height / chart.width) * width);
+      y += drawChartPdf(doc, chart, MARGIN + (CONTENT_WIDTH - width) / 2, y, width) + 6;
+    }
+    label('Insight');
+    paragraphsOf(item.response.insight || item.response.summary).forEach(p => write(p, 11, 'normal', BRAND.ink, 3));
+    if (item.response.queryPlan) {
+      y += 2;
+      write(`Query: ${describeQueryPlan(item.response.queryPlan, item.response.chartType)}`, 8.5, 'normal', BRAND.muted, 1);
+    }
+  });
+
+  // Contents, with each entry linked to its page.
+  sections.forEach((section, i) => {
+    const page = tocStart + Math.floor(i / TOC_PER_PAGE);
+    doc.setPage(page);
+    let rowY = MARGIN + 5;
+    if (i % TOC_PER_PAGE === 0) {
+      style(18, 'bold', BRAND.ink);
+      doc.text('Contents', MARGIN, rowY);
+    }
+    rowY += 14 + (i % TOC_PER_PAGE) * 7.5;
+    style(11, 'normal', BRAND.ink);
+    const lines = doc.splitTextToSize(section.title, CONTENT_WIDTH - 20) as string[];
+    doc.text(lines.length > 1 ? `${lines[0]}…` : lines[0], MARGIN, rowY);
+    style(11, 'normal', BRAND.muted);
+    doc.text(String(section.page), MARGIN + CONTENT_WIDTH, rowY, { align: 'right' });
+    doc.link(MARGIN, rowY - 4.5, CONTENT_WIDTH, 6.5, { pageNumber: section.page });
+  });
+
+  // Footer on every page but the title page.
+  const total = doc.getNumberOfPages();
+  for (let page = 2; page <= total; page++) {
+    doc.setPage(page);
+    doc.setDrawColor(BRAND.rule);
+    doc.setLineWidth(0.2);
+    doc.line(MARGIN, PAGE_HEIGHT - 14, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 14);
+    style(8, 'normal', BRAND.muted);
+    const footer = doc.splitTextToSize(`${BRAND.name} · ${content.title}`, CONTENT_WIDTH - 30) as string[];
+    doc.text(footer[0], MARGIN, PAGE_HEIGHT - 9);
+    doc.text(`Page ${page} of ${total}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 9, { align: 'right' });
+  }
+
+  return doc.output('blob');
+};
+
+// --- Word (DOCX) ---
+
+const EMU_PER_MM = 36000;
+const TWIPS_PER_MM = 56.7;
+const PAGE_WIDTH_TWIPS = 11906; // A4
+const PAGE_HEIGHT_TWIPS = 16838;
+const MARGIN_TWIPS = Math.round(MARGIN * TWIPS_PER_MM);
+const CONTENT_TWIPS = PAGE_WIDTH_TWIPS - 2 * MARGIN_TWIPS;
+const SVG_BLIP_EXT = '{96DAC541-7B7A-43D3-8B79-37D633B846F1}';
+
+const hex = (color: string) => color.slice(1).toUpperCase();
+
+const xml = (text: string) =>
+  text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const run = (text: string, props = '') =>
+  `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${xml(text)}</w:t></w:r>`;
+
+const paragraph = (runs: string, style?: string, props = '') =>
+  `<w:p><w:pPr>${style ? `<w:pStyle w:val="${style}"/>` : ''}${props}</w:pPr>${runs}</w:p>`;
+
+const field = (instruction: string, placeholder: string) =>
+  `<w:r><w:fldChar w:fldCharType="begin"/></w:r><w:r><w:instrText xml:space="preserve"> ${instruction} </w:instrText></w:r><w:r><w:fldChar w:fldCharType="separate"/></w:r>${run(placeholder)}<w:r><w:fldChar w:fldCharType="end"/></w:r>`;
+
+const tableXml = (headers: string[], rows: string[][]) => {
+  const widths = COLUMN_WIDTHS_MM.map(w => Math.round((w / CONTENT_WIDTH) * CONTENT_TWIPS));
+  const cell = (text: string, i: number, header: boolean) =>
+    `<w:tc><w:tcPr><w:tcW w:w="${widths[i]}" w:type="dxa"/>${header ? `<w:shd w:val="clear" w:color="auto" w:fill="${hex(BRAND.tint)}"/>` : ''}</w:tcPr>${paragraph(run(text, header ? '<w:b/>' : ''), 'TableText')}</w:tc>`;
+  const row = (cells: string[], header: boolean) =>
+    `<w:tr>${header ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}${cells.map((c, i) => cell(c, i, header)).join('')}</w:tr>`;
+  return `<w:tbl><w:tblPr><w:tblStyle w:val="ReportTable"/><w:tblW w:w="${CONTENT_TWIPS}" w:type="dxa"/></w:tblPr><w:tblGrid>${widths.map(w => `<w:gridCol w:w="${w}"/>`).join('')}</w:tblGrid>${row(headers, true)}${rows.map(r => row(r, false)).join('')}</w:tbl>`;
+};
+
+const imageXml = (id: number, pngRel: string, svgRel: string, widthMm: number, heightMm: number) => {
+  const cx = Math.round(widthMm * EMU_PER_MM);
+  const cy = Math.round(heightMm * EMU_PER_MM);
+  return `<w:p><w:pPr><w:jc w:val="center"/><w:spacing w:before="120" w:after="240"/></w:pPr><w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="${id}" name="Chart ${id}"/><wp:cNvGraphicFramePr><a:graphicFrameLocks noChangeAspect="1"/></wp:cNvGraphicFramePr><a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:pic><pic:nvPicPr><pic:cNvPr id="${id}" name="chart${id}.png"/><pic:cNvPicPr/></pic:nvPicPr><pic:blipFill><a:blip r:embed="${pngRel}"><a:extLst><a:ext uri="${SVG_BLIP_EXT}"><asvg:svgBlip r:embed="${svgRel}"/></a:ext></a:extLst></a:blip><a:stretch><a:fillRect/></a:stretch></pic:blipFill><pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr></pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r></w:p>`;
+};
+
+// Word draws the SVG; the PNG is the fallback older versions and other editors show instead.
+const rasterize = (svg: string, width: number, height: number, scale = 2): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(blob => {
+        if (!blob) return reject(new Error('Could not render a chart image.'));
+        blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+      }, 'image/png');
+    };
+    image.onerror = () => reject(new Error('Could not render a chart image.'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Arial" w:hAnsi="Arial" w:cs="Arial" w:eastAsia="Arial"/><w:color w:val="${hex(BRAND.ink)}"/><w:sz w:val="22"/><w:szCs w:val="22"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+<w:style w:type="paragraph" w:styleId="Brand"><w:name w:val="Brand"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:before="2400" w:after="480"/></w:pPr><w:rPr><w:b/><w:color w:val="${hex(BRAND.primary)}"/><w:sz w:val="24"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="160"/></w:pPr><w:rPr><w:b/><w:sz w:val="56"/><w:szCs w:val="56"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:qFormat/><w:rPr><w:color w:val="${hex(BRAND.muted)}"/><w:sz w:val="26"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:pageBreakBefore/><w:pBdr><w:bottom w:val="single" w:sz="8" w:space="4" w:color="${hex(BRAND.primary)}"/></w:pBdr><w:spacing w:after="160"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="36"/><w:szCs w:val="36"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="ContentsHeading"><w:name w:val="Contents Heading"/><w:basedOn w:val="Normal"/><w:pPr><w:pageBreakBefore/><w:spacing w:after="240"/></w:pPr><w:rPr><w:b/><w:sz w:val="36"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Label"><w:name w:val="Label"/><w:basedOn w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="160" w:after="40"/></w:pPr><w:rPr><w:b/><w:caps/><w:color w:val="${hex(BRAND.primary)}"/><w:sz w:val="16"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Meta"><w:name w:val="Meta"/><w:basedOn w:val="Normal"/><w:rPr><w:color w:val="${hex(BRAND.muted)}"/><w:sz w:val="18"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="TableText"><w:name w:val="Table Text"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="0"/></w:pPr><w:rPr><w:sz w:val="17"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="TOC1"><w:name w:val="toc 1"/><w:basedOn w:val="Normal"/><w:pPr><w:tabs><w:tab w:val="right" w:leader="dot" w:pos="${CONTENT_TWIPS}"/></w:tabs><w:spacing w:after="80"/></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="Footer"><w:name w:val="footer"/><w:basedOn w:val="Normal"/><w:pPr><w:pBdr><w:top w:val="single" w:sz="4" w:space="4" w:color="${hex(BRAND.rule)}"/></w:pBdr><w:tabs><w:tab w:val="right" w:pos="${CONTENT_TWIPS}"/></w:tabs><w:spacing w:after="0"/></w:pPr><w:rPr><w:color w:val="${hex(BRAND.muted)}"/><w:sz w:val="16"/></w:rPr></w:style>
+<w:style w:type="table" w:styleId="ReportTable"><w:name w:val="Report Table"/><w:tblPr><w:tblBorders><w:bottom w:val="single" w:sz="4" w:color="${hex(BRAND.rule)}"/><w:insideH w:val="single" w:sz="4" w:color="${hex(BRAND.rule)}"/></w:tblBorders><w:tblCellMar><w:top w:w="60" w:type="dxa"/><w:left w:w="85" w:type="dxa"/><w:bottom w:w="60" w:type="dxa"/><w:right w:w="85" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>
+</w:styles>`;
+
+// Asks Word to refresh the contents field (page numbers) when the document is opened.
+const SETTINGS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:settings xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:updateFields w:val="true"/><w:defaultTabStop w:val="720"/></w:settings>`;
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Default Extension="png" ContentType="image/png"/><Default Extension="svg" ContentType="image/svg+xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/><Override PartName="/word/settings.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.settings+xml"/><Override PartName="/word/footer1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml"/><Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/></Types>`;
+
+const PACKAGE_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/></Relationships>`;
+
+const DOCUMENT_NAMESPACES = [
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"',
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"',
+  'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"',
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"',
+  'xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"',
+  'xmlns:asvg="http://schemas.microsoft.com/office/drawing/2016/SVG/main"'
+].join(' ');
+
+/**
+ * Word document with the same sections as the PDF. Headings use Word's heading style so the
+ * contents field and the navigation pane work; charts are embedded as SVG with a PNG fallback.
+ */
+export const buildDocxReport = async (content: ReportContent): Promise<Blob> => {
+  const titlePage: string[] = [];
+  const body: string[] = [];
+  const media: { name: string; data: string | Uint8Array }[] = [];
+  const relationships = [
+    '<Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>',
+    '<Relationship Id="rIdSettings" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/settings" Target="settings.xml"/>',
+    '<Relationship Id="rIdFooter" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer" Target="footer1.xml"/>'
+  ];
+  const headings: string[] = [];
+  const texts = (text: string, style?: string, props = '') => paragraphsOf(text).forEach(p => body.push(paragraph(run(p, props), style)));
+  const heading = (title: string) => {
+    headings.push(title);
+    body.push(paragraph(run(title), 'Heading1'));
+  };
+
+  // Title page
+  titlePage.push(paragraph(run(BRAND.name), 'Brand'));
+  titlePage.push(paragraph(run(content.title), 'Title'));
+  if (content.dataset) titlePage.push(paragraph(run(content.dataset.name), 'Subtitle'));
+  titlePage.push(paragraph(run(`${content.items.length} ${content.items.length === 1 ? 'section' : 'sections'} · Generated on ${new Date().toLocaleString()}`), 'Meta'));
+
+  if (content.dataset) {
+    heading('Dataset');
+    datasetFacts(content.dataset).forEach(fact => texts(fact));
+    if (content.dataset.recipe?.length) {
+      body.push(paragraph(run('Transform steps'), 'Label'));
+      content.dataset.recipe.forEach((step, i) => texts(`${i + 1}. ${describeStep(step)}`));
+    }
+    if (content.profile.length) {
+      body.push(paragraph(run('Columns'), 'Label'));
+      body.push(tableXml(COLUMN_HEADERS, columnRows(content.profile)));
+    }
+  }
+
+  for (const [index, item] of content.items.entries()) {
+    heading(`${index + 1}. ${item.title}`);
+    texts(describeItem(item), 'Meta');
+    if (item.question) {
+      body.push(paragraph(run('Question'), 'Label'));
+      texts(item.question, undefined, '<w:i/>');
+    }
+    if (item.note) {
+      body.push(paragraph(run('Note'), 'Label'));
+      texts(item.note);
+    }
+    const chart = content.charts[item.id];
+    if (chart && hasChart(item)) {
+      const id = media.length / 2 + 1;
+      const svg = chartToSvg(chart);
+      media.push({ name: `word/media/chart${id}.svg`, data: svg }, { name: `word/media/chart${id}.png`, data: await rasterize(svg, chart.width, chart.height) });
+      relationships.push(
+        `<Relationship Id="rIdChart${id}Svg" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/chart${id}.svg"/>`,
+        `<Relationship Id="rIdChart${id}Png" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/chart${id}.png"/>`
+      );
+      const natural = (chart.height / chart.width) * CONTENT_WIDTH;
+      const width = natural > MAX_CHART_HEIGHT_MM ? (CONTENT_WIDTH * MAX_CHART_HEIGHT_MM) / natural : CONTENT_WIDTH;
+      body.push(imageXml(id, `rIdChart${id}Png`, `rIdChart${id}Svg`, width, (chart.height / chart.width) * width));
+    }
+    body.push(paragraph(run('Insight'), 'Label'));
+    texts(item.response.insight || item.response.summary);
+    if (item.response.queryPlan) texts(`Query: ${describeQueryPlan(item.response.queryPlan, item.response.chartType)}`, 'Meta');
+  }
+
+  // The contents field holds the heading list until Word fills in page numbers on open.
+  const contents = [
+    paragraph(run('Contents'), 'ContentsHeading'),
+    `<w:p><w:pPr><w:pStyle w:val="TOC1"/></w:pPr><w:r><w:fldChar w:fldCharType="begin" w:dirty="true"/></w:r><w:r><w:instrText xml:space="preserve"> TOC \\o "1-1" \\h \\z \\u </w:instrText></w:r><w:r><w:fldChar w:fldCharType="separate"/></w:r>${run(headings[0] ?? '')}</w:p>`,
+    ...headings.slice(1).map(h => paragraph(run(h), 'TOC1')),
+    '<w:p><w:r><w:fldChar w:fldCharType="end"/></w:r></w:p>'
+  ];
+
+  const sectionXml = `<w:sectPr><w:footerReference w:type="default" r:id="rIdFooter"/><w:pgSz w:w="${PAGE_WIDTH_TWIPS}" w:h="${PAGE_HEIGHT_TWIPS}"/><w:pgMar w:top="${MARGIN_TWIPS}" w:right="${MARGIN_TWIPS}" w:bottom="${MARGIN_TWIPS}" w:left="${MARGIN_TWIPS}" w:header="708" w:footer="567" w:gutter="0"/><w:titlePg/></w:sectPr>`;
+  const documentXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document ${DOCUMENT_NAMESPACES}><w:body>${[...titlePage, ...contents, ...body].join('')}${sectionXml}</w:body></w:document>`;
+  const footerXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:ftr xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">${paragraph(`${run(`${BRAND.name} · ${content.title}`)}<w:r><w:tab/></w:r>${run('Page ')}${field('PAGE', '1')}${run(' of ')}${field('NUMPAGES', '1')}`, 'Footer')}</w:ftr>`;
+  const coreXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"><dc:title>${xml(content.title)}</dc:title><dc:creator>${BRAND.name}</dc:creator><dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString().slice(0, 19)}Z</dcterms:created></cp:coreProperties>`;
+
+  return createZip([
+    { name: '[Content_Types].xml', data: CONTENT_TYPES_XML },
+    { name: '_rels/.rels', data: PACKAGE_RELS_XML },
+    { name: 'word/document.xml', data: documentXml },
+    { name: 'word/styles.xml', data: STYLES_XML },
+    { name: 'word/settings.xml', data: SETTINGS_XML },
+    { name: 'word/footer1.xml', data: footerXml },
+    { name: 'word/_rels/document.xml.rels', data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${relationships.join('')}</Relationships>` },
+    { name: 'docProps/core.xml', data: coreXml },
+    ...media
+  ], 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+};
@@ -0,0 +1,483 @@
+import { AIResponse, Aggregation, AnalysisError, AnomalyMethod, ChartSeries, ChartType, ColumnType, DateUnit, FillStrategy, FilterOperator, ForecastMethod, QueryFilter, QueryPlan, StatTestKind, StatTestRequest, TransformKind, TransformStep, ValidationIssue } from "../types";
+import { isAbortError, ProviderError } from "./providers";
+import { toNumber } from "./stats";
+
+// --- Runtime checks for model output: coerce what can be fixed, report what cannot ---
+
+export const CHART_TYPES: ChartType[] = [
+  'bar', 'stackedBar', 'groupedBar', 'line', 'area', 'combo', 'pie', 'scatter', 'histogram', 'boxPlot', 'heatmap', 'forecast', 'none'
+];
+// Chart types whose plans do not aggregate, so a missing aggregation is harmless.
+const UNAGGREGATED_CHARTS: ChartType[] = ['scatter', 'histogram', 'boxPlot'];
+const AGGREGATIONS: Aggregation[] = ['sum', 'mean', 'count', 'min', 'max', 'median'];
+const OPERATORS: FilterOperator[] = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'contains', 'in'];
+const TRANSFORM_KINDS: TransformKind[] = [
+  'rename', 'changeType', 'filter', 'fillNulls', 'dropNulls', 'formula', 'split', 'merge', 'dateBucket', 'pivot', 'unpivot', 'deduplicate', 'dropColumns'
+];
+const COLUMN_TYPES: ColumnType[] = ['integer', 'decimal', 'boolean', 'date', 'categorical', 'identifier'];
+const FILL_STRATEGIES: FillStrategy[] = ['value', 'mean', 'median', 'mode', 'previous'];
+const DATE_UNITS: DateUnit[] = ['day', 'week', 'month', 'quarter', 'year'];
+const DATE_UNIT_ALIASES: Record<string, DateUnit> = { daily: 'day', weekly: 'week', monthly: 'month', quarterly: 'quarter', yearly: 'year', annual: 'year' };
+const FORECAST_METHODS: ForecastMethod[] = ['auto', 'movingAverage', 'exponentialSmoothing', 'seasonal'];
+const ANOMALY_METHODS: AnomalyMethod[] = ['zscore', 'iqr'];
+const STAT_TESTS: StatTestKind[] = ['tTest', 'mannWhitney', 'anova', 'chiSquare', 'pearson', 'spearman', 'regression'];
+
+// Keys are lowercased with spaces, underscores and dashes removed ("Bar Chart" -> "barchart").
+const CHART_TYPE_ALIASES: Record<string, ChartType> = {
+  column: 'bar', columns: 'bar', barchart: 'bar', columnchart: 'bar',
+  stacked: 'stackedBar', stackedcolumn: 'stackedBar', stackedbarchart: 'stackedBar',
+  grouped: 'groupedBar', groupedcolumn: 'groupedBar', clusteredbar: 'groupedBar', clusteredcolumn: 'groupedBar',
+  linechart: 'line', timeseries: 'line', multiline: 'line', areachart: 'area', stackedarea: 'area',
+  composed: 'combo', dualaxis: 'combo', barline: 'combo', combochart: 'combo',
+  piechart: 'pie', donut: 'pie', doughnut: 'pie',
+  scatterplot: 'scatter', scatterchart: 'scatter', bubble: 'scatter',
+  distribution: 'histogram', box: 'boxPlot', boxandwhisker: 'boxPlot', boxwhisker: 'boxPlot',
+  correlation: 'heatmap', correlationmatrix: 'heatmap', matrix: 'heatmap',
+  prediction: 'forecast', projection: 'forecast', forecastchart: 'forecast', anomaly: 'forecast', anomalies: 'forecast', anomalydetection: 'forecast',
+  table: 'none', text: 'none', null: 'none', '': 'none'
+};
+
+const AGGREGATION_ALIASES: Record<string, Aggregation> = {
+  avg: 'mean', average: 'mean', total: 'sum', minimum: 'min', maximum: 'max', countrows: 'count'
+};
+
+const OPERATOR_ALIASES: Record<string, FilterOperator> = {
+  '=': 'eq', '==': 'eq', equals: 'eq', is: 'eq',
+  '!=': 'neq', '<>': 'neq', ne: 'neq', notequals: 'neq',
+  '>': 'gt', '>=': 'gte', '<': 'lt', '<=': 'lte',
+  like: 'contains', includes: 'contains', oneof: 'in'
+};
+
+const normalizeKey = (value: unknown) => String(value ?? '').toLowerCase().replace(/[\s_\-]/g, '');
+
+const normalizeEnum = <T extends string>(value: unknown, allowed: T[], aliases: Record<string, T>): T | null => {
+  const key = normalizeKey(value);
+  return allowed.find(a => a.toLowerCase() === key) ?? aliases[key] ?? null;
+};
+
+/** Strings stay strings; numbers and booleans are stringified; anything else is treated as missing. */
+const coerceString = (value: unknown): string | undefined => {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return undefined;
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export class ResponseValidationError extends Error {
+  constructor(
+    message: string,
+    public issues: ValidationIssue[],
+    public partial?: AIResponse // Parts that were usable, with the failing chart, transforms or test removed
+  ) {
+    super(message);
+    this.name = 'ResponseValidationError';
+  }
+}
+
+/** Parses model output, tolerating Markdown code fences and prose around the JSON object. */
+export const parseResponseText = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start === -1 || end <= start) return undefined;
+    try {
+      return JSON.parse(text.slice(start, end + 1));
+    } catch {
+      return undefined;
+    }
+  }
+};
+
+/**
+ * Reads a string field out of a JSON document that is still streaming in, so text can be shown
+ * before the object is complete. Returns undefined until the field's opening quote has arrived.
+ */
+export const readPartialField = (text: string, field: string): string | undefined => {
+  const match = new RegExp(`"${field}"\\s*:\\s*"`).exec(text);
+  if (!match) return undefined;
+  let value = '';
+  for (let i = match.index + match[0].length; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"') break;
+    if (ch !== '\\') {
+      value += ch;
+      continue;
+    }
+    const next = text[++i];
+    if (next === undefined) break;
+    if (next === 'u') {
+      const hex = text.slice(i + 1, i + 5);
+      if (hex.length < 4) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 4;
+    } else {
+      value += ({ n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' } as Record<string, string>)[next] ?? next;
+    }
+  }
+  return value;
+};
+
+const validateFilter = (raw: unknown, path: string, issues: ValidationIssue[]): QueryFilter | null => {
+  if (!isObject(raw)) {
+    issues.push({ path, message: 'Filter must be an object.' });
+    return null;
+  }
+  const column = coerceString(raw.column);
+  if (!column) {
+    issues.push({ path: `${path}.column`, message: 'Filter is missing its column.' });
+    return null;
+  }
+  const operator = normalizeEnum(raw.operator, OPERATORS, OPERATOR_ALIASES);
+  if (!operator) {
+    issues.push({ path: `${path}.operator`, message: `Unknown operator "${raw.operator}". Use one of: ${OPERATORS.join(', ')}.` });
+    return null;
+  }
+  if (operator === 'in') {
+    const values = Array.isArray(raw.values) ? raw.values : raw.values !== undefined ? [raw.values] : Array.isArray(raw.value) ? raw.value : [raw.value];
+    return { column, operator, values: values.filter((v: unknown) => v !== undefined && v !== null) };
+  }
+  if (raw.value === undefined || raw.value === null) {
+    issues.push({ path: `${path}.value`, message: `Operator "${operator}" needs a value.` });
+    return null;
+  }
+  return { column, operator, value: raw.value };
+};
+
+const TRANSFORM_KIND_ALIASES: Record<string, TransformKind> = {
+  removerows: 'filter', filterrows: 'filter', where: 'filter', renamecolumn: 'rename', cast: 'changeType', convert: 'changeType',
+  fillna: 'fillNulls', fill: 'fillNulls', dropna: 'dropNulls', derive: 'formula', calculated: 'formula', addcolumn: 'formula',
+  splitcolumn: 'split', concat: 'merge', combine: 'merge', bucket: 'dateBucket', melt: 'unpivot', dedupe: 'deduplicate',
+  distinct: 'deduplicate', dropduplicates: 'deduplicate', drop: 'dropColumns', removecolumns: 'dropColumns'
+};
+
+const stringList = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : value === undefined || value === null ? [] : [value])
+    .map(coerceString)
+    .filter((v): v is string => !!v);
+
+/** One transform step from the model; fields are checked per kind, columns are checked when it is applied. */
+const validateTransform = (raw: unknown, path: string, issues: ValidationIssue[]): TransformStep | null => {
+  if (!isObject(raw)) {
+    issues.push({ path, message: 'Transform step must be an object.' });
+    return null;
+  }
+  const kind = normalizeEnum(raw.kind, TRANSFORM_KINDS, TRANSFORM_KIND_ALIASES);
+  if (!kind) {
+    issues.push({ path: `${path}.kind`, message: `Unknown transform "${raw.kind}". Use one of: ${TRANSFORM_KINDS.join(', ')}.` });
+    return null;
+  }
+  const text = (key: string) => coerceString(raw[key]) ?? '';
+  const missing = (...keys: string[]) => {
+    const absent = keys.filter(k => !text(k));
+    absent.forEach(k => issues.push({ path: `${path}.${k}`, message: `"${kind}" needs "${k}".` }));
+    return absent.length > 0;
+  };
+
+  switch (kind) {
+    case 'rename':
+      return missing('column', 'to') ? null : { kind, column: text('column'), to: text('to') };
+    case 'changeType': {
+      const type = normalizeEnum(raw.type, COLUMN_TYPES, { number: 'decimal', numeric: 'decimal', float: 'decimal', int: 'integer', text: 'categorical', string: 'categorical', bool: 'boolean' });
+      if (missing('column')) return null;
+      if (!type) {
+        issues.push({ path: `${path}.type`, message: `Unknown type "${raw.type}". Use one of: ${COLUMN_TYPES.join(', ')}.` });
+        return null;
+      }
+      return { kind, column: text('column'), type };
+    }
+    case 'filter': {
+      const filter = validateFilter(raw.filter ?? raw, `${path}.filter`, issues);
+      return filter ? { kind, filter, mode: normalizeKey(raw.mode) === 'remove' ? 'remove' : 'keep' } : null;
+    }
+    case 'fillNulls': {
+      const strategy = normalizeEnum(raw.strategy ?? (raw.value !== undefined ? 'value' : undefined), FILL_STRATEGIES, { average: 'mean', ffill: 'previous', forward: 'previous', constant: 'value' });
+      if (missing('column')) return null;
+      if (!strategy) {
+        issues.push({ path: `${path}.strategy`, message: `Unknown fill strategy "${raw.strategy}". Use one of: ${FILL_STRATEGIES.join(', ')}.` });
+        return null;
+      }
+      return { kind, column: text('column'), strategy, value: coerceString(raw.value) };
+    }
+    case 'dropNulls':
+      return { kind, columns: stringList(raw.columns ?? raw.column) };
+    case 'formula':
+      return missing('name', 'expression') ? null : { kind, name: text('name'), expression: text('expression') };
+    case 'split': {
+      if (missing('column', 'separator')) return null;
+      const into = stringList(raw.into);
+      return { kind, column: text('column'), separator: text('separator'), into: into.length >= 2 ? into : [`${text('column')}_1`, `${text('column')}_2`] };
+    }
+    case 'merge':
+      return missing('name') ? null : { kind, columns: stringList(raw.columns), separator: coerceString(raw.separator) ?? ' ', name: text('name') };
+    case 'dateBucket': {
+      const unit = normalizeEnum(raw.unit, DATE_UNITS, DATE_UNIT_ALIASES);
+      if (missing('column')) return null;
+      if (!unit) {
+        issues.push({ path: `${path}.unit`, message: `Unknown date unit "${raw.unit}". Use one of: ${DATE_UNITS.join(', ')}.` });
+        return null;
+      }
+      return { kind, column: text('column'), unit, name: text('name') || `${text('column')} (${unit})` };
+    }
+    case 'pivot': {
+      const aggregation = normalizeEnum(raw.aggregation ?? 'sum', AGGREGATIONS, AGGREGATION_ALIASES) ?? 'sum';
+      return missing('index', 'pivotColumn', 'valueColumn') ? null
+        : { kind, index: text('index'), pivotColumn: text('pivotColumn'), valueColumn: text('valueColumn'), aggregation };
+    }
+    case 'unpivot':
+      return {
+        kind,
+        idColumns: stringList(raw.idColumns),
+        valueColumns: stringList(raw.valueColumns),
+        nameColumn: text('nameColumn') || 'variable',
+        valueColumn: text('valueColumn') || 'value'
+      };
+    case 'deduplicate':
+      return { kind, columns: stringList(raw.columns) };
+    case 'dropColumns':
+      return { kind, columns: stringList(raw.columns ?? raw.column) };
+  }
+};
+
+const validateQueryPlan = (raw: unknown, chartType: ChartType, issues: ValidationIssue[]): QueryPlan | undefined => {
+  if (!isObject(raw)) {
+    issues.push({ path: 'queryPlan', message: 'queryPlan must be an object.' });
+    return undefined;
+  }
+  const aggregation = normalizeEnum(raw.aggregation, AGGREGATIONS, AGGREGATION_ALIASES)
+    ?? (UNAGGREGATED_CHARTS.includes(chartType) || (chartType === 'heatmap' && !raw.seriesBy) ? 'count' : null);
+  if (!aggregation) {
+    issues.push({ path: 'queryPlan.aggregation', message: `Unknown aggregation "${raw.aggregation}". Use one of: ${AGGREGATIONS.join(', ')}.` });
+    return undefined;
+  }
+
+  const plan: QueryPlan = { aggregation };
+  (['dataset', 'groupBy', 'seriesBy', 'valueColumn', 'xColumn', 'yColumn'] as const).forEach(key => {
+    const value = coerceString(raw[key]);
+    if (value) plan[key] = value;
+  });
+  (['valueColumns', 'columns'] as const).forEach(key => {
+    const list = (Array.isArray(raw[key]) ? raw[key] : [raw[key]]).map(coerceString).filter((v: string | undefined): v is string => !!v);
+    if (list.length > 0) plan[key] = list;
+  });
+  const bins = toNumber(raw.bins);
+  if (bins !== null && bins >= 1) plan.bins = Math.round(bins);
+
+  if (chartType === 'forecast') {
+    const interval = raw.interval === undefined || raw.interval === null ? undefined : normalizeEnum(raw.interval, DATE_UNITS, DATE_UNIT_ALIASES);
+    if (interval === null) issues.push({ path: 'queryPlan.interval', message: `Unknown interval "${raw.interval}". Use one of: ${DATE_UNITS.join(', ')}.` });
+    else if (interval) plan.interval = interval;
+    const horizon = toNumber(raw.horizon);
+    if (horizon !== null && horizon >= 0) plan.horizon = Math.round(horizon);
+    // Unknown methods fall back to the defaults rather than failing the chart.
+    const method = normalizeEnum(raw.forecastMethod, FORECAST_METHODS, { ma: 'movingAverage', rollingmean: 'movingAverage', holt: 'exponentialSmoothing', ets: 'exponentialSmoothing', smoothing: 'exponentialSmoothing', decomposition: 'seasonal', holtwinters: 'seasonal' });
+    if (method) plan.forecastMethod = method;
+    const anomalyMethod = normalizeEnum(raw.anomalyMethod, ANOMALY_METHODS, { z: 'zscore', stddev: 'zscore', interquartile: 'iqr', tukey: 'iqr' });
+    if (anomalyMethod) plan.anomalyMethod = anomalyMethod;
+  }
+
+  if (raw.filters !== undefined && raw.filters !== null) {
+    const filters = Array.isArray(raw.filters) ? raw.filters : [raw.filters];
+    const valid = filters
+      .map((f, i) => validateFilter(f, `queryPlan.filters[${i}]`, issues))
+      .filter((f): f is QueryFilter => !!f);
+    if (valid.length > 0) plan.filters = valid;
+  }
+
+  if (isObject(raw.sort)) {
+    const by = normalizeKey(raw.sort.by);
+    const direction = normalizeKey(raw.sort.direction);
+    plan.sort = {
+      // Models often sort by the measure's name ("total_sales", "count") instead of "value".
+      by: by === 'value' || (AGGREGATIONS as string[]).includes(by) || (!!raw.valueColumn && by === normalizeKey(raw.valueColumn)) ? 'value' : 'name',
+      direction: direction.startsWith('desc') ? 'desc' : 'asc'
+    };
+  }
+
+  const limit = toNumber(raw.limit);
+  if (limit !== null && limit > 0) plan.limit = Math.floor(limit);
+
+  return plan;
+};
+
+const STAT_TEST_ALIASES: Record<string, StatTestKind> = {
+  t: 'tTest', welch: 'tTest', welchttest: 'tTest', studentt: 'tTest', independentttest: 'tTest', twosamplettest: 'tTest',
+  mannwhitneyu: 'mannWhitney', utest: 'mannWhitney', ranksum: 'mannWhitney', wilcoxonranksum: 'mannWhitney',
+  onewayanova: 'anova', ftest: 'anova', chi2: 'chiSquare', chisquared: 'chiSquare', chisq: 'chiSquare', independence: 'chiSquare',
+  correlation: 'pearson', pearsonr: 'pearson', spearmanr: 'spearman', rankcorrelation: 'spearman',
+  linearregression: 'regression', linear: 'regression', ols: 'regression'
+};
+
+const validateStatTest = (raw: unknown, issues: ValidationIssue[]): StatTestRequest | undefined => {
+  if (!isObject(raw)) {
+    issues.push({ path: 'statTest', message: 'statTest must be an object.' });
+    return undefined;
+  }
+  const test = normalizeEnum(raw.test, STAT_TESTS, STAT_TEST_ALIASES);
+  if (!test) {
+    issues.push({ path: 'statTest.test', message: `Unknown test "${raw.test}". Use one of: ${STAT_TESTS.join(', ')}.` });
+    return undefined;
+  }
+  const request: StatTestRequest = { test };
+  (['dataset', 'valueColumn', 'groupColumn', 'xColumn', 'yColumn'] as const).forEach(key => {
+    const value = coerceString(raw[key]);
+    if (value) request[key] = value;
+  });
+  const groups = stringList(raw.groups);
+  if (groups.length > 0) request.groups = groups;
+  if (raw.filters !== undefined && raw.filters !== null) {
+    const valid = (Array.isArray(raw.filters) ? raw.filters : [raw.filters])
+      .map((f, i) => validateFilter(f, `statTest.filters[${i}]`, issues))
+      .filter((f): f is QueryFilter => !!f);
+    if (valid.length > 0) request.filters = valid;
+  }
+  return request;
+};
+
+/**
+ * Checks a parsed payload against the AIResponse contract and coerces fixable problems
+ * (chartType casing and synonyms, numbers sent as strings, single filters not wrapped in an array).
+ * Returns null as the response when not even the text fields are usable.
+ */
+export const validateResponse = (raw: unknown): { response: AIResponse | null; issues: ValidationIssue[] } => {
+  const issues: ValidationIssue[] = [];
+  if (!isObject(raw)) {
+    issues.push({ path: '$', message: 'Response is not a JSON object.' });
+    return { response: null, issues };
+  }
+
+  const insight = coerceString(raw.insight) ?? coerceString(raw.analysis);
+  const summary = coerceString(raw.summary) ?? insight?.split(/(?<=[.!?])\s/)[0];
+  if (!insight) issues.push({ path: 'insight', message: 'Missing "insight" text.' });
+  if (!summary) issues.push({ path: 'summary', message: 'Missing "summary" text.' });
+  if (!insight || !summary) return { response: null, issues };
+
+  let chartType = normalizeEnum(raw.chartType ?? 'none', CHART_TYPES, CHART_TYPE_ALIASES);
+  if (!chartType) {
+    issues.push({ path: 'chartType', message: `Unknown chartType "${raw.chartType}". Use one of: ${CHART_TYPES.join(', ')}.` });
+    chartType = 'none';
+  }
+
+  const response: AIResponse = {
+    summary,
+    insight,
+    chartType,
+    chartData: [], // Filled only by the local query engine; numbers the model wrote are never charted
+    xAxisLabel: coerceString(raw.xAxisLabel),
+    yAxisLabel: coerceString(raw.yAxisLabel),
+    suggestion: coerceString(raw.suggestion)
+  };
+
+  if (raw.queryPlan !== undefined && raw.queryPlan !== null) {
+    response.queryPlan = validateQueryPlan(raw.queryPlan, chartType, issues);
+  }
+  if (raw.transforms !== undefined && raw.transforms !== null) {
+    const steps = (Array.isArray(raw.transforms) ? raw.transforms : [raw.transforms])
+      .map((t, i) => validateTransform(t, `transforms[${i}]`, issues))
+      .filter((t): t is TransformStep => !!t);
+    if (steps.length > 0) response.transforms = steps;
+  }
+  if (raw.statTest !== undefined && raw.statTest !== null) {
+    response.statTest = validateStatTest(raw.statTest, issues);
+  }
+  if (chartType !== 'none' && !response.queryPlan && !issues.some(i => i.path.startsWith('queryPlan'))) {
+    issues.push({ path: 'queryPlan', message: `chartType "${chartType}" needs a queryPlan.` });
+  }
+
+  return { response, issues };
+};
+
+const finite = (value: unknown) => toNumber(value);
+
+/**
+ * Checks chart points match the shape ChartView expects for the chart type (see AIResponse.chartData)
+ * and coerces numeric strings. Unusable points are dropped.
+ */
+export const validateChartData = (
+  chartType: ChartType,
+  data: unknown[],
+  series?: ChartSeries[]
+): { chartData: any[]; issues: ValidationIssue[] } => {
+  const issues: ValidationIssue[] = [];
+  if (chartType === 'none') return { chartData: [], issues };
+
+  const items = data.filter(isObject);
+  if (items.length < data.length) issues.push({ path: 'chartData', message: `${data.length - items.length} chart points are not objects.` });
+  const empty = (message: string) => issues.push({ path: 'chartData', message });
+
+  if (chartType === 'scatter') {
+    const points = items
+      .map(p => ({ x: finite(p.x), y: finite(p.y) }))
+      .filter(p => p.x !== null && p.y !== null);
+    if (items.some(p => 'name' in p && !('x' in p))) {
+      empty('Scatter charts need { x, y } points, not { name, value } groups.');
+    } else if (points.length === 0) {
+      empty('The scatter plan produced no points with numeric x and y values. Check the columns and filters.');
+    }
+    return { chartData: points, issues };
+  }
+
+  if (chartType === 'heatmap') {
+    const cells = items
+      .map(c => ({ x: coerceString(c.x), y: coerceString(c.y), value: finite(c.value) }))
+      .filter(c => c.x !== undefined && c.y !== undefined);
+    if (cells.length === 0) empty('Heatmaps need { x, y, value } cells.');
+    else if (cells.every(c => c.value === null)) empty('Every heatmap cell is empty. Pick numeric columns with some variance.');
+    return { chartData: cells, issues };
+  }
+
+  if (chartType === 'forecast') {
+    const keys = ['actual', 'fitted', 'forecast', 'lower', 'upper'] as const;
+    const periods = items.map(p => ({ name: coerceString(p.name) ?? '', ...Object.fromEntries(keys.map(k => [k, finite(p[k])])), anomaly: p.anomaly === true, partial: p.partial === true }));
+    if (periods.every(p => (p as any).actual === null)) empty('The time series has no values. Use a date column as groupBy and a numeric valueColumn.');
+    return { chartData: periods, issues };
+  }
+
+  if (chartType === 'boxPlot') {
+    const keys = ['min', 'q1', 'median', 'q3', 'max'] as const;
+    const boxes = items
+      .map(b => ({ ...b, name: coerceString(b.name) ?? '(blank)', ...Object.fromEntries(keys.map(k => [k, finite(b[k])])) }))
+      .filter(b => keys.every(k => (b as any)[k] !== null));
+    if (boxes.length === 0) empty('The box plot has no groups with numeric values. Use a numeric valueColumn.');
+    return { chartData: boxes, issues };
+  }
+
+  if (items.some(p => 'x' in p && !('name' in p))) {
+    empty(`${chartType} charts need { name, value } groups, not { x, y } points.`);
+    return { chartData: [], issues };
+  }
+  const keys = series?.length ? series.map(s => s.key) : ['value'];
+  const groups = items.map(p => ({ ...p, name: coerceString(p.name) ?? '(blank)', ...Object.fromEntries(keys.map(k => [k, finite(p[k])])) }));
+  if (groups.length === 0) {
+    empty('The plan matched no rows. Check filter values against the sample data.');
+  } else if (groups.every(g => keys.every(k => (g as any)[k] === null))) {
+    empty('Every group has a non-numeric value. Use a numeric valueColumn or the count aggregation.');
+  }
+  return { chartData: groups, issues };
+};
+
+/** The follow-up message sent when a response has to be regenerated. */
+export const describeIssuesForRetry = (issues: ValidationIssue[]): string =>
+  `Your previous response could not be used:\n${issues.map(i => `- ${i.path}: ${i.message}`).join('\n')}\n` +
+  'Return the complete corrected JSON object. Use only exact column names from the metadata.';
+
+/** Turns whatever analyzeData threw into the structured error the chat renders. */
+export const describeAnalysisError = (error: unknown): AnalysisError => {
+  if (isAbortError(error)) {
+    return { kind: 'cancelled', title: 'Stopped', message: 'Generation was stopped before it finished.' };
+  }
+  if (error instanceof ResponseValidationError) {
+    return error.partial
+      ? { kind: 'chart', title: 'Chart could not be built', message: error.message, issues: error.issues }
+      : { kind: 'invalid_response', title: 'Unusable response', message: error.message, issues: error.issues };
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return {
+    kind: 'provider',
+    title: error instanceof ProviderError && error.status ? `Provider error (${error.status})` : 'Request failed',
+    message: message || 'InsightAI is having trouble processing this request. Please try a different question.'
+  };
+};
@@ -0,0 +1,81 @@
+// --- Descriptive statistics shared by the query engine and profiling ---
+
+export const toNumber = (value: any): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  const text = String(value).replace(/,/g, '').trim();
+  // Number('') and Number('  ') are 0, but a blank cell is missing.
+  if (text === '') return null;
+  const n = Number(text);
+  return Number.isFinite(n) ? n : null;
+};
+
+export const sum = (values: number[]): number => values.reduce((acc, v) => acc + v, 0);
+
+export const mean = (values: number[]): number | null =>
+  values.length === 0 ? null : sum(values) / values.length;
+
+/** Linear-interpolated quantile (same method as numpy/pandas default). Expects sorted input. */
+export const quantileSorted = (sorted: number[], q: number): number | null => {
+  if (sorted.length === 0) return null;
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  if (lower === upper) return sorted[lower];
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+};
+
+export const median = (values: number[]): number | null =>
+  quantileSorted([...values].sort((a, b) => a - b), 0.5);
+
+/** Sample standard deviation (n - 1), matching pandas' default. */
+export const stdDev = (values: number[]): number | null => {
+  if (values.length < 2) return null;
+  const m = mean(values)!;
+  const variance = values.reduce((acc, v) => acc + (v - m) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+};
+
+export const min = (values: number[]): number | null =>
+  values.length === 0 ? null : values.reduce((a, b) => (b < a ? b : a), values[0]);
+
+export const max = (values: number[]): number | null =>
+  values.length === 0 ? null : values.reduce((a, b) => (b > a ? b : a), values[0]);
+
+/** Equal-width bins over sorted values; the last bin is closed so the maximum is counted. */
+export const histogramBins = (sorted: number[], bins: number): { start: number; end: number; count: number }[] => {
+  if (sorted.length === 0) return [];
+  const lo = sorted[0];
+  const hi = sorted[sorted.length - 1];
+  if (lo === hi) return [{ start: lo, end: hi, count: sorted.length }];
+  const width = (hi - lo) / bins;
+  const counts = new Array(bins).fill(0);
+  sorted.forEach(v => {
+    counts[Math.min(bins - 1, Math.floor((v - lo) / width))]++;
+  });
+  return counts.map((count, i) => ({ start: lo + i * width, end: lo + (i + 1) * width, count }));
+};
+
+/** Sturges' rule: a reasonable default bin count for roughly normal data. */
+export const sturgesBins = (n: number): number => Math.max(1, Math.ceil(Math.log2(Math.max(n, 1))) + 1);
+
+/** Pearson correlation of paired values, or null when either side has no variance. */
+export const pearson = (xs: number[], ys: number[]): number | null => {
+  if (xs.length < 2 || xs.length !== ys.length) return null;
+  const mx = mean(xs)!;
+  const my = mean(ys)!;
+  let sxy = 0, sxx = 0, syy = 0;
+  for (let i = 0; i < xs.length; i++) {
+    sxy += (xs[i] - mx) * (ys[i] - my);
+    sxx += (xs[i] - mx) ** 2;
+    syy += (ys[i] - my) ** 2;
+  }
+  return sxx === 0 || syy === 0 ? null : sxy / Math.sqrt(sxx * syy);
+};
+
+/** Short human-readable number for axis and bin labels. */
+export const formatCompact = (value: number): string => {
+  if (Math.abs(value) >= 1000) return Math.round(value).toLocaleString();
+  return Number(value.toPrecision(3)).toString();
+};
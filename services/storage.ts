@@ -0,0 +1,171 @@
+import { AppTheme, Dataset, Message, Preferences, Session } from "../types";
+import { DEFAULT_PROVIDER_SETTINGS } from "./providers";
+import { linkLegacyMessages } from "./conversation";
+
+// --- IndexedDB persistence for sessions, their datasets and user preferences ---
+
+const DB_NAME = 'insightai';
+const DB_VERSION = 1;
+const SESSIONS = 'sessions';
+const DATASETS = 'datasets'; // Keyed by `${sessionId}:${datasetId}` so sessions never share rows
+const PREFERENCES = 'preferences';
+const PREFERENCES_KEY = 'user';
+const API_KEY_ITEM = 'insightai:apiKey'; // sessionStorage, cleared when the tab closes
+
+export const DEFAULT_PREFERENCES: Preferences = { theme: AppTheme.LIGHT, provider: DEFAULT_PROVIDER_SETTINGS };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS)) db.createObjectStore(SESSIONS, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(DATASETS)) db.createObjectStore(DATASETS);
+        if (!db.objectStoreNames.contains(PREFERENCES)) db.createObjectStore(PREFERENCES);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const done = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const datasetKey = (sessionId: string, datasetId: string) => `${sessionId}:${datasetId}`;
+
+/**
+ * IndexedDB's structured clone keeps Date objects intact, but records written by older builds
+ * or imported from JSON may hold ISO strings, so timestamps are always normalized on read.
+ */
+const reviveDate = (value: any): Date => (value instanceof Date ? value : new Date(value));
+
+const reviveSession = (session: Session): Session => ({
+  ...session,
+  createdAt: reviveDate(session.createdAt),
+  updatedAt: reviveDate(session.updatedAt),
+  messages: linkLegacyMessages(session.messages.map((m: Message) => ({
+    ...m,
+    timestamp: reviveDate(m.timestamp),
+    chartVersions: m.chartVersions?.map(v => ({ ...v, createdAt: reviveDate(v.createdAt) }))
+  }))),
+  pins: (session.pins ?? []).map(p => ({
+    ...p,
+    pinnedAt: reviveDate(p.pinnedAt),
+    refreshedAt: p.refreshedAt ? reviveDate(p.refreshedAt) : undefined
+  }))
+});
+
+export const createSessionId = () => `session-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 5)}`;
+
+/** All sessions, most recently updated first. Dataset rows are not loaded. */
+export const listSessions = async (): Promise<Session[]> => {
+  const db = await openDB();
+  const sessions = await promisify(db.transaction(SESSIONS).objectStore(SESSIONS).getAll()) as Session[];
+  return sessions.map(reviveSession).sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+};
+
+export const loadSession = async (id: string): Promise<{ session: Session; datasets: Dataset[] } | null> => {
+  const db = await openDB();
+  const tx = db.transaction([SESSIONS, DATASETS]);
+  const session = await promisify(tx.objectStore(SESSIONS).get(id)) as Session | undefined;
+  if (!session) return null;
+  const datasets = await Promise.all(
+    session.datasetIds.map(did => promisify(tx.objectStore(DATASETS).get(datasetKey(id, did))) as Promise<Dataset | undefined>)
+  );
+  return { session: reviveSession(session), datasets: datasets.filter((d): d is Dataset => !!d) };
+};
+
+/**
+ * Writes the session record plus the given datasets, and drops stored datasets the session no
+ * longer references. Callers pass only datasets that changed since the last save.
+ */
+export const saveSession = async (session: Session, changedDatasets: Dataset[]): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction([SESSIONS, DATASETS], 'readwrite');
+  const sessions = tx.objectStore(SESSIONS);
+  const datasets = tx.objectStore(DATASETS);
+
+  const previous = await promisify(sessions.get(session.id)) as Session | undefined;
+  previous?.datasetIds
+    .filter(did => !session.datasetIds.includes(did))
+    .forEach(did => datasets.delete(datasetKey(session.id, did)));
+  changedDatasets.forEach(d => datasets.put(d, datasetKey(session.id, d.id)));
+  sessions.put(session);
+  await done(tx);
+};
+
+export const renameSession = async (id: string, name: string): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(SESSIONS, 'readwrite');
+  const store = tx.objectStore(SESSIONS);
+  const session = await promisify(store.get(id)) as Session | undefined;
+  if (session) store.put({ ...session, name, updatedAt: new Date() });
+  await done(tx);
+};
+
+export const duplicateSession = async (id: string): Promise<Session | null> => {
+  const loaded = await loadSession(id);
+  if (!loaded) return null;
+  const now = new Date();
+  const copy: Session = { ...loaded.session, id: createSessionId(), name: `${loaded.session.name} (copy)`, createdAt: now, updatedAt: now };
+  await saveSession(copy, loaded.datasets);
+  return copy;
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction([SESSIONS, DATASETS], 'readwrite');
+  const session = await promisify(tx.objectStore(SESSIONS).get(id)) as Session | undefined;
+  session?.datasetIds.forEach(did => tx.objectStore(DATASETS).delete(datasetKey(id, did)));
+  tx.objectStore(SESSIONS).delete(id);
+  await done(tx);
+};
+
+export const loadPreferences = async (): Promise<Preferences> => {
+  const db = await openDB();
+  const stored = await promisify(db.transaction(PREFERENCES).objectStore(PREFERENCES).get(PREFERENCES_KEY)) as Preferences | undefined;
+  const preferences = { ...DEFAULT_PREFERENCES, ...stored };
+  const sessionKey = sessionStorage.getItem(API_KEY_ITEM);
+  return preferences.provider.apiKey || !sessionKey ? preferences : { ...preferences, provider: { ...preferences.provider, apiKey: sessionKey } };
+};
+
+/**
+ * Stores the preferences. The API key is written with them only when the user opted in; otherwise it
+ * goes to sessionStorage, so it survives reloads but not closing the tab. Keys stored in plain text by
+ * older builds are moved out on the first save.
+ */
+export const savePreferences = async (preferences: Preferences): Promise<void> => {
+  const { apiKey, ...provider } = preferences.provider;
+  const remember = !!provider.rememberApiKey;
+  if (apiKey && !remember) sessionStorage.setItem(API_KEY_ITEM, apiKey);
+  else sessionStorage.removeItem(API_KEY_ITEM);
+  const db = await openDB();
+  const tx = db.transaction(PREFERENCES, 'readwrite');
+  tx.objectStore(PREFERENCES).put(remember ? preferences : { ...preferences, provider }, PREFERENCES_KEY);
+  await done(tx);
+};
+
+/** Bytes used by this origin, when the browser exposes it. */
+export const estimateStorage = async (): Promise<{ usage: number; quota: number } | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
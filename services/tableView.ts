@@ -0,0 +1,137 @@
+import { ColumnFilter, ColumnType, Dataset, DataRow, TableViewState } from "../types";
+import { parseDateValue } from "./typeInference";
+import { toNumber } from "./stats";
+
+export const DEFAULT_COLUMN_WIDTH = 180;
+
+export const createTableView = (dataset: Dataset): TableViewState => ({
+  search: '',
+  filters: {},
+  columnOrder: [...dataset.columns],
+  hiddenColumns: [],
+  columnWidths: {}
+});
+
+/** Columns in display order, without hidden ones. Tolerates views created for an older column set. */
+export const visibleColumns = (dataset: Dataset, view: TableViewState): string[] => {
+  const ordered = view.columnOrder.filter(c => dataset.columns.includes(c));
+  const missing = dataset.columns.filter(c => !ordered.includes(c));
+  return [...ordered, ...missing].filter(c => !view.hiddenColumns.includes(c));
+};
+
+export const isFilterActive = (filter: ColumnFilter | undefined): boolean => {
+  if (!filter) return false;
+  switch (filter.kind) {
+    case 'range': return filter.min !== undefined || filter.max !== undefined;
+    case 'categories': return filter.values.length > 0;
+    case 'dateRange': return !!filter.from || !!filter.to;
+  }
+};
+
+/** Active filters on columns the dataset still has. */
+export const activeFilters = (dataset: Dataset, filters: Record<string, ColumnFilter>): [string, ColumnFilter][] =>
+  Object.entries(filters).filter(([col, f]) => dataset.columns.includes(col) && isFilterActive(f));
+
+const MAX_DESCRIBED_VALUES = 3;
+
+/** Short text for a filter chip, e.g. "region is North or South" or "amount 10 – 20". */
+export const describeColumnFilter = (column: string, filter: ColumnFilter): string => {
+  switch (filter.kind) {
+    case 'categories': {
+      const values = filter.values.map(v => (v === '' ? '(blank)' : v));
+      const shown = values.length > MAX_DESCRIBED_VALUES ? [...values.slice(0, MAX_DESCRIBED_VALUES), `${values.length - MAX_DESCRIBED_VALUES} more`] : values;
+      return `${column} is ${shown.join(' or ')}`;
+    }
+    case 'range':
+      if (filter.min === filter.max) return `${column} = ${filter.min}`;
+      if (filter.min === undefined) return `${column} ≤ ${filter.max}`;
+      if (filter.max === undefined) return `${column} ≥ ${filter.min}`;
+      return `${column} ${filter.min} – ${filter.max}`;
+    case 'dateRange':
+      if (filter.from === filter.to) return `${column} on ${filter.from}`;
+      if (!filter.to) return `${column} from ${filter.from}`;
+      if (!filter.from) return `${column} until ${filter.to}`;
+      return `${column} ${filter.from} – ${filter.to}`;
+  }
+};
+
+const matchesColumnFilter = (value: any, filter: ColumnFilter): boolean => {
+  switch (filter.kind) {
+    case 'range': {
+      const n = toNumber(value);
+      if (n === null) return false;
+      return (filter.min === undefined || n >= filter.min) && (filter.max === undefined || n <= filter.max);
+    }
+    case 'categories':
+      return filter.values.includes(value === null || value === undefined ? '' : String(value));
+    case 'dateRange': {
+      const t = parseDateValue(value);
+      if (t === null) return false;
+      const from = filter.from ? parseDateValue(filter.from) : null;
+      // Inclusive of the whole "to" day.
+      const to = filter.to ? parseDateValue(filter.to)! + 86400000 - 1 : null;
+      return (from === null || t >= from) && (to === null || t <= to);
+    }
+  }
+};
+
+const sortKey = (value: any, type: ColumnType | undefined): number | string | null => {
+  if (value === null || value === undefined || value === '') return null;
+  if (type === 'integer' || type === 'decimal') return toNumber(value);
+  if (type === 'date') return parseDateValue(value);
+  if (typeof value === 'number') return value;
+  return String(value).toLowerCase();
+};
+
+/**
+ * Applies column filters, global search and sort. Returns the original rows when nothing is
+ * active so large datasets are not copied needlessly.
+ */
+export const applyTableView = (
+  dataset: Dataset,
+  view: TableViewState,
+  types: Record<string, ColumnType>
+): DataRow[] => {
+  const filters = activeFilters(dataset, view.filters);
+  const needle = view.search.trim().toLowerCase();
+  const searchColumns = visibleColumns(dataset, view);
+
+  let rows = dataset.data;
+  if (filters.length > 0 || needle) {
+    rows = rows.filter(row =>
+      filters.every(([col, f]) => matchesColumnFilter(row[col], f)) &&
+      (!needle || searchColumns.some(col => {
+        const v = row[col];
+        return v !== null && v !== undefined && String(v).toLowerCase().includes(needle);
+      }))
+    );
+  }
+
+  if (view.sort && dataset.columns.includes(view.sort.column)) {
+    const { column, direction } = view.sort;
+    const type = types[column];
+    const dir = direction === 'desc' ? -1 : 1;
+    // Decorate-sort-undecorate so sort keys are computed once per row.
+    const keyed = rows.map((row, i) => ({ row, key: sortKey(row[column], type), i }));
+    keyed.sort((a, b) => {
+      if (a.key === null && b.key === null) return a.i - b.i;
+      if (a.key === null) return 1; // Nulls last regardless of direction
+      if (b.key === null) return -1;
+      if (a.key < b.key) return -dir;
+      if (a.key > b.key) return dir;
+      return a.i - b.i;
+    });
+    rows = keyed.map(k => k.row);
+  }
+
+  return rows;
+};
+
+const escapeCSV = (value: any): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCSV = (columns: string[], rows: DataRow[]): string =>
+  [columns.map(escapeCSV).join(','), ...rows.map(row => columns.map(c => escapeCSV(row[c])).join(','))].join('\n');
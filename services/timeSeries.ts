@@ -0,0 +1,246 @@
+import { AnomalyMethod, DateUnit, ForecastMethod } from "../types";
+import { mean, median, quantileSorted, stdDev, sum } from "./stats";
+
+// --- Resampling periods, forecasting and anomaly detection for date-indexed series ---
+
+const DAY_MS = 86_400_000;
+
+// Periods per season for seasonal decomposition: weekly cycle of days, yearly cycle otherwise.
+export const SEASON_LENGTHS: Record<DateUnit, number> = { day: 7, week: 52, month: 12, quarter: 4, year: 0 };
+
+export const DEFAULT_HORIZONS: Record<DateUnit, number> = { day: 14, week: 8, month: 6, quarter: 4, year: 3 };
+
+// Two-sided 95% interval of a normal distribution.
+const Z_95 = 1.96;
+const Z_SCORE_THRESHOLD = 3;
+const IQR_FENCE = 1.5;
+const ANOMALY_PASSES = 3;
+const HOLT_WARMUP = 4;
+const SMOOTHING_GRID = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9];
+
+/** Start (UTC ms) of the period containing t. Weeks start on Monday, as in the dateBucket transform. */
+export const periodStart = (t: number, unit: DateUnit): number => {
+  const d = new Date(t);
+  const [y, m] = [d.getUTCFullYear(), d.getUTCMonth()];
+  switch (unit) {
+    case 'year': return Date.UTC(y, 0, 1);
+    case 'quarter': return Date.UTC(y, m - (m % 3), 1);
+    case 'month': return Date.UTC(y, m, 1);
+    case 'week': return Date.UTC(y, m, d.getUTCDate()) - ((d.getUTCDay() + 6) % 7) * DAY_MS;
+    default: return Date.UTC(y, m, d.getUTCDate());
+  }
+};
+
+/** The period start n periods after the one starting at t. */
+export const addPeriods = (t: number, unit: DateUnit, n: number): number => {
+  const d = new Date(t);
+  const [y, m] = [d.getUTCFullYear(), d.getUTCMonth()];
+  switch (unit) {
+    case 'year': return Date.UTC(y + n, 0, 1);
+    case 'quarter': return Date.UTC(y, m + 3 * n, 1);
+    case 'month': return Date.UTC(y, m + n, 1);
+    case 'week': return t + 7 * n * DAY_MS;
+    default: return t + n * DAY_MS;
+  }
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** Labels match bucketDate: 2024, 2024-Q1, 2024-01, and the ISO day for days and weeks. */
+export const periodLabel = (t: number, unit: DateUnit): string => {
+  const d = new Date(t);
+  const [y, m] = [d.getUTCFullYear(), d.getUTCMonth() + 1];
+  switch (unit) {
+    case 'year': return String(y);
+    case 'quarter': return `${y}-Q${Math.ceil(m / 3)}`;
+    case 'month': return `${y}-${pad(m)}`;
+    default: return d.toISOString().slice(0, 10);
+  }
+};
+
+/** A period giving a readable number of points for the date span. */
+export const defaultInterval = (from: number, to: number): DateUnit => {
+  const days = (to - from) / DAY_MS;
+  if (days <= 120) return 'day';
+  if (days <= 730) return 'week';
+  if (days <= 365 * 15) return 'month';
+  return 'year';
+};
+
+/** Fills gaps by linear interpolation between neighbours; leading and trailing gaps take the nearest value. */
+export const interpolate = (values: (number | null)[]): number[] => {
+  const known = values.map((v, i) => (v === null ? -1 : i)).filter(i => i >= 0);
+  if (known.length === 0) return values.map(() => 0);
+  return values.map((v, i) => {
+    if (v !== null) return v;
+    const next = known.find(k => k > i);
+    const prev = [...known].reverse().find(k => k < i);
+    if (prev === undefined) return values[next!]!;
+    if (next === undefined) return values[prev]!;
+    return values[prev]! + ((values[next]! - values[prev]!) * (i - prev)) / (next - prev);
+  });
+};
+
+export interface ForecastResult {
+  method: Exclude<ForecastMethod, 'auto'>;
+  seasonLength?: number;
+  fitted: (number | null)[]; // In-sample fit, null where the method has no estimate yet
+  predictions: number[]; // One per future period
+  residualStdDev: number | null;
+}
+
+// Holt's linear method: a smoothed level and trend; the one-step-ahead fit is level + trend. The
+// trend starts as the average slope over the first few periods, so one noisy step does not set it.
+const holt = (values: number[], alpha: number, beta: number) => {
+  const warmup = Math.min(HOLT_WARMUP, values.length - 1);
+  let level = values[0];
+  let trend = warmup > 0 ? (values[warmup] - values[0]) / warmup : 0;
+  const fitted: (number | null)[] = [null];
+  let sse = 0;
+  for (let i = 1; i < values.length; i++) {
+    const estimate = level + trend;
+    fitted.push(estimate);
+    sse += (values[i] - estimate) ** 2;
+    const previous = level;
+    level = alpha * values[i] + (1 - alpha) * (level + trend);
+    trend = beta * (level - previous) + (1 - beta) * trend;
+  }
+  return { fitted, sse, level, trend };
+};
+
+/** Holt's method with the smoothing factors that minimize the in-sample one-step error. */
+const exponentialSmoothing = (values: number[], horizon: number) => {
+  let best = holt(values, SMOOTHING_GRID[0], SMOOTHING_GRID[0]);
+  SMOOTHING_GRID.forEach(alpha => SMOOTHING_GRID.forEach(beta => {
+    const fit = holt(values, alpha, beta);
+    if (fit.sse < best.sse) best = fit;
+  }));
+  return {
+    fitted: best.fitted,
+    predictions: Array.from({ length: horizon }, (_, h) => best.level + (h + 1) * best.trend)
+  };
+};
+
+const movingAverage = (values: number[], horizon: number, window: number) => {
+  const average = (end: number) => mean(values.slice(end - window, end))!;
+  return {
+    fitted: values.map((_, i) => (i >= window ? average(i) : null)),
+    predictions: Array.from({ length: horizon }, () => average(values.length))
+  };
+};
+
+/**
+ * Classical additive decomposition: a centered moving average gives the trend, the median
+ * detrended value per position in the season gives the seasonal index (the median keeps one odd
+ * season from shifting it). The seasonally adjusted series is forecast with Holt's method and the
+ * index added back.
+ */
+const seasonalDecomposition = (values: number[], horizon: number, season: number) => {
+  const half = Math.floor(season / 2);
+  const trend = values.map((_, i) => {
+    if (i < half || i + half >= values.length) return null;
+    // Even seasons use a 2×m average so the window stays centered.
+    if (season % 2 === 0) {
+      const window = values.slice(i - half, i + half + 1);
+      return (sum(window) - (window[0] + window[window.length - 1]) / 2) / season;
+    }
+    return mean(values.slice(i - half, i + half + 1))!;
+  });
+  // The moving average is undefined for half a season at each end; those points use the nearest trend value.
+  const first = trend.findIndex(t => t !== null);
+  const lastKnown = trend.length - 1 - [...trend].reverse().findIndex(t => t !== null);
+  const byPosition: number[][] = Array.from({ length: season }, () => []);
+  values.forEach((v, i) => byPosition[i % season].push(v - (trend[i] ?? trend[i < first ? first : lastKnown]!)));
+  const raw = byPosition.map(list => median(list) ?? 0);
+  const offset = mean(raw)!;
+  const index = raw.map(v => v - offset);
+  const adjusted = exponentialSmoothing(values.map((v, i) => v - index[i % season]), horizon);
+  return {
+    fitted: adjusted.fitted.map((v, i) => (v === null ? null : v + index[i % season])),
+    predictions: adjusted.predictions.map((v, h) => v + index[(values.length + h) % season])
+  };
+};
+
+/** Resolves 'auto' from the series length and whether the period has a natural season. */
+export const chooseMethod = (method: ForecastMethod, length: number, season: number): Exclude<ForecastMethod, 'auto'> => {
+  if (method === 'seasonal' && season > 1 && length >= 2 * season) return 'seasonal';
+  if (method !== 'auto' && method !== 'seasonal') return method;
+  if (season > 1 && length >= 2 * season) return 'seasonal';
+  return length >= 4 ? 'exponentialSmoothing' : 'movingAverage';
+};
+
+/** Fits the series and predicts `horizon` further periods. Expects gap-free values (see interpolate). */
+export const forecastSeries = (values: number[], horizon: number, method: ForecastMethod, interval: DateUnit): ForecastResult => {
+  const season = SEASON_LENGTHS[interval];
+  const used = chooseMethod(method, values.length, season);
+  const window = Math.max(2, Math.min(season || 3, Math.floor(values.length / 2)));
+  const { fitted, predictions } = used === 'seasonal'
+    ? seasonalDecomposition(values, horizon, season)
+    : used === 'exponentialSmoothing'
+    ? exponentialSmoothing(values, horizon)
+    : movingAverage(values, horizon, window);
+  const residuals = values.map((v, i) => (fitted[i] === null ? null : v - fitted[i]!)).filter((r): r is number => r !== null);
+  return {
+    method: used,
+    seasonLength: used === 'seasonal' ? season : undefined,
+    fitted,
+    predictions,
+    residualStdDev: stdDev(residuals)
+  };
+};
+
+/** Half-width of the 95% band h periods ahead (h from 1); uncertainty grows with the square root of h. */
+export const bandWidth = (residualStdDev: number | null, h: number): number =>
+  residualStdDev === null ? 0 : Z_95 * residualStdDev * Math.sqrt(h);
+
+/**
+ * Flags points whose residual (actual minus fitted) is unusual: more than 3 standard deviations
+ * from the mean residual, or outside 1.5 IQR of the residual quartiles. Points without an actual
+ * value or a fitted one are never flagged. Residuals marked in `exclude` are left out of the scale
+ * estimate, so an earlier-found spike cannot hide smaller anomalies.
+ */
+export const detectAnomalies = (
+  actual: (number | null)[],
+  fitted: (number | null)[],
+  method: AnomalyMethod,
+  exclude: boolean[] = []
+): boolean[] => {
+  const residuals = actual.map((v, i) => (v === null || fitted[i] === null ? null : v - fitted[i]!));
+  const present = residuals.filter((r, i): r is number => r !== null && !exclude[i]);
+  if (present.length < 4) return residuals.map(() => false);
+  if (method === 'iqr') {
+    const sorted = [...present].sort((a, b) => a - b);
+    const q1 = quantileSorted(sorted, 0.25)!;
+    const q3 = quantileSorted(sorted, 0.75)!;
+    const fence = IQR_FENCE * (q3 - q1);
+    return residuals.map(r => r !== null && (r < q1 - fence || r > q3 + fence));
+  }
+  const m = mean(present)!;
+  const sd = stdDev(present);
+  if (!sd) return residuals.map(() => false);
+  return residuals.map(r => r !== null && Math.abs(r - m) / sd > Z_SCORE_THRESHOLD);
+};
+
+/**
+ * Fits the series and flags anomalies, then refits with the flagged periods interpolated over
+ * until the flags settle, so a spike neither drags the fit of the periods after it nor widens the
+ * forecast band.
+ */
+export const fitWithAnomalies = (
+  actual: (number | null)[],
+  horizon: number,
+  method: ForecastMethod,
+  interval: DateUnit,
+  anomalyMethod: AnomalyMethod
+): { fit: ForecastResult; anomalies: boolean[] } => {
+  let fit = forecastSeries(interpolate(actual), horizon, method, interval);
+  let anomalies = detectAnomalies(actual, fit.fitted, anomalyMethod);
+  for (let pass = 1; pass < ANOMALY_PASSES && anomalies.some(Boolean); pass++) {
+    fit = forecastSeries(interpolate(actual.map((v, i) => (anomalies[i] ? null : v))), horizon, method, interval);
+    const next = detectAnomalies(actual, fit.fitted, anomalyMethod, anomalies);
+    const settled = next.every((flag, i) => flag === anomalies[i]);
+    anomalies = next;
+    if (settled) break;
+  }
+  return { fit, anomalies };
+};
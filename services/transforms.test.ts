@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { Dataset } from "../types";
+import { applyTransforms } from "./transforms";
+import { privateView } from "./privacy";
+import { profileDataset } from "./profiler";
+
+const customers: Dataset = {
+  id: "customers",
+  name: "customers.csv",
+  columns: ["customer_name", "phone", "spend"],
+  data: [
+    { customer_name: "Alice Johnson", phone: "+1 415 555 0132", spend: 120 },
+    { customer_name: "Bob Smith", phone: "+1 212 555 0199", spend: 80 },
+    { customer_name: "Carol White", phone: "+1 646 555 0147", spend: 45 }
+  ],
+  columnTypes: { customer_name: "categorical", phone: "categorical", spend: "integer" }
+};
+
+describe("applyTransforms column policies", () => {
+  it("keeps the mask of a column detected as PII from its header after a rename", () => {
+    const renamed = applyTransforms(customers, [
+      { kind: "rename", column: "customer_name", to: "client" },
+      { kind: "rename", column: "phone", to: "contact" }
+    ]);
+    expect(renamed.columnPolicies).toMatchObject({ client: "mask", contact: "mask" });
+
+    const view = privateView(renamed, profileDataset(renamed), renamed.data);
+    const sent = JSON.stringify(view.rows);
+    customers.data.forEach(row => {
+      expect(sent).not.toContain(row.customer_name);
+      expect(sent).not.toContain(row.phone);
+    });
+  });
+
+  it("leaves a renamed column without PII unprotected", () => {
+    const renamed = applyTransforms(customers, [{ kind: "rename", column: "spend", to: "total" }]);
+    expect(renamed.columnPolicies?.total).toBeUndefined();
+  });
+
+  it("gives pivoted columns the policy of the value column", () => {
+    const pivoted = applyTransforms({ ...customers, columnPolicies: { spend: "hash" } }, [
+      { kind: "pivot", index: "phone", pivotColumn: "customer_name", valueColumn: "spend", aggregation: "sum" }
+    ]);
+    expect(pivoted.columnPolicies).toMatchObject({ "Alice Johnson": "hash", "Bob Smith": "hash", "Carol White": "hash" });
+  });
+});
@@ -0,0 +1,419 @@
+import { ColumnPolicy, ColumnType, Dataset, DataRow, DatasetSnapshot, DateUnit, TransformKind, TransformStep } from "../types";
+import { aggregate, matchesFilter } from "./queryEngine";
+import { compileFormula, formulaColumns, FormulaError } from "./formula";
+import { rowsPolicy, strictestPolicy } from "./privacy";
+import { convertValue, inferColumnType, parseDateValue } from "./typeInference";
+import { mean, median, toNumber } from "./stats";
+
+// --- Recorded, replayable transformation steps over a dataset's rows ---
+
+const MAX_PIVOT_COLUMNS = 50;
+const TYPE_SAMPLE = 5000;
+
+export const TRANSFORM_KINDS: { kind: TransformKind; label: string }[] = [
+  { kind: 'filter', label: 'Filter rows' },
+  { kind: 'rename', label: 'Rename column' },
+  { kind: 'changeType', label: 'Change type' },
+  { kind: 'fillNulls', label: 'Fill nulls' },
+  { kind: 'dropNulls', label: 'Drop rows with nulls' },
+  { kind: 'formula', label: 'Formula column' },
+  { kind: 'split', label: 'Split column' },
+  { kind: 'merge', label: 'Merge columns' },
+  { kind: 'dateBucket', label: 'Bucket dates' },
+  { kind: 'pivot', label: 'Pivot' },
+  { kind: 'unpivot', label: 'Unpivot' },
+  { kind: 'deduplicate', label: 'Remove duplicates' },
+  { kind: 'dropColumns', label: 'Drop columns' }
+];
+
+export class TransformError extends Error {
+  constructor(message: string, public stepIndex?: number) {
+    super(message);
+    this.name = 'TransformError';
+  }
+}
+
+interface Table {
+  columns: string[];
+  data: DataRow[];
+  columnTypes: Record<string, ColumnType>;
+}
+
+const isBlank = (v: any) => v === null || v === undefined || v === '';
+
+const requireColumn = (table: Table, column: string) => {
+  if (!table.columns.includes(column)) throw new TransformError(`Unknown column "${column}".`);
+};
+
+const requireName = (table: Table, name: string, replacing?: string) => {
+  if (!name.trim()) throw new TransformError('The new column needs a name.');
+  if (name !== replacing && table.columns.includes(name)) throw new TransformError(`A column named "${name}" already exists.`);
+};
+
+const inferType = (name: string, values: any[]): ColumnType =>
+  inferColumnType(name, values.filter(v => !isBlank(v)).slice(0, TYPE_SAMPLE).map(v => String(v)));
+
+/** Adds a column (or replaces one with the same name) holding one value per row. */
+const withColumn = (table: Table, name: string, values: any[], type: ColumnType, after?: string): Table => {
+  const exists = table.columns.includes(name);
+  const columns = exists ? table.columns : [...table.columns];
+  if (!exists) columns.splice(after ? columns.indexOf(after) + 1 : columns.length, 0, name);
+  return {
+    columns,
+    data: table.data.map((row, i) => ({ ...row, [name]: values[i] })),
+    columnTypes: { ...table.columnTypes, [name]: type }
+  };
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const bucketDate = (value: any, unit: DateUnit): string | null => {
+  const t = parseDateValue(value);
+  if (t === null) return null;
+  const d = new Date(t);
+  const [y, m] = [d.getUTCFullYear(), d.getUTCMonth() + 1];
+  switch (unit) {
+    case 'year': return String(y);
+    case 'quarter': return `${y}-Q${Math.ceil(m / 3)}`;
+    case 'month': return `${y}-${pad(m)}`;
+    case 'week': {
+      // Weeks start on Monday and are labelled by that day.
+      const monday = new Date(t - ((d.getUTCDay() + 6) % 7) * 86_400_000);
+      return monday.toISOString().slice(0, 10);
+    }
+    default: return d.toISOString().slice(0, 10);
+  }
+};
+
+const fillValue = (table: Table, step: Extract<TransformStep, { kind: 'fillNulls' }>): any => {
+  const present = table.data.map(r => r[step.column]).filter(v => !isBlank(v));
+  switch (step.strategy) {
+    case 'value':
+      return convertValue(step.value ?? '', table.columnTypes[step.column] ?? 'categorical');
+    case 'mean':
+    case 'median': {
+      const numbers = present.map(toNumber).filter((v): v is number => v !== null);
+      if (numbers.length === 0) throw new TransformError(`"${step.column}" has no numbers to take the ${step.strategy} of.`);
+      return step.strategy === 'mean' ? mean(numbers) : median(numbers);
+    }
+    case 'mode': {
+      const counts = new Map<any, number>();
+      present.forEach(v => counts.set(v, (counts.get(v) ?? 0) + 1));
+      let best: any = null;
+      let bestCount = 0;
+      counts.forEach((count, v) => {
+        if (count > bestCount) {
+          best = v;
+          bestCount = count;
+        }
+      });
+      return best;
+    }
+    default:
+      return undefined; // 'previous' is filled row by row
+  }
+};
+
+const applyStep = (table: Table, step: TransformStep): Table => {
+  switch (step.kind) {
+    case 'rename': {
+      requireColumn(table, step.column);
+      requireName(table, step.to, step.column);
+      const { [step.column]: type, ...types } = table.columnTypes;
+      return {
+        columns: table.columns.map(c => (c === step.column ? step.to : c)),
+        data: table.data.map(row => {
+          const { [step.column]: value, ...rest } = row;
+          return { ...rest, [step.to]: value };
+        }),
+        columnTypes: type ? { ...types, [step.to]: type } : types
+      };
+    }
+    case 'changeType': {
+      requireColumn(table, step.column);
+      const values = table.data.map(row => (isBlank(row[step.column]) ? null : convertValue(String(row[step.column]), step.type)));
+      return withColumn(table, step.column, values, step.type);
+    }
+    case 'filter': {
+      requireColumn(table, step.filter.column);
+      const keep = step.mode !== 'remove';
+      return { ...table, data: table.data.filter(row => matchesFilter(row, step.filter) === keep) };
+    }
+    case 'fillNulls': {
+      requireColumn(table, step.column);
+      const fill = fillValue(table, step);
+      let previous: any = null;
+      const values = table.data.map(row => {
+        const v = row[step.column];
+        if (!isBlank(v)) {
+          previous = v;
+          return v;
+        }
+        return step.strategy === 'previous' ? previous : fill;
+      });
+      return withColumn(table, step.column, values, table.columnTypes[step.column] ?? inferType(step.column, values));
+    }
+    case 'dropNulls': {
+      step.columns.forEach(c => requireColumn(table, c));
+      const columns = step.columns.length > 0 ? step.columns : table.columns;
+      return { ...table, data: table.data.filter(row => columns.every(c => !isBlank(row[c]))) };
+    }
+    case 'formula': {
+      requireName(table, step.name, table.columns.includes(step.name) ? step.name : undefined);
+      const evaluate = compileFormula(step.expression, table.columns);
+      const values = table.data.map(row => {
+        const v = evaluate(row);
+        return typeof v === 'number' && !Number.isFinite(v) ? null : v;
+      });
+      return withColumn(table, step.name, values, inferType(step.name, values));
+    }
+    case 'split': {
+      requireColumn(table, step.column);
+      if (!step.separator) throw new TransformError('Split needs a separator.');
+      if (step.into.length < 2) throw new TransformError('Split needs at least two new column names.');
+      step.into.forEach(name => requireName(table, name));
+      const parts = table.data.map(row => {
+        const v = row[step.column];
+        if (isBlank(v)) return [];
+        const pieces = String(v).split(step.separator);
+        // Anything past the last new column stays together in it.
+        return [...pieces.slice(0, step.into.length - 1), pieces.slice(step.into.length - 1).join(step.separator)];
+      });
+      return step.into.reduce((t, name, i) => {
+        const type = inferType(name, parts.map(p => p[i]));
+        const values = parts.map(p => (isBlank(p[i]) ? null : convertValue(p[i], type)));
+        return withColumn(t, name, values, type, i === 0 ? step.column : step.into[i - 1]);
+      }, table);
+    }
+    case 'merge': {
+      if (step.columns.length < 2) throw new TransformError('Merge needs at least two columns.');
+      step.columns.forEach(c => requireColumn(table, c));
+      requireName(table, step.name);
+      const values = table.data.map(row => {
+        const pieces = step.columns.map(c => row[c]).filter(v => !isBlank(v));
+        return pieces.length > 0 ? pieces.join(step.separator) : null;
+      });
+      return withColumn(table, step.name, values, 'categorical');
+    }
+    case 'dateBucket': {
+      requireColumn(table, step.column);
+      requireName(table, step.name);
+      const values = table.data.map(row => bucketDate(row[step.column], step.unit));
+      const type: ColumnType = step.unit === 'quarter' || step.unit === 'year' ? 'categorical' : 'date';
+      return withColumn(table, step.name, values, type, step.column);
+    }
+    case 'pivot': {
+      [step.index, step.pivotColumn, step.valueColumn].forEach(c => requireColumn(table, c));
+      const header = (v: any) => (isBlank(v) ? '(blank)' : String(v));
+      const pivotValues: string[] = [];
+      const groups = new Map<string, { index: any; cells: Map<string, any[]> }>();
+      table.data.forEach(row => {
+        const column = header(row[step.pivotColumn]);
+        if (!pivotValues.includes(column)) {
+          if (pivotValues.length === MAX_PIVOT_COLUMNS) {
+            throw new TransformError(`"${step.pivotColumn}" has more than ${MAX_PIVOT_COLUMNS} values; pivot on a column with fewer.`);
+          }
+          pivotValues.push(column);
+        }
+        const key = header(row[step.index]);
+        if (!groups.has(key)) groups.set(key, { index: row[step.index], cells: new Map() });
+        const cells = groups.get(key)!.cells;
+        if (!cells.has(column)) cells.set(column, []);
+        cells.get(column)!.push(row[step.valueColumn]);
+      });
+      const names = pivotValues.map(v => (v === step.index ? `${v}_2` : v));
+      const columnTypes: Record<string, ColumnType> = { [step.index]: table.columnTypes[step.index] ?? 'categorical' };
+      names.forEach(n => { columnTypes[n] = 'decimal'; });
+      return {
+        columns: [step.index, ...names],
+        data: Array.from(groups.values()).map(({ index, cells }) => {
+          const row: DataRow = { [step.index]: index };
+          pivotValues.forEach((v, i) => {
+            const values = cells.get(v);
+            row[names[i]] = values ? aggregate(values, step.aggregation) : null;
+          });
+          return row;
+        }),
+        columnTypes
+      };
+    }
+    case 'unpivot': {
+      [...step.idColumns, ...step.valueColumns].forEach(c => requireColumn(table, c));
+      if (step.valueColumns.length === 0) throw new TransformError('Unpivot needs at least one value column.');
+      if (!step.nameColumn.trim() || !step.valueColumn.trim() || step.nameColumn === step.valueColumn) {
+        throw new TransformError('Unpivot needs two different names for the new columns.');
+      }
+      const numeric = step.valueColumns.every(c => ['integer', 'decimal'].includes(table.columnTypes[c]));
+      const columnTypes: Record<string, ColumnType> = {};
+      step.idColumns.forEach(c => { columnTypes[c] = table.columnTypes[c]; });
+      columnTypes[step.nameColumn] = 'categorical';
+      columnTypes[step.valueColumn] = numeric ? 'decimal' : 'categorical';
+      return {
+        columns: [...step.idColumns, step.nameColumn, step.valueColumn],
+        data: table.data.flatMap(row => step.valueColumns.map(c => {
+          const out: DataRow = {};
+          step.idColumns.forEach(id => { out[id] = row[id]; });
+          out[step.nameColumn] = c;
+          out[step.valueColumn] = row[c];
+          return out;
+        })),
+        columnTypes
+      };
+    }
+    case 'deduplicate': {
+      step.columns.forEach(c => requireColumn(table, c));
+      const columns = step.columns.length > 0 ? step.columns : table.columns;
+      const seen = new Set<string>();
+      return {
+        ...table,
+        data: table.data.filter(row => {
+          const key = JSON.stringify(columns.map(c => row[c] ?? null));
+          if (seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        })
+      };
+    }
+    case 'dropColumns': {
+      step.columns.forEach(c => requireColumn(table, c));
+      if (step.columns.length >= table.columns.length) throw new TransformError('At least one column has to remain.');
+      const dropped = new Set(step.columns);
+      const columnTypes = { ...table.columnTypes };
+      step.columns.forEach(c => delete columnTypes[c]);
+      return {
+        columns: table.columns.filter(c => !dropped.has(c)),
+        data: table.data.map(row => {
+          const out = { ...row };
+          step.columns.forEach(c => delete out[c]);
+          return out;
+        }),
+        columnTypes
+      };
+    }
+  }
+};
+
+type Policies = Record<string, ColumnPolicy>;
+
+/**
+ * Column policies after a step, given the tables before and after it. A renamed column keeps its policy,
+ * including one detected from its old header, and a derived column gets the strictest policy of the columns
+ * it was computed from, so copying a hidden column never sends its values. Policies of the old names stay,
+ * so undoing a step keeps them too.
+ */
+const carryPolicies = (policies: Policies, table: Table, next: Table, step: TransformStep): Policies => {
+  const derive = (targets: string[], sources: string[]): Policies => {
+    // A column replaced in place (formula over an existing name) keeps its own policy in the mix.
+    const policy = strictestPolicy([...sources, ...targets.filter(t => table.columns.includes(t))].map(c => rowsPolicy(policies, c, table.data)));
+    return policy === 'send' ? policies : { ...policies, ...Object.fromEntries(targets.map(t => [t, policy])) };
+  };
+  switch (step.kind) {
+    // PII detected from the header ("phone", "customer_name") would lose its default mask under the new name.
+    case 'rename': return derive([step.to], [step.column]);
+    case 'formula': return derive([step.name], formulaColumns(step.expression, table.columns));
+    case 'split': return derive(step.into, [step.column]);
+    case 'merge': return derive([step.name], step.columns);
+    case 'dateBucket': return derive([step.name], [step.column]);
+    case 'unpivot': return derive([step.valueColumn], step.valueColumns);
+    // The new columns hold aggregates of valueColumn, one per pivotColumn value.
+    case 'pivot': return derive(next.columns.filter(c => c !== step.index), [step.valueColumn]);
+    default: return policies;
+  }
+};
+
+export const describeStep = (step: TransformStep): string => {
+  switch (step.kind) {
+    case 'rename': return `Rename "${step.column}" to "${step.to}"`;
+    case 'changeType': return `Change "${step.column}" to ${step.type}`;
+    case 'filter': {
+      const { column, operator, value, values } = step.filter;
+      return `${step.mode === 'remove' ? 'Remove' : 'Keep'} rows where ${column} ${operator} ${operator === 'in' ? (values ?? []).join(', ') : String(value ?? '')}`;
+    }
+    case 'fillNulls': return `Fill nulls in "${step.column}" with ${step.strategy === 'value' ? `"${step.value ?? ''}"` : `the ${step.strategy === 'previous' ? 'previous value' : step.strategy}`}`;
+    case 'dropNulls': return step.columns.length ? `Drop rows with nulls in ${step.columns.join(', ')}` : 'Drop rows with any null';
+    case 'formula': return `${step.name} = ${step.expression}`;
+    case 'split': return `Split "${step.column}" on "${step.separator}" into ${step.into.join(', ')}`;
+    case 'merge': return `Merge ${step.columns.join(', ')} into "${step.name}"`;
+    case 'dateBucket': return `Bucket "${step.column}" by ${step.unit} into "${step.name}"`;
+    case 'pivot': return `Pivot ${step.aggregation} of ${step.valueColumn} by ${step.index} × ${step.pivotColumn}`;
+    case 'unpivot': return `Unpivot ${step.valueColumns.join(', ')} into ${step.nameColumn} / ${step.valueColumn}`;
+    case 'deduplicate': return step.columns.length ? `Remove duplicates by ${step.columns.join(', ')}` : 'Remove duplicate rows';
+    case 'dropColumns': return `Drop ${step.columns.join(', ')}`;
+  }
+};
+
+const snapshot = (dataset: Dataset): DatasetSnapshot => ({
+  columns: dataset.columns,
+  data: dataset.data,
+  columnTypes: dataset.columnTypes,
+  sample: dataset.sample
+});
+
+/** The dataset as it was before any step was applied. */
+export const originalOf = (dataset: Dataset): Dataset => {
+  const { recipe, original, ...rest } = dataset;
+  return original ? { ...rest, ...original } : rest;
+};
+
+// Applies and records steps. A failing step throws, or with `skip` is reported there and left out.
+const runSteps = (dataset: Dataset, steps: TransformStep[], skip?: (error: TransformError) => void): Dataset => {
+  const recipe = dataset.recipe ?? [];
+  const applied: TransformStep[] = [];
+  let table: Table = { columns: dataset.columns, data: dataset.data, columnTypes: dataset.columnTypes ?? {} };
+  let policies: Policies = dataset.columnPolicies ?? {};
+  steps.forEach((step, i) => {
+    try {
+      const next = applyStep(table, step);
+      policies = carryPolicies(policies, table, next, step);
+      table = next;
+      applied.push(step);
+    } catch (err) {
+      if (!(err instanceof TransformError || err instanceof FormulaError)) throw err;
+      const index = recipe.length + i;
+      const error = new TransformError(`Step ${index + 1} (${describeStep(step)}): ${err.message}`, index);
+      if (!skip) throw error;
+      skip(error);
+    }
+  });
+  return {
+    ...dataset,
+    ...table,
+    ...(Object.keys(policies).length > 0 ? { columnPolicies: policies } : {}),
+    recipe: [...recipe, ...applied],
+    original: dataset.original ?? snapshot(dataset),
+    // The full-file profile no longer describes the transformed rows.
+    sample: dataset.sample && { ...dataset.sample, profile: undefined }
+  };
+};
+
+/**
+ * Applies steps after the dataset's existing recipe and records them. Throws TransformError
+ * naming the failing step; the dataset is left unchanged in that case.
+ */
+export const applyTransforms = (dataset: Dataset, steps: TransformStep[]): Dataset => runSteps(dataset, steps);
+
+/**
+ * Applies the steps that still work and records them. Failing steps are left out and returned as errors,
+ * along with any later step that needed a column one of them made.
+ */
+export const applyApplicableTransforms = (dataset: Dataset, steps: TransformStep[]): { dataset: Dataset; skipped: TransformError[] } => {
+  const skipped: TransformError[] = [];
+  const result = runSteps(dataset, steps, error => skipped.push(error));
+  return { dataset: skipped.length === steps.length ? dataset : result, skipped };
+};
+
+/** Rebuilds the dataset from its original rows with a different recipe (undo, removing a step). */
+export const rebuildRecipe = (dataset: Dataset, recipe: TransformStep[]): Dataset => {
+  const base = originalOf(dataset);
+  return recipe.length > 0 ? applyTransforms(base, recipe) : base;
+};
+
+export const undoTransform = (dataset: Dataset): Dataset =>
+  rebuildRecipe(dataset, (dataset.recipe ?? []).slice(0, -1));
+
+const sameColumns = (a: string[], b: string[]) =>
+  a.length === b.length && a.every(c => b.includes(c));
+
+/** Other datasets whose recipe started from the same columns as this one, so it can be replayed here. */
+export const matchingRecipes = (target: Dataset, datasets: Dataset[]): Dataset[] =>
+  datasets.filter(d => d.id !== target.id && d.recipe?.length && d.original && sameColumns(d.original.columns, originalOf(target).columns));
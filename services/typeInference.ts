@@ -0,0 +1,155 @@
+import { ColumnType, Dataset, DataRow } from "../types";
+
+export const COLUMN_TYPES: ColumnType[] = ['integer', 'decimal', 'boolean', 'date', 'categorical', 'identifier'];
+
+const INTEGER_RE = /^[-+]?(\d{1,3}(,\d{3})+|\d+)$/;
+const DECIMAL_RE = /^[-+]?(\d{1,3}(,\d{3})+|\d+)?\.\d+([eE][-+]?\d+)?$|^[-+]?\d+[eE][-+]?\d+$/;
+const DECIMAL_COMMA_RE = /^[-+]?(\d{1,3}(\.\d{3})+|\d+),\d+$/; // European "1.234,5"
+const LEADING_ZERO_RE = /^0\d/;
+const BOOLEAN_VALUES = new Set(['true', 'false', 'yes', 'no']);
+const PARSEABLE_DATE_RES = [
+  /^\d{4}-\d{1,2}-\d{1,2}([ T]\d{1,2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/, // ISO 8601
+  /^\d{4}\/\d{1,2}\/\d{1,2}$/,
+  /^\d{4}-\d{2}$/, // 2024-01
+  /^[A-Za-z]{3,9}\.? \d{1,2},? \d{4}$/, // Jan 31, 2024
+  /^\d{1,2} [A-Za-z]{3,9}\.? \d{4}$/ // 31 Jan 2024
+];
+const DAY_MONTH_YEAR_RE = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/; // 01/31/2024 or 31.01.2024
+const ID_HEADER_RE = /(^id$|[_\s-]id$|^key$|code$|zip|postal|phone|sku|uuid)/i;
+const CAMEL_ID_HEADER_RE = /[a-z]I[dD]$/; // customerId, orderID
+const SAMPLE_LIMIT = 5000;
+
+const isNull = (value: string | undefined | null) => value === undefined || value === null || value.trim() === '';
+
+const isIdHeader = (header: string) => ID_HEADER_RE.test(header) || CAMEL_ID_HEADER_RE.test(header);
+
+export const isDateLike = (value: string): boolean => {
+  const dmy = DAY_MONTH_YEAR_RE.exec(value);
+  if (dmy) {
+    const [a, b] = [Number(dmy[1]), Number(dmy[2])];
+    return a >= 1 && b >= 1 && a <= 31 && b <= 31 && (a <= 12 || b <= 12);
+  }
+  return PARSEABLE_DATE_RES.some(re => re.test(value)) && !Number.isNaN(Date.parse(value));
+};
+
+/**
+ * Parses the date formats recognized by isDateLike into a timestamp (ms). Slash dates are read
+ * month-first unless the first part cannot be a month; dotted dates are read day-first.
+ */
+export const parseDateValue = (value: any): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value.getTime();
+  const text = String(value).trim();
+  const dmy = DAY_MONTH_YEAR_RE.exec(text);
+  if (dmy) {
+    let [a, b, year] = [Number(dmy[1]), Number(dmy[2]), Number(dmy[3])];
+    if (year < 100) year += year < 70 ? 2000 : 1900;
+    const dayFirst = text.includes('.') || a > 12;
+    const [month, day] = dayFirst ? [b, a] : [a, b];
+    return Date.UTC(year, month - 1, day);
+  }
+  if (/^\d{4}-\d{2}$/.test(text)) return Date.parse(`${text}-01T00:00:00Z`);
+  if (/^\d{4}-\d{1,2}-\d{1,2}$/.test(text)) {
+    const [y, m, d] = text.split('-').map(Number);
+    return Date.UTC(y, m - 1, d);
+  }
+  const parsed = Date.parse(text);
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+/**
+ * Infers a column type from its raw text values. Numeric-looking values with leading zeros
+ * (ZIP codes, account numbers) are treated as identifiers so they are kept verbatim.
+ */
+export const inferColumnType = (header: string, rawValues: string[]): ColumnType => {
+  const values = rawValues.slice(0, SAMPLE_LIMIT).filter(v => !isNull(v)).map(v => v.trim());
+  if (values.length === 0) return 'categorical';
+
+  if (values.every(v => BOOLEAN_VALUES.has(v.toLowerCase()))) return 'boolean';
+
+  const distinct = new Set(values).size;
+  const allUnique = distinct === values.length && values.length > 1;
+
+  if (values.every(v => INTEGER_RE.test(v) || DECIMAL_RE.test(v) || DECIMAL_COMMA_RE.test(v))) {
+    if (values.some(v => LEADING_ZERO_RE.test(v))) return 'identifier';
+    const integers = values.every(v => INTEGER_RE.test(v));
+    if (integers && allUnique && isIdHeader(header)) return 'identifier';
+    return integers ? 'integer' : 'decimal';
+  }
+
+  if (values.every(isDateLike)) return 'date';
+
+  // Unique, space-free tokens containing digits look like codes (e.g. "INV-00042").
+  if (allUnique && values.every(v => !/\s/.test(v) && /\d/.test(v))) return 'identifier';
+  if (allUnique && isIdHeader(header)) return 'identifier';
+
+  return 'categorical';
+};
+
+/** Converts a raw text cell to its typed value. Empty cells become null. */
+export const convertValue = (raw: string | undefined, type: ColumnType): any => {
+  if (isNull(raw)) return null;
+  const value = raw!.trim();
+  switch (type) {
+    case 'integer':
+    case 'decimal': {
+      const normalized = DECIMAL_COMMA_RE.test(value) && !INTEGER_RE.test(value)
+        ? value.replace(/\./g, '').replace(',', '.')
+        : value.replace(/,/g, '');
+      const n = Number(normalized);
+      return Number.isFinite(n) ? n : value;
+    }
+    case 'boolean': {
+      const lower = value.toLowerCase();
+      if (lower === 'true' || lower === 'yes' || lower === '1') return true;
+      if (lower === 'false' || lower === 'no' || lower === '0') return false;
+      return value;
+    }
+    default:
+      return value;
+  }
+};
+
+/** Makes header names non-empty and unique ("Column 3", "amount_2"). */
+export const normalizeHeaders = (raw: string[]): string[] => {
+  const used = new Set<string>();
+  return raw.map((h, i) => {
+    const base = (h ?? '').trim() || `Column ${i + 1}`;
+    let name = base;
+    // A header may already be called "amount_2", so keep counting until the name is free.
+    for (let n = 2; used.has(name); n++) name = `${base}_${n}`;
+    used.add(name);
+    return name;
+  });
+};
+
+export const inferColumnTypes = (headers: string[], rows: string[][]): ColumnType[] =>
+  headers.map((h, i) => inferColumnType(h, rows.map(r => r[i])));
+
+/**
+ * Turns parsed records into a Dataset using the chosen header row and column types.
+ * Records above the header row are discarded.
+ */
+export const buildDataset = (
+  name: string,
+  records: string[][],
+  headerRow: number,
+  columnTypes: ColumnType[]
+): Dataset => {
+  const columns = normalizeHeaders(records[headerRow] ?? []);
+  const data: DataRow[] = records
+    .slice(headerRow + 1)
+    .filter(r => r.some(v => !isNull(v)))
+    .map(r => {
+      const row: DataRow = {};
+      columns.forEach((col, i) => {
+        row[col] = convertValue(r[i], columnTypes[i] ?? 'categorical');
+      });
+      return row;
+    });
+
+  const types: Record<string, ColumnType> = {};
+  columns.forEach((col, i) => { types[col] = columnTypes[i] ?? 'categorical'; });
+
+  return { id: Math.random().toString(36).substr(2, 9), name, columns, data, columnTypes: types };
+};
@@ -0,0 +1,134 @@
+import { Dataset, DatasetUpload, DatasetVersion } from "../types";
+import { applyApplicableTransforms } from "./transforms";
+
+// --- Uploads of the same file kept as versions of one dataset ---
+
+// Share of the columns of both files that must be common for an upload to count as a new version;
+// lower when the file names match apart from dates and numbers.
+const MATCH_RATIO = 0.8;
+const SAME_NAME_MATCH_RATIO = 0.5;
+
+const normalize = (column: string) => column.trim().toLowerCase();
+
+/** Columns both sets have, as a share of all their columns; case and surrounding spaces are ignored. */
+const schemaOverlap = (a: string[], b: string[]): number => {
+  const left = new Set(a.map(normalize));
+  const right = new Set(b.map(normalize));
+  const shared = [...left].filter(c => right.has(c)).length;
+  return shared / Math.max(1, left.size + right.size - shared);
+};
+
+// "sales-2024-03.csv" and "Sales 2024_04.csv" both become "sales".
+const fileStem = (name: string) =>
+  name.replace(/\.[a-z0-9]+$/i, '').replace(/[\d_\-\s.]+/g, ' ').trim().toLowerCase();
+
+/**
+ * The loaded upload a new file is another version of: the one sharing most of its columns, preferring the
+ * same file name once dates and numbers are removed. Columns are compared as uploaded, before transform steps.
+ * Null when no dataset shares enough columns; joins never match.
+ */
+export const findVersionTarget = (imported: Dataset, datasets: Dataset[]): Dataset | null => {
+  const stem = fileStem(imported.upload?.fileName ?? imported.name);
+  let best: Dataset | null = null;
+  let bestScore = 0;
+  for (const d of datasets) {
+    if (d.derivedFrom) continue;
+    const overlap = schemaOverlap(imported.columns, d.original?.columns ?? d.columns);
+    const sameName = fileStem(d.upload?.fileName ?? d.name) === stem;
+    if (overlap < (sameName ? SAME_NAME_MATCH_RATIO : MATCH_RATIO)) continue;
+    const score = overlap + (sameName ? 1 : 0);
+    // Ties go to the dataset loaded last.
+    if (score >= bestScore) {
+      best = d;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+const versionOf = (dataset: Dataset): DatasetVersion => ({
+  columns: dataset.columns,
+  data: dataset.data,
+  columnTypes: dataset.columnTypes,
+  sample: dataset.sample,
+  upload: dataset.upload,
+  recipe: dataset.recipe,
+  original: dataset.original
+});
+
+/**
+ * The dataset with a new upload as its latest version. The current rows, as transformed, are kept as the
+ * last earlier version, and the transform steps that still apply are replayed on the new rows. The others
+ * end up in skippedSteps for review.
+ */
+export const addVersion = (current: Dataset, imported: Dataset): Dataset => {
+  const { recipe, original, scope, skippedSteps, ...rest } = current;
+  const next: Dataset = {
+    ...rest,
+    columns: imported.columns,
+    data: imported.data,
+    columnTypes: imported.columnTypes,
+    sample: imported.sample,
+    upload: imported.upload,
+    versions: [...(current.versions ?? []), versionOf(current)]
+  };
+  if (!recipe?.length) return next;
+  const { dataset, skipped } = applyApplicableTransforms(next, recipe);
+  return skipped.length > 0 ? { ...dataset, skippedSteps: skipped.map(e => ({ step: recipe[e.stepIndex!], error: e.message })) } : dataset;
+};
+
+export interface VersionEntry {
+  number: number; // 1 for the first upload
+  upload?: DatasetUpload;
+  rows: number;
+  columns: number;
+}
+
+/** Every version of the dataset, oldest first; the last one is the dataset itself. */
+export const listVersions = (dataset: Dataset): VersionEntry[] =>
+  [...(dataset.versions ?? []), dataset].map((v, i) => ({
+    number: i + 1,
+    upload: v.upload,
+    rows: v.sample?.totalRows ?? v.data.length,
+    columns: v.columns.length
+  }));
+
+export const versionName = (dataset: Dataset, number: number) => `${dataset.name} (version ${number})`;
+
+/** A version as a dataset of its own, so it can be profiled, compared and queried. The latest is the dataset itself. */
+export const versionDataset = (dataset: Dataset, number: number): Dataset => {
+  const versions = dataset.versions ?? [];
+  if (number > versions.length) return dataset;
+  return {
+    ...versions[number - 1],
+    id: `${dataset.id}@${number}`,
+    name: versionName(dataset, number),
+    columnPolicies: dataset.columnPolicies
+  };
+};
+
+/**
+ * Undoes a version match: the previous upload becomes the dataset's rows again, and the latest upload is
+ * returned as a dataset of its own (named after its file; callers make the name unique).
+ */
+export const detachLatestVersion = (dataset: Dataset): { restored: Dataset; detached: Dataset } => {
+  const versions = dataset.versions ?? [];
+  if (versions.length === 0) throw new Error(`${dataset.name} has no earlier version`);
+  const { versions: _, recipe, original, skippedSteps, ...rest } = dataset;
+  const { recipe: previousRecipe, original: previousOriginal, ...previous } = versions[versions.length - 1];
+  return {
+    restored: {
+      ...rest,
+      ...previous,
+      ...(previousRecipe ? { recipe: previousRecipe, original: previousOriginal } : {}),
+      ...(versions.length > 1 ? { versions: versions.slice(0, -1) } : {})
+    },
+    detached: {
+      ...rest,
+      id: Math.random().toString(36).substr(2, 9),
+      name: dataset.upload?.fileName ?? dataset.name,
+      ...(recipe ? { recipe, original } : {}),
+      ...(skippedSteps ? { skippedSteps } : {})
+    }
+  };
+};
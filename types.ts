@@ -3,23 +3,331 @@ export interface DataRow {
   [key: string]: any;
 }
 
+export type ColumnType = 'integer' | 'decimal' | 'boolean' | 'date' | 'categorical' | 'identifier';
+
+export type Delimiter = ',' | ';' | '\t' | '|';
+
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export type ImportFormat = 'delimited' | 'excel' | 'json';
+
+// A parsed file awaiting confirmation in the import preview.
+export interface ImportSource {
+  fileName: string;
+  format: ImportFormat;
+  records: string[][];
+  text?: string; // Kept for delimited files so the delimiter can be changed in the preview
+  delimiter?: Delimiter;
+  encoding?: TextEncoding;
+  sheetNames?: string[]; // Excel only
+  sheet?: string;
+  readSheet?: (sheet: string) => string[][];
+  file?: File; // Kept when only the head was read, so the full file can be streamed on import
+  partial?: boolean; // `records` and `text` cover only the start of the file
+}
+
+export type JoinType = 'inner' | 'left' | 'full';
+
+export interface JoinDefinition {
+  leftId: string;
+  rightId: string;
+  type: JoinType;
+  keys: { left: string; right: string }[];
+}
+
 export interface Dataset {
   name: string;
   columns: string[];
   data: DataRow[];
   id: string;
+  columnTypes?: Record<string, ColumnType>;
+  derivedFrom?: JoinDefinition; // Set on datasets produced by a join
+  sample?: DatasetSample; // Set when the file was too large to keep every row
+  recipe?: TransformStep[]; // Transform steps applied so far, in order
+  columnPolicies?: Record<string, ColumnPolicy>; // Overrides of the default policy (mask for PII, send otherwise)
+  original?: DatasetSnapshot; // The rows before the first step; undo replays the recipe from here
+  scope?: QueryFilter[]; // Set on the subset chat questions run on while Data Table filters are active
+  upload?: DatasetUpload; // The file the current rows came from; unset on joins
+  versions?: DatasetVersion[]; // Earlier uploads of the same file, oldest first; the dataset holds the latest
+  skippedSteps?: SkippedStep[]; // Recipe steps that no longer applied to the latest upload, kept for review
+}
+
+export interface DatasetSnapshot {
+  columns: string[];
+  data: DataRow[];
+  columnTypes?: Record<string, ColumnType>;
+  sample?: DatasetSample;
+}
+
+export interface DatasetUpload {
+  fileName: string;
+  uploadedAt: Date;
+}
+
+// An earlier upload kept when a file with a matching schema was recognized as a new version.
+export interface DatasetVersion extends DatasetSnapshot {
+  upload?: DatasetUpload; // Unset for datasets loaded before versions were tracked
+  recipe?: TransformStep[]; // The version's own transform steps, restored if a later version is detached
+  original?: DatasetSnapshot;
+}
+
+// A recipe step left out when it failed on a new version's rows.
+export interface SkippedStep {
+  step: TransformStep;
+  error: string; // Names the step by its place in the recipe it came from
+}
+
+// `data` of a sampled dataset holds only the sample; the profile covers every row of the file.
+export interface DatasetSample {
+  totalRows: number;
+  stratifiedBy?: string; // Column whose value mix the sample preserves; unset for a simple random sample
+  profile?: ColumnProfile[]; // Dropped once transforms change the sampled rows
+}
+
+// Other loaded datasets the user chose to describe to the model alongside the active one.
+export interface WorkspaceContext {
+  datasets: Dataset[];
+  relationships: string[]; // Human-readable join descriptions, e.g. "orders.customer_id = customers.id (left join)"
+  comparison?: VersionComparison; // Set while the user asks about the changes between two versions of the active dataset
 }
 
-export type ChartType = 'bar' | 'line' | 'pie' | 'scatter' | 'none';
+export interface VersionComparison {
+  from: string; // Names of the compared versions; they are also in `datasets` unless one is the active dataset
+  to: string;
+  changes: string[]; // The diff statistics, one line each
+}
+
+export type ChartType =
+  | 'bar' | 'stackedBar' | 'groupedBar' | 'line' | 'area' | 'combo' | 'pie'
+  | 'scatter' | 'histogram' | 'boxPlot' | 'heatmap' | 'forecast' | 'none';
+
+// A clicked chart element: its index in chartData and, for a bar of a multi-series chart, the series key.
+export interface ChartSelection {
+  index: number;
+  seriesKey?: string;
+}
+
+// One plotted measure in a multi-series chart. Rows of chartData hold each series' value under `key`.
+export interface ChartSeries {
+  key: string;
+  label: string;
+  axis?: 'left' | 'right'; // Combo charts: bars on the left axis, lines on the right
+}
+
+export type ProfileWarningKind = 'mixedTypes' | 'outliers' | 'constant' | 'highNulls' | 'highCardinality';
+
+export interface ProfileWarning {
+  kind: ProfileWarningKind;
+  message: string;
+}
+
+export type PiiKind = 'email' | 'phone' | 'name' | 'cardNumber' | 'nationalId';
+
+// What leaves the browser for a column: raw values, masked values, salted hashes, or nothing at all.
+export type ColumnPolicy = 'send' | 'mask' | 'hash' | 'exclude';
+
+export interface ColumnProfile {
+  column: string;
+  type: ColumnType;
+  pii?: PiiKind; // Detected personal data; such columns are masked by default
+  count: number; // Non-null values
+  nullCount: number;
+  distinctCount: number;
+  min?: number | string; // Strings for date columns (ISO)
+  max?: number | string;
+  mean?: number;
+  stdDev?: number;
+  quantiles?: { p05: number; p25: number; p50: number; p75: number; p95: number };
+  topCategories: { value: string; count: number }[];
+  histogram: { label: string; count: number }[];
+  outlierCount?: number;
+  warnings: ProfileWarning[];
+}
+
+export type ColumnFilter =
+  | { kind: 'range'; min?: number; max?: number }
+  | { kind: 'categories'; values: string[] }
+  | { kind: 'dateRange'; from?: string; to?: string };
+
+// Sorting, filtering and layout of the Data Table tab. The filtered rows are also what gets exported.
+export interface TableViewState {
+  search: string;
+  sort?: { column: string; direction: 'asc' | 'desc' };
+  filters: Record<string, ColumnFilter>;
+  columnOrder: string[];
+  hiddenColumns: string[];
+  columnWidths: Record<string, number>;
+}
+
+export type Aggregation = 'sum' | 'mean' | 'count' | 'min' | 'max' | 'median';
+
+export type FilterOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains' | 'in';
+
+export interface QueryFilter {
+  column: string;
+  operator: FilterOperator;
+  value?: string | number;
+  values?: (string | number)[]; // Only used by the 'in' operator
+}
+
+export type DateUnit = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+// 'auto' picks seasonal decomposition when there are two full seasons, else exponential smoothing.
+export type ForecastMethod = 'auto' | 'movingAverage' | 'exponentialSmoothing' | 'seasonal';
+
+export type AnomalyMethod = 'zscore' | 'iqr';
+
+export type FillStrategy = 'value' | 'mean' | 'median' | 'mode' | 'previous';
+
+// One recorded step of a dataset's transformation recipe. Steps refer to columns by name, so a
+// recipe can be replayed on another file with the same columns.
+export type TransformStep =
+  | { kind: 'rename'; column: string; to: string }
+  | { kind: 'changeType'; column: string; type: ColumnType }
+  | { kind: 'filter'; filter: QueryFilter; mode: 'keep' | 'remove' }
+  | { kind: 'fillNulls'; column: string; strategy: FillStrategy; value?: string }
+  | { kind: 'dropNulls'; columns: string[] } // Empty means a null in any column
+  | { kind: 'formula'; name: string; expression: string }
+  | { kind: 'split'; column: string; separator: string; into: string[] }
+  | { kind: 'merge'; columns: string[]; separator: string; name: string }
+  | { kind: 'dateBucket'; column: string; unit: DateUnit; name: string }
+  | { kind: 'pivot'; index: string; pivotColumn: string; valueColumn: string; aggregation: Aggregation }
+  | { kind: 'unpivot'; idColumns: string[]; valueColumns: string[]; nameColumn: string; valueColumn: string }
+  | { kind: 'deduplicate'; columns: string[] } // Empty means whole rows
+  | { kind: 'dropColumns'; columns: string[] };
+
+export type TransformKind = TransformStep['kind'];
+
+// The model describes *how* to compute a chart; the local query engine computes the numbers.
+export interface QueryPlan {
+  dataset?: string; // Name of a context dataset to query instead of the active one
+  groupBy?: string;
+  aggregation: Aggregation;
+  valueColumn?: string; // Optional for 'count'
+  valueColumns?: string[]; // Several measures plotted as series; combo puts the first on the left axis
+  seriesBy?: string; // Splits each group into one series per value of this column
+  xColumn?: string; // Scatter only: raw (x, y) pairs, no aggregation
+  yColumn?: string;
+  columns?: string[]; // Heatmap only: numeric columns to correlate pairwise
+  bins?: number; // Histogram only
+  interval?: DateUnit; // Forecast only: groupBy is a date column resampled to this period; picked from the date span when omitted
+  horizon?: number; // Forecast only: periods to predict past the last one; 0 just flags anomalies
+  forecastMethod?: ForecastMethod;
+  anomalyMethod?: AnomalyMethod;
+  filters?: QueryFilter[];
+  sort?: { by: 'name' | 'value'; direction: 'asc' | 'desc' };
+  limit?: number;
+}
+
+export interface QueryStats {
+  rowsScanned: number;
+  rowsMatched: number;
+  groups: number;
+  sampleOf?: number; // Rows in the full file when the plan ran over a sample
+  forecast?: ForecastStats;
+}
+
+// How a forecast chart was produced; the method is the one actually used when 'auto' was asked for.
+export interface ForecastStats {
+  method: Exclude<ForecastMethod, 'auto'>;
+  interval: DateUnit;
+  seasonLength?: number; // Periods per season, for seasonal decomposition
+  horizon: number;
+  anomalies: number;
+  anomalyMethod: AnomalyMethod;
+  residualStdDev: number | null; // Of actual minus fitted; the band is ±1.96 of it, widening with the horizon
+}
+
+export type StatTestKind = 'tTest' | 'mannWhitney' | 'anova' | 'chiSquare' | 'pearson' | 'spearman' | 'regression';
+
+// A hypothesis test the model asked for; it runs locally over every record, like a query plan.
+export interface StatTestRequest {
+  test: StatTestKind;
+  dataset?: string; // Name of a context dataset to test instead of the active one
+  valueColumn?: string; // tTest, mannWhitney, anova: the numeric measure
+  groupColumn?: string; // tTest, mannWhitney, anova: the category that splits the records
+  groups?: string[]; // tTest, mannWhitney: the two groups to compare; the two largest when omitted
+  xColumn?: string; // pearson, spearman, regression: the predictor; chiSquare: the first category
+  yColumn?: string; // pearson, spearman, regression: the outcome; chiSquare: the second category
+  filters?: QueryFilter[];
+}
+
+export interface StatAssumption {
+  label: string;
+  status: 'met' | 'violated' | 'unchecked';
+  detail?: string;
+}
+
+export interface StatTestResult {
+  test: StatTestKind;
+  name: string; // e.g. "Welch's t-test"
+  hypothesis: string; // The null hypothesis in words
+  assumptions: StatAssumption[];
+  statistic: { name: string; value: number };
+  df?: number[]; // Degrees of freedom: one value, or two for F
+  pValue: number;
+  effectSize: { name: string; value: number; magnitude: 'negligible' | 'small' | 'medium' | 'large' };
+  n: number; // Records used, after filters and dropping missing values
+  groups?: { name: string; n: number; mean?: number; median?: number }[];
+  regression?: { slope: number; intercept: number; slopeStdError: number; rSquared: number };
+  alpha: number; // Significance level the verdict uses
+}
 
 export interface AIResponse {
   summary: string;
   insight: string;
   chartType: ChartType;
-  chartData: any[]; // Now using a unified structure: { name: string, value: number } or { x: number, y: number }
+  // Computed locally from queryPlan. Shape depends on chartType: { name, value } groups, { name, [series.key] }
+  // rows when `series` is set, { x, y } points for scatter, { x, y, value } cells for heatmap and
+  // { name, min, q1, median, q3, max } boxes for boxPlot and { name, actual, fitted, forecast, lower, upper,
+  // anomaly, partial } periods for forecast.
+  chartData: any[];
+  series?: ChartSeries[];
+  queryPlan?: QueryPlan;
+  queryStats?: QueryStats;
+  transforms?: TransformStep[]; // Dataset changes asked for in chat; applied only once the user confirms
   xAxisLabel?: string;
   yAxisLabel?: string;
   suggestion?: string;
+  trace?: ToolTraceStep[]; // Local tool calls the model made before answering, in order
+  statTest?: StatTestRequest;
+  statResult?: StatTestResult; // Computed locally from statTest
+}
+
+// One call the model made to a local data tool while working on a question.
+export interface ToolTraceStep {
+  tool: string;
+  args: Record<string, any>;
+  result: string; // JSON, exactly as returned to the model
+  error?: boolean;
+}
+
+export interface ValidationIssue {
+  path: string; // e.g. "queryPlan.filters[0].operator"
+  message: string;
+}
+
+// Why an analysis could not be shown, kept on the message so the chat can render it after a reload.
+export interface AnalysisError {
+  kind: 'provider' | 'invalid_response' | 'chart' | 'cancelled';
+  title: string;
+  message: string;
+  issues?: ValidationIssue[];
+}
+
+// Presentation options from the chart editor, layered over whatever ChartView would draw by default.
+export interface ChartStyle {
+  colors?: string[]; // One per series (or per slice for pie)
+  showLegend?: boolean;
+  showDataLabels?: boolean;
+}
+
+// An edited chart saved on a message. The response carries the edited type, plan, labels and recomputed data.
+export interface ChartVersion {
+  id: string;
+  createdAt: Date;
+  response: AIResponse;
+  style: ChartStyle;
 }
 
 export interface Message {
@@ -27,10 +335,84 @@ export interface Message {
   role: 'user' | 'assistant';
   content: string;
   response?: AIResponse;
+  error?: AnalysisError;
+  chartVersions?: ChartVersion[]; // Edits of the model's chart, oldest first
+  activeChartVersionId?: string; // Unset means the model's original chart
+  transformsApplied?: boolean; // The response's transforms were applied to the dataset
+  parentId?: string | null; // Previous message in this branch; null for the first question
+  scope?: string[]; // Data Table filters a question was limited to, described
   timestamp: Date;
 }
 
+// A chat answer pinned to the Dashboard tab. Keeps its query so it can be recomputed on newer data.
+export interface PinnedInsight {
+  id: string;
+  title: string;
+  note: string;
+  question: string;
+  response: AIResponse;
+  style?: ChartStyle;
+  datasetName: string;
+  width: 1 | 2; // Grid columns spanned
+  height: 'sm' | 'md' | 'lg';
+  pinnedAt: Date;
+  refreshedAt?: Date;
+}
+
+export type AutoInsightKind = 'correlation' | 'outliers' | 'trend' | 'skew' | 'imbalance';
+
+// A finding from the local first-look pass run when a dataset is added, shown as a card in the empty chat.
+export interface AutoInsight {
+  id: string;
+  kind: AutoInsightKind;
+  score: number; // 0–1, higher is more notable; cards are ranked by it
+  title: string;
+  detail: string;
+  question: string; // Prefilled in the chat box by "dig deeper"
+  response: AIResponse;
+}
+
 export enum AppTheme {
   LIGHT = 'light',
   DARK = 'dark'
 }
+
+// Persisted session record. Datasets are stored separately and referenced by id.
+export interface Session {
+  id: string;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+  datasetIds: string[];
+  datasetNames: string[];
+  activeDatasetId: string | null;
+  contextDatasetIds: string[];
+  messages: Message[]; // Every branch of the conversation
+  activeLeafId?: string | null; // Last message of the branch on screen
+  pins: PinnedInsight[];
+}
+
+export type ProviderId = 'gemini' | 'openai' | 'ollama' | 'mock';
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  model: string;
+  temperature: number;
+  baseUrl?: string; // OpenAI-compatible and Ollama endpoints
+  apiKey?: string; // Overrides the build-time Gemini key; required by most OpenAI-compatible hosts
+  rememberApiKey?: boolean; // Store apiKey with the preferences; otherwise it is kept for the browser tab only
+  contextBudget?: number; // Prompt size limit in estimated tokens; older turns are summarized to fit
+  useTools?: boolean; // Let the model call local data tools before answering; on unless set to false
+}
+
+export interface PrivacySettings {
+  schemaOnly: boolean; // Send column names, types and aggregate statistics, never rows
+  previewBeforeSend: boolean; // Show the outgoing payload and wait for confirmation
+}
+
+export interface Preferences {
+  theme: AppTheme;
+  lastSessionId?: string;
+  provider: ProviderSettings;
+  privacy?: PrivacySettings;
+}